@@ -0,0 +1,19 @@
+-- Article revisions table
+CREATE TABLE article_revisions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    article_id UUID NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+    revision_number INTEGER NOT NULL CHECK (revision_number > 0),
+    title VARCHAR(200) NOT NULL,
+    content TEXT NOT NULL,
+    excerpt VARCHAR(500),
+    tags TEXT[] DEFAULT '{}',
+    seo_title VARCHAR(200),
+    seo_description VARCHAR(300),
+    reason VARCHAR(20) NOT NULL CHECK (reason IN ('create', 'update', 'publish', 'restore')),
+    restored_from INTEGER,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(article_id, revision_number)
+);
+
+CREATE INDEX idx_article_revisions_article_id ON article_revisions(article_id);
\ No newline at end of file
@@ -0,0 +1,11 @@
+DROP INDEX IF EXISTS idx_articles_scheduled_at;
+
+UPDATE articles
+SET status = 'published', published_at = scheduled_at
+WHERE status = 'scheduled';
+
+ALTER TABLE articles DROP COLUMN IF EXISTS scheduled_at;
+
+ALTER TABLE articles DROP CONSTRAINT IF EXISTS articles_status_check;
+ALTER TABLE articles ADD CONSTRAINT articles_status_check
+    CHECK (status IN ('draft', 'published', 'archived'));
\ No newline at end of file
@@ -0,0 +1,13 @@
+-- Allow articles to wait in a scheduled state until their publish time
+ALTER TABLE articles DROP CONSTRAINT IF EXISTS articles_status_check;
+ALTER TABLE articles ADD CONSTRAINT articles_status_check
+    CHECK (status IN ('draft', 'scheduled', 'published', 'archived'));
+
+ALTER TABLE articles ADD COLUMN scheduled_at TIMESTAMP WITH TIME ZONE;
+
+-- Articles previously "published" with a future date are moved into the scheduled state
+UPDATE articles
+SET status = 'scheduled', scheduled_at = published_at, published_at = NULL
+WHERE status = 'published' AND published_at > CURRENT_TIMESTAMP;
+
+CREATE INDEX idx_articles_scheduled_at ON articles(scheduled_at) WHERE status = 'scheduled';
\ No newline at end of file
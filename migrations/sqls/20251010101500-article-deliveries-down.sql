@@ -0,0 +1,4 @@
+DROP TABLE IF EXISTS article_deliveries;
+
+ALTER TABLE articles DROP COLUMN IF EXISTS social_auto_post;
+ALTER TABLE articles DROP COLUMN IF EXISTS notify_subscribers;
\ No newline at end of file
@@ -0,0 +1,28 @@
+-- Distribution options chosen at publish time, kept so scheduled articles honour them later
+ALTER TABLE articles ADD COLUMN notify_subscribers BOOLEAN DEFAULT FALSE;
+ALTER TABLE articles ADD COLUMN social_auto_post BOOLEAN DEFAULT FALSE;
+
+-- Article deliveries table (newsletter notifications and social posts)
+CREATE TABLE article_deliveries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    article_id UUID NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+    channel VARCHAR(20) NOT NULL CHECK (channel IN ('newsletter', 'social')),
+    provider VARCHAR(50) NOT NULL,
+    status VARCHAR(20) NOT NULL CHECK (status IN ('pending', 'processing', 'sent', 'failed')),
+    attempts INTEGER DEFAULT 0,
+    external_id VARCHAR(255),
+    external_url VARCHAR(1000),
+    last_error TEXT,
+    available_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    locked_at TIMESTAMP WITH TIME ZONE,
+    sent_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(article_id, channel, provider)
+);
+
+CREATE INDEX idx_article_deliveries_article_id ON article_deliveries(article_id);
+CREATE INDEX idx_article_deliveries_pending ON article_deliveries(available_at) WHERE status = 'pending';
+
+CREATE TRIGGER update_article_deliveries_updated_at BEFORE UPDATE ON article_deliveries
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
\ No newline at end of file
@@ -0,0 +1,4 @@
+DROP INDEX IF EXISTS idx_articles_search_vector;
+DROP TRIGGER IF EXISTS update_articles_search_vector ON articles;
+DROP FUNCTION IF EXISTS articles_search_vector_update();
+ALTER TABLE articles DROP COLUMN IF EXISTS search_vector;
\ No newline at end of file
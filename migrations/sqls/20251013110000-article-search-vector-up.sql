@@ -0,0 +1,26 @@
+-- Weighted full-text search vector: title and tags (A) rank above excerpt (B) and body text (C)
+ALTER TABLE articles ADD COLUMN search_vector tsvector;
+
+CREATE OR REPLACE FUNCTION articles_search_vector_update()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.search_vector :=
+        setweight(to_tsvector('english', COALESCE(NEW.title, '')), 'A') ||
+        setweight(to_tsvector('english', COALESCE(array_to_string(NEW.tags, ' '), '')), 'A') ||
+        setweight(to_tsvector('english', COALESCE(NEW.excerpt, '')), 'B') ||
+        setweight(to_tsvector('english', regexp_replace(COALESCE(NEW.content, ''), '<[^>]*>', ' ', 'g')), 'C');
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER update_articles_search_vector BEFORE INSERT OR UPDATE OF title, tags, excerpt, content ON articles
+    FOR EACH ROW EXECUTE FUNCTION articles_search_vector_update();
+
+-- Backfill existing articles
+UPDATE articles SET search_vector =
+    setweight(to_tsvector('english', COALESCE(title, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(array_to_string(tags, ' '), '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(excerpt, '')), 'B') ||
+    setweight(to_tsvector('english', regexp_replace(COALESCE(content, ''), '<[^>]*>', ' ', 'g')), 'C');
+
+CREATE INDEX idx_articles_search_vector ON articles USING GIN(search_vector);
\ No newline at end of file
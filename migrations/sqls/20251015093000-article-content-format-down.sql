@@ -0,0 +1,22 @@
+DROP TRIGGER update_articles_search_vector ON articles;
+
+CREATE OR REPLACE FUNCTION articles_search_vector_update()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.search_vector :=
+        setweight(to_tsvector('english', COALESCE(NEW.title, '')), 'A') ||
+        setweight(to_tsvector('english', COALESCE(array_to_string(NEW.tags, ' '), '')), 'A') ||
+        setweight(to_tsvector('english', COALESCE(NEW.excerpt, '')), 'B') ||
+        setweight(to_tsvector('english', regexp_replace(COALESCE(NEW.content, ''), '<[^>]*>', ' ', 'g')), 'C');
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER update_articles_search_vector BEFORE INSERT OR UPDATE OF title, tags, excerpt, content ON articles
+    FOR EACH ROW EXECUTE FUNCTION articles_search_vector_update();
+
+ALTER TABLE article_revisions DROP COLUMN IF EXISTS content_format;
+
+ALTER TABLE articles DROP COLUMN IF EXISTS toc;
+ALTER TABLE articles DROP COLUMN IF EXISTS content_html;
+ALTER TABLE articles DROP COLUMN IF EXISTS content_format;
\ No newline at end of file
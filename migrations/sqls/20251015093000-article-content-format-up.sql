@@ -0,0 +1,27 @@
+-- Articles store Markdown or JSON blocks in content; content_html is the sanitized rendering.
+-- Existing rows predate the pipeline and hold raw HTML.
+ALTER TABLE articles ADD COLUMN content_format VARCHAR(20) NOT NULL DEFAULT 'html'
+    CHECK (content_format IN ('markdown', 'blocks', 'html'));
+ALTER TABLE articles ALTER COLUMN content_format SET DEFAULT 'markdown';
+ALTER TABLE articles ADD COLUMN content_html TEXT;
+ALTER TABLE articles ADD COLUMN toc JSONB NOT NULL DEFAULT '[]';
+
+ALTER TABLE article_revisions ADD COLUMN content_format VARCHAR(20) NOT NULL DEFAULT 'html'
+    CHECK (content_format IN ('markdown', 'blocks', 'html'));
+
+-- Index the rendered text rather than the Markdown or JSON source
+CREATE OR REPLACE FUNCTION articles_search_vector_update()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.search_vector :=
+        setweight(to_tsvector('english', COALESCE(NEW.title, '')), 'A') ||
+        setweight(to_tsvector('english', COALESCE(array_to_string(NEW.tags, ' '), '')), 'A') ||
+        setweight(to_tsvector('english', COALESCE(NEW.excerpt, '')), 'B') ||
+        setweight(to_tsvector('english', regexp_replace(COALESCE(NEW.content_html, NEW.content, ''), '<[^>]*>', ' ', 'g')), 'C');
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER update_articles_search_vector ON articles;
+CREATE TRIGGER update_articles_search_vector BEFORE INSERT OR UPDATE OF title, tags, excerpt, content, content_html ON articles
+    FOR EACH ROW EXECUTE FUNCTION articles_search_vector_update();
\ No newline at end of file
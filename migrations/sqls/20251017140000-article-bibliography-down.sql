@@ -0,0 +1,3 @@
+DROP TABLE IF EXISTS article_bibliography_entries;
+
+ALTER TABLE articles DROP COLUMN IF EXISTS citation_style;
\ No newline at end of file
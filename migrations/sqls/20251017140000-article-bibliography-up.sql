@@ -0,0 +1,20 @@
+-- Citation style used to render in-text citations and the reference list
+ALTER TABLE articles ADD COLUMN citation_style VARCHAR(20) NOT NULL DEFAULT 'apa'
+    CHECK (citation_style IN ('apa', 'chicago', 'ieee'));
+
+-- Per-article bibliography imported from BibTeX
+CREATE TABLE article_bibliography_entries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    article_id UUID NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+    citation_key VARCHAR(200) NOT NULL,
+    entry_type VARCHAR(50) NOT NULL,
+    fields JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(article_id, citation_key)
+);
+
+CREATE INDEX idx_article_bibliography_entries_article_id ON article_bibliography_entries(article_id);
+
+CREATE TRIGGER update_article_bibliography_entries_updated_at BEFORE UPDATE ON article_bibliography_entries
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
\ No newline at end of file
@@ -0,0 +1,32 @@
+-- Series: creator-owned ordered collections of articles (multi-part tutorials, lecture notes)
+CREATE TABLE series (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    creator_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    title VARCHAR(200) NOT NULL,
+    slug VARCHAR(100) NOT NULL,
+    description TEXT,
+    cover_image_url VARCHAR(500),
+    seo_title VARCHAR(200),
+    seo_description VARCHAR(300),
+    is_premium BOOLEAN DEFAULT FALSE,
+    plan_id UUID REFERENCES subscription_plans(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(creator_id, slug)
+);
+
+-- An article belongs to at most one series. Positions are checked at the end of each
+-- statement so a whole series can be reordered with a single UPDATE.
+CREATE TABLE series_articles (
+    series_id UUID NOT NULL REFERENCES series(id) ON DELETE CASCADE,
+    article_id UUID NOT NULL UNIQUE REFERENCES articles(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL CHECK (position > 0),
+    added_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (series_id, article_id),
+    CONSTRAINT series_articles_position_unique UNIQUE (series_id, position) DEFERRABLE INITIALLY IMMEDIATE
+);
+
+CREATE INDEX idx_series_creator_id ON series(creator_id);
+
+CREATE TRIGGER update_series_updated_at BEFORE UPDATE ON series
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
\ No newline at end of file
@@ -0,0 +1,11 @@
+DROP TABLE IF EXISTS article_review_comments;
+DROP TABLE IF EXISTS article_reviews;
+DROP TABLE IF EXISTS publication_editors;
+DROP TABLE IF EXISTS creator_settings;
+DROP TABLE IF EXISTS article_authors;
+
+UPDATE articles SET status = 'draft' WHERE status IN ('in_review', 'changes_requested');
+
+ALTER TABLE articles DROP CONSTRAINT IF EXISTS articles_status_check;
+ALTER TABLE articles ADD CONSTRAINT articles_status_check
+    CHECK (status IN ('draft', 'scheduled', 'published', 'archived'));
\ No newline at end of file
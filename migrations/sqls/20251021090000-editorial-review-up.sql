@@ -0,0 +1,77 @@
+-- Review states sit between draft and publish
+ALTER TABLE articles DROP CONSTRAINT IF EXISTS articles_status_check;
+ALTER TABLE articles ADD CONSTRAINT articles_status_check
+    CHECK (status IN ('draft', 'in_review', 'changes_requested', 'scheduled', 'published', 'archived'));
+
+-- Ordered byline. articles.author_id stays the owning publication; every byline
+-- author may edit the article.
+CREATE TABLE article_authors (
+    article_id UUID NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL CHECK (position > 0),
+    added_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (article_id, user_id),
+    CONSTRAINT article_authors_position_unique UNIQUE (article_id, position) DEFERRABLE INITIALLY IMMEDIATE
+);
+
+CREATE INDEX idx_article_authors_user_id ON article_authors(user_id);
+
+INSERT INTO article_authors (article_id, user_id, position, added_at)
+SELECT id, author_id, 1, created_at FROM articles;
+
+-- Per-creator publication settings
+CREATE TABLE creator_settings (
+    creator_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    require_review BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TRIGGER update_creator_settings_updated_at BEFORE UPDATE ON creator_settings
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Editors who may review a creator's articles
+CREATE TABLE publication_editors (
+    creator_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    editor_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    added_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (creator_id, editor_id)
+);
+
+CREATE INDEX idx_publication_editors_editor_id ON publication_editors(editor_id);
+
+-- Review decisions apply to the revision that was reviewed; any later edit needs a new approval
+CREATE TABLE article_reviews (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    article_id UUID NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+    reviewer_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    decision VARCHAR(20) NOT NULL CHECK (decision IN ('approved', 'changes_requested')),
+    summary TEXT,
+    revision_number INTEGER NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_article_reviews_article_id ON article_reviews(article_id, created_at DESC);
+
+-- Inline comments anchored to a character range of the source at a given revision.
+-- The quoted text lets clients re-anchor the comment after the content changes.
+CREATE TABLE article_review_comments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    article_id UUID NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+    author_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    revision_number INTEGER NOT NULL,
+    anchor_start INTEGER NOT NULL CHECK (anchor_start >= 0),
+    anchor_end INTEGER NOT NULL,
+    quoted_text TEXT NOT NULL,
+    body TEXT NOT NULL,
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    resolved_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CHECK (anchor_end > anchor_start)
+);
+
+CREATE INDEX idx_article_review_comments_article_id ON article_review_comments(article_id, anchor_start);
+
+CREATE TRIGGER update_article_review_comments_updated_at BEFORE UPDATE ON article_review_comments
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
\ No newline at end of file
@@ -0,0 +1,3 @@
+DROP TABLE IF EXISTS metered_reads;
+
+ALTER TABLE creator_settings DROP COLUMN IF EXISTS metered_reads_per_month;
\ No newline at end of file
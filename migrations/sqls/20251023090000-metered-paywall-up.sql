@@ -0,0 +1,19 @@
+-- Metered paywall: creators can let readers open a number of premium articles per month
+-- before asking them to subscribe. 0 keeps premium articles fully gated.
+ALTER TABLE creator_settings
+    ADD COLUMN metered_reads_per_month INTEGER NOT NULL DEFAULT 0 CHECK (metered_reads_per_month >= 0);
+
+-- One row per premium article a reader opened through the meter. Readers are keyed by
+-- user id when signed in and by device id otherwise ('user:<id>' / 'device:<id>').
+-- Re-reading an article in the same month does not use up another read.
+CREATE TABLE metered_reads (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    creator_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    article_id UUID NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+    reader_key VARCHAR(150) NOT NULL,
+    period DATE NOT NULL,
+    read_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(creator_id, reader_key, period, article_id)
+);
+
+CREATE INDEX idx_metered_reads_period ON metered_reads(period);
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE users DROP COLUMN IF EXISTS avatar_media_id;
+ALTER TABLE articles DROP COLUMN IF EXISTS featured_image_id;
+
+DROP TABLE IF EXISTS media;
\ No newline at end of file
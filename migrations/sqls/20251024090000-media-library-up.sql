@@ -0,0 +1,31 @@
+-- Media library: images uploaded by creators, stored through a storage adapter.
+-- Each upload keeps its original file plus resized WebP variants listed in variants.
+CREATE TABLE media (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    creator_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    storage_key VARCHAR(500) NOT NULL UNIQUE,
+    url VARCHAR(1000) NOT NULL,
+    filename VARCHAR(255) NOT NULL,
+    mime_type VARCHAR(100) NOT NULL,
+    size_bytes INTEGER NOT NULL CHECK (size_bytes > 0),
+    width INTEGER NOT NULL CHECK (width > 0),
+    height INTEGER NOT NULL CHECK (height > 0),
+    alt_text VARCHAR(500),
+    caption TEXT,
+    -- Point of interest as fractions of width and height, used by the frontend when cropping
+    focal_x NUMERIC(4, 3) NOT NULL DEFAULT 0.5 CHECK (focal_x >= 0 AND focal_x <= 1),
+    focal_y NUMERIC(4, 3) NOT NULL DEFAULT 0.5 CHECK (focal_y >= 0 AND focal_y <= 1),
+    variants JSONB NOT NULL DEFAULT '[]',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_media_creator_created ON media(creator_id, created_at DESC);
+
+CREATE TRIGGER update_media_updated_at BEFORE UPDATE ON media
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Image fields reference media; the URL columns keep a copy of the chosen rendition
+-- so feeds, SEO tags and bylines can use them without a join.
+ALTER TABLE articles ADD COLUMN featured_image_id UUID REFERENCES media(id) ON DELETE SET NULL;
+ALTER TABLE users ADD COLUMN avatar_media_id UUID REFERENCES media(id) ON DELETE SET NULL;
\ No newline at end of file
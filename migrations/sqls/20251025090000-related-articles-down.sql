@@ -0,0 +1,6 @@
+ALTER TABLE creator_settings DROP COLUMN IF EXISTS related_across_creators;
+
+DROP TABLE IF EXISTS related_articles;
+DROP TABLE IF EXISTS term_document_counts;
+DROP TABLE IF EXISTS article_terms;
+DROP TABLE IF EXISTS article_vectors;
\ No newline at end of file
@@ -0,0 +1,41 @@
+-- Related articles: each published article gets a TF-IDF vector of its title and body.
+-- distinct_terms lists every term in the article so document frequencies can be
+-- adjusted when it is re-indexed or withdrawn.
+CREATE TABLE article_vectors (
+    article_id UUID PRIMARY KEY REFERENCES articles(id) ON DELETE CASCADE,
+    distinct_terms TEXT[] NOT NULL DEFAULT '{}',
+    indexed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- The highest-weighted terms of each vector (L2-normalised), looked up by term to
+-- find articles sharing vocabulary
+CREATE TABLE article_terms (
+    article_id UUID NOT NULL REFERENCES article_vectors(article_id) ON DELETE CASCADE,
+    term VARCHAR(64) NOT NULL,
+    weight REAL NOT NULL,
+    PRIMARY KEY (term, article_id)
+);
+
+CREATE INDEX idx_article_terms_article_id ON article_terms(article_id);
+
+-- Number of indexed articles containing each term, for inverse document frequency
+CREATE TABLE term_document_counts (
+    term VARCHAR(64) PRIMARY KEY,
+    document_count INTEGER NOT NULL DEFAULT 0
+);
+
+-- Precomputed neighbours, kept in both directions so older articles pick up newer ones
+CREATE TABLE related_articles (
+    article_id UUID NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+    related_article_id UUID NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+    score REAL NOT NULL,
+    computed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (article_id, related_article_id),
+    CHECK (article_id <> related_article_id)
+);
+
+CREATE INDEX idx_related_articles_related_id ON related_articles(related_article_id);
+
+-- Creators can keep their articles out of other creators' recommendations (and
+-- other creators' articles off their own pages)
+ALTER TABLE creator_settings ADD COLUMN related_across_creators BOOLEAN NOT NULL DEFAULT TRUE;
\ No newline at end of file
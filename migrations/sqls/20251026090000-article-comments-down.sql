@@ -0,0 +1,6 @@
+DROP TABLE IF EXISTS comment_reactions;
+DROP TABLE IF EXISTS article_comments;
+
+ALTER TABLE creator_settings
+    DROP COLUMN IF EXISTS comment_flag_keywords,
+    DROP COLUMN IF EXISTS comments_access;
\ No newline at end of file
@@ -0,0 +1,42 @@
+-- Reader discussion on published articles. Creators choose who may comment and which
+-- words send a comment to the moderation queue.
+ALTER TABLE creator_settings
+    ADD COLUMN comments_access VARCHAR(20) NOT NULL DEFAULT 'everyone'
+        CHECK (comments_access IN ('everyone', 'subscribers', 'disabled')),
+    ADD COLUMN comment_flag_keywords TEXT[] NOT NULL DEFAULT '{}';
+
+-- Threaded comments. Removed comments keep their row (with the body cleared) so replies
+-- stay attached to the thread. flag_reasons records why a comment was held for moderation.
+CREATE TABLE article_comments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    article_id UUID NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+    parent_id UUID REFERENCES article_comments(id) ON DELETE CASCADE,
+    author_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    body TEXT NOT NULL,
+    depth INTEGER NOT NULL DEFAULT 0 CHECK (depth >= 0),
+    status VARCHAR(20) NOT NULL DEFAULT 'published'
+        CHECK (status IN ('pending', 'published', 'hidden', 'deleted')),
+    flag_reasons TEXT[] NOT NULL DEFAULT '{}',
+    pinned_at TIMESTAMP WITH TIME ZONE,
+    moderated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    moderated_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_article_comments_article_id ON article_comments(article_id, created_at);
+CREATE INDEX idx_article_comments_parent_id ON article_comments(parent_id);
+CREATE INDEX idx_article_comments_author_id ON article_comments(author_id, created_at DESC);
+CREATE INDEX idx_article_comments_pending ON article_comments(article_id) WHERE status = 'pending';
+
+CREATE TRIGGER update_article_comments_updated_at BEFORE UPDATE ON article_comments
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- One row per reader and reaction; counts are aggregated when threads are read
+CREATE TABLE comment_reactions (
+    comment_id UUID NOT NULL REFERENCES article_comments(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    reaction VARCHAR(20) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (comment_id, user_id, reaction)
+);
\ No newline at end of file
@@ -0,0 +1,2 @@
+DROP TABLE IF EXISTS tag_synonyms;
+DROP TABLE IF EXISTS tags;
\ No newline at end of file
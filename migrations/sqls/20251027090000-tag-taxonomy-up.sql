@@ -0,0 +1,55 @@
+-- Per-creator tag registry. articles.tags keeps holding canonical tag names, so feeds,
+-- search facets and related articles keep working on the array.
+CREATE TABLE tags (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    creator_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(50) NOT NULL,
+    slug VARCHAR(100) NOT NULL,
+    description TEXT,
+    seo_title VARCHAR(200),
+    seo_description VARCHAR(300),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (creator_id, slug)
+);
+
+CREATE TRIGGER update_tags_updated_at BEFORE UPDATE ON tags
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Alternative spellings that resolve to a tag ("ML" -> "Machine Learning"). Merged and
+-- renamed tags leave their old slug here so old links and habits keep working.
+CREATE TABLE tag_synonyms (
+    creator_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    slug VARCHAR(100) NOT NULL,
+    name VARCHAR(50) NOT NULL,
+    tag_id UUID NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (creator_id, slug)
+);
+
+CREATE INDEX idx_tag_synonyms_tag_id ON tag_synonyms(tag_id);
+
+-- Register existing tags. Spellings that only differ in case, spacing or punctuation
+-- share a slug; the earliest one used becomes the canonical name.
+CREATE FUNCTION pg_temp.tag_slug(name TEXT) RETURNS TEXT AS $$
+    SELECT rtrim(left(ltrim(regexp_replace(lower(name), '[^a-z0-9]+', '-', 'g'), '-'), 100), '-')
+$$ LANGUAGE SQL IMMUTABLE;
+
+INSERT INTO tags (creator_id, name, slug, created_at)
+SELECT DISTINCT ON (a.author_id, pg_temp.tag_slug(t.tag))
+    a.author_id, t.tag, pg_temp.tag_slug(t.tag), a.created_at
+FROM articles a, unnest(a.tags) AS t(tag)
+WHERE pg_temp.tag_slug(t.tag) <> ''
+ORDER BY a.author_id, pg_temp.tag_slug(t.tag), a.created_at, t.tag;
+
+UPDATE articles a
+SET tags = ARRAY(
+    SELECT canonical.name FROM (
+        SELECT COALESCE(tg.name, t.tag) AS name, MIN(t.position) AS position
+        FROM unnest(a.tags) WITH ORDINALITY AS t(tag, position)
+        LEFT JOIN tags tg ON tg.creator_id = a.author_id AND tg.slug = pg_temp.tag_slug(t.tag)
+        GROUP BY 1
+    ) canonical
+    ORDER BY canonical.position
+)
+WHERE cardinality(a.tags) > 0;
\ No newline at end of file
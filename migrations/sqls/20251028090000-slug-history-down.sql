@@ -0,0 +1,4 @@
+DROP TABLE IF EXISTS redirect_rules;
+DROP TRIGGER IF EXISTS record_articles_slug ON articles;
+DROP FUNCTION IF EXISTS articles_record_slug();
+DROP TABLE IF EXISTS article_slugs;
\ No newline at end of file
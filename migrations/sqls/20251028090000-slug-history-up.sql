@@ -0,0 +1,53 @@
+-- Every slug an article has had, so links to an old URL can redirect to the current one.
+-- Maintained by a trigger, which covers title edits, revision restores and any other
+-- path that changes a slug.
+CREATE TABLE article_slugs (
+    author_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    slug VARCHAR(250) NOT NULL,
+    article_id UUID NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (author_id, slug)
+);
+
+CREATE INDEX idx_article_slugs_article_id ON article_slugs(article_id);
+
+CREATE OR REPLACE FUNCTION articles_record_slug()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- A slug held by a live article never redirects
+    DELETE FROM article_slugs WHERE author_id = NEW.author_id AND slug = NEW.slug;
+
+    IF TG_OP = 'UPDATE' AND OLD.slug IS DISTINCT FROM NEW.slug THEN
+        INSERT INTO article_slugs (author_id, slug, article_id)
+        VALUES (OLD.author_id, OLD.slug, OLD.id)
+        ON CONFLICT (author_id, slug) DO UPDATE SET article_id = EXCLUDED.article_id, created_at = CURRENT_TIMESTAMP;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER record_articles_slug AFTER INSERT OR UPDATE OF slug ON articles
+    FOR EACH ROW EXECUTE FUNCTION articles_record_slug();
+
+-- Creator-defined redirects for content migrated from other platforms. A source path
+-- ending in * matches every path with that prefix; a * in the target is replaced by
+-- the rest of the path. A rule points at a URL or path, or at an article so it keeps
+-- following the article's slug.
+CREATE TABLE redirect_rules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    creator_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    source_path VARCHAR(500) NOT NULL,
+    target_url VARCHAR(1000),
+    article_id UUID REFERENCES articles(id) ON DELETE CASCADE,
+    status_code SMALLINT NOT NULL DEFAULT 301 CHECK (status_code IN (301, 302, 307, 308)),
+    hit_count INTEGER NOT NULL DEFAULT 0,
+    last_hit_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (creator_id, source_path),
+    CHECK ((target_url IS NULL) <> (article_id IS NULL))
+);
+
+CREATE TRIGGER update_redirect_rules_updated_at BEFORE UPDATE ON redirect_rules
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
\ No newline at end of file
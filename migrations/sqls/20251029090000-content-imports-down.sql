@@ -0,0 +1 @@
+DROP TABLE IF EXISTS content_imports;
\ No newline at end of file
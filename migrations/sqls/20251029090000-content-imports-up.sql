@@ -0,0 +1,26 @@
+-- Archive imports from other platforms, processed in the background by the import worker.
+-- The uploaded file stays in storage until a real (non-dry-run) import of it has run, so
+-- a dry run can be confirmed without uploading again.
+CREATE TABLE content_imports (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    creator_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    source VARCHAR(20) NOT NULL CHECK (source IN ('substack', 'ghost', 'wordpress')),
+    status VARCHAR(20) NOT NULL CHECK (status IN ('pending', 'processing', 'completed', 'failed')),
+    dry_run BOOLEAN NOT NULL DEFAULT FALSE,
+    on_conflict VARCHAR(20) NOT NULL DEFAULT 'skip' CHECK (on_conflict IN ('skip', 'rename')),
+    file_name VARCHAR(255) NOT NULL,
+    storage_key VARCHAR(500) NOT NULL,
+    report JSONB,
+    attempts INTEGER DEFAULT 0,
+    last_error TEXT,
+    locked_at TIMESTAMP WITH TIME ZONE,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_content_imports_creator_id ON content_imports(creator_id, created_at DESC);
+CREATE INDEX idx_content_imports_pending ON content_imports(created_at) WHERE status = 'pending';
+
+CREATE TRIGGER update_content_imports_updated_at BEFORE UPDATE ON content_imports
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
\ No newline at end of file
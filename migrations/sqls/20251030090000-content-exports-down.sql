@@ -0,0 +1 @@
+DROP TABLE IF EXISTS content_exports;
\ No newline at end of file
@@ -0,0 +1,25 @@
+-- Archive exports, built in the background by the export worker. Each batch of articles
+-- is written to storage as one part of the ZIP and recorded in progress, so an export
+-- interrupted by a restart resumes after the last saved batch.
+CREATE TABLE content_exports (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    creator_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'expired')),
+    progress JSONB NOT NULL DEFAULT '{"cursor": null, "parts": 0, "bytes": 0, "files": [], "articles": [], "media": []}',
+    size_bytes BIGINT,
+    download_token VARCHAR(64) UNIQUE,
+    expires_at TIMESTAMP WITH TIME ZONE,
+    attempts INTEGER DEFAULT 0,
+    last_error TEXT,
+    locked_at TIMESTAMP WITH TIME ZONE,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_content_exports_creator_id ON content_exports(creator_id, created_at DESC);
+CREATE INDEX idx_content_exports_pending ON content_exports(created_at) WHERE status = 'pending';
+CREATE INDEX idx_content_exports_expires_at ON content_exports(expires_at) WHERE status = 'completed';
+
+CREATE TRIGGER update_content_exports_updated_at BEFORE UPDATE ON content_exports
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
\ No newline at end of file
@@ -0,0 +1,4 @@
+DROP INDEX IF EXISTS idx_articles_author_locale;
+DROP INDEX IF EXISTS idx_articles_translation_group_locale;
+ALTER TABLE articles DROP COLUMN IF EXISTS translation_group_id;
+ALTER TABLE articles DROP COLUMN IF EXISTS locale;
\ No newline at end of file
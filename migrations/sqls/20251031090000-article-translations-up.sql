@@ -0,0 +1,9 @@
+-- Articles carry a BCP 47 language tag. Translations of the same piece share a
+-- translation_group_id, with at most one article per locale in a group. Slugs stay
+-- unique per creator, so every translation has its own slug.
+ALTER TABLE articles ADD COLUMN locale VARCHAR(35) NOT NULL DEFAULT 'en';
+ALTER TABLE articles ADD COLUMN translation_group_id UUID;
+
+CREATE UNIQUE INDEX idx_articles_translation_group_locale ON articles(translation_group_id, locale)
+    WHERE translation_group_id IS NOT NULL;
+CREATE INDEX idx_articles_author_locale ON articles(author_id, locale);
\ No newline at end of file
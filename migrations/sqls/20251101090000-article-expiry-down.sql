@@ -0,0 +1,6 @@
+DROP TABLE IF EXISTS article_expiries;
+DROP INDEX IF EXISTS idx_articles_expires_at;
+ALTER TABLE articles DROP COLUMN IF EXISTS expired_at;
+ALTER TABLE articles DROP COLUMN IF EXISTS expiry_banner;
+ALTER TABLE articles DROP COLUMN IF EXISTS expiry_action;
+ALTER TABLE articles DROP COLUMN IF EXISTS expires_at;
\ No newline at end of file
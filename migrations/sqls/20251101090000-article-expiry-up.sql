@@ -0,0 +1,28 @@
+-- Time-bound articles. When expires_at passes, the expiry worker archives the article,
+-- moves it back to draft, or leaves it readable with a banner; expired_at records that
+-- the action ran. Feeds, the sitemap, search and related articles hide articles past
+-- expires_at even before the worker gets to them.
+ALTER TABLE articles ADD COLUMN expires_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE articles ADD COLUMN expiry_action VARCHAR(20) NOT NULL DEFAULT 'archive'
+    CHECK (expiry_action IN ('archive', 'unpublish', 'banner'));
+ALTER TABLE articles ADD COLUMN expiry_banner VARCHAR(500);
+ALTER TABLE articles ADD COLUMN expired_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_articles_expires_at ON articles(expires_at)
+    WHERE status = 'published' AND expires_at IS NOT NULL AND expired_at IS NULL;
+
+-- What expired, for the creator's report. Rows are emailed to the creator in batches;
+-- notified_at marks the ones already sent.
+CREATE TABLE article_expiries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    article_id UUID NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+    author_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    title VARCHAR(200) NOT NULL,
+    action VARCHAR(20) NOT NULL CHECK (action IN ('archive', 'unpublish', 'banner')),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    expired_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    notified_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_article_expiries_author ON article_expiries(author_id, expired_at DESC);
+CREATE INDEX idx_article_expiries_unnotified ON article_expiries(expired_at) WHERE notified_at IS NULL;
\ No newline at end of file
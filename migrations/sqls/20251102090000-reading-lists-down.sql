@@ -0,0 +1,3 @@
+DROP TABLE IF EXISTS reading_progress;
+DROP TABLE IF EXISTS bookmarks;
+DROP TABLE IF EXISTS reading_list_folders;
\ No newline at end of file
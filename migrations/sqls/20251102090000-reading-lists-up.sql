@@ -0,0 +1,46 @@
+-- Personal reading features for signed-in readers: bookmarks filed into reading list
+-- folders, and reading progress synced across devices.
+CREATE TABLE reading_list_folders (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (user_id, name)
+);
+
+CREATE TRIGGER update_reading_list_folders_updated_at BEFORE UPDATE ON reading_list_folders
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Deleting a folder keeps its bookmarks, unfiled
+CREATE TABLE bookmarks (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    article_id UUID NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+    folder_id UUID REFERENCES reading_list_folders(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (user_id, article_id)
+);
+
+CREATE INDEX idx_bookmarks_user_id ON bookmarks(user_id, created_at DESC);
+CREATE INDEX idx_bookmarks_folder_id ON bookmarks(folder_id);
+
+-- One row per reader and article. scroll_percentage and last_paragraph_index are where
+-- the reader last was; max_scroll_percentage and completed_at only ever move forward
+-- and feed the completion metrics. updated_at is the client's time of the position, so
+-- a device syncing late cannot move the reader back.
+CREATE TABLE reading_progress (
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    article_id UUID NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+    scroll_percentage NUMERIC(5,2) NOT NULL DEFAULT 0 CHECK (scroll_percentage BETWEEN 0 AND 100),
+    last_paragraph_index INTEGER NOT NULL DEFAULT 0 CHECK (last_paragraph_index >= 0),
+    max_scroll_percentage NUMERIC(5,2) NOT NULL DEFAULT 0 CHECK (max_scroll_percentage BETWEEN 0 AND 100),
+    completed_at TIMESTAMP WITH TIME ZONE,
+    started_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (user_id, article_id)
+);
+
+CREATE INDEX idx_reading_progress_unfinished ON reading_progress(user_id, updated_at DESC) WHERE completed_at IS NULL;
+CREATE INDEX idx_reading_progress_article_id ON reading_progress(article_id, updated_at);
\ No newline at end of file
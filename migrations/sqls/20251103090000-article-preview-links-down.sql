@@ -0,0 +1,2 @@
+DROP TABLE IF EXISTS article_preview_views;
+DROP TABLE IF EXISTS article_preview_links;
\ No newline at end of file
@@ -0,0 +1,28 @@
+-- Signed links that let someone without an account read an unpublished article, e.g. a
+-- reviewer or sponsor. The token itself is not stored: it is an HMAC over the link id
+-- and expiry, so a leaked database does not leak working links. revision_number pins
+-- the link to that revision instead of the current draft.
+CREATE TABLE article_preview_links (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    article_id UUID NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    label VARCHAR(200),
+    revision_number INTEGER CHECK (revision_number > 0),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    revoked_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_article_preview_links_article_id ON article_preview_links(article_id, created_at DESC);
+
+-- Every time a preview link is opened
+CREATE TABLE article_preview_views (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    link_id UUID NOT NULL REFERENCES article_preview_links(id) ON DELETE CASCADE,
+    ip_address VARCHAR(45),
+    user_agent VARCHAR(500),
+    viewed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_article_preview_views_link_id ON article_preview_views(link_id, viewed_at DESC);
\ No newline at end of file
@@ -0,0 +1,2 @@
+DROP TABLE IF EXISTS article_fingerprint_bands;
+DROP TABLE IF EXISTS article_fingerprints;
\ No newline at end of file
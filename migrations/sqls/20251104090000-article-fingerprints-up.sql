@@ -0,0 +1,22 @@
+-- Near-duplicate detection: each article's body is reduced to a MinHash signature over
+-- its word 5-gram shingles. Two signatures agree in roughly the share of positions that
+-- equals the Jaccard similarity of the shingle sets. Values are unsigned 32-bit hashes
+-- stored as signed INTEGERs.
+CREATE TABLE article_fingerprints (
+    article_id UUID PRIMARY KEY REFERENCES articles(id) ON DELETE CASCADE,
+    signature INTEGER[] NOT NULL,
+    shingle_count INTEGER NOT NULL,
+    computed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Locality-sensitive hashing: the signature is cut into bands and each band hashed into
+-- a bucket. Articles sharing any bucket are candidates, so a lookup never scans the
+-- whole catalog.
+CREATE TABLE article_fingerprint_bands (
+    article_id UUID NOT NULL REFERENCES article_fingerprints(article_id) ON DELETE CASCADE,
+    band SMALLINT NOT NULL,
+    bucket INTEGER NOT NULL,
+    PRIMARY KEY (band, bucket, article_id)
+);
+
+CREATE INDEX idx_article_fingerprint_bands_article_id ON article_fingerprint_bands(article_id);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE creator_settings DROP COLUMN IF EXISTS audit_blocks_publish;
\ No newline at end of file
@@ -0,0 +1,6 @@
+-- Content audit: creators can refuse to publish articles whose audit has errors
+-- ('errors') or errors and warnings ('warnings'). Audits themselves are computed on
+-- request and not stored.
+ALTER TABLE creator_settings
+    ADD COLUMN audit_blocks_publish VARCHAR(10) NOT NULL DEFAULT 'off'
+        CHECK (audit_blocks_publish IN ('off', 'errors', 'warnings'));
\ No newline at end of file
@@ -0,0 +1 @@
+DROP TABLE IF EXISTS article_newsletter_recipients;
\ No newline at end of file
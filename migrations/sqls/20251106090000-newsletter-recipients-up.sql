@@ -0,0 +1,8 @@
+-- Subscribers each newsletter delivery has already reached, so a retry only mails the rest
+CREATE TABLE article_newsletter_recipients (
+    article_id UUID NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+    subscriber_id UUID NOT NULL REFERENCES subscribers(id) ON DELETE CASCADE,
+    message_id VARCHAR(255),
+    sent_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (article_id, subscriber_id)
+);
\ No newline at end of file
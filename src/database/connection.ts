@@ -95,6 +95,13 @@ class Database {
     return await this.pool.connect();
   }
 
+  /**
+   * Get the underlying pool for models and services that take a Pool
+   */
+  getPool(): Pool {
+    return this.pool;
+  }
+
   /**
    * Execute multiple queries in a transaction
    */
@@ -4,6 +4,12 @@ import cors from 'cors';
 import helmet from 'helmet';
 import morgan from 'morgan';
 import { config } from 'dotenv';
+import database from './database/connection';
+import { ArticleScheduler } from './jobs/ArticleScheduler';
+import { DeliveryWorker } from './jobs/DeliveryWorker';
+import { ImportWorker } from './jobs/ImportWorker';
+import { ExportWorker } from './jobs/ExportWorker';
+import { ExpiryWorker } from './jobs/ExpiryWorker';
 
 // Load environment variables
 config();
@@ -32,6 +38,13 @@ if (process.env.NODE_ENV !== 'test') {
   app.listen(PORT, () => {
     console.log(`Server running on port ${PORT}`);
   });
+
+  // Background jobs
+  new ArticleScheduler(database.getPool()).start();
+  new DeliveryWorker(database.getPool()).start();
+  new ImportWorker(database.getPool()).start();
+  new ExportWorker(database.getPool()).start();
+  new ExpiryWorker(database.getPool()).start();
 }
 
 export default app;
\ No newline at end of file
@@ -0,0 +1,129 @@
+export interface SocialPost {
+  articleId: string;
+  title: string;
+  url: string;
+  excerpt?: string;
+  tags?: string[];
+}
+
+export interface SocialPostResult {
+  id: string;
+  url?: string;
+}
+
+/**
+ * Adapter interface for social networks. Each provider publishes a short post
+ * linking to a newly published article and reports the remote post id.
+ */
+export interface SocialProvider {
+  readonly name: string;
+  post(post: SocialPost): Promise<SocialPostResult>;
+}
+
+/**
+ * Local provider that records posts in memory instead of calling a network.
+ * Used in tests and in development when no real provider is configured.
+ */
+export class StubSocialProvider implements SocialProvider {
+  readonly name = 'stub';
+  readonly posts: SocialPost[] = [];
+
+  async post(post: SocialPost): Promise<SocialPostResult> {
+    this.posts.push(post);
+    return {
+      id: `stub-${this.posts.length}`,
+      url: `${post.url}#stub-${this.posts.length}`
+    };
+  }
+}
+
+export class MastodonProvider implements SocialProvider {
+  readonly name = 'mastodon';
+  private instanceUrl: string;
+  private accessToken: string;
+
+  constructor(instanceUrl?: string, accessToken?: string) {
+    this.instanceUrl = (instanceUrl || process.env.MASTODON_INSTANCE_URL || '').replace(/\/$/, '');
+    this.accessToken = accessToken || process.env.MASTODON_ACCESS_TOKEN || '';
+
+    if (!this.instanceUrl || !this.accessToken) {
+      throw new Error('MASTODON_INSTANCE_URL and MASTODON_ACCESS_TOKEN environment variables are required');
+    }
+  }
+
+  async post(post: SocialPost): Promise<SocialPostResult> {
+    const response = await fetch(`${this.instanceUrl}/api/v1/statuses`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.accessToken}`,
+        'Content-Type': 'application/json',
+        'Idempotency-Key': `article-${post.articleId}`
+      },
+      body: JSON.stringify({ status: SocialProviderRegistry.formatStatus(post, 500) })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Mastodon API error: ${response.status} ${response.statusText}`);
+    }
+
+    const status = await response.json() as { id: string; url?: string };
+    return { id: status.id, url: status.url };
+  }
+}
+
+export class SocialProviderRegistry {
+  private providers = new Map<string, SocialProvider>();
+
+  register(provider: SocialProvider): this {
+    this.providers.set(provider.name, provider);
+    return this;
+  }
+
+  get(name: string): SocialProvider | undefined {
+    return this.providers.get(name);
+  }
+
+  names(): string[] {
+    return Array.from(this.providers.keys());
+  }
+
+  /**
+   * Builds a registry from the comma-separated SOCIAL_PROVIDERS environment variable
+   */
+  static fromEnv(): SocialProviderRegistry {
+    const registry = new SocialProviderRegistry();
+    const names = (process.env.SOCIAL_PROVIDERS || '')
+      .split(',')
+      .map(name => name.trim())
+      .filter(name => name.length > 0);
+
+    for (const name of names) {
+      switch (name) {
+        case 'mastodon':
+          registry.register(new MastodonProvider());
+          break;
+        case 'stub':
+          registry.register(new StubSocialProvider());
+          break;
+        default:
+          console.warn(`Unknown social provider "${name}" ignored`);
+      }
+    }
+
+    return registry;
+  }
+
+  static formatStatus(post: SocialPost, maxLength: number): string {
+    const hashtags = (post.tags || [])
+      .map(tag => '#' + tag.replace(/[^a-zA-Z0-9]/g, ''))
+      .filter(tag => tag.length > 1)
+      .slice(0, 3)
+      .join(' ');
+
+    const suffix = `\n\n${post.url}${hashtags ? `\n${hashtags}` : ''}`;
+    const room = maxLength - suffix.length;
+    const title = post.title.length > room ? post.title.substring(0, room - 3) + '...' : post.title;
+
+    return title + suffix;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,113 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface StoredObject {
+  key: string;
+  url: string;
+  size: number;
+}
+
+/**
+ * Adapter interface for file storage. Keys are relative paths such as
+ * "media/<creatorId>/<mediaId>/original.jpg"; each adapter decides where the bytes
+ * live and which public URL serves them.
+ */
+export interface StorageAdapter {
+  readonly name: string;
+  put(key: string, data: Buffer, contentType: string): Promise<StoredObject>;
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+  getUrl(key: string): string;
+}
+
+/**
+ * Stores files under a directory on the local disk. Files are served by the media
+ * router under MEDIA_PUBLIC_URL (defaults to API_URL + /media/files).
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  readonly name = 'local';
+  private rootDir: string;
+  private publicUrl: string;
+
+  constructor(rootDir?: string, publicUrl?: string) {
+    this.rootDir = path.resolve(rootDir || process.env.MEDIA_STORAGE_PATH || './uploads');
+    this.publicUrl = (publicUrl || process.env.MEDIA_PUBLIC_URL || `${process.env.API_URL || ''}/media/files`).replace(/\/$/, '');
+  }
+
+  async put(key: string, data: Buffer, _contentType: string): Promise<StoredObject> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+
+    return { key, url: this.getUrl(key), size: data.length };
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  getUrl(key: string): string {
+    return `${this.publicUrl}/${key.split('/').map(encodeURIComponent).join('/')}`;
+  }
+
+  // Keys come from our own code, but never let one point outside the storage root
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error('Invalid storage key');
+    }
+    return filePath;
+  }
+}
+
+/**
+ * Keeps files in memory. Used in tests and in development without a writable disk.
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  readonly name = 'memory';
+  readonly objects = new Map<string, { data: Buffer; contentType: string }>();
+
+  async put(key: string, data: Buffer, contentType: string): Promise<StoredObject> {
+    this.objects.set(key, { data, contentType });
+    return { key, url: this.getUrl(key), size: data.length };
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    return this.objects.get(key)?.data || null;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.objects.delete(key);
+  }
+
+  getUrl(key: string): string {
+    return `memory://${key}`;
+  }
+}
+
+/**
+ * Builds the adapter selected by the STORAGE_DRIVER environment variable (local by default)
+ */
+export function createStorageAdapter(): StorageAdapter {
+  const driver = process.env.STORAGE_DRIVER || 'local';
+
+  switch (driver) {
+    case 'local':
+      return new LocalStorageAdapter();
+    case 'memory':
+      return new MemoryStorageAdapter();
+    default:
+      throw new Error(`Unknown storage driver "${driver}"`);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,73 @@
+import { Pool } from 'pg';
+import { ArticleService } from '../services/ArticleService';
+
+export interface ArticleSchedulerOptions {
+  intervalMs?: number;
+  batchSize?: number;
+}
+
+/**
+ * Periodically publishes scheduled articles whose publish time has passed.
+ *
+ * All scheduling state lives in the articles table, so nothing is lost on restart:
+ * the first tick after boot publishes anything that fell due while the process was down.
+ */
+export class ArticleScheduler {
+  private articleService: ArticleService;
+  private intervalMs: number;
+  private batchSize: number;
+  private timer?: NodeJS.Timeout;
+  private running: boolean = false;
+
+  constructor(pool: Pool, options: ArticleSchedulerOptions = {}) {
+    this.articleService = new ArticleService(pool);
+    this.intervalMs = options.intervalMs || parseInt(process.env.ARTICLE_SCHEDULER_INTERVAL_MS || '30000');
+    this.batchSize = options.batchSize || 50;
+  }
+
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      void this.tick();
+    }, this.intervalMs);
+    this.timer.unref();
+
+    // Catch up on anything that became due while the process was not running
+    void this.tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  async tick(now: Date = new Date()): Promise<number> {
+    // Skip overlapping ticks when a previous batch is still being processed
+    if (this.running) return 0;
+
+    this.running = true;
+    try {
+      let total = 0;
+      let published;
+
+      do {
+        published = await this.articleService.publishDueArticles(now, this.batchSize);
+        total += published.length;
+      } while (published.length === this.batchSize);
+
+      if (total > 0) {
+        console.log(`Article scheduler published ${total} article(s)`);
+      }
+
+      return total;
+    } catch (error) {
+      console.error('Article scheduler error:', error);
+      return 0;
+    } finally {
+      this.running = false;
+    }
+  }
+}
\ No newline at end of file
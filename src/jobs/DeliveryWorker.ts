@@ -0,0 +1,78 @@
+import { Pool } from 'pg';
+import { DeliveryService } from '../services/DeliveryService';
+
+export interface DeliveryWorkerOptions {
+  intervalMs?: number;
+  batchSize?: number;
+  lockTimeoutMs?: number;
+  reconcileWindowDays?: number;
+}
+
+/**
+ * Sends queued newsletter notifications and social posts for published articles.
+ *
+ * Deliveries are rows in article_deliveries, so queued work survives restarts. Each tick
+ * also re-enqueues deliveries for recently published articles whose enqueue step was
+ * lost to a crash, and fails deliveries that were interrupted mid-send.
+ */
+export class DeliveryWorker {
+  private deliveryService: DeliveryService;
+  private intervalMs: number;
+  private batchSize: number;
+  private lockTimeoutMs: number;
+  private reconcileWindowDays: number;
+  private timer?: NodeJS.Timeout;
+  private running: boolean = false;
+
+  constructor(pool: Pool, options: DeliveryWorkerOptions = {}) {
+    this.deliveryService = new DeliveryService(pool);
+    this.intervalMs = options.intervalMs || parseInt(process.env.DELIVERY_WORKER_INTERVAL_MS || '15000');
+    this.batchSize = options.batchSize || 20;
+    this.lockTimeoutMs = options.lockTimeoutMs || 30 * 60 * 1000;
+    this.reconcileWindowDays = options.reconcileWindowDays || 7;
+  }
+
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      void this.tick();
+    }, this.intervalMs);
+    this.timer.unref();
+
+    void this.tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  async tick(now: Date = new Date()): Promise<void> {
+    if (this.running) return;
+
+    this.running = true;
+    try {
+      const interrupted = await this.deliveryService.recoverInterrupted(this.lockTimeoutMs, now);
+      if (interrupted.retried + interrupted.failed > 0) {
+        console.warn(
+          `Delivery worker requeued ${interrupted.retried} and failed ${interrupted.failed} interrupted delivery(ies)`
+        );
+      }
+
+      const since = new Date(now.getTime() - this.reconcileWindowDays * 24 * 60 * 60 * 1000);
+      await this.deliveryService.enqueueMissing(since);
+
+      const result = await this.deliveryService.processPending(this.batchSize, now);
+      if (result.sent + result.retried + result.failed > 0) {
+        console.log('Delivery worker run:', result);
+      }
+    } catch (error) {
+      console.error('Delivery worker error:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
\ No newline at end of file
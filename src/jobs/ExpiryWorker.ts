@@ -0,0 +1,74 @@
+import { Pool } from 'pg';
+import { ExpiryService } from '../services/ExpiryService';
+
+export interface ExpiryWorkerOptions {
+  intervalMs?: number;
+  batchSize?: number;
+}
+
+/**
+ * Runs the expiry action of articles whose expires_at has passed, then emails creators
+ * a report of what expired.
+ *
+ * Like the scheduler, all state lives in the database: articles that expired while the
+ * process was down are handled on the first tick, and unsent reports are retried.
+ */
+export class ExpiryWorker {
+  private expiryService: ExpiryService;
+  private intervalMs: number;
+  private batchSize: number;
+  private timer?: NodeJS.Timeout;
+  private running: boolean = false;
+
+  constructor(pool: Pool, options: ExpiryWorkerOptions = {}) {
+    this.expiryService = new ExpiryService(pool);
+    this.intervalMs = options.intervalMs || parseInt(process.env.EXPIRY_WORKER_INTERVAL_MS || '60000');
+    this.batchSize = options.batchSize || 50;
+  }
+
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      void this.tick();
+    }, this.intervalMs);
+    this.timer.unref();
+
+    void this.tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  async tick(now: Date = new Date()): Promise<number> {
+    if (this.running) return 0;
+
+    this.running = true;
+    try {
+      let total = 0;
+      let expired;
+
+      do {
+        expired = await this.expiryService.expireDueArticles(now, this.batchSize);
+        total += expired.length;
+      } while (expired.length === this.batchSize);
+
+      if (total > 0) {
+        console.log(`Expiry worker expired ${total} article(s)`);
+      }
+
+      await this.expiryService.sendReports();
+
+      return total;
+    } catch (error) {
+      console.error('Expiry worker error:', error);
+      return 0;
+    } finally {
+      this.running = false;
+    }
+  }
+}
\ No newline at end of file
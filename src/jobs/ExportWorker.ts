@@ -0,0 +1,75 @@
+import { Pool } from 'pg';
+import { ExportService } from '../services/ExportService';
+
+export interface ExportWorkerOptions {
+  intervalMs?: number;
+  batchSize?: number;
+  lockTimeoutMs?: number;
+}
+
+/**
+ * Builds queued archive exports and deletes the files of expired ones.
+ *
+ * Every batch refreshes the export's lock, so the lock timeout only has to cover one
+ * batch. An export left in processing by a crash is queued again and resumes.
+ */
+export class ExportWorker {
+  private exportService: ExportService;
+  private intervalMs: number;
+  private batchSize: number;
+  private lockTimeoutMs: number;
+  private timer?: NodeJS.Timeout;
+  private running: boolean = false;
+
+  constructor(pool: Pool, options: ExportWorkerOptions = {}) {
+    this.exportService = new ExportService(pool);
+    this.intervalMs = options.intervalMs || parseInt(process.env.EXPORT_WORKER_INTERVAL_MS || '10000');
+    this.batchSize = options.batchSize || 1;
+    this.lockTimeoutMs = options.lockTimeoutMs || 15 * 60 * 1000;
+  }
+
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      void this.tick();
+    }, this.intervalMs);
+    this.timer.unref();
+
+    void this.tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  async tick(now: Date = new Date()): Promise<void> {
+    // Exports can take minutes; skip ticks while one is still running
+    if (this.running) return;
+
+    this.running = true;
+    try {
+      const interrupted = await this.exportService.recoverInterrupted(this.lockTimeoutMs, now);
+      if (interrupted > 0) {
+        console.warn(`Export worker requeued ${interrupted} interrupted export(s)`);
+      }
+
+      const expired = await this.exportService.expireDownloads(now);
+      if (expired > 0) {
+        console.log(`Export worker removed ${expired} expired export(s)`);
+      }
+
+      const result = await this.exportService.processPending(this.batchSize, now);
+      if (result.completed + result.failed > 0) {
+        console.log('Export worker run:', result);
+      }
+    } catch (error) {
+      console.error('Export worker error:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
\ No newline at end of file
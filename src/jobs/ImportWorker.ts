@@ -0,0 +1,70 @@
+import { Pool } from 'pg';
+import { ImportService } from '../services/ImportService';
+
+export interface ImportWorkerOptions {
+  intervalMs?: number;
+  batchSize?: number;
+  lockTimeoutMs?: number;
+}
+
+/**
+ * Runs queued archive imports one at a time.
+ *
+ * Imports are rows in content_imports, so queued work survives restarts. An import left
+ * in processing by a crash is failed after the lock timeout; the creator can run it again.
+ */
+export class ImportWorker {
+  private importService: ImportService;
+  private intervalMs: number;
+  private batchSize: number;
+  private lockTimeoutMs: number;
+  private timer?: NodeJS.Timeout;
+  private running: boolean = false;
+
+  constructor(pool: Pool, options: ImportWorkerOptions = {}) {
+    this.importService = new ImportService(pool);
+    this.intervalMs = options.intervalMs || parseInt(process.env.IMPORT_WORKER_INTERVAL_MS || '10000');
+    this.batchSize = options.batchSize || 1;
+    this.lockTimeoutMs = options.lockTimeoutMs || 2 * 60 * 60 * 1000;
+  }
+
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      void this.tick();
+    }, this.intervalMs);
+    this.timer.unref();
+
+    void this.tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  async tick(now: Date = new Date()): Promise<void> {
+    // Imports can take minutes; skip ticks while one is still running
+    if (this.running) return;
+
+    this.running = true;
+    try {
+      const interrupted = await this.importService.recoverInterrupted(this.lockTimeoutMs, now);
+      if (interrupted > 0) {
+        console.warn(`Import worker marked ${interrupted} interrupted import(s) as failed`);
+      }
+
+      const result = await this.importService.processPending(this.batchSize, now);
+      if (result.completed + result.failed > 0) {
+        console.log('Import worker run:', result);
+      }
+    } catch (error) {
+      console.error('Import worker error:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { Pool } from 'pg';
 import { v4 as uuidv4 } from 'uuid';
 import crypto from 'crypto';
+import { PageOptions, Pagination, SortColumn } from '../services/Pagination';
 
 export interface AffiliateLinkData {
   id?: string;
@@ -32,13 +33,19 @@ export interface UpdateAffiliateLinkData {
   is_active?: boolean;
 }
 
-export interface AffiliateLinkFilters {
+export type AffiliateLinkSortField = 'created_at' | 'name' | 'commission_rate';
+
+const AFFILIATE_LINK_SORTS: Record<AffiliateLinkSortField, SortColumn> = {
+  created_at: { column: 'created_at' },
+  name: { column: 'name' },
+  commission_rate: { column: 'commission_rate', nullable: true }
+};
+
+export interface AffiliateLinkFilters extends PageOptions<AffiliateLinkSortField> {
   creator_id?: string;
   network?: 'amazon' | 'shareasale' | 'cj' | 'custom';
   category?: string;
   is_active?: boolean;
-  limit?: number;
-  offset?: number;
   search?: string;
 }
 
@@ -112,7 +119,7 @@ export class AffiliateLink {
     return result.rows;
   }
 
-  async findMany(filters: AffiliateLinkFilters = {}): Promise<{ links: AffiliateLinkData[]; total: number }> {
+  async findMany(filters: AffiliateLinkFilters = {}): Promise<{ links: AffiliateLinkData[]; total: number; next_cursor: string | null }> {
     let whereClause = 'WHERE 1=1';
     const values: any[] = [];
     let paramCount = 0;
@@ -154,22 +161,12 @@ export class AffiliateLink {
     const total = parseInt(countResult.rows[0].count);
 
     // Get paginated results
-    let query = `SELECT * FROM affiliate_links ${whereClause} ORDER BY created_at DESC`;
-
-    if (filters.limit) {
-      paramCount++;
-      query += ` LIMIT $${paramCount}`;
-      values.push(filters.limit);
-    }
-
-    if (filters.offset) {
-      paramCount++;
-      query += ` OFFSET $${paramCount}`;
-      values.push(filters.offset);
-    }
+    const page = Pagination.build(AFFILIATE_LINK_SORTS, 'created_at', filters, values);
+    const query = `SELECT *${page.select} FROM affiliate_links ${whereClause}${page.where} ${page.orderBy}${page.limit}`;
 
     const result = await this.pool.query(query, values);
-    return { links: result.rows, total };
+    const { rows, next_cursor } = Pagination.page(result.rows, page);
+    return { links: rows, total, next_cursor };
   }
 
   async findActive(): Promise<AffiliateLinkData[]> {
@@ -1,6 +1,7 @@
 import { Pool } from 'pg';
 import { v4 as uuidv4 } from 'uuid';
 import crypto from 'crypto';
+import { PageOptions, Pagination, SortColumn } from '../services/Pagination';
 
 export interface AffiliateLinkStatsData {
   id?: string;
@@ -29,14 +30,19 @@ export interface UpdateAffiliateLinkStatsData {
   conversion_date?: Date;
 }
 
-export interface AffiliateLinkStatsFilters {
+export type AffiliateLinkStatsSortField = 'clicked_at' | 'commission_amount';
+
+const AFFILIATE_LINK_STATS_SORTS: Record<AffiliateLinkStatsSortField, SortColumn> = {
+  clicked_at: { column: 'clicked_at' },
+  commission_amount: { column: 'commission_amount', nullable: true }
+};
+
+export interface AffiliateLinkStatsFilters extends PageOptions<AffiliateLinkStatsSortField> {
   link_id?: string;
   article_id?: string;
   converted?: boolean;
   date_from?: Date;
   date_to?: Date;
-  limit?: number;
-  offset?: number;
 }
 
 export interface ClickAnalytics {
@@ -123,7 +129,7 @@ export class AffiliateLinkStats {
     return result.rows;
   }
 
-  async findMany(filters: AffiliateLinkStatsFilters = {}): Promise<{ stats: AffiliateLinkStatsData[]; total: number }> {
+  async findMany(filters: AffiliateLinkStatsFilters = {}): Promise<{ stats: AffiliateLinkStatsData[]; total: number; next_cursor: string | null }> {
     let whereClause = 'WHERE 1=1';
     const values: any[] = [];
     let paramCount = 0;
@@ -165,22 +171,12 @@ export class AffiliateLinkStats {
     const total = parseInt(countResult.rows[0].count);
 
     // Get paginated results
-    let query = `SELECT * FROM affiliate_link_stats ${whereClause} ORDER BY clicked_at DESC`;
-
-    if (filters.limit) {
-      paramCount++;
-      query += ` LIMIT $${paramCount}`;
-      values.push(filters.limit);
-    }
-
-    if (filters.offset) {
-      paramCount++;
-      query += ` OFFSET $${paramCount}`;
-      values.push(filters.offset);
-    }
+    const page = Pagination.build(AFFILIATE_LINK_STATS_SORTS, 'clicked_at', filters, values);
+    const query = `SELECT *${page.select} FROM affiliate_link_stats ${whereClause}${page.where} ${page.orderBy}${page.limit}`;
 
     const result = await this.pool.query(query, values);
-    return { stats: result.rows, total };
+    const { rows, next_cursor } = Pagination.page(result.rows, page);
+    return { stats: rows, total, next_cursor };
   }
 
   async update(id: string, updateData: UpdateAffiliateLinkStatsData): Promise<AffiliateLinkStatsData | null> {
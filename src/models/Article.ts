@@ -1,5 +1,17 @@
 import { Pool } from 'pg';
 import { v4 as uuidv4 } from 'uuid';
+import { ContentFormat, TocEntry } from '../services/ContentRenderer';
+import { CitationStyle, CITATION_STYLES } from '../services/CitationFormatter';
+import { PageOptions, Pagination, SortColumn } from '../services/Pagination';
+
+// Articles written before locales were introduced are English
+export const DEFAULT_LOCALE = 'en';
+
+export type ArticleStatus = 'draft' | 'in_review' | 'changes_requested' | 'scheduled' | 'published' | 'archived';
+
+export type ExpiryAction = 'archive' | 'unpublish' | 'banner';
+
+export const EXPIRY_ACTIONS: ExpiryAction[] = ['archive', 'unpublish', 'banner'];
 
 export interface ArticleData {
   id?: string;
@@ -7,15 +19,32 @@ export interface ArticleData {
   title: string;
   slug?: string;
   content: string;
+  content_format?: ContentFormat;
+  content_html?: string;
+  toc?: TocEntry[];
+  citation_style?: CitationStyle;
   excerpt?: string;
+  featured_image_id?: string;
   featured_image_url?: string;
-  status: 'draft' | 'published' | 'archived';
+  status: ArticleStatus;
+  locale?: string;
+  translation_group_id?: string | null;
   is_premium?: boolean;
   seo_title?: string;
   seo_description?: string;
   tags?: string[];
   reading_time?: number;
+  notify_subscribers?: boolean;
+  social_auto_post?: boolean;
+  scheduled_at?: Date;
   published_at?: Date;
+  expires_at?: Date | null;
+  expiry_action?: ExpiryAction;
+  expiry_banner?: string | null;
+  // Set once the expiry action has run
+  expired_at?: Date | null;
+  // Set by listings; articles in a premium series are gated like premium articles
+  in_premium_series?: boolean;
   created_at?: Date;
   updated_at?: Date;
 }
@@ -24,33 +53,98 @@ export interface CreateArticleData {
   author_id: string;
   title: string;
   content: string;
+  content_format?: ContentFormat;
+  citation_style?: CitationStyle;
   excerpt?: string;
+  featured_image_id?: string;
   featured_image_url?: string;
+  locale?: string;
   is_premium?: boolean;
   seo_title?: string;
   seo_description?: string;
   tags?: string[];
+  expires_at?: Date | null;
+  expiry_action?: ExpiryAction;
+  expiry_banner?: string | null;
+}
+
+// Derived from content by the rendering pipeline, never accepted from clients
+export interface RenderedArticleFields {
+  content_html: string;
+  toc: TocEntry[];
+  reading_time: number;
+}
+
+// Set when an article is created as a translation of another
+export interface TranslationFields {
+  slug: string;
+  translation_group_id: string;
+}
+
+// Kept from the source platform when an archive is imported
+export interface ImportedArticleFields {
+  slug: string;
+  status: 'draft' | 'published';
+  published_at?: Date;
+  created_at: Date;
 }
 
 export interface UpdateArticleData {
   title?: string;
   content?: string;
+  content_format?: ContentFormat;
+  citation_style?: CitationStyle;
   excerpt?: string;
-  featured_image_url?: string;
+  featured_image_id?: string | null;
+  featured_image_url?: string | null;
+  locale?: string;
   is_premium?: boolean;
   seo_title?: string;
   seo_description?: string;
   tags?: string[];
+  expires_at?: Date | null;
+  expiry_action?: ExpiryAction;
+  expiry_banner?: string | null;
+  expired_at?: null;
 }
 
-export interface ArticleFilters {
+export type ArticleSortField = 'created_at' | 'published_at' | 'title' | 'reading_time';
+
+const ARTICLE_SORTS: Record<ArticleSortField, SortColumn> = {
+  created_at: { column: 'created_at' },
+  published_at: { column: 'published_at', nullable: true },
+  title: { column: 'title' },
+  reading_time: { column: 'reading_time', nullable: true }
+};
+
+export interface ArticleFilters extends PageOptions<ArticleSortField> {
   author_id?: string;
-  status?: 'draft' | 'published' | 'archived';
+  status?: ArticleStatus;
   is_premium?: boolean;
   tags?: string[];
-  limit?: number;
-  offset?: number;
+  locale?: string;
+  series_id?: string;
   search?: string;
+  // Leave out articles past their expiry time, as feeds, search and the sitemap do
+  exclude_expired?: boolean;
+  // Leave out articles in a premium series, as feeds that omit premium content do
+  exclude_premium_series?: boolean;
+}
+
+export interface ArticleLink {
+  author_id: string;
+  slug: string;
+}
+
+export interface ArticleSearchRow extends ArticleData {
+  rank: number;
+  title_highlight: string;
+  snippet: string;
+}
+
+export interface SearchFacets {
+  tags: { tag: string; count: number }[];
+  authors: { author_id: string; name: string; count: number }[];
 }
 
 export class Article {
@@ -60,18 +154,22 @@ export class Article {
     this.pool = pool;
   }
 
-  async create(articleData: CreateArticleData): Promise<ArticleData> {
+  async create(
+    articleData: CreateArticleData & Partial<RenderedArticleFields & ImportedArticleFields & TranslationFields>
+  ): Promise<ArticleData> {
     const id = uuidv4();
-    const slug = this.generateSlug(articleData.title);
-    const reading_time = this.calculateReadingTime(articleData.content);
+    // Titles in non-Latin scripts leave nothing to build a slug from
+    const slug = articleData.slug || this.generateSlug(articleData.title) || `article-${id.substring(0, 8)}`;
+    const reading_time = articleData.reading_time ?? this.calculateReadingTime(articleData.content);
     const now = new Date();
 
     const query = `
       INSERT INTO articles (
-        id, author_id, title, slug, content, excerpt, featured_image_url,
-        status, is_premium, seo_title, seo_description, tags, reading_time,
-        created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+        id, author_id, title, slug, content, content_format, content_html, toc, citation_style, excerpt,
+        featured_image_id, featured_image_url, status, is_premium, seo_title, seo_description, tags, reading_time,
+        published_at, created_at, updated_at, locale, translation_group_id, expires_at, expiry_action, expiry_banner
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23,
+        $24, $25, $26)
       RETURNING *
     `;
 
@@ -81,16 +179,27 @@ export class Article {
       articleData.title,
       slug,
       articleData.content,
+      articleData.content_format || 'markdown',
+      articleData.content_html || null,
+      JSON.stringify(articleData.toc || []),
+      articleData.citation_style || 'apa',
       articleData.excerpt || null,
+      articleData.featured_image_id || null,
       articleData.featured_image_url || null,
-      'draft', // Default status
+      articleData.status || 'draft', // Default status
       articleData.is_premium || false,
       articleData.seo_title || null,
       articleData.seo_description || null,
       articleData.tags || [],
       reading_time,
+      articleData.published_at || null,
+      articleData.created_at || now,
       now,
-      now
+      articleData.locale || DEFAULT_LOCALE,
+      articleData.translation_group_id || null,
+      articleData.expires_at || null,
+      articleData.expiry_action || 'archive',
+      articleData.expiry_banner || null
     ];
 
     const result = await this.pool.query(query, values);
@@ -109,67 +218,275 @@ export class Article {
     return result.rows[0] || null;
   }
 
-  async findMany(filters: ArticleFilters = {}): Promise<{ articles: ArticleData[]; total: number }> {
-    let whereClause = 'WHERE 1=1';
-    const values: any[] = [];
-    let paramCount = 0;
+  /**
+   * The article that used to have this slug. Slug history is kept by a database trigger.
+   */
+  async findByPreviousSlug(authorId: string, slug: string): Promise<ArticleData | null> {
+    const query = `
+      SELECT a.* FROM article_slugs s
+      JOIN articles a ON a.id = s.article_id
+      WHERE s.author_id = $1 AND s.slug = $2
+    `;
 
-    // Build WHERE clause dynamically
-    if (filters.author_id) {
-      paramCount++;
-      whereClause += ` AND author_id = $${paramCount}`;
-      values.push(filters.author_id);
-    }
+    const result = await this.pool.query(query, [authorId, slug]);
+    return result.rows[0] || null;
+  }
 
-    if (filters.status) {
-      paramCount++;
-      whereClause += ` AND status = $${paramCount}`;
-      values.push(filters.status);
-    }
+  /**
+   * Articles behind a set of public article URLs, given as (creator, slug) pairs. Creator ids
+   * are compared as text because a pasted URL can carry anything in that segment.
+   */
+  async findByAuthorSlugs(links: ArticleLink[]): Promise<Pick<ArticleData, 'id' | 'author_id' | 'slug' | 'status' | 'expires_at'>[]> {
+    const query = `
+      SELECT a.id, a.author_id, a.slug, a.status, a.expires_at
+      FROM unnest($1::text[], $2::text[]) AS l(author_id, slug)
+      JOIN articles a ON a.slug = l.slug AND a.author_id::text = l.author_id
+    `;
 
-    if (filters.is_premium !== undefined) {
-      paramCount++;
-      whereClause += ` AND is_premium = $${paramCount}`;
-      values.push(filters.is_premium);
-    }
+    const result = await this.pool.query(query, [links.map(link => link.author_id), links.map(link => link.slug)]);
+    return result.rows;
+  }
 
-    if (filters.tags && filters.tags.length > 0) {
-      paramCount++;
-      whereClause += ` AND tags @> $${paramCount}`;
-      values.push(JSON.stringify(filters.tags));
-    }
+  /**
+   * Like findByPreviousSlug for several (creator, slug) pairs at once
+   */
+  async findByPreviousAuthorSlugs(links: ArticleLink[]): Promise<(Pick<ArticleData, 'id' | 'author_id' | 'slug'> & { previous_slug: string })[]> {
+    const query = `
+      SELECT a.id, a.author_id, a.slug, s.slug AS previous_slug
+      FROM unnest($1::text[], $2::text[]) AS l(author_id, slug)
+      JOIN article_slugs s ON s.slug = l.slug AND s.author_id::text = l.author_id
+      JOIN articles a ON a.id = s.article_id
+    `;
 
-    if (filters.search) {
-      paramCount++;
-      whereClause += ` AND (title ILIKE $${paramCount} OR content ILIKE $${paramCount} OR excerpt ILIKE $${paramCount})`;
-      values.push(`%${filters.search}%`);
+    const result = await this.pool.query(query, [links.map(link => link.author_id), links.map(link => link.slug)]);
+    return result.rows;
+  }
+
+  async findSlugsByAuthor(authorId: string): Promise<string[]> {
+    const query = 'SELECT slug FROM articles WHERE author_id = $1';
+    const result = await this.pool.query(query, [authorId]);
+    return result.rows.map(row => row.slug);
+  }
+
+  /**
+   * All of an author's articles in id order, a page at a time. The last id of one page
+   * is the cursor for the next, so a long export can stop and pick up where it left off.
+   */
+  async findForExport(authorId: string, afterId: string | null, limit: number): Promise<ArticleData[]> {
+    const query = afterId
+      ? 'SELECT * FROM articles WHERE author_id = $1 AND id > $2 ORDER BY id ASC LIMIT $3'
+      : 'SELECT * FROM articles WHERE author_id = $1 ORDER BY id ASC LIMIT $2';
+    const values = afterId ? [authorId, afterId, limit] : [authorId, limit];
+
+    const result = await this.pool.query(query, values);
+    return result.rows;
+  }
+
+  /**
+   * Every article in the given translation groups, oldest first, so the first article
+   * of a group is the one the others were translated from.
+   */
+  async findTranslations(groupIds: string[]): Promise<ArticleData[]> {
+    if (groupIds.length === 0) {
+      return [];
     }
 
+    const query = `
+      SELECT id, author_id, title, slug, locale, status, translation_group_id, published_at, created_at
+      FROM articles
+      WHERE translation_group_id = ANY($1::uuid[])
+      ORDER BY created_at ASC
+    `;
+
+    const result = await this.pool.query(query, [groupIds]);
+    return result.rows;
+  }
+
+  async setTranslationGroup(id: string, groupId: string | null): Promise<ArticleData | null> {
+    const query = `
+      UPDATE articles
+      SET translation_group_id = $1, updated_at = $2
+      WHERE id = $3
+      RETURNING *
+    `;
+
+    const result = await this.pool.query(query, [groupId, new Date(), id]);
+    return result.rows[0] || null;
+  }
+
+  async findPreviousSlugs(articleId: string): Promise<{ slug: string; created_at: Date }[]> {
+    const query = 'SELECT slug, created_at FROM article_slugs WHERE article_id = $1 ORDER BY created_at DESC';
+    const result = await this.pool.query(query, [articleId]);
+    return result.rows;
+  }
+
+  async findMany(filters: ArticleFilters = {}): Promise<{ articles: ArticleData[]; total: number; next_cursor: string | null }> {
+    const values: any[] = [];
+    const whereClause = this.buildWhereClause(filters, values);
+
     // Count total results
     const countQuery = `SELECT COUNT(*) FROM articles ${whereClause}`;
     const countResult = await this.pool.query(countQuery, values);
     const total = parseInt(countResult.rows[0].count);
 
     // Get paginated results
-    let query = `SELECT * FROM articles ${whereClause} ORDER BY created_at DESC`;
+    const page = Pagination.build(ARTICLE_SORTS, 'created_at', filters, values);
+    const query = `
+      SELECT *, ${Article.inPremiumSeriesCondition('articles.')} AS in_premium_series${page.select}
+      FROM articles ${whereClause}${page.where} ${page.orderBy}${page.limit}
+    `;
+
+    const result = await this.pool.query(query, values);
+    const { rows, next_cursor } = Pagination.page(result.rows, page);
+    return { articles: rows, total, next_cursor };
+  }
+
+  /**
+   * Relevance-ranked full-text search. Headlines are generated only for the
+   * returned page because ts_headline has to re-parse each document.
+   */
+  async search(filters: ArticleFilters & { search: string }): Promise<{ articles: ArticleSearchRow[]; total: number }> {
+    const values: any[] = [];
+    const whereClause = this.buildWhereClause(filters, values, 'a.');
+    let paramCount = values.length;
+
+    const countQuery = `SELECT COUNT(*) FROM articles a ${whereClause}`;
+    const countResult = await this.pool.query(countQuery, values);
+    const total = parseInt(countResult.rows[0].count);
+
+    if (total === 0) {
+      return { articles: [], total };
+    }
+
+    // The parsed query is always the first parameter when a search filter is present
+    let rankedQuery = `
+      SELECT a.*, ts_rank_cd(a.search_vector, to_tsquery('english', $1), 32) AS rank
+      FROM articles a
+      ${whereClause}
+      ORDER BY rank DESC, a.published_at DESC NULLS LAST
+    `;
 
     if (filters.limit) {
       paramCount++;
-      query += ` LIMIT $${paramCount}`;
+      rankedQuery += ` LIMIT $${paramCount}`;
       values.push(filters.limit);
     }
 
     if (filters.offset) {
       paramCount++;
-      query += ` OFFSET $${paramCount}`;
+      rankedQuery += ` OFFSET $${paramCount}`;
       values.push(filters.offset);
     }
 
+    // Highlights are returned as HTML, so the text is escaped before <mark> goes in. Snippets of
+    // premium articles come from the excerpt so search cannot be used to read past the paywall;
+    // the rest come from the rendered HTML so markdown and blocks source never shows through.
+    const snippetSource = `CASE WHEN ranked.is_premium THEN COALESCE(ranked.excerpt, '')
+      ELSE regexp_replace(COALESCE(ranked.content_html, ranked.content), '<[^>]*>', ' ', 'g') END`;
+    const query = `
+      SELECT ranked.*,
+        ts_headline('english', ${Article.escapeHtmlSql('ranked.title')}, to_tsquery('english', $1),
+          'HighlightAll=true, StartSel=<mark>, StopSel=</mark>') AS title_highlight,
+        ts_headline('english', ${Article.escapeHtmlSql(snippetSource)}, to_tsquery('english', $1),
+          'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=30, MinWords=10, FragmentDelimiter=" ... "') AS snippet
+      FROM (${rankedQuery}) ranked
+      ORDER BY ranked.rank DESC, ranked.published_at DESC NULLS LAST
+    `;
+
     const result = await this.pool.query(query, values);
     return { articles: result.rows, total };
   }
 
-  async update(id: string, updateData: UpdateArticleData): Promise<ArticleData | null> {
+  async searchFacets(filters: ArticleFilters & { search: string }, limit = 20): Promise<SearchFacets> {
+    const values: any[] = [];
+    const whereClause = this.buildWhereClause(filters, values, 'a.');
+
+    const tagQuery = `
+      SELECT tag, COUNT(*) AS count
+      FROM articles a, unnest(a.tags) AS tag
+      ${whereClause}
+      GROUP BY tag
+      ORDER BY count DESC, tag ASC
+      LIMIT ${limit}
+    `;
+
+    const authorQuery = `
+      SELECT a.author_id, u.name, COUNT(*) AS count
+      FROM articles a
+      JOIN users u ON u.id = a.author_id
+      ${whereClause}
+      GROUP BY a.author_id, u.name
+      ORDER BY count DESC, u.name ASC
+      LIMIT ${limit}
+    `;
+
+    const [tagResult, authorResult] = await Promise.all([
+      this.pool.query(tagQuery, values),
+      this.pool.query(authorQuery, values)
+    ]);
+
+    return {
+      tags: tagResult.rows.map(row => ({ tag: row.tag, count: parseInt(row.count) })),
+      authors: authorResult.rows.map(row => ({ author_id: row.author_id, name: row.name, count: parseInt(row.count) }))
+    };
+  }
+
+  private buildWhereClause(filters: ArticleFilters, values: any[], prefix = ''): string {
+    let whereClause = 'WHERE 1=1';
+
+    // The search query goes first so ranking and headline expressions can refer to it as $1
+    if (filters.search !== undefined) {
+      const tsQuery = Article.buildSearchQuery(filters.search);
+      if (tsQuery) {
+        values.push(tsQuery);
+        whereClause += ` AND ${prefix}search_vector @@ to_tsquery('english', $${values.length})`;
+      } else {
+        whereClause += ' AND FALSE';
+      }
+    }
+
+    if (filters.author_id) {
+      values.push(filters.author_id);
+      whereClause += ` AND ${prefix}author_id = $${values.length}`;
+    }
+
+    if (filters.status) {
+      values.push(filters.status);
+      whereClause += ` AND ${prefix}status = $${values.length}`;
+    }
+
+    if (filters.is_premium !== undefined) {
+      values.push(filters.is_premium);
+      whereClause += ` AND ${prefix}is_premium = $${values.length}`;
+    }
+
+    if (filters.tags && filters.tags.length > 0) {
+      values.push(filters.tags);
+      whereClause += ` AND ${prefix}tags @> $${values.length}`;
+    }
+
+    if (filters.locale) {
+      values.push(filters.locale);
+      whereClause += ` AND ${prefix}locale = $${values.length}`;
+    }
+
+    if (filters.series_id) {
+      values.push(filters.series_id);
+      whereClause += ` AND ${prefix}id IN (SELECT article_id FROM series_articles WHERE series_id = $${values.length})`;
+    }
+
+    if (filters.exclude_expired) {
+      whereClause += ` AND ${Article.notExpiredCondition(prefix)}`;
+    }
+
+    if (filters.exclude_premium_series) {
+      whereClause += ` AND NOT ${Article.inPremiumSeriesCondition(prefix || 'articles.')}`;
+    }
+
+    return whereClause;
+  }
+
+  async update(id: string, updateData: UpdateArticleData & Partial<RenderedArticleFields>): Promise<ArticleData | null> {
     const fields: string[] = [];
     const values: any[] = [];
     let paramCount = 1;
@@ -178,19 +495,27 @@ export class Article {
     Object.entries(updateData).forEach(([key, value]) => {
       if (value !== undefined) {
         if (key === 'title') {
-          // Update slug when title changes
+          // Update slug when title changes, unless the new title has nothing to build one from
+          const slug = this.generateSlug(value as string);
           fields.push(`title = $${paramCount}`);
-          fields.push(`slug = $${paramCount + 1}`);
           values.push(value);
-          values.push(this.generateSlug(value as string));
-          paramCount += 2;
-        } else if (key === 'content') {
+          paramCount++;
+          if (slug) {
+            fields.push(`slug = $${paramCount}`);
+            values.push(slug);
+            paramCount++;
+          }
+        } else if (key === 'content' && updateData.reading_time === undefined) {
           // Recalculate reading time when content changes
           fields.push(`content = $${paramCount}`);
           fields.push(`reading_time = $${paramCount + 1}`);
           values.push(value);
           values.push(this.calculateReadingTime(value as string));
           paramCount += 2;
+        } else if (key === 'toc') {
+          fields.push(`toc = $${paramCount}`);
+          values.push(JSON.stringify(value));
+          paramCount++;
         } else {
           fields.push(`${key} = $${paramCount}`);
           values.push(value);
@@ -218,16 +543,188 @@ export class Article {
     return result.rows[0] || null;
   }
 
-  async publish(id: string, scheduledAt?: Date): Promise<ArticleData | null> {
-    const publishedAt = scheduledAt || new Date();
+  async publish(id: string, publishedAt?: Date): Promise<ArticleData | null> {
     const query = `
       UPDATE articles
-      SET status = 'published', published_at = $1, updated_at = $2
+      SET status = 'published', published_at = $1, scheduled_at = NULL, expired_at = NULL, updated_at = $2
       WHERE id = $3
       RETURNING *
     `;
 
-    const result = await this.pool.query(query, [publishedAt, new Date(), id]);
+    const result = await this.pool.query(query, [publishedAt || new Date(), new Date(), id]);
+    return result.rows[0] || null;
+  }
+
+  async updateDistribution(id: string, notifySubscribers: boolean, socialAutoPost: boolean): Promise<ArticleData | null> {
+    const query = `
+      UPDATE articles
+      SET notify_subscribers = $1, social_auto_post = $2, updated_at = $3
+      WHERE id = $4
+      RETURNING *
+    `;
+
+    const result = await this.pool.query(query, [notifySubscribers, socialAutoPost, new Date(), id]);
+    return result.rows[0] || null;
+  }
+
+  async schedule(id: string, scheduledAt: Date): Promise<ArticleData | null> {
+    const query = `
+      UPDATE articles
+      SET status = 'scheduled', scheduled_at = $1, published_at = NULL, updated_at = $2
+      WHERE id = $3
+      RETURNING *
+    `;
+
+    const result = await this.pool.query(query, [scheduledAt, new Date(), id]);
+    return result.rows[0] || null;
+  }
+
+  async unschedule(id: string): Promise<ArticleData | null> {
+    const query = `
+      UPDATE articles
+      SET status = 'draft', scheduled_at = NULL, updated_at = $1
+      WHERE id = $2 AND status = 'scheduled'
+      RETURNING *
+    `;
+
+    const result = await this.pool.query(query, [new Date(), id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Moves an article between review states. The transition only happens from one of
+   * the expected statuses, so a stale request cannot undo a concurrent publish.
+   */
+  async transitionStatus(id: string, status: ArticleStatus, fromStatuses: ArticleStatus[]): Promise<ArticleData | null> {
+    const query = `
+      UPDATE articles
+      SET status = $1, updated_at = $2
+      WHERE id = $3 AND status = ANY($4::text[])
+      RETURNING *
+    `;
+
+    const result = await this.pool.query(query, [status, new Date(), id, fromStatuses]);
+    return result.rows[0] || null;
+  }
+
+  async findInReviewForEditor(editorId: string): Promise<ArticleData[]> {
+    const query = `
+      SELECT a.* FROM articles a
+      JOIN publication_editors pe ON pe.creator_id = a.author_id
+      WHERE pe.editor_id = $1 AND a.status = 'in_review'
+      ORDER BY a.updated_at ASC
+    `;
+
+    const result = await this.pool.query(query, [editorId]);
+    return result.rows;
+  }
+
+  async findSitemapEntries(authorId: string, limit: number, offset: number): Promise<Pick<ArticleData, 'author_id' | 'slug' | 'updated_at'>[]> {
+    const query = `
+      SELECT author_id, slug, updated_at FROM articles
+      WHERE author_id = $1 AND status = 'published' AND ${Article.notExpiredCondition()}
+      ORDER BY published_at DESC, id ASC
+      LIMIT $2 OFFSET $3
+    `;
+
+    const result = await this.pool.query(query, [authorId, limit, offset]);
+    return result.rows;
+  }
+
+  /**
+   * Replaces any of fromTags with toTag (or drops them when toTag is null) in the
+   * author's articles, keeping each article's tag order and removing duplicates.
+   * Returns the number of articles changed.
+   */
+  async replaceTags(authorId: string, fromTags: string[], toTag: string | null): Promise<number> {
+    const query = `
+      UPDATE articles a
+      SET tags = ARRAY(
+        SELECT replaced.tag FROM (
+          SELECT CASE WHEN t.tag = ANY($2::text[]) THEN $3 ELSE t.tag END AS tag, MIN(t.position) AS position
+          FROM unnest(a.tags) WITH ORDINALITY AS t(tag, position)
+          GROUP BY 1
+        ) replaced
+        WHERE replaced.tag IS NOT NULL
+        ORDER BY replaced.position
+      ), updated_at = $4
+      WHERE a.author_id = $1 AND a.tags && $2::text[]
+    `;
+
+    const result = await this.pool.query(query, [authorId, fromTags, toTag, new Date()]);
+    return result.rowCount ?? 0;
+  }
+
+  async findScheduled(authorId?: string): Promise<ArticleData[]> {
+    const values: any[] = [];
+    let query = `SELECT * FROM articles WHERE status = 'scheduled'`;
+
+    if (authorId) {
+      query += ' AND author_id = $1';
+      values.push(authorId);
+    }
+
+    query += ' ORDER BY scheduled_at ASC';
+
+    const result = await this.pool.query(query, values);
+    return result.rows;
+  }
+
+  async findDueScheduledIds(now: Date, limit: number): Promise<string[]> {
+    const query = `
+      SELECT id FROM articles
+      WHERE status = 'scheduled' AND scheduled_at <= $1
+      ORDER BY scheduled_at ASC
+      LIMIT $2
+    `;
+
+    const result = await this.pool.query(query, [now, limit]);
+    return result.rows.map(row => row.id);
+  }
+
+  /**
+   * Atomically moves a due scheduled article to published. The status guard in the
+   * WHERE clause means only one caller can ever win the transition, so concurrent
+   * scheduler ticks (or several app instances) cannot publish the same article twice.
+   */
+  async claimScheduled(id: string, now: Date): Promise<ArticleData | null> {
+    const query = `
+      UPDATE articles
+      SET status = 'published', published_at = scheduled_at, scheduled_at = NULL, expired_at = NULL, updated_at = $1
+      WHERE id = $2 AND status = 'scheduled' AND scheduled_at <= $1
+      RETURNING *
+    `;
+
+    const result = await this.pool.query(query, [now, id]);
+    return result.rows[0] || null;
+  }
+
+  async findDueExpiredIds(now: Date, limit: number): Promise<string[]> {
+    const query = `
+      SELECT id FROM articles
+      WHERE status = 'published' AND expires_at <= $1 AND expired_at IS NULL
+      ORDER BY expires_at ASC
+      LIMIT $2
+    `;
+
+    const result = await this.pool.query(query, [now, limit]);
+    return result.rows.map(row => row.id);
+  }
+
+  /**
+   * Runs the article's expiry action: archive, back to draft, or stay published behind a
+   * banner. Like claimScheduled, the guard lets only one caller expire an article.
+   */
+  async claimExpired(id: string, now: Date): Promise<ArticleData | null> {
+    const query = `
+      UPDATE articles
+      SET status = CASE expiry_action WHEN 'archive' THEN 'archived' WHEN 'unpublish' THEN 'draft' ELSE status END,
+          expired_at = $1, updated_at = $1
+      WHERE id = $2 AND status = 'published' AND expires_at <= $1 AND expired_at IS NULL
+      RETURNING *
+    `;
+
+    const result = await this.pool.query(query, [now, id]);
     return result.rows[0] || null;
   }
 
@@ -272,11 +769,43 @@ export class Article {
     return Math.max(1, readingTime); // Minimum 1 minute
   }
 
+  /**
+   * Slugs are only unique per creator, so the public URL names the creator like series and
+   * tag URLs do
+   */
+  static buildPublicUrl(article: Pick<ArticleData, 'author_id' | 'slug'>): string {
+    return `${process.env.FRONTEND_URL || ''}/articles/${article.author_id}/${article.slug}`;
+  }
+
   // Validation methods
   static validateTitle(title: string): boolean {
     return title.length > 0 && title.length <= 200;
   }
 
+  static validateCitationStyle(style: string): boolean {
+    return (CITATION_STYLES as string[]).includes(style);
+  }
+
+  static validateContentFormat(format: string): boolean {
+    return ['markdown', 'blocks', 'html'].includes(format);
+  }
+
+  /**
+   * Canonical form of a BCP 47 language tag ("th", "en-GB", "zh-Hant-TW"), or null
+   * when the value is not one
+   */
+  static normalizeLocale(locale: string): string | null {
+    if (typeof locale !== 'string' || !/^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i.test(locale.trim())) {
+      return null;
+    }
+
+    try {
+      return Intl.getCanonicalLocales(locale.trim())[0];
+    } catch (error) {
+      return null;
+    }
+  }
+
   static validateContent(content: string): boolean {
     return content.length > 0 && content.length <= 100000; // Max 100k characters
   }
@@ -289,4 +818,112 @@ export class Article {
   static validateSeoDescription(description: string): boolean {
     return description.length <= 300;
   }
+
+  static validateExpiryAction(action: string): action is ExpiryAction {
+    return EXPIRY_ACTIONS.includes(action as ExpiryAction);
+  }
+
+  static validateExpiryBanner(banner: string): boolean {
+    return banner.length <= 500;
+  }
+
+  static isExpired(article: Pick<ArticleData, 'expires_at'>, now: Date = new Date()): boolean {
+    return !!article.expires_at && new Date(article.expires_at) <= now;
+  }
+
+  /**
+   * SQL that HTML-escapes a text expression. Entities already in the text, as in stripped
+   * HTML content, are left alone rather than escaped twice.
+   */
+  static escapeHtmlSql(expression: string): string {
+    const ampersands = `regexp_replace(${expression}, '&(?!#?[0-9a-zA-Z]+;)', '&amp;', 'g')`;
+    return `replace(replace(replace(${ampersands}, '<', '&lt;'), '>', '&gt;'), '"', '&quot;')`;
+  }
+
+  // Articles past expires_at are hidden from public listings whether or not the worker has run yet
+  static notExpiredCondition(prefix = ''): string {
+    return `(${prefix}expires_at IS NULL OR ${prefix}expires_at > CURRENT_TIMESTAMP)`;
+  }
+
+  static inPremiumSeriesCondition(prefix = ''): string {
+    return `EXISTS (
+      SELECT 1 FROM series_articles sa JOIN series s ON s.id = sa.series_id
+      WHERE sa.article_id = ${prefix}id AND s.is_premium
+    )`;
+  }
+
+  /**
+   * Translates a user search string into a to_tsquery expression.
+   *
+   * Supported syntax: "exact phrase", -excluded, prefix*, and OR between terms.
+   * Terms are ANDed by default. Returns null when nothing searchable remains.
+   */
+  static buildSearchQuery(input: string): string | null {
+    const groups: string[][] = [];
+    let pendingOr = false;
+
+    const tokenPattern = /(-?)"([^"]*)"|(\S+)/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = tokenPattern.exec(input)) !== null) {
+      let term: string | null;
+
+      if (match[3] === 'OR') {
+        pendingOr = groups.length > 0;
+        continue;
+      }
+
+      if (match[2] !== undefined) {
+        // Quoted phrase: words must appear adjacent and in order
+        term = Article.phraseToTsQuery(match[2], false);
+        if (term && match[1]) term = `!${term}`;
+      } else {
+        let word = match[3];
+        const negated = word.startsWith('-') && word.length > 1;
+        if (negated) word = word.substring(1);
+
+        const prefix = word.endsWith('*');
+        term = Article.phraseToTsQuery(word, prefix);
+        if (term && negated) term = `!${term}`;
+      }
+
+      if (!term) {
+        continue;
+      }
+
+      const lastGroup = groups[groups.length - 1];
+      if (pendingOr && lastGroup && !term.startsWith('!')) {
+        lastGroup.push(term);
+      } else {
+        groups.push([term]);
+      }
+      pendingOr = false;
+    }
+
+    if (groups.length === 0) {
+      return null;
+    }
+
+    return groups
+      .map(group => (group.length > 1 ? `(${group.join(' | ')})` : group[0]))
+      .join(' & ');
+  }
+
+  private static phraseToTsQuery(text: string, prefix: boolean): string | null {
+    const words = text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) || [];
+    if (words.length === 0) {
+      return null;
+    }
+
+    const phrase = words.join(' <-> ') + (prefix ? ':*' : '');
+    return words.length > 1 ? `(${phrase})` : phrase;
+  }
+
+  static isPrivateStatus(status: ArticleStatus): boolean {
+    // Only the author and the article's collaborators may see articles that have not gone live yet
+    return status === 'draft'
+      || status === 'in_review'
+      || status === 'changes_requested'
+      || status === 'scheduled';
+  }
 }
\ No newline at end of file
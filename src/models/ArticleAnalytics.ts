@@ -58,6 +58,8 @@ export interface ArticlePerformanceSummary {
   total_ad_revenue: number;
   total_affiliate_clicks: number;
   total_newsletter_signups: number;
+  avg_completion: number; // average furthest scroll position of signed-in readers, 0-100
+  completion_rate: number; // percentage of signed-in readers who finished the article
   performance_score: number; // 0-100 composite score
 }
 
@@ -337,9 +339,12 @@ export class ArticleAnalytics {
         COALESCE(SUM(aa.social_shares), 0) as total_social_shares,
         COALESCE(SUM(aa.ad_revenue), 0) as total_ad_revenue,
         COALESCE(SUM(aa.affiliate_clicks), 0) as total_affiliate_clicks,
-        COALESCE(SUM(aa.newsletter_signups), 0) as total_newsletter_signups
+        COALESCE(SUM(aa.newsletter_signups), 0) as total_newsletter_signups,
+        COALESCE(MAX(rp.avg_completion), 0) as avg_completion,
+        COALESCE(MAX(rp.completion_rate), 0) as completion_rate
       FROM article_analytics aa
       JOIN articles a ON aa.article_id = a.id
+      ${this.readingProgressJoin(days)}
       WHERE aa.article_id = $1
       AND aa.date > NOW() - INTERVAL '${days} days'
       GROUP BY aa.article_id, a.title
@@ -382,6 +387,8 @@ export class ArticleAnalytics {
       total_ad_revenue: adRevenue,
       total_affiliate_clicks: affiliateClicks,
       total_newsletter_signups: newsletterSignups,
+      avg_completion: parseFloat(row.avg_completion),
+      completion_rate: parseFloat(row.completion_rate),
       performance_score: performanceScore
     };
   }
@@ -432,9 +439,12 @@ export class ArticleAnalytics {
         COALESCE(SUM(aa.social_shares), 0) as total_social_shares,
         COALESCE(SUM(aa.ad_revenue), 0) as total_ad_revenue,
         COALESCE(SUM(aa.affiliate_clicks), 0) as total_affiliate_clicks,
-        COALESCE(SUM(aa.newsletter_signups), 0) as total_newsletter_signups
+        COALESCE(SUM(aa.newsletter_signups), 0) as total_newsletter_signups,
+        COALESCE(MAX(rp.avg_completion), 0) as avg_completion,
+        COALESCE(MAX(rp.completion_rate), 0) as completion_rate
       FROM article_analytics aa
       JOIN articles a ON aa.article_id = a.id
+      ${this.readingProgressJoin(days)}
       WHERE a.author_id = $1
       AND aa.date > NOW() - INTERVAL '${days} days'
       GROUP BY aa.article_id, a.title
@@ -476,6 +486,8 @@ export class ArticleAnalytics {
         total_ad_revenue: adRevenue,
         total_affiliate_clicks: affiliateClicks,
         total_newsletter_signups: newsletterSignups,
+        avg_completion: parseFloat(row.avg_completion),
+        completion_rate: parseFloat(row.completion_rate),
         performance_score: performanceScore
       };
     });
@@ -490,6 +502,8 @@ export class ArticleAnalytics {
     total_ad_revenue: number;
     total_affiliate_clicks: number;
     total_newsletter_signups: number;
+    avg_completion: number;
+    completion_rate: number;
   }> {
     const query = `
       SELECT
@@ -500,7 +514,21 @@ export class ArticleAnalytics {
         COALESCE(SUM(aa.social_shares), 0) as total_social_shares,
         COALESCE(SUM(aa.ad_revenue), 0) as total_ad_revenue,
         COALESCE(SUM(aa.affiliate_clicks), 0) as total_affiliate_clicks,
-        COALESCE(SUM(aa.newsletter_signups), 0) as total_newsletter_signups
+        COALESCE(SUM(aa.newsletter_signups), 0) as total_newsletter_signups,
+        (
+          SELECT COALESCE(AVG(rp.max_scroll_percentage), 0)
+          FROM reading_progress rp
+          JOIN articles ra ON ra.id = rp.article_id
+          WHERE ra.author_id = $1
+          AND rp.updated_at > NOW() - INTERVAL '${days} days'
+        ) as avg_completion,
+        (
+          SELECT COALESCE(AVG(CASE WHEN rp.completed_at IS NOT NULL THEN 100 ELSE 0 END), 0)
+          FROM reading_progress rp
+          JOIN articles ra ON ra.id = rp.article_id
+          WHERE ra.author_id = $1
+          AND rp.updated_at > NOW() - INTERVAL '${days} days'
+        ) as completion_rate
       FROM article_analytics aa
       JOIN articles a ON aa.article_id = a.id
       WHERE a.author_id = $1
@@ -518,7 +546,9 @@ export class ArticleAnalytics {
       total_social_shares: parseInt(row.total_social_shares),
       total_ad_revenue: parseInt(row.total_ad_revenue),
       total_affiliate_clicks: parseInt(row.total_affiliate_clicks),
-      total_newsletter_signups: parseInt(row.total_newsletter_signups)
+      total_newsletter_signups: parseInt(row.total_newsletter_signups),
+      avg_completion: parseFloat(row.avg_completion),
+      completion_rate: parseFloat(row.completion_rate)
     };
   }
 
@@ -544,6 +574,26 @@ export class ArticleAnalytics {
   }
 
   // Utility methods
+
+  /**
+   * Per-article completion of signed-in readers whose progress synced within the period,
+   * joined as rp. Completion is the furthest point a reader scrolled to, so re-reading
+   * the top of an article does not lower it.
+   */
+  private readingProgressJoin(days: number): string {
+    return `
+      LEFT JOIN (
+        SELECT
+          article_id,
+          AVG(max_scroll_percentage) as avg_completion,
+          AVG(CASE WHEN completed_at IS NOT NULL THEN 100 ELSE 0 END) as completion_rate
+        FROM reading_progress
+        WHERE updated_at > NOW() - INTERVAL '${days} days'
+        GROUP BY article_id
+      ) rp ON rp.article_id = aa.article_id
+    `;
+  }
+
   private calculatePerformanceScore(metrics: {
     pageViews: number;
     uniqueVisitors: number;
@@ -0,0 +1,84 @@
+import { Pool } from 'pg';
+
+export interface BylineAuthor {
+  user_id: string;
+  name: string;
+  bio?: string;
+  avatar_url?: string;
+  position: number;
+}
+
+export class ArticleAuthor {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  async findByArticleId(articleId: string): Promise<BylineAuthor[]> {
+    const query = `
+      SELECT aa.user_id, u.name, u.bio, u.avatar_url, aa.position
+      FROM article_authors aa
+      JOIN users u ON u.id = aa.user_id
+      WHERE aa.article_id = $1
+      ORDER BY aa.position ASC
+    `;
+    const result = await this.pool.query(query, [articleId]);
+    return result.rows;
+  }
+
+  async findByArticleIds(articleIds: string[]): Promise<Map<string, BylineAuthor[]>> {
+    const bylines = new Map<string, BylineAuthor[]>();
+    if (articleIds.length === 0) {
+      return bylines;
+    }
+
+    const query = `
+      SELECT aa.article_id, aa.user_id, u.name, u.bio, u.avatar_url, aa.position
+      FROM article_authors aa
+      JOIN users u ON u.id = aa.user_id
+      WHERE aa.article_id = ANY($1::uuid[])
+      ORDER BY aa.article_id, aa.position ASC
+    `;
+    const result = await this.pool.query(query, [articleIds]);
+
+    for (const { article_id, ...author } of result.rows) {
+      const byline = bylines.get(article_id) || [];
+      byline.push(author);
+      bylines.set(article_id, byline);
+    }
+
+    return bylines;
+  }
+
+  /**
+   * Replaces the byline with the given users in order. Removed authors are deleted and
+   * the rest upserted in one statement; positions are only checked once it completes.
+   */
+  async setAuthors(articleId: string, userIds: string[]): Promise<void> {
+    const query = `
+      WITH removed AS (
+        DELETE FROM article_authors
+        WHERE article_id = $1 AND NOT (user_id = ANY($2::uuid[]))
+      )
+      INSERT INTO article_authors (article_id, user_id, position, added_at)
+      SELECT $1, ordered.user_id, ordered.position, $3
+      FROM unnest($2::uuid[]) WITH ORDINALITY AS ordered(user_id, position)
+      ON CONFLICT (article_id, user_id) DO UPDATE SET position = EXCLUDED.position
+    `;
+
+    await this.pool.query(query, [articleId, userIds, new Date()]);
+  }
+
+  async isAuthor(articleId: string, userId: string): Promise<boolean> {
+    const query = 'SELECT 1 FROM article_authors WHERE article_id = $1 AND user_id = $2';
+    const result = await this.pool.query(query, [articleId, userId]);
+    return result.rows.length > 0;
+  }
+
+  static validateByline(userIds: string[]): boolean {
+    return userIds.length > 0
+      && userIds.length <= 10
+      && new Set(userIds).size === userIds.length;
+  }
+}
\ No newline at end of file
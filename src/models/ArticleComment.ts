@@ -0,0 +1,216 @@
+import { Pool } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+
+export type CommentStatus = 'pending' | 'published' | 'hidden' | 'deleted';
+
+export interface ArticleCommentData {
+  id?: string;
+  article_id: string;
+  parent_id?: string | null;
+  author_id: string;
+  author_name?: string | null;
+  author_avatar_url?: string | null;
+  body: string | null;
+  depth: number;
+  status: CommentStatus;
+  flag_reasons: string[];
+  pinned_at?: Date | null;
+  moderated_by?: string | null;
+  moderated_at?: Date | null;
+  reactions?: Record<string, number>;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export interface CreateArticleCommentData {
+  article_id: string;
+  parent_id?: string | null;
+  author_id: string;
+  body: string;
+  depth: number;
+  status: CommentStatus;
+  flag_reasons: string[];
+}
+
+export interface QueuedCommentData extends ArticleCommentData {
+  article_title: string;
+  article_slug: string;
+}
+
+export class ArticleComment {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  async create(commentData: CreateArticleCommentData): Promise<ArticleCommentData> {
+    const now = new Date();
+
+    const query = `
+      INSERT INTO article_comments (
+        id, article_id, parent_id, author_id, body, depth, status, flag_reasons, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      RETURNING *
+    `;
+
+    const values = [
+      uuidv4(),
+      commentData.article_id,
+      commentData.parent_id || null,
+      commentData.author_id,
+      commentData.body,
+      commentData.depth,
+      commentData.status,
+      commentData.flag_reasons,
+      now,
+      now
+    ];
+
+    const result = await this.pool.query(query, values);
+    return result.rows[0];
+  }
+
+  async findById(id: string): Promise<ArticleCommentData | null> {
+    const query = 'SELECT * FROM article_comments WHERE id = $1';
+    const result = await this.pool.query(query, [id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Every comment on an article, oldest first, with author details and reaction counts.
+   * Callers decide which ones a reader may see.
+   */
+  async findByArticleId(articleId: string): Promise<ArticleCommentData[]> {
+    const query = `
+      SELECT c.*, u.name AS author_name, u.avatar_url AS author_avatar_url,
+        COALESCE(
+          (SELECT json_object_agg(reaction, count) FROM (
+            SELECT reaction, COUNT(*)::int AS count FROM comment_reactions
+            WHERE comment_id = c.id GROUP BY reaction
+          ) counts),
+          '{}'
+        ) AS reactions
+      FROM article_comments c
+      JOIN users u ON u.id = c.author_id
+      WHERE c.article_id = $1
+      ORDER BY c.created_at ASC
+    `;
+
+    const result = await this.pool.query(query, [articleId]);
+    return result.rows;
+  }
+
+  /**
+   * Comments awaiting moderation on articles the user publishes or edits, oldest first
+   */
+  async findPendingForModerator(
+    moderatorId: string,
+    limit = 20,
+    offset = 0
+  ): Promise<{ comments: QueuedCommentData[]; total: number }> {
+    const conditions = `
+      c.status = 'pending'
+      AND (a.author_id = $1 OR a.author_id IN (SELECT creator_id FROM publication_editors WHERE editor_id = $1))
+    `;
+
+    const query = `
+      SELECT c.*, u.name AS author_name, u.avatar_url AS author_avatar_url,
+        a.title AS article_title, a.slug AS article_slug
+      FROM article_comments c
+      JOIN articles a ON a.id = c.article_id
+      JOIN users u ON u.id = c.author_id
+      WHERE ${conditions}
+      ORDER BY c.created_at ASC
+      LIMIT $2 OFFSET $3
+    `;
+    const countQuery = `
+      SELECT COUNT(*) FROM article_comments c
+      JOIN articles a ON a.id = c.article_id
+      WHERE ${conditions}
+    `;
+
+    const [result, countResult] = await Promise.all([
+      this.pool.query(query, [moderatorId, limit, offset]),
+      this.pool.query(countQuery, [moderatorId])
+    ]);
+
+    return {
+      comments: result.rows,
+      total: parseInt(countResult.rows[0].count)
+    };
+  }
+
+  /**
+   * Moves a comment to a new status only if it is currently in one of fromStatuses
+   */
+  async transitionStatus(
+    id: string,
+    status: CommentStatus,
+    fromStatuses: CommentStatus[],
+    moderatorId: string
+  ): Promise<ArticleCommentData | null> {
+    const query = `
+      UPDATE article_comments
+      SET status = $1, moderated_by = $2, moderated_at = $3, updated_at = $3
+      WHERE id = $4 AND status = ANY($5::text[])
+      RETURNING *
+    `;
+
+    const result = await this.pool.query(query, [status, moderatorId, new Date(), id, fromStatuses]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Removes a comment's content while keeping its place in the thread
+   */
+  async markDeleted(id: string, deletedBy: string): Promise<ArticleCommentData | null> {
+    const query = `
+      UPDATE article_comments
+      SET status = 'deleted', body = '', pinned_at = NULL, moderated_by = $1, moderated_at = $2, updated_at = $2
+      WHERE id = $3 AND status <> 'deleted'
+      RETURNING *
+    `;
+
+    const result = await this.pool.query(query, [deletedBy, new Date(), id]);
+    return result.rows[0] || null;
+  }
+
+  async setPinned(id: string, pinned: boolean): Promise<ArticleCommentData | null> {
+    const query = `
+      UPDATE article_comments
+      SET pinned_at = $1, updated_at = $2
+      WHERE id = $3
+      RETURNING *
+    `;
+
+    const now = new Date();
+    const result = await this.pool.query(query, [pinned ? now : null, now, id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Whether the user already has a comment that went live on any of the creator's articles
+   */
+  async hasPublishedComment(authorId: string, creatorId: string): Promise<boolean> {
+    const query = `
+      SELECT 1 FROM article_comments c
+      JOIN articles a ON a.id = c.article_id
+      WHERE c.author_id = $1 AND a.author_id = $2 AND c.status IN ('published', 'hidden')
+      LIMIT 1
+    `;
+
+    const result = await this.pool.query(query, [authorId, creatorId]);
+    return result.rows.length > 0;
+  }
+
+  async countByAuthorSince(authorId: string, since: Date): Promise<number> {
+    const query = 'SELECT COUNT(*) FROM article_comments WHERE author_id = $1 AND created_at >= $2';
+    const result = await this.pool.query(query, [authorId, since]);
+    return parseInt(result.rows[0].count);
+  }
+
+  static validateBody(body: string): boolean {
+    return body.trim().length > 0 && body.length <= 5000;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,189 @@
+import { Pool } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+
+export type DeliveryChannel = 'newsletter' | 'social';
+export type DeliveryStatus = 'pending' | 'processing' | 'sent' | 'failed';
+
+export interface ArticleDeliveryData {
+  id?: string;
+  article_id: string;
+  channel: DeliveryChannel;
+  provider: string;
+  status: DeliveryStatus;
+  attempts?: number;
+  external_id?: string;
+  external_url?: string;
+  last_error?: string;
+  available_at?: Date;
+  locked_at?: Date;
+  sent_at?: Date;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export class ArticleDelivery {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  /**
+   * Enqueues a delivery. The (article, channel, provider) unique key makes this
+   * idempotent: enqueueing the same delivery again is a no-op and returns null.
+   */
+  async enqueue(articleId: string, channel: DeliveryChannel, provider: string): Promise<ArticleDeliveryData | null> {
+    const now = new Date();
+    const query = `
+      INSERT INTO article_deliveries (
+        id, article_id, channel, provider, status, attempts, available_at, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, 'pending', 0, $5, $5, $5)
+      ON CONFLICT (article_id, channel, provider) DO NOTHING
+      RETURNING *
+    `;
+
+    const result = await this.pool.query(query, [uuidv4(), articleId, channel, provider, now]);
+    return result.rows[0] || null;
+  }
+
+  async findByArticleId(articleId: string): Promise<ArticleDeliveryData[]> {
+    const query = `
+      SELECT * FROM article_deliveries
+      WHERE article_id = $1
+      ORDER BY channel, provider
+    `;
+    const result = await this.pool.query(query, [articleId]);
+    return result.rows;
+  }
+
+  /**
+   * Claims the next pending delivery. SKIP LOCKED lets several workers poll the
+   * table concurrently without ever handing the same row to two of them.
+   */
+  async claimNext(now: Date): Promise<ArticleDeliveryData | null> {
+    const query = `
+      UPDATE article_deliveries
+      SET status = 'processing', locked_at = $1, attempts = attempts + 1, updated_at = $1
+      WHERE id = (
+        SELECT id FROM article_deliveries
+        WHERE status = 'pending' AND available_at <= $1
+        ORDER BY available_at ASC
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `;
+
+    const result = await this.pool.query(query, [now]);
+    return result.rows[0] || null;
+  }
+
+  async markSent(id: string, externalId?: string, externalUrl?: string): Promise<ArticleDeliveryData | null> {
+    const query = `
+      UPDATE article_deliveries
+      SET status = 'sent', sent_at = $1, external_id = $2, external_url = $3,
+          locked_at = NULL, last_error = NULL, updated_at = $1
+      WHERE id = $4 AND status = 'processing'
+      RETURNING *
+    `;
+
+    const result = await this.pool.query(query, [new Date(), externalId || null, externalUrl || null, id]);
+    return result.rows[0] || null;
+  }
+
+  async markForRetry(id: string, error: string, retryAt: Date): Promise<ArticleDeliveryData | null> {
+    const query = `
+      UPDATE article_deliveries
+      SET status = 'pending', last_error = $1, available_at = $2, locked_at = NULL, updated_at = $3
+      WHERE id = $4 AND status = 'processing'
+      RETURNING *
+    `;
+
+    const result = await this.pool.query(query, [error, retryAt, new Date(), id]);
+    return result.rows[0] || null;
+  }
+
+  async markFailed(id: string, error: string): Promise<ArticleDeliveryData | null> {
+    const query = `
+      UPDATE article_deliveries
+      SET status = 'failed', last_error = $1, locked_at = NULL, updated_at = $2
+      WHERE id = $3 AND status = 'processing'
+      RETURNING *
+    `;
+
+    const result = await this.pool.query(query, [error, new Date(), id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Puts deliveries of a channel left in processing by a crashed worker back in the queue,
+   * while they have attempts left. Only for channels where sending again is idempotent.
+   */
+  async requeueStale(channel: DeliveryChannel, lockedBefore: Date, maxAttempts: number): Promise<number> {
+    const now = new Date();
+    const query = `
+      UPDATE article_deliveries
+      SET status = 'pending', last_error = 'Delivery interrupted before completion; retrying',
+          available_at = $1, locked_at = NULL, updated_at = $1
+      WHERE status = 'processing' AND channel = $2 AND locked_at < $3 AND attempts < $4
+    `;
+
+    const result = await this.pool.query(query, [now, channel, lockedBefore, maxAttempts]);
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * Deliveries left in processing by a crashed worker may or may not have gone out.
+   * Whatever requeueStale did not pick up is failed rather than retried so that nothing
+   * is ever sent twice.
+   */
+  async failStale(lockedBefore: Date): Promise<number> {
+    const query = `
+      UPDATE article_deliveries
+      SET status = 'failed', last_error = 'Delivery interrupted before completion; not retried to avoid duplicates',
+          locked_at = NULL, updated_at = $1
+      WHERE status = 'processing' AND locked_at < $2
+    `;
+
+    const result = await this.pool.query(query, [new Date(), lockedBefore]);
+    return result.rowCount ?? 0;
+  }
+
+  async findNewsletterRecipientIds(articleId: string): Promise<string[]> {
+    const query = 'SELECT subscriber_id FROM article_newsletter_recipients WHERE article_id = $1';
+    const result = await this.pool.query(query, [articleId]);
+    return result.rows.map(row => row.subscriber_id);
+  }
+
+  async recordNewsletterRecipient(articleId: string, subscriberId: string, messageId?: string): Promise<void> {
+    const query = `
+      INSERT INTO article_newsletter_recipients (article_id, subscriber_id, message_id, sent_at)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (article_id, subscriber_id) DO NOTHING
+    `;
+
+    await this.pool.query(query, [articleId, subscriberId, messageId || null, new Date()]);
+  }
+
+  async findArticlesMissingDeliveries(publishedAfter: Date, limit: number): Promise<string[]> {
+    // Articles published with distribution flags but whose deliveries were never enqueued
+    const query = `
+      SELECT a.id FROM articles a
+      WHERE a.status = 'published'
+        AND a.published_at >= $1
+        AND (
+          (a.notify_subscribers = TRUE AND NOT EXISTS (
+            SELECT 1 FROM article_deliveries d WHERE d.article_id = a.id AND d.channel = 'newsletter'
+          ))
+          OR (a.social_auto_post = TRUE AND NOT EXISTS (
+            SELECT 1 FROM article_deliveries d WHERE d.article_id = a.id AND d.channel = 'social'
+          ))
+        )
+      ORDER BY a.published_at ASC
+      LIMIT $2
+    `;
+
+    const result = await this.pool.query(query, [publishedAfter, limit]);
+    return result.rows.map(row => row.id);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,76 @@
+import { Pool } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import { ArticleData, ExpiryAction } from './Article';
+
+export interface ArticleExpiryData {
+  id?: string;
+  article_id: string;
+  author_id: string;
+  title: string;
+  action: ExpiryAction;
+  expires_at: Date;
+  expired_at: Date;
+  notified_at?: Date | null;
+}
+
+export class ArticleExpiry {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  async create(article: ArticleData): Promise<ArticleExpiryData> {
+    const query = `
+      INSERT INTO article_expiries (id, article_id, author_id, title, action, expires_at, expired_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING *
+    `;
+
+    const values = [
+      uuidv4(),
+      article.id,
+      article.author_id,
+      article.title,
+      article.expiry_action || 'archive',
+      article.expires_at,
+      article.expired_at
+    ];
+
+    const result = await this.pool.query(query, values);
+    return result.rows[0];
+  }
+
+  async findByAuthor(authorId: string, since?: Date, limit = 100): Promise<ArticleExpiryData[]> {
+    const values: any[] = [authorId];
+    let query = 'SELECT * FROM article_expiries WHERE author_id = $1';
+
+    if (since) {
+      values.push(since);
+      query += ` AND expired_at >= $${values.length}`;
+    }
+
+    values.push(limit);
+    query += ` ORDER BY expired_at DESC LIMIT $${values.length}`;
+
+    const result = await this.pool.query(query, values);
+    return result.rows;
+  }
+
+  async findUnnotified(limit: number): Promise<ArticleExpiryData[]> {
+    const query = `
+      SELECT * FROM article_expiries
+      WHERE notified_at IS NULL
+      ORDER BY expired_at ASC
+      LIMIT $1
+    `;
+
+    const result = await this.pool.query(query, [limit]);
+    return result.rows;
+  }
+
+  async markNotified(ids: string[]): Promise<void> {
+    const query = 'UPDATE article_expiries SET notified_at = $1 WHERE id = ANY($2::uuid[]) AND notified_at IS NULL';
+    await this.pool.query(query, [new Date(), ids]);
+  }
+}
\ No newline at end of file
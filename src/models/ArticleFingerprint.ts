@@ -0,0 +1,135 @@
+import { Pool } from 'pg';
+
+export interface ArticleFingerprintData {
+  article_id: string;
+  signature: number[];
+  shingle_count: number;
+  computed_at?: Date;
+}
+
+// A fingerprinted article with what a duplicate report shows of it
+export interface FingerprintedArticleData {
+  id: string;
+  author_id: string;
+  title: string;
+  slug: string;
+  status: string;
+  published_at?: Date | null;
+  signature: number[];
+}
+
+export interface CandidatePair {
+  article_id: string;
+  duplicate_id: string;
+}
+
+export class ArticleFingerprint {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  /**
+   * Stores the signature and swaps the article's LSH buckets for the new ones. Buckets
+   * that did not change are left in place.
+   */
+  async save(articleId: string, signature: number[], buckets: number[], shingleCount: number): Promise<void> {
+    const query = `
+      WITH fingerprint AS (
+        INSERT INTO article_fingerprints (article_id, signature, shingle_count, computed_at)
+        VALUES ($1, $2, $3, $4)
+        ON CONFLICT (article_id) DO UPDATE SET
+          signature = EXCLUDED.signature,
+          shingle_count = EXCLUDED.shingle_count,
+          computed_at = EXCLUDED.computed_at
+        RETURNING article_id
+      ), stale AS (
+        DELETE FROM article_fingerprint_bands
+        WHERE article_id = $1
+          AND (band, bucket) NOT IN (SELECT * FROM unnest($5::smallint[], $6::int[]))
+      )
+      INSERT INTO article_fingerprint_bands (article_id, band, bucket)
+      SELECT f.article_id, b.band, b.bucket
+      FROM fingerprint f
+      CROSS JOIN unnest($5::smallint[], $6::int[]) AS b(band, bucket)
+      ON CONFLICT DO NOTHING
+    `;
+
+    const bands = buckets.map((_, index) => index);
+
+    await this.pool.query(query, [articleId, signature, shingleCount, new Date(), bands, buckets]);
+  }
+
+  async find(articleId: string): Promise<ArticleFingerprintData | null> {
+    const query = 'SELECT * FROM article_fingerprints WHERE article_id = $1';
+    const result = await this.pool.query(query, [articleId]);
+    return result.rows[0] || null;
+  }
+
+  async remove(articleId: string): Promise<void> {
+    await this.pool.query('DELETE FROM article_fingerprints WHERE article_id = $1', [articleId]);
+  }
+
+  /**
+   * Articles sharing at least one LSH bucket with the given buckets, those sharing the most
+   * first. Other creators' articles are only included once published.
+   */
+  async findCandidates(articleId: string, buckets: number[], viewerId: string, limit: number): Promise<FingerprintedArticleData[]> {
+    const query = `
+      WITH candidates AS (
+        SELECT b.article_id, COUNT(*) AS shared_bands
+        FROM unnest($2::smallint[], $3::int[]) AS q(band, bucket)
+        JOIN article_fingerprint_bands b ON b.band = q.band AND b.bucket = q.bucket
+        JOIN articles a ON a.id = b.article_id
+        WHERE b.article_id <> $1
+          AND (a.status = 'published' OR a.author_id = $4)
+        GROUP BY b.article_id
+        ORDER BY shared_bands DESC
+        LIMIT $5
+      )
+      SELECT a.id, a.author_id, a.title, a.slug, a.status, a.published_at, f.signature
+      FROM candidates c
+      JOIN articles a ON a.id = c.article_id
+      JOIN article_fingerprints f ON f.article_id = c.article_id
+    `;
+
+    const bands = buckets.map((_, index) => index);
+
+    const result = await this.pool.query(query, [articleId, bands, buckets, viewerId, limit]);
+    return result.rows;
+  }
+
+  /**
+   * Pairs of an author's article and another article sharing an LSH bucket with it. A pair
+   * of two of the author's own articles comes back in both orders.
+   */
+  async findCandidatePairs(authorId: string, limit: number): Promise<CandidatePair[]> {
+    const query = `
+      SELECT own.article_id, other.article_id AS duplicate_id
+      FROM article_fingerprint_bands own
+      JOIN articles a ON a.id = own.article_id AND a.author_id = $1
+      JOIN article_fingerprint_bands other
+        ON other.band = own.band AND other.bucket = own.bucket AND other.article_id <> own.article_id
+      JOIN articles d ON d.id = other.article_id AND (d.status = 'published' OR d.author_id = $1)
+      GROUP BY own.article_id, other.article_id
+      ORDER BY COUNT(*) DESC
+      LIMIT $2
+    `;
+
+    const result = await this.pool.query(query, [authorId, limit]);
+    return result.rows;
+  }
+
+  async findByArticleIds(articleIds: string[]): Promise<FingerprintedArticleData[]> {
+    const query = `
+      SELECT a.id, a.author_id, a.title, a.slug, a.status, a.published_at, f.signature
+      FROM article_fingerprints f
+      JOIN articles a ON a.id = f.article_id
+      WHERE f.article_id = ANY($1::uuid[])
+    `;
+
+    const result = await this.pool.query(query, [articleIds]);
+    return result.rows;
+  }
+}
\ No newline at end of file
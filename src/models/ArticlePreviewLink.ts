@@ -0,0 +1,123 @@
+import { Pool } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface ArticlePreviewLinkData {
+  id?: string;
+  article_id: string;
+  created_by?: string | null;
+  label?: string | null;
+  revision_number?: number | null;
+  expires_at: Date;
+  revoked_at?: Date | null;
+  revoked_by?: string | null;
+  view_count?: number;
+  last_viewed_at?: Date | null;
+  created_at?: Date;
+}
+
+export interface CreateArticlePreviewLinkData {
+  article_id: string;
+  created_by: string;
+  label?: string | null;
+  revision_number?: number | null;
+  expires_at: Date;
+}
+
+export interface PreviewViewData {
+  id?: string;
+  link_id: string;
+  ip_address?: string | null;
+  user_agent?: string | null;
+  viewed_at?: Date;
+}
+
+export class ArticlePreviewLink {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  async create(linkData: CreateArticlePreviewLinkData): Promise<ArticlePreviewLinkData> {
+    const query = `
+      INSERT INTO article_preview_links (id, article_id, created_by, label, revision_number, expires_at, created_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING *
+    `;
+
+    const values = [
+      uuidv4(),
+      linkData.article_id,
+      linkData.created_by,
+      linkData.label || null,
+      linkData.revision_number || null,
+      linkData.expires_at,
+      new Date()
+    ];
+
+    const result = await this.pool.query(query, values);
+    return result.rows[0];
+  }
+
+  async findById(id: string): Promise<ArticlePreviewLinkData | null> {
+    const query = 'SELECT * FROM article_preview_links WHERE id = $1';
+    const result = await this.pool.query(query, [id]);
+    return result.rows[0] || null;
+  }
+
+  async findByArticleId(articleId: string): Promise<ArticlePreviewLinkData[]> {
+    const query = `
+      SELECT l.*, COUNT(v.id)::int AS view_count, MAX(v.viewed_at) AS last_viewed_at
+      FROM article_preview_links l
+      LEFT JOIN article_preview_views v ON v.link_id = l.id
+      WHERE l.article_id = $1
+      GROUP BY l.id
+      ORDER BY l.created_at DESC
+    `;
+
+    const result = await this.pool.query(query, [articleId]);
+    return result.rows;
+  }
+
+  async revoke(id: string, revokedBy: string): Promise<ArticlePreviewLinkData | null> {
+    const query = `
+      UPDATE article_preview_links
+      SET revoked_at = $1, revoked_by = $2
+      WHERE id = $3 AND revoked_at IS NULL
+      RETURNING *
+    `;
+
+    const result = await this.pool.query(query, [new Date(), revokedBy, id]);
+    return result.rows[0] || null;
+  }
+
+  async logView(linkId: string, ipAddress?: string | null, userAgent?: string | null): Promise<PreviewViewData> {
+    const query = `
+      INSERT INTO article_preview_views (id, link_id, ip_address, user_agent, viewed_at)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING *
+    `;
+
+    const values = [uuidv4(), linkId, ipAddress || null, userAgent ? userAgent.substring(0, 500) : null, new Date()];
+
+    const result = await this.pool.query(query, values);
+    return result.rows[0];
+  }
+
+  async findViews(linkId: string, limit: number): Promise<PreviewViewData[]> {
+    const query = `
+      SELECT * FROM article_preview_views
+      WHERE link_id = $1
+      ORDER BY viewed_at DESC
+      LIMIT $2
+    `;
+
+    const result = await this.pool.query(query, [linkId, limit]);
+    return result.rows;
+  }
+
+  // Validation methods
+  static validateLabel(label: string): boolean {
+    return label.trim().length > 0 && label.length <= 200;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,81 @@
+import { Pool } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+
+export type ReviewDecision = 'approved' | 'changes_requested';
+
+export const REVIEW_DECISIONS: ReviewDecision[] = ['approved', 'changes_requested'];
+
+export interface ArticleReviewData {
+  id?: string;
+  article_id: string;
+  reviewer_id: string;
+  reviewer_name?: string;
+  decision: ReviewDecision;
+  summary?: string;
+  revision_number: number;
+  created_at?: Date;
+}
+
+export interface CreateArticleReviewData {
+  article_id: string;
+  reviewer_id: string;
+  decision: ReviewDecision;
+  summary?: string;
+  revision_number: number;
+}
+
+export class ArticleReview {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  async create(reviewData: CreateArticleReviewData): Promise<ArticleReviewData> {
+    const query = `
+      INSERT INTO article_reviews (id, article_id, reviewer_id, decision, summary, revision_number, created_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING *
+    `;
+
+    const values = [
+      uuidv4(),
+      reviewData.article_id,
+      reviewData.reviewer_id,
+      reviewData.decision,
+      reviewData.summary || null,
+      reviewData.revision_number,
+      new Date()
+    ];
+
+    const result = await this.pool.query(query, values);
+    return result.rows[0];
+  }
+
+  async findByArticleId(articleId: string): Promise<ArticleReviewData[]> {
+    const query = `
+      SELECT r.*, u.name AS reviewer_name
+      FROM article_reviews r
+      JOIN users u ON u.id = r.reviewer_id
+      WHERE r.article_id = $1
+      ORDER BY r.created_at DESC
+    `;
+    const result = await this.pool.query(query, [articleId]);
+    return result.rows;
+  }
+
+  async findLatest(articleId: string): Promise<ArticleReviewData | null> {
+    const query = `
+      SELECT * FROM article_reviews
+      WHERE article_id = $1
+      ORDER BY created_at DESC
+      LIMIT 1
+    `;
+    const result = await this.pool.query(query, [articleId]);
+    return result.rows[0] || null;
+  }
+
+  static validateDecision(decision: string): decision is ReviewDecision {
+    return REVIEW_DECISIONS.includes(decision as ReviewDecision);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,124 @@
+import { Pool } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import { ArticleData } from './Article';
+import { ContentFormat } from '../services/ContentRenderer';
+
+export type RevisionReason = 'create' | 'update' | 'publish' | 'restore';
+
+export interface ArticleRevisionData {
+  id?: string;
+  article_id: string;
+  revision_number: number;
+  title: string;
+  content: string;
+  content_format?: ContentFormat;
+  excerpt?: string;
+  tags?: string[];
+  seo_title?: string;
+  seo_description?: string;
+  reason: RevisionReason;
+  restored_from?: number;
+  created_by?: string;
+  created_at?: Date;
+}
+
+export interface CreateRevisionOptions {
+  reason: RevisionReason;
+  created_by?: string;
+  restored_from?: number;
+}
+
+export interface RevisionSummary {
+  id: string;
+  revision_number: number;
+  title: string;
+  reason: RevisionReason;
+  restored_from?: number;
+  created_by?: string;
+  created_at: Date;
+}
+
+// Concurrent saves of one article can compute the same next revision number
+const MAX_CREATE_ATTEMPTS = 5;
+
+export class ArticleRevision {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  async create(article: ArticleData, options: CreateRevisionOptions): Promise<ArticleRevisionData> {
+    // Revision numbers are allocated per article in the same statement as the insert. A save
+    // racing another one for the same number hits the unique key and tries the next number.
+    const query = `
+      INSERT INTO article_revisions (
+        id, article_id, revision_number, title, content, content_format, excerpt, tags,
+        seo_title, seo_description, reason, restored_from, created_by, created_at
+      )
+      SELECT $1, $2, COALESCE(MAX(revision_number), 0) + 1, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13
+      FROM article_revisions
+      WHERE article_id = $2
+      RETURNING *
+    `;
+
+    const values = [
+      article.id,
+      article.title,
+      article.content,
+      article.content_format || 'markdown',
+      article.excerpt || null,
+      article.tags || [],
+      article.seo_title || null,
+      article.seo_description || null,
+      options.reason,
+      options.restored_from || null,
+      options.created_by || null,
+      new Date()
+    ];
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const result = await this.pool.query(query, [uuidv4(), ...values]);
+        return result.rows[0];
+      } catch (error) {
+        if ((error as { code?: string }).code !== '23505' || attempt >= MAX_CREATE_ATTEMPTS) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  async findByArticleId(articleId: string): Promise<RevisionSummary[]> {
+    const query = `
+      SELECT id, revision_number, title, reason, restored_from, created_by, created_at
+      FROM article_revisions
+      WHERE article_id = $1
+      ORDER BY revision_number DESC
+    `;
+    const result = await this.pool.query(query, [articleId]);
+    return result.rows;
+  }
+
+  async findByNumber(articleId: string, revisionNumber: number): Promise<ArticleRevisionData | null> {
+    const query = 'SELECT * FROM article_revisions WHERE article_id = $1 AND revision_number = $2';
+    const result = await this.pool.query(query, [articleId, revisionNumber]);
+    return result.rows[0] || null;
+  }
+
+  async findLatest(articleId: string): Promise<ArticleRevisionData | null> {
+    const query = `
+      SELECT * FROM article_revisions
+      WHERE article_id = $1
+      ORDER BY revision_number DESC
+      LIMIT 1
+    `;
+    const result = await this.pool.query(query, [articleId]);
+    return result.rows[0] || null;
+  }
+
+  static validateRevisionNumber(value: any): boolean {
+    const revisionNumber = Number(value);
+    return Number.isInteger(revisionNumber) && revisionNumber > 0;
+  }
+}
\ No newline at end of file
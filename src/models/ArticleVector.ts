@@ -0,0 +1,231 @@
+import { Pool } from 'pg';
+import { Article } from './Article';
+
+export interface WeightedTerm {
+  term: string;
+  weight: number;
+}
+
+export interface SimilarityCandidate {
+  id: string;
+  author_id: string;
+  tags: string[];
+  text_score: number;
+}
+
+export interface RelatedArticleRow {
+  id: string;
+  author_id: string;
+  title: string;
+  excerpt: string;
+  slug: string;
+  reading_time: number;
+  published_at: Date;
+  score: number;
+}
+
+export interface RelatedEntry {
+  id: string;
+  score: number;
+}
+
+export class ArticleVector {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  async findDistinctTerms(articleId: string): Promise<string[] | null> {
+    const query = 'SELECT distinct_terms FROM article_vectors WHERE article_id = $1';
+    const result = await this.pool.query(query, [articleId]);
+    return result.rows[0] ? result.rows[0].distinct_terms : null;
+  }
+
+  /**
+   * Number of indexed articles overall and per term
+   */
+  async getDocumentFrequencies(terms: string[]): Promise<{ total: number; counts: Map<string, number> }> {
+    const query = `
+      SELECT
+        (SELECT COUNT(*) FROM article_vectors)::int AS total,
+        COALESCE(
+          (SELECT json_object_agg(term, document_count) FROM term_document_counts WHERE term = ANY($1::text[])),
+          '{}'
+        ) AS counts
+    `;
+
+    const result = await this.pool.query(query, [terms]);
+    const row = result.rows[0];
+
+    return {
+      total: row.total,
+      counts: new Map(Object.entries(row.counts as Record<string, number>))
+    };
+  }
+
+  /**
+   * Stores an article's vector and moves document counts from its previous term set
+   * to the new one. Every sub-statement touches different rows, so one statement is safe.
+   */
+  async save(articleId: string, distinctTerms: string[], previousTerms: string[], weights: WeightedTerm[]): Promise<void> {
+    const previous = new Set(previousTerms);
+    const current = new Set(distinctTerms);
+    const removed = previousTerms.filter(term => !current.has(term));
+    const added = distinctTerms.filter(term => !previous.has(term));
+
+    const query = `
+      WITH decremented AS (
+        UPDATE term_document_counts SET document_count = document_count - 1
+        WHERE term = ANY($2::text[])
+      ), incremented AS (
+        INSERT INTO term_document_counts (term, document_count)
+        SELECT unnest($3::text[]), 1
+        ON CONFLICT (term) DO UPDATE SET document_count = term_document_counts.document_count + 1
+      ), vector AS (
+        INSERT INTO article_vectors (article_id, distinct_terms, indexed_at)
+        VALUES ($1, $4, $5)
+        ON CONFLICT (article_id) DO UPDATE SET distinct_terms = EXCLUDED.distinct_terms, indexed_at = EXCLUDED.indexed_at
+      ), stale_terms AS (
+        DELETE FROM article_terms WHERE article_id = $1 AND NOT (term = ANY($6::text[]))
+      )
+      INSERT INTO article_terms (article_id, term, weight)
+      SELECT $1, term, weight FROM unnest($6::text[], $7::real[]) AS t(term, weight)
+      ON CONFLICT (term, article_id) DO UPDATE SET weight = EXCLUDED.weight
+    `;
+
+    await this.pool.query(query, [
+      articleId,
+      removed,
+      added,
+      distinctTerms,
+      new Date(),
+      weights.map(item => item.term),
+      weights.map(item => item.weight)
+    ]);
+  }
+
+  /**
+   * Drops an article from the index and from every related list it appears in
+   */
+  async remove(articleId: string): Promise<void> {
+    const query = `
+      WITH removed AS (
+        DELETE FROM article_vectors WHERE article_id = $1
+        RETURNING distinct_terms
+      ), decremented AS (
+        UPDATE term_document_counts SET document_count = document_count - 1
+        WHERE term IN (SELECT unnest(distinct_terms) FROM removed)
+      )
+      DELETE FROM related_articles WHERE article_id = $1 OR related_article_id = $1
+    `;
+
+    await this.pool.query(query, [articleId]);
+  }
+
+  /**
+   * Published articles that share weighted terms or tags with the given article.
+   * text_score is the cosine similarity of the two vectors.
+   */
+  async findCandidates(articleId: string, weights: WeightedTerm[], tags: string[], limit: number): Promise<SimilarityCandidate[]> {
+    const query = `
+      WITH text_scores AS (
+        SELECT t.article_id, SUM(q.weight * t.weight) AS text_score
+        FROM unnest($2::text[], $3::real[]) AS q(term, weight)
+        JOIN article_terms t ON t.term = q.term
+        WHERE t.article_id <> $1
+        GROUP BY t.article_id
+        ORDER BY text_score DESC
+        LIMIT $5
+      ), tag_matches AS (
+        SELECT id AS article_id FROM articles
+        WHERE id <> $1 AND status = 'published' AND tags && $4::text[]
+        ORDER BY published_at DESC
+        LIMIT $5
+      )
+      SELECT a.id, a.author_id, a.tags, COALESCE(ts.text_score, 0)::float AS text_score
+      FROM articles a
+      LEFT JOIN text_scores ts ON ts.article_id = a.id
+      WHERE a.status = 'published'
+        AND (a.id IN (SELECT article_id FROM text_scores) OR a.id IN (SELECT article_id FROM tag_matches))
+    `;
+
+    const result = await this.pool.query(query, [
+      articleId,
+      weights.map(item => item.term),
+      weights.map(item => item.weight),
+      tags,
+      limit
+    ]);
+    return result.rows;
+  }
+
+  /**
+   * Replaces an article's neighbours and mirrors each edge onto the neighbour, then trims
+   * every affected list back to the strongest keep entries
+   */
+  async saveRelated(articleId: string, entries: RelatedEntry[], keep: number): Promise<void> {
+    const ids = entries.map(entry => entry.id);
+    const scores = entries.map(entry => entry.score);
+
+    const query = `
+      WITH stale_outgoing AS (
+        DELETE FROM related_articles WHERE article_id = $1 AND NOT (related_article_id = ANY($2::uuid[]))
+      ), stale_incoming AS (
+        DELETE FROM related_articles WHERE related_article_id = $1 AND NOT (article_id = ANY($2::uuid[]))
+      )
+      INSERT INTO related_articles (article_id, related_article_id, score, computed_at)
+      SELECT $1, id, score, $4 FROM unnest($2::uuid[], $3::real[]) AS r(id, score)
+      UNION ALL
+      SELECT id, $1, score, $4 FROM unnest($2::uuid[], $3::real[]) AS r(id, score)
+      ON CONFLICT (article_id, related_article_id) DO UPDATE SET score = EXCLUDED.score, computed_at = EXCLUDED.computed_at
+    `;
+
+    await this.pool.query(query, [articleId, ids, scores, new Date()]);
+
+    if (ids.length === 0) {
+      return;
+    }
+
+    const trimQuery = `
+      DELETE FROM related_articles r
+      USING (
+        SELECT article_id, related_article_id,
+          ROW_NUMBER() OVER (PARTITION BY article_id ORDER BY score DESC) AS rank
+        FROM related_articles
+        WHERE article_id = ANY($1::uuid[])
+      ) ranked
+      WHERE r.article_id = ranked.article_id
+        AND r.related_article_id = ranked.related_article_id
+        AND ranked.rank > $2
+    `;
+
+    await this.pool.query(trimQuery, [ids, keep]);
+  }
+
+  /**
+   * Precomputed neighbours that are still published and not expired. Articles by other
+   * creators are only included when both creators allow cross-creator recommendations.
+   * Only articles in the same language count, and never the article's own translations.
+   */
+  async findRelated(articleId: string, authorId: string, acrossCreators: boolean, limit: number): Promise<RelatedArticleRow[]> {
+    const query = `
+      SELECT a.id, a.author_id, a.title, a.excerpt, a.slug, a.reading_time, a.published_at, r.score
+      FROM related_articles r
+      JOIN articles a ON a.id = r.related_article_id
+      JOIN articles source ON source.id = r.article_id
+      LEFT JOIN creator_settings cs ON cs.creator_id = a.author_id
+      WHERE r.article_id = $1
+        AND a.status = 'published'
+        AND ${Article.notExpiredCondition('a.')}
+        AND a.locale = source.locale
+        AND (source.translation_group_id IS NULL OR a.translation_group_id IS DISTINCT FROM source.translation_group_id)
+        AND (a.author_id = $2 OR ($3 AND COALESCE(cs.related_across_creators, TRUE)))
+      ORDER BY r.score DESC, a.published_at DESC
+      LIMIT $4
+    `;
+
+    const result = await this.pool.query(query, [articleId, authorId, acrossCreators, limit]);
+    return result.rows;
+  }
+}
\ No newline at end of file
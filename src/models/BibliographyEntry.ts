@@ -0,0 +1,79 @@
+import { Pool } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface BibliographyEntryData {
+  id?: string;
+  article_id: string;
+  citation_key: string;
+  entry_type: string;
+  fields: Record<string, string>;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export interface CreateBibliographyEntryData {
+  citation_key: string;
+  entry_type: string;
+  fields: Record<string, string>;
+}
+
+export class BibliographyEntry {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  /**
+   * Inserts entries, replacing any existing entry with the same citation key
+   */
+  async upsertMany(articleId: string, entries: CreateBibliographyEntryData[]): Promise<BibliographyEntryData[]> {
+    const saved: BibliographyEntryData[] = [];
+    const now = new Date();
+
+    for (const entry of entries) {
+      const query = `
+        INSERT INTO article_bibliography_entries (
+          id, article_id, citation_key, entry_type, fields, created_at, updated_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $6)
+        ON CONFLICT (article_id, citation_key)
+        DO UPDATE SET entry_type = EXCLUDED.entry_type, fields = EXCLUDED.fields, updated_at = EXCLUDED.updated_at
+        RETURNING *
+      `;
+
+      const result = await this.pool.query(query, [
+        uuidv4(),
+        articleId,
+        entry.citation_key,
+        entry.entry_type,
+        JSON.stringify(entry.fields),
+        now
+      ]);
+      saved.push(result.rows[0]);
+    }
+
+    return saved;
+  }
+
+  async findByArticleId(articleId: string): Promise<BibliographyEntryData[]> {
+    const query = `
+      SELECT * FROM article_bibliography_entries
+      WHERE article_id = $1
+      ORDER BY citation_key ASC
+    `;
+    const result = await this.pool.query(query, [articleId]);
+    return result.rows;
+  }
+
+  async delete(articleId: string, citationKey: string): Promise<boolean> {
+    const query = 'DELETE FROM article_bibliography_entries WHERE article_id = $1 AND citation_key = $2';
+    const result = await this.pool.query(query, [articleId, citationKey]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async deleteAllForArticle(articleId: string): Promise<number> {
+    const query = 'DELETE FROM article_bibliography_entries WHERE article_id = $1';
+    const result = await this.pool.query(query, [articleId]);
+    return result.rowCount ?? 0;
+  }
+}
\ No newline at end of file
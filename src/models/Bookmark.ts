@@ -0,0 +1,105 @@
+import { Pool } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import { PageOptions, Pagination, SortColumn } from '../services/Pagination';
+
+export interface BookmarkData {
+  id?: string;
+  user_id: string;
+  article_id: string;
+  folder_id?: string | null;
+  created_at?: Date;
+}
+
+// A bookmark with what a reading list shows of its article
+export interface BookmarkedArticleData extends BookmarkData {
+  author_id: string;
+  title: string;
+  slug: string;
+  excerpt?: string;
+  featured_image_url?: string;
+  reading_time?: number;
+  published_at?: Date;
+}
+
+export type BookmarkSortField = 'created_at' | 'published_at' | 'title';
+
+const BOOKMARK_SORTS: Record<BookmarkSortField, SortColumn> = {
+  created_at: { column: 'b.created_at' },
+  published_at: { column: 'a.published_at', nullable: true },
+  title: { column: 'a.title' }
+};
+
+export interface BookmarkFilters extends PageOptions<BookmarkSortField> {
+  // null lists the bookmarks that are not in any folder
+  folder_id?: string | null;
+}
+
+export class Bookmark {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  /**
+   * Bookmarks the article, or files an existing bookmark into another folder
+   */
+  async upsert(userId: string, articleId: string, folderId: string | null): Promise<BookmarkData> {
+    const query = `
+      INSERT INTO bookmarks (id, user_id, article_id, folder_id, created_at)
+      VALUES ($1, $2, $3, $4, $5)
+      ON CONFLICT (user_id, article_id) DO UPDATE SET folder_id = EXCLUDED.folder_id
+      RETURNING *
+    `;
+
+    const result = await this.pool.query(query, [uuidv4(), userId, articleId, folderId, new Date()]);
+    return result.rows[0];
+  }
+
+  async find(userId: string, articleId: string): Promise<BookmarkData | null> {
+    const query = 'SELECT * FROM bookmarks WHERE user_id = $1 AND article_id = $2';
+    const result = await this.pool.query(query, [userId, articleId]);
+    return result.rows[0] || null;
+  }
+
+  async remove(userId: string, articleId: string): Promise<boolean> {
+    const query = 'DELETE FROM bookmarks WHERE user_id = $1 AND article_id = $2';
+    const result = await this.pool.query(query, [userId, articleId]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * The reader's bookmarks of articles that are still published
+   */
+  async findByUser(
+    userId: string,
+    filters: BookmarkFilters = {}
+  ): Promise<{ bookmarks: BookmarkedArticleData[]; total: number; next_cursor: string | null }> {
+    const values: any[] = [userId];
+    let whereClause = "WHERE b.user_id = $1 AND a.status = 'published'";
+
+    if (filters.folder_id === null) {
+      whereClause += ' AND b.folder_id IS NULL';
+    } else if (filters.folder_id) {
+      values.push(filters.folder_id);
+      whereClause += ` AND b.folder_id = $${values.length}`;
+    }
+
+    const from = 'FROM bookmarks b JOIN articles a ON a.id = b.article_id';
+
+    const countResult = await this.pool.query(`SELECT COUNT(*) ${from} ${whereClause}`, values);
+    const total = parseInt(countResult.rows[0].count);
+
+    const page = Pagination.build(BOOKMARK_SORTS, 'created_at', filters, values, 'b.id');
+    const query = `
+      SELECT b.*, a.author_id, a.title, a.slug, a.excerpt, a.featured_image_url, a.reading_time, a.published_at${page.select}
+      ${from}
+      ${whereClause}${page.where}
+      ${page.orderBy}${page.limit}
+    `;
+
+    const result = await this.pool.query(query, values);
+    const { rows, next_cursor } = Pagination.page(result.rows, page);
+    return { bookmarks: rows, total, next_cursor };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,37 @@
+import { Pool } from 'pg';
+
+export class CommentReaction {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  async add(commentId: string, userId: string, reaction: string): Promise<void> {
+    const query = `
+      INSERT INTO comment_reactions (comment_id, user_id, reaction, created_at)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (comment_id, user_id, reaction) DO NOTHING
+    `;
+
+    await this.pool.query(query, [commentId, userId, reaction, new Date()]);
+  }
+
+  async remove(commentId: string, userId: string, reaction: string): Promise<boolean> {
+    const query = 'DELETE FROM comment_reactions WHERE comment_id = $1 AND user_id = $2 AND reaction = $3';
+    const result = await this.pool.query(query, [commentId, userId, reaction]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async countForComment(commentId: string): Promise<Record<string, number>> {
+    const query = `
+      SELECT reaction, COUNT(*)::int AS count
+      FROM comment_reactions
+      WHERE comment_id = $1
+      GROUP BY reaction
+    `;
+
+    const result = await this.pool.query(query, [commentId]);
+    return Object.fromEntries(result.rows.map(row => [row.reaction, row.count]));
+  }
+}
\ No newline at end of file
@@ -0,0 +1,241 @@
+import { Pool } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import { ZipDirectoryEntry } from '../services/ZipArchive';
+
+export type ExportStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'expired';
+
+export interface ExportManifestArticle {
+  id: string;
+  slug: string;
+  title: string;
+  status: string;
+  path: string;
+  media: string[];
+}
+
+export interface ExportManifestMedia {
+  id: string;
+  filename: string;
+  mime_type: string;
+  alt_text?: string;
+  caption?: string;
+  // Each stored file (original and variants) with the URL it was served from
+  files: { path: string; url: string }[];
+}
+
+export interface ExportProgress {
+  // Id of the last article written; the next batch starts after it
+  cursor: string | null;
+  // Parts written to storage so far and their combined size, which is where the next part starts
+  parts: number;
+  bytes: number;
+  files: ZipDirectoryEntry[];
+  articles: ExportManifestArticle[];
+  media: ExportManifestMedia[];
+}
+
+export interface ContentExportData {
+  id?: string;
+  creator_id: string;
+  status: ExportStatus;
+  progress: ExportProgress;
+  size_bytes?: number | null;
+  download_token?: string | null;
+  expires_at?: Date | null;
+  attempts?: number;
+  last_error?: string;
+  locked_at?: Date;
+  completed_at?: Date;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export class ContentExport {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  static emptyProgress(): ExportProgress {
+    return { cursor: null, parts: 0, bytes: 0, files: [], articles: [], media: [] };
+  }
+
+  async create(creatorId: string): Promise<ContentExportData> {
+    const now = new Date();
+
+    const query = `
+      INSERT INTO content_exports (id, creator_id, status, progress, created_at, updated_at)
+      VALUES ($1, $2, 'pending', $3, $4, $5)
+      RETURNING *
+    `;
+
+    const values = [uuidv4(), creatorId, JSON.stringify(ContentExport.emptyProgress()), now, now];
+
+    const result = await this.pool.query(query, values);
+    return ContentExport.fromRow(result.rows[0]);
+  }
+
+  async findById(id: string): Promise<ContentExportData | null> {
+    const query = 'SELECT * FROM content_exports WHERE id = $1';
+    const result = await this.pool.query(query, [id]);
+    return result.rows[0] ? ContentExport.fromRow(result.rows[0]) : null;
+  }
+
+  async findByToken(token: string): Promise<ContentExportData | null> {
+    const query = 'SELECT * FROM content_exports WHERE download_token = $1';
+    const result = await this.pool.query(query, [token]);
+    return result.rows[0] ? ContentExport.fromRow(result.rows[0]) : null;
+  }
+
+  async findByCreator(creatorId: string, limit = 20): Promise<ContentExportData[]> {
+    const query = `
+      SELECT * FROM content_exports
+      WHERE creator_id = $1
+      ORDER BY created_at DESC
+      LIMIT $2
+    `;
+
+    const result = await this.pool.query(query, [creatorId, limit]);
+    return result.rows.map(row => ContentExport.fromRow(row));
+  }
+
+  async findUnfinished(creatorId: string): Promise<ContentExportData | null> {
+    const query = `
+      SELECT * FROM content_exports
+      WHERE creator_id = $1 AND status IN ('pending', 'processing')
+      ORDER BY created_at DESC
+      LIMIT 1
+    `;
+
+    const result = await this.pool.query(query, [creatorId]);
+    return result.rows[0] ? ContentExport.fromRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Claims the next pending export, oldest first. SKIP LOCKED lets several workers
+   * poll the table without handing the same export to two of them.
+   */
+  async claimNext(now: Date): Promise<ContentExportData | null> {
+    const query = `
+      UPDATE content_exports
+      SET status = 'processing', locked_at = $1, attempts = attempts + 1, updated_at = $1
+      WHERE id = (
+        SELECT id FROM content_exports
+        WHERE status = 'pending'
+        ORDER BY created_at ASC
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `;
+
+    const result = await this.pool.query(query, [now]);
+    return result.rows[0] ? ContentExport.fromRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Records a finished batch and refreshes the lock, so a long export is not taken for stale
+   */
+  async saveProgress(id: string, progress: ExportProgress): Promise<boolean> {
+    const query = `
+      UPDATE content_exports
+      SET progress = $1, locked_at = $2, updated_at = $2
+      WHERE id = $3 AND status = 'processing'
+    `;
+
+    const result = await this.pool.query(query, [JSON.stringify(progress), new Date(), id]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async markCompleted(
+    id: string,
+    progress: ExportProgress,
+    download: { token: string; expires_at: Date; size_bytes: number }
+  ): Promise<ContentExportData | null> {
+    const query = `
+      UPDATE content_exports
+      SET status = 'completed', progress = $1, download_token = $2, expires_at = $3, size_bytes = $4,
+          completed_at = $5, locked_at = NULL, last_error = NULL, updated_at = $5
+      WHERE id = $6 AND status = 'processing'
+      RETURNING *
+    `;
+
+    const values = [JSON.stringify(progress), download.token, download.expires_at, download.size_bytes, new Date(), id];
+
+    const result = await this.pool.query(query, values);
+    return result.rows[0] ? ContentExport.fromRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Puts the export back in the queue after an error; the saved progress is kept
+   */
+  async markRetry(id: string, error: string): Promise<ContentExportData | null> {
+    const query = `
+      UPDATE content_exports
+      SET status = 'pending', last_error = $1, locked_at = NULL, updated_at = $2
+      WHERE id = $3 AND status = 'processing'
+      RETURNING *
+    `;
+
+    const result = await this.pool.query(query, [error, new Date(), id]);
+    return result.rows[0] ? ContentExport.fromRow(result.rows[0]) : null;
+  }
+
+  async markFailed(id: string, error: string): Promise<ContentExportData | null> {
+    const query = `
+      UPDATE content_exports
+      SET status = 'failed', last_error = $1, completed_at = $2, locked_at = NULL, updated_at = $2
+      WHERE id = $3 AND status = 'processing'
+      RETURNING *
+    `;
+
+    const result = await this.pool.query(query, [error, new Date(), id]);
+    return result.rows[0] ? ContentExport.fromRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Unlike imports, writing a batch twice is harmless, so an export interrupted by a
+   * crash goes back to the queue and resumes from its saved progress.
+   */
+  async requeueStale(lockedBefore: Date): Promise<number> {
+    const query = `
+      UPDATE content_exports
+      SET status = 'pending', locked_at = NULL, updated_at = $1
+      WHERE status = 'processing' AND locked_at < $2
+    `;
+
+    const result = await this.pool.query(query, [new Date(), lockedBefore]);
+    return result.rowCount ?? 0;
+  }
+
+  async findExpired(now: Date, limit: number): Promise<ContentExportData[]> {
+    const query = `
+      SELECT * FROM content_exports
+      WHERE status = 'completed' AND expires_at <= $1
+      ORDER BY expires_at ASC
+      LIMIT $2
+    `;
+
+    const result = await this.pool.query(query, [now, limit]);
+    return result.rows.map(row => ContentExport.fromRow(row));
+  }
+
+  async markExpired(id: string): Promise<void> {
+    const query = `
+      UPDATE content_exports
+      SET status = 'expired', download_token = NULL, updated_at = $1
+      WHERE id = $2 AND status = 'completed'
+    `;
+
+    await this.pool.query(query, [new Date(), id]);
+  }
+
+  // BIGINT columns come back from pg as strings
+  private static fromRow(row: any): ContentExportData {
+    return {
+      ...row,
+      size_bytes: row.size_bytes === null || row.size_bytes === undefined ? row.size_bytes : Number(row.size_bytes)
+    };
+  }
+}
\ No newline at end of file
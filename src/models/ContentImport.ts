@@ -0,0 +1,184 @@
+import { Pool } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+
+export type ImportSource = 'substack' | 'ghost' | 'wordpress';
+export type ImportStatus = 'pending' | 'processing' | 'completed' | 'failed';
+export type ImportConflictStrategy = 'skip' | 'rename';
+
+export const IMPORT_SOURCES: ImportSource[] = ['substack', 'ghost', 'wordpress'];
+export const IMPORT_CONFLICT_STRATEGIES: ImportConflictStrategy[] = ['skip', 'rename'];
+
+export interface ImportIssue {
+  type: 'article' | 'subscriber';
+  // The article's slug or the subscriber's email
+  ref: string;
+  title?: string;
+  reason: string;
+  resolution?: 'skipped' | 'renamed';
+  new_slug?: string;
+}
+
+export interface ImportReport {
+  dry_run: boolean;
+  articles: { total: number; imported: number; renamed: number; skipped: number };
+  subscribers: { total: number; imported: number; skipped: number };
+  tags: string[];
+  conflicts: ImportIssue[];
+  skipped: ImportIssue[];
+  // Set when the issue lists were cut short; the counts above are always complete
+  issues_truncated?: boolean;
+}
+
+export interface ContentImportData {
+  id?: string;
+  creator_id: string;
+  source: ImportSource;
+  status: ImportStatus;
+  dry_run: boolean;
+  on_conflict: ImportConflictStrategy;
+  file_name: string;
+  storage_key: string;
+  report?: ImportReport | null;
+  attempts?: number;
+  last_error?: string;
+  locked_at?: Date;
+  completed_at?: Date;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export interface CreateContentImportData {
+  creator_id: string;
+  source: ImportSource;
+  dry_run?: boolean;
+  on_conflict?: ImportConflictStrategy;
+  file_name: string;
+  storage_key: string;
+}
+
+export class ContentImport {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  async create(importData: CreateContentImportData): Promise<ContentImportData> {
+    const now = new Date();
+
+    const query = `
+      INSERT INTO content_imports (id, creator_id, source, status, dry_run, on_conflict, file_name, storage_key, created_at, updated_at)
+      VALUES ($1, $2, $3, 'pending', $4, $5, $6, $7, $8, $9)
+      RETURNING *
+    `;
+
+    const values = [
+      uuidv4(),
+      importData.creator_id,
+      importData.source,
+      importData.dry_run || false,
+      importData.on_conflict || 'skip',
+      importData.file_name,
+      importData.storage_key,
+      now,
+      now
+    ];
+
+    const result = await this.pool.query(query, values);
+    return result.rows[0];
+  }
+
+  async findById(id: string): Promise<ContentImportData | null> {
+    const query = 'SELECT * FROM content_imports WHERE id = $1';
+    const result = await this.pool.query(query, [id]);
+    return result.rows[0] || null;
+  }
+
+  async findByCreator(creatorId: string, limit = 50): Promise<ContentImportData[]> {
+    const query = `
+      SELECT * FROM content_imports
+      WHERE creator_id = $1
+      ORDER BY created_at DESC
+      LIMIT $2
+    `;
+
+    const result = await this.pool.query(query, [creatorId, limit]);
+    return result.rows;
+  }
+
+  /**
+   * Whether another import still needs the stored file
+   */
+  async isFileInUse(storageKey: string, exceptId: string): Promise<boolean> {
+    const query = `
+      SELECT 1 FROM content_imports
+      WHERE storage_key = $1 AND id <> $2 AND status IN ('pending', 'processing')
+      LIMIT 1
+    `;
+
+    const result = await this.pool.query(query, [storageKey, exceptId]);
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Claims the next pending import, oldest first. SKIP LOCKED lets several workers
+   * poll the table without handing the same import to two of them.
+   */
+  async claimNext(now: Date): Promise<ContentImportData | null> {
+    const query = `
+      UPDATE content_imports
+      SET status = 'processing', locked_at = $1, attempts = attempts + 1, updated_at = $1
+      WHERE id = (
+        SELECT id FROM content_imports
+        WHERE status = 'pending'
+        ORDER BY created_at ASC
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `;
+
+    const result = await this.pool.query(query, [now]);
+    return result.rows[0] || null;
+  }
+
+  async markCompleted(id: string, report: ImportReport): Promise<ContentImportData | null> {
+    const query = `
+      UPDATE content_imports
+      SET status = 'completed', report = $1, completed_at = $2, locked_at = NULL, last_error = NULL, updated_at = $2
+      WHERE id = $3 AND status = 'processing'
+      RETURNING *
+    `;
+
+    const result = await this.pool.query(query, [JSON.stringify(report), new Date(), id]);
+    return result.rows[0] || null;
+  }
+
+  async markFailed(id: string, error: string): Promise<ContentImportData | null> {
+    const query = `
+      UPDATE content_imports
+      SET status = 'failed', last_error = $1, completed_at = $2, locked_at = NULL, updated_at = $2
+      WHERE id = $3 AND status = 'processing'
+      RETURNING *
+    `;
+
+    const result = await this.pool.query(query, [error, new Date(), id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * An import interrupted by a crash may have created part of the archive. It is
+   * failed rather than retried; running it again with on_conflict "skip" imports the rest.
+   */
+  async failStale(lockedBefore: Date): Promise<number> {
+    const query = `
+      UPDATE content_imports
+      SET status = 'failed', last_error = 'Import interrupted before completion; run it again to import the rest',
+          locked_at = NULL, updated_at = $1
+      WHERE status = 'processing' AND locked_at < $2
+    `;
+
+    const result = await this.pool.query(query, [new Date(), lockedBefore]);
+    return result.rowCount ?? 0;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,94 @@
+import { Pool } from 'pg';
+
+export type CommentsAccess = 'everyone' | 'subscribers' | 'disabled';
+
+// The lowest audit severity that stops an article from being published
+export type AuditBlockLevel = 'off' | 'errors' | 'warnings';
+
+export interface CreatorSettingsData {
+  creator_id: string;
+  require_review: boolean;
+  metered_reads_per_month: number;
+  related_across_creators: boolean;
+  comments_access: CommentsAccess;
+  comment_flag_keywords: string[];
+  audit_blocks_publish: AuditBlockLevel;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export interface UpdateCreatorSettingsData {
+  require_review?: boolean;
+  metered_reads_per_month?: number;
+  related_across_creators?: boolean;
+  comments_access?: CommentsAccess;
+  comment_flag_keywords?: string[];
+  audit_blocks_publish?: AuditBlockLevel;
+}
+
+const DEFAULT_SETTINGS: Omit<CreatorSettingsData, 'creator_id'> = {
+  require_review: false,
+  metered_reads_per_month: 0,
+  related_across_creators: true,
+  comments_access: 'everyone',
+  comment_flag_keywords: [],
+  audit_blocks_publish: 'off'
+};
+
+export class CreatorSettings {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  /**
+   * Returns the creator's settings, falling back to defaults when none were saved
+   */
+  async get(creatorId: string): Promise<CreatorSettingsData> {
+    const query = 'SELECT * FROM creator_settings WHERE creator_id = $1';
+    const result = await this.pool.query(query, [creatorId]);
+    return result.rows[0] || { creator_id: creatorId, ...DEFAULT_SETTINGS };
+  }
+
+  async upsert(creatorId: string, updateData: UpdateCreatorSettingsData): Promise<CreatorSettingsData> {
+    const entries = Object.entries(updateData).filter(([, value]) => value !== undefined);
+    if (entries.length === 0) {
+      return this.get(creatorId);
+    }
+
+    const columns = entries.map(([key]) => key);
+    const values = entries.map(([, value]) => value);
+    const placeholders = columns.map((_, index) => `$${index + 2}`);
+    const updates = columns.map(column => `${column} = EXCLUDED.${column}`);
+
+    const query = `
+      INSERT INTO creator_settings (creator_id, ${columns.join(', ')})
+      VALUES ($1, ${placeholders.join(', ')})
+      ON CONFLICT (creator_id) DO UPDATE SET ${updates.join(', ')}
+      RETURNING *
+    `;
+
+    const result = await this.pool.query(query, [creatorId, ...values]);
+    return result.rows[0];
+  }
+
+  // 0 disables the meter
+  static validateMeteredReads(count: number): boolean {
+    return Number.isInteger(count) && count >= 0 && count <= 100;
+  }
+
+  static validateCommentsAccess(access: string): access is CommentsAccess {
+    return ['everyone', 'subscribers', 'disabled'].includes(access);
+  }
+
+  static validateAuditBlockLevel(level: string): level is AuditBlockLevel {
+    return ['off', 'errors', 'warnings'].includes(level);
+  }
+
+  static validateFlagKeywords(keywords: unknown): keywords is string[] {
+    return Array.isArray(keywords)
+      && keywords.length <= 100
+      && keywords.every(keyword => typeof keyword === 'string' && keyword.trim().length > 0 && keyword.length <= 50);
+  }
+}
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { Pool } from 'pg';
 import { v4 as uuidv4 } from 'uuid';
+import { PageOptions, Pagination, SortColumn } from '../services/Pagination';
 
 export interface EmailCampaignData {
   id?: string;
@@ -39,12 +40,22 @@ export interface UpdateEmailCampaignData {
   click_rate?: number;
 }
 
-export interface EmailCampaignFilters {
+export type EmailCampaignSortField = 'created_at' | 'name' | 'scheduled_at' | 'sent_at' | 'recipient_count' | 'open_rate' | 'click_rate';
+
+const EMAIL_CAMPAIGN_SORTS: Record<EmailCampaignSortField, SortColumn> = {
+  created_at: { column: 'created_at' },
+  name: { column: 'name' },
+  scheduled_at: { column: 'scheduled_at', nullable: true },
+  sent_at: { column: 'sent_at', nullable: true },
+  recipient_count: { column: 'recipient_count', nullable: true },
+  open_rate: { column: 'open_rate', nullable: true },
+  click_rate: { column: 'click_rate', nullable: true }
+};
+
+export interface EmailCampaignFilters extends PageOptions<EmailCampaignSortField> {
   creator_id?: string;
   type?: 'newsletter' | 'automation' | 'announcement';
   status?: 'draft' | 'scheduled' | 'sending' | 'sent' | 'failed';
-  limit?: number;
-  offset?: number;
   search?: string;
 }
 
@@ -110,7 +121,7 @@ export class EmailCampaign {
     return result.rows;
   }
 
-  async findMany(filters: EmailCampaignFilters = {}): Promise<{ campaigns: EmailCampaignData[]; total: number }> {
+  async findMany(filters: EmailCampaignFilters = {}): Promise<{ campaigns: EmailCampaignData[]; total: number; next_cursor: string | null }> {
     let whereClause = 'WHERE 1=1';
     const values: any[] = [];
     let paramCount = 0;
@@ -146,22 +157,12 @@ export class EmailCampaign {
     const total = parseInt(countResult.rows[0].count);
 
     // Get paginated results
-    let query = `SELECT * FROM email_campaigns ${whereClause} ORDER BY created_at DESC`;
-
-    if (filters.limit) {
-      paramCount++;
-      query += ` LIMIT $${paramCount}`;
-      values.push(filters.limit);
-    }
-
-    if (filters.offset) {
-      paramCount++;
-      query += ` OFFSET $${paramCount}`;
-      values.push(filters.offset);
-    }
+    const page = Pagination.build(EMAIL_CAMPAIGN_SORTS, 'created_at', filters, values);
+    const query = `SELECT *${page.select} FROM email_campaigns ${whereClause}${page.where} ${page.orderBy}${page.limit}`;
 
     const result = await this.pool.query(query, values);
-    return { campaigns: result.rows, total };
+    const { rows, next_cursor } = Pagination.page(result.rows, page);
+    return { campaigns: rows, total, next_cursor };
   }
 
   async findScheduled(): Promise<EmailCampaignData[]> {
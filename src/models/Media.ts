@@ -0,0 +1,224 @@
+import { Pool } from 'pg';
+
+export interface MediaVariant {
+  name: string;
+  width: number;
+  height: number;
+  format: 'webp';
+  storage_key: string;
+  url: string;
+  size_bytes: number;
+}
+
+export interface MediaData {
+  id: string;
+  creator_id: string;
+  storage_key: string;
+  url: string;
+  filename: string;
+  mime_type: string;
+  size_bytes: number;
+  width: number;
+  height: number;
+  alt_text?: string;
+  caption?: string;
+  focal_x: number;
+  focal_y: number;
+  variants: MediaVariant[];
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export interface CreateMediaData {
+  id: string;
+  creator_id: string;
+  storage_key: string;
+  url: string;
+  filename: string;
+  mime_type: string;
+  size_bytes: number;
+  width: number;
+  height: number;
+  alt_text?: string;
+  caption?: string;
+  focal_x?: number;
+  focal_y?: number;
+  variants: MediaVariant[];
+}
+
+export interface UpdateMediaData {
+  alt_text?: string | null;
+  caption?: string | null;
+  focal_x?: number;
+  focal_y?: number;
+}
+
+export interface MediaFilters {
+  search?: string;
+  limit?: number;
+  offset?: number;
+}
+
+// Preferred rendition for article and profile images
+const DISPLAY_VARIANT = 'large';
+
+export class Media {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  // The id is chosen by the caller because storage keys are derived from it before the row exists
+  async create(mediaData: CreateMediaData): Promise<MediaData> {
+    const now = new Date();
+
+    const query = `
+      INSERT INTO media (
+        id, creator_id, storage_key, url, filename, mime_type, size_bytes, width, height,
+        alt_text, caption, focal_x, focal_y, variants, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+      RETURNING *
+    `;
+
+    const values = [
+      mediaData.id,
+      mediaData.creator_id,
+      mediaData.storage_key,
+      mediaData.url,
+      mediaData.filename,
+      mediaData.mime_type,
+      mediaData.size_bytes,
+      mediaData.width,
+      mediaData.height,
+      mediaData.alt_text || null,
+      mediaData.caption || null,
+      mediaData.focal_x ?? 0.5,
+      mediaData.focal_y ?? 0.5,
+      JSON.stringify(mediaData.variants),
+      now,
+      now
+    ];
+
+    const result = await this.pool.query(query, values);
+    return Media.fromRow(result.rows[0]);
+  }
+
+  async findById(id: string): Promise<MediaData | null> {
+    const query = 'SELECT * FROM media WHERE id = $1';
+    const result = await this.pool.query(query, [id]);
+    return result.rows[0] ? Media.fromRow(result.rows[0]) : null;
+  }
+
+  async findByIds(creatorId: string, ids: string[]): Promise<MediaData[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const query = 'SELECT * FROM media WHERE creator_id = $1 AND id = ANY($2::uuid[]) ORDER BY created_at ASC';
+    const result = await this.pool.query(query, [creatorId, ids]);
+    return result.rows.map(row => Media.fromRow(row));
+  }
+
+  async findByCreator(creatorId: string, filters: MediaFilters = {}): Promise<{ media: MediaData[]; total: number }> {
+    const conditions = ['creator_id = $1'];
+    const values: any[] = [creatorId];
+
+    if (filters.search) {
+      values.push(`%${filters.search}%`);
+      conditions.push(`(filename ILIKE $${values.length} OR alt_text ILIKE $${values.length} OR caption ILIKE $${values.length})`);
+    }
+
+    const whereClause = conditions.join(' AND ');
+    const countResult = await this.pool.query(`SELECT COUNT(*) FROM media WHERE ${whereClause}`, values);
+
+    values.push(filters.limit || 20, filters.offset || 0);
+    const query = `
+      SELECT * FROM media
+      WHERE ${whereClause}
+      ORDER BY created_at DESC
+      LIMIT $${values.length - 1} OFFSET $${values.length}
+    `;
+
+    const result = await this.pool.query(query, values);
+    return {
+      media: result.rows.map(row => Media.fromRow(row)),
+      total: parseInt(countResult.rows[0].count)
+    };
+  }
+
+  async update(id: string, updateData: UpdateMediaData): Promise<MediaData | null> {
+    const fields: string[] = [];
+    const values: any[] = [];
+    let paramCount = 1;
+
+    Object.entries(updateData).forEach(([key, value]) => {
+      if (value !== undefined) {
+        fields.push(`${key} = $${paramCount}`);
+        values.push(value);
+        paramCount++;
+      }
+    });
+
+    if (fields.length === 0) {
+      return this.findById(id);
+    }
+
+    fields.push(`updated_at = $${paramCount}`);
+    values.push(new Date());
+    values.push(id);
+
+    const query = `
+      UPDATE media
+      SET ${fields.join(', ')}
+      WHERE id = $${paramCount + 1}
+      RETURNING *
+    `;
+
+    const result = await this.pool.query(query, values);
+    return result.rows[0] ? Media.fromRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Deletes the record and clears the copied URLs on articles and profiles that used it
+   */
+  async delete(id: string): Promise<boolean> {
+    const query = `
+      WITH cleared_articles AS (
+        UPDATE articles SET featured_image_id = NULL, featured_image_url = NULL WHERE featured_image_id = $1
+      ), cleared_users AS (
+        UPDATE users SET avatar_media_id = NULL, avatar_url = NULL WHERE avatar_media_id = $1
+      )
+      DELETE FROM media WHERE id = $1
+    `;
+
+    const result = await this.pool.query(query, [id]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Small images have no large rendition; their biggest WebP variant is the whole image
+   */
+  static displayUrl(media: MediaData): string {
+    const variant = media.variants.find(item => item.name === DISPLAY_VARIANT) || media.variants[media.variants.length - 1];
+    return variant ? variant.url : media.url;
+  }
+
+  // NUMERIC columns come back from pg as strings
+  private static fromRow(row: any): MediaData {
+    return {
+      ...row,
+      focal_x: parseFloat(row.focal_x),
+      focal_y: parseFloat(row.focal_y)
+    };
+  }
+
+  // Validation methods
+  static validateFocalPoint(value: number): boolean {
+    return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 1;
+  }
+
+  static validateAltText(altText: string): boolean {
+    return altText.length <= 500;
+  }
+}
\ No newline at end of file
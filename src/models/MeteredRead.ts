@@ -0,0 +1,64 @@
+import { Pool } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface MeterResult {
+  granted: boolean;
+  used: number;
+}
+
+export class MeteredRead {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  /**
+   * Records a metered read of an article if the reader still has reads left this period.
+   * Articles already opened this period stay readable without using up another read.
+   */
+  async consume(creatorId: string, articleId: string, readerKey: string, period: string, allowance: number): Promise<MeterResult> {
+    const query = `
+      WITH existing AS (
+        SELECT 1 FROM metered_reads
+        WHERE creator_id = $1 AND reader_key = $2 AND period = $3 AND article_id = $4
+      ), used AS (
+        SELECT COUNT(*)::int AS count FROM metered_reads
+        WHERE creator_id = $1 AND reader_key = $2 AND period = $3
+      ), inserted AS (
+        INSERT INTO metered_reads (id, creator_id, article_id, reader_key, period, read_at)
+        SELECT $5, $1, $4, $2, $3, $7
+        WHERE NOT EXISTS (SELECT 1 FROM existing) AND (SELECT count FROM used) < $6
+        ON CONFLICT (creator_id, reader_key, period, article_id) DO NOTHING
+        RETURNING 1
+      )
+      SELECT
+        EXISTS (SELECT 1 FROM existing) AS already_read,
+        EXISTS (SELECT 1 FROM inserted) AS inserted,
+        (SELECT count FROM used) AS used
+    `;
+
+    const result = await this.pool.query(query, [creatorId, readerKey, period, articleId, uuidv4(), allowance, new Date()]);
+    const row = result.rows[0];
+
+    return {
+      granted: row.already_read || row.inserted,
+      used: row.used + (row.inserted ? 1 : 0)
+    };
+  }
+
+  async countForPeriod(creatorId: string, readerKey: string, period: string): Promise<number> {
+    const query = 'SELECT COUNT(*) FROM metered_reads WHERE creator_id = $1 AND reader_key = $2 AND period = $3';
+    const result = await this.pool.query(query, [creatorId, readerKey, period]);
+    return parseInt(result.rows[0].count);
+  }
+
+  // Metered reads reset on the first day of each calendar month (UTC)
+  static periodFor(date: Date): string {
+    return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}-01`;
+  }
+
+  static validateDeviceId(deviceId: string): boolean {
+    return /^[A-Za-z0-9_-]{8,128}$/.test(deviceId);
+  }
+}
\ No newline at end of file
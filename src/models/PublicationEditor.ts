@@ -0,0 +1,53 @@
+import { Pool } from 'pg';
+
+export interface PublicationEditorData {
+  creator_id: string;
+  editor_id: string;
+  name?: string;
+  email?: string;
+  added_at?: Date;
+}
+
+export class PublicationEditor {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  async add(creatorId: string, editorId: string): Promise<PublicationEditorData> {
+    const query = `
+      INSERT INTO publication_editors (creator_id, editor_id, added_at)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (creator_id, editor_id) DO UPDATE SET added_at = publication_editors.added_at
+      RETURNING *
+    `;
+
+    const result = await this.pool.query(query, [creatorId, editorId, new Date()]);
+    return result.rows[0];
+  }
+
+  async remove(creatorId: string, editorId: string): Promise<boolean> {
+    const query = 'DELETE FROM publication_editors WHERE creator_id = $1 AND editor_id = $2';
+    const result = await this.pool.query(query, [creatorId, editorId]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async findByCreator(creatorId: string): Promise<PublicationEditorData[]> {
+    const query = `
+      SELECT pe.creator_id, pe.editor_id, u.name, u.email, pe.added_at
+      FROM publication_editors pe
+      JOIN users u ON u.id = pe.editor_id
+      WHERE pe.creator_id = $1
+      ORDER BY pe.added_at ASC
+    `;
+    const result = await this.pool.query(query, [creatorId]);
+    return result.rows;
+  }
+
+  async isEditor(creatorId: string, editorId: string): Promise<boolean> {
+    const query = 'SELECT 1 FROM publication_editors WHERE creator_id = $1 AND editor_id = $2';
+    const result = await this.pool.query(query, [creatorId, editorId]);
+    return result.rows.length > 0;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,110 @@
+import { Pool } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface ReadingListFolderData {
+  id?: string;
+  user_id: string;
+  name: string;
+  position: number;
+  bookmark_count?: number;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export interface UpdateReadingListFolderData {
+  name?: string;
+  position?: number;
+}
+
+export class ReadingListFolder {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  async create(userId: string, name: string): Promise<ReadingListFolderData> {
+    const now = new Date();
+
+    // New folders go to the end of the list
+    const query = `
+      INSERT INTO reading_list_folders (id, user_id, name, position, created_at, updated_at)
+      VALUES (
+        $1, $2, $3,
+        (SELECT COALESCE(MAX(position) + 1, 0) FROM reading_list_folders WHERE user_id = $2),
+        $4, $5
+      )
+      RETURNING *
+    `;
+
+    const result = await this.pool.query(query, [uuidv4(), userId, name, now, now]);
+    return result.rows[0];
+  }
+
+  async findById(id: string): Promise<ReadingListFolderData | null> {
+    const query = 'SELECT * FROM reading_list_folders WHERE id = $1';
+    const result = await this.pool.query(query, [id]);
+    return result.rows[0] || null;
+  }
+
+  async findByName(userId: string, name: string): Promise<ReadingListFolderData | null> {
+    const query = 'SELECT * FROM reading_list_folders WHERE user_id = $1 AND LOWER(name) = LOWER($2)';
+    const result = await this.pool.query(query, [userId, name]);
+    return result.rows[0] || null;
+  }
+
+  async findByUser(userId: string): Promise<ReadingListFolderData[]> {
+    const query = `
+      SELECT f.*, COUNT(b.id)::int AS bookmark_count
+      FROM reading_list_folders f
+      LEFT JOIN bookmarks b ON b.folder_id = f.id
+      WHERE f.user_id = $1
+      GROUP BY f.id
+      ORDER BY f.position ASC, f.created_at ASC
+    `;
+
+    const result = await this.pool.query(query, [userId]);
+    return result.rows;
+  }
+
+  async update(id: string, updateData: UpdateReadingListFolderData): Promise<ReadingListFolderData | null> {
+    const fields: string[] = [];
+    const values: any[] = [];
+
+    Object.entries(updateData).forEach(([key, value]) => {
+      if (value !== undefined) {
+        values.push(value);
+        fields.push(`${key} = $${values.length}`);
+      }
+    });
+
+    if (fields.length === 0) {
+      return this.findById(id);
+    }
+
+    values.push(new Date());
+    fields.push(`updated_at = $${values.length}`);
+    values.push(id);
+
+    const query = `
+      UPDATE reading_list_folders
+      SET ${fields.join(', ')}
+      WHERE id = $${values.length}
+      RETURNING *
+    `;
+
+    const result = await this.pool.query(query, values);
+    return result.rows[0] || null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const query = 'DELETE FROM reading_list_folders WHERE id = $1';
+    const result = await this.pool.query(query, [id]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Validation methods
+  static validateName(name: string): boolean {
+    return name.trim().length > 0 && name.trim().length <= 100;
+  }
+}
\ No newline at end of file
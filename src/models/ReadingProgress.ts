@@ -0,0 +1,123 @@
+import { Pool } from 'pg';
+import { Article } from './Article';
+
+export interface ReadingProgressData {
+  user_id: string;
+  article_id: string;
+  scroll_percentage: number;
+  last_paragraph_index: number;
+  max_scroll_percentage: number;
+  completed_at?: Date | null;
+  started_at?: Date;
+  updated_at?: Date;
+}
+
+export interface SyncReadingProgressData {
+  scroll_percentage: number;
+  last_paragraph_index: number;
+  // When the reader was at this position; defaults to now
+  updated_at?: Date;
+}
+
+// An unfinished article with what the "continue reading" shelf shows of it
+export interface ContinueReadingData extends ReadingProgressData {
+  author_id: string;
+  title: string;
+  slug: string;
+  excerpt?: string;
+  featured_image_url?: string;
+  reading_time?: number;
+  published_at?: Date;
+}
+
+// Scrolling this far counts as having read the article; the rest is usually footnotes and comments
+export const COMPLETION_THRESHOLD = 90;
+
+export class ReadingProgress {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  /**
+   * Stores the reader's position unless a newer one was already synced from another
+   * device. The furthest position and the completion time are kept either way.
+   */
+  async sync(userId: string, articleId: string, progress: SyncReadingProgressData): Promise<ReadingProgressData> {
+    const syncedAt = progress.updated_at || new Date();
+    const completedAt = progress.scroll_percentage >= COMPLETION_THRESHOLD ? syncedAt : null;
+
+    const query = `
+      INSERT INTO reading_progress (
+        user_id, article_id, scroll_percentage, last_paragraph_index, max_scroll_percentage,
+        completed_at, started_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $3, $5, $6, $6)
+      ON CONFLICT (user_id, article_id) DO UPDATE SET
+        scroll_percentage = CASE WHEN reading_progress.updated_at > EXCLUDED.updated_at
+          THEN reading_progress.scroll_percentage ELSE EXCLUDED.scroll_percentage END,
+        last_paragraph_index = CASE WHEN reading_progress.updated_at > EXCLUDED.updated_at
+          THEN reading_progress.last_paragraph_index ELSE EXCLUDED.last_paragraph_index END,
+        max_scroll_percentage = GREATEST(reading_progress.max_scroll_percentage, EXCLUDED.max_scroll_percentage),
+        completed_at = COALESCE(reading_progress.completed_at, EXCLUDED.completed_at),
+        updated_at = GREATEST(reading_progress.updated_at, EXCLUDED.updated_at)
+      RETURNING *
+    `;
+
+    const values = [userId, articleId, progress.scroll_percentage, progress.last_paragraph_index, completedAt, syncedAt];
+
+    const result = await this.pool.query(query, values);
+    return ReadingProgress.fromRow(result.rows[0]);
+  }
+
+  async find(userId: string, articleId: string): Promise<ReadingProgressData | null> {
+    const query = 'SELECT * FROM reading_progress WHERE user_id = $1 AND article_id = $2';
+    const result = await this.pool.query(query, [userId, articleId]);
+    return result.rows[0] ? ReadingProgress.fromRow(result.rows[0]) : null;
+  }
+
+  async remove(userId: string, articleId: string): Promise<boolean> {
+    const query = 'DELETE FROM reading_progress WHERE user_id = $1 AND article_id = $2';
+    const result = await this.pool.query(query, [userId, articleId]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Started but unfinished articles that are still up, most recently read first
+   */
+  async findUnfinished(userId: string, limit: number): Promise<ContinueReadingData[]> {
+    const query = `
+      SELECT rp.*, a.author_id, a.title, a.slug, a.excerpt, a.featured_image_url, a.reading_time, a.published_at
+      FROM reading_progress rp
+      JOIN articles a ON a.id = rp.article_id
+      WHERE rp.user_id = $1
+        AND rp.completed_at IS NULL
+        AND rp.max_scroll_percentage > 0
+        AND a.status = 'published'
+        AND ${Article.notExpiredCondition('a.')}
+      ORDER BY rp.updated_at DESC
+      LIMIT $2
+    `;
+
+    const result = await this.pool.query(query, [userId, limit]);
+    return result.rows.map(row => ReadingProgress.fromRow(row));
+  }
+
+  // Validation methods
+  static validateScrollPercentage(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 100;
+  }
+
+  static validateParagraphIndex(value: unknown): value is number {
+    return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+  }
+
+  // pg returns NUMERIC columns as strings
+  private static fromRow<T extends ReadingProgressData>(row: T): T {
+    return {
+      ...row,
+      scroll_percentage: parseFloat(row.scroll_percentage as unknown as string),
+      max_scroll_percentage: parseFloat(row.max_scroll_percentage as unknown as string)
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,172 @@
+import { Pool } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+
+export type RedirectStatusCode = 301 | 302 | 307 | 308;
+
+export const REDIRECT_STATUS_CODES: RedirectStatusCode[] = [301, 302, 307, 308];
+
+export interface RedirectRuleData {
+  id?: string;
+  creator_id: string;
+  source_path: string;
+  target_url?: string | null;
+  article_id?: string | null;
+  status_code: RedirectStatusCode;
+  hit_count?: number;
+  last_hit_at?: Date;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export interface CreateRedirectRuleData {
+  creator_id: string;
+  source_path: string;
+  target_url?: string | null;
+  article_id?: string | null;
+  status_code?: RedirectStatusCode;
+}
+
+export interface UpdateRedirectRuleData {
+  source_path?: string;
+  target_url?: string | null;
+  article_id?: string | null;
+  status_code?: RedirectStatusCode;
+}
+
+export class RedirectRule {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  async create(ruleData: CreateRedirectRuleData): Promise<RedirectRuleData> {
+    const now = new Date();
+
+    const query = `
+      INSERT INTO redirect_rules (id, creator_id, source_path, target_url, article_id, status_code, created_at, updated_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING *
+    `;
+
+    const values = [
+      uuidv4(),
+      ruleData.creator_id,
+      ruleData.source_path,
+      ruleData.target_url || null,
+      ruleData.article_id || null,
+      ruleData.status_code || 301,
+      now,
+      now
+    ];
+
+    const result = await this.pool.query(query, values);
+    return result.rows[0];
+  }
+
+  async findById(id: string): Promise<RedirectRuleData | null> {
+    const query = 'SELECT * FROM redirect_rules WHERE id = $1';
+    const result = await this.pool.query(query, [id]);
+    return result.rows[0] || null;
+  }
+
+  async findByCreator(creatorId: string): Promise<RedirectRuleData[]> {
+    const query = 'SELECT * FROM redirect_rules WHERE creator_id = $1 ORDER BY source_path ASC';
+    const result = await this.pool.query(query, [creatorId]);
+    return result.rows;
+  }
+
+  async findBySource(creatorId: string, sourcePath: string): Promise<RedirectRuleData | null> {
+    const query = 'SELECT * FROM redirect_rules WHERE creator_id = $1 AND source_path = $2';
+    const result = await this.pool.query(query, [creatorId, sourcePath]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * The rule for a path: an exact match wins, then the longest matching wildcard prefix
+   */
+  async findMatch(creatorId: string, path: string): Promise<RedirectRuleData | null> {
+    const query = `
+      SELECT * FROM redirect_rules
+      WHERE creator_id = $1
+        AND (
+          source_path = $2
+          OR (right(source_path, 1) = '*' AND left($2, length(source_path) - 1) = left(source_path, -1))
+        )
+      ORDER BY (source_path = $2) DESC, length(source_path) DESC
+      LIMIT 1
+    `;
+
+    const result = await this.pool.query(query, [creatorId, path]);
+    return result.rows[0] || null;
+  }
+
+  async update(id: string, updateData: UpdateRedirectRuleData): Promise<RedirectRuleData | null> {
+    const fields: string[] = [];
+    const values: any[] = [];
+    let paramCount = 1;
+
+    Object.entries(updateData).forEach(([key, value]) => {
+      if (value !== undefined) {
+        fields.push(`${key} = $${paramCount}`);
+        values.push(value);
+        paramCount++;
+      }
+    });
+
+    if (fields.length === 0) {
+      return this.findById(id);
+    }
+
+    fields.push(`updated_at = $${paramCount}`);
+    values.push(new Date());
+    values.push(id);
+
+    const query = `
+      UPDATE redirect_rules
+      SET ${fields.join(', ')}
+      WHERE id = $${paramCount + 1}
+      RETURNING *
+    `;
+
+    const result = await this.pool.query(query, values);
+    return result.rows[0] || null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const query = 'DELETE FROM redirect_rules WHERE id = $1';
+    const result = await this.pool.query(query, [id]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async recordHit(id: string): Promise<void> {
+    const query = 'UPDATE redirect_rules SET hit_count = hit_count + 1, last_hit_at = $2 WHERE id = $1';
+    await this.pool.query(query, [id, new Date()]);
+  }
+
+  /**
+   * Drops the trailing slash so "/old-post/" and "/old-post" are the same source
+   */
+  static normalizePath(path: string): string {
+    const trimmed = path.trim();
+    return trimmed.length > 1 ? trimmed.replace(/\/+$/, '') : trimmed;
+  }
+
+  // Validation methods
+  static validateSourcePath(path: string): boolean {
+    // A path without query string or fragment; a wildcard is only allowed at the end
+    return /^\/[^\s?#*]*\*?$/.test(path) && path.length <= 500;
+  }
+
+  static validateTargetUrl(url: string): boolean {
+    if (url.length > 1000 || /\s/.test(url)) {
+      return false;
+    }
+
+    return (url.startsWith('/') && !url.startsWith('//')) || url.startsWith('http://') || url.startsWith('https://');
+  }
+
+  static validateStatusCode(statusCode: number): boolean {
+    return (REDIRECT_STATUS_CODES as number[]).includes(statusCode);
+  }
+}
\ No newline at end of file
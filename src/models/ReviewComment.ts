@@ -0,0 +1,106 @@
+import { Pool } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface ReviewCommentData {
+  id?: string;
+  article_id: string;
+  author_id: string;
+  author_name?: string;
+  revision_number: number;
+  anchor_start: number;
+  anchor_end: number;
+  quoted_text: string;
+  body: string;
+  resolved_at?: Date;
+  resolved_by?: string;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export interface CreateReviewCommentData {
+  article_id: string;
+  author_id: string;
+  revision_number: number;
+  anchor_start: number;
+  anchor_end: number;
+  quoted_text: string;
+  body: string;
+}
+
+export class ReviewComment {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  async create(commentData: CreateReviewCommentData): Promise<ReviewCommentData> {
+    const now = new Date();
+
+    const query = `
+      INSERT INTO article_review_comments (
+        id, article_id, author_id, revision_number, anchor_start, anchor_end,
+        quoted_text, body, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      RETURNING *
+    `;
+
+    const values = [
+      uuidv4(),
+      commentData.article_id,
+      commentData.author_id,
+      commentData.revision_number,
+      commentData.anchor_start,
+      commentData.anchor_end,
+      commentData.quoted_text,
+      commentData.body,
+      now,
+      now
+    ];
+
+    const result = await this.pool.query(query, values);
+    return result.rows[0];
+  }
+
+  async findById(id: string): Promise<ReviewCommentData | null> {
+    const query = 'SELECT * FROM article_review_comments WHERE id = $1';
+    const result = await this.pool.query(query, [id]);
+    return result.rows[0] || null;
+  }
+
+  async findByArticleId(articleId: string, includeResolved = false): Promise<ReviewCommentData[]> {
+    const query = `
+      SELECT c.*, u.name AS author_name
+      FROM article_review_comments c
+      JOIN users u ON u.id = c.author_id
+      WHERE c.article_id = $1 ${includeResolved ? '' : 'AND c.resolved_at IS NULL'}
+      ORDER BY c.anchor_start ASC, c.created_at ASC
+    `;
+    const result = await this.pool.query(query, [articleId]);
+    return result.rows;
+  }
+
+  async resolve(id: string, resolvedBy: string): Promise<ReviewCommentData | null> {
+    const query = `
+      UPDATE article_review_comments
+      SET resolved_at = $1, resolved_by = $2, updated_at = $1
+      WHERE id = $3 AND resolved_at IS NULL
+      RETURNING *
+    `;
+
+    const result = await this.pool.query(query, [new Date(), resolvedBy, id]);
+    return result.rows[0] || null;
+  }
+
+  static validateBody(body: string): boolean {
+    return body.trim().length > 0 && body.length <= 5000;
+  }
+
+  static validateAnchor(start: number, end: number, contentLength: number): boolean {
+    return Number.isInteger(start)
+      && Number.isInteger(end)
+      && start >= 0
+      && end > start
+      && end <= contentLength;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,257 @@
+import { Pool } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import { ArticleStatus } from './Article';
+
+export interface SeriesData {
+  id?: string;
+  creator_id: string;
+  title: string;
+  slug: string;
+  description?: string;
+  cover_image_url?: string;
+  seo_title?: string;
+  seo_description?: string;
+  is_premium?: boolean;
+  plan_id?: string;
+  article_count?: number;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export interface CreateSeriesData {
+  creator_id: string;
+  title: string;
+  slug?: string;
+  description?: string;
+  cover_image_url?: string;
+  seo_title?: string;
+  seo_description?: string;
+  is_premium?: boolean;
+  plan_id?: string;
+}
+
+export interface UpdateSeriesData {
+  title?: string;
+  slug?: string;
+  description?: string;
+  cover_image_url?: string;
+  seo_title?: string;
+  seo_description?: string;
+  is_premium?: boolean;
+  plan_id?: string | null;
+}
+
+export interface SeriesArticleData {
+  id: string;
+  title: string;
+  slug: string;
+  excerpt?: string;
+  reading_time?: number;
+  status: ArticleStatus;
+  is_premium: boolean;
+  published_at?: Date;
+  position: number;
+}
+
+export class Series {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  async create(seriesData: CreateSeriesData): Promise<SeriesData> {
+    const id = uuidv4();
+    const now = new Date();
+
+    const query = `
+      INSERT INTO series (
+        id, creator_id, title, slug, description, cover_image_url,
+        seo_title, seo_description, is_premium, plan_id, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+      RETURNING *
+    `;
+
+    const values = [
+      id,
+      seriesData.creator_id,
+      seriesData.title,
+      seriesData.slug || Series.generateSlug(seriesData.title),
+      seriesData.description || null,
+      seriesData.cover_image_url || null,
+      seriesData.seo_title || null,
+      seriesData.seo_description || null,
+      seriesData.is_premium || false,
+      seriesData.plan_id || null,
+      now,
+      now
+    ];
+
+    const result = await this.pool.query(query, values);
+    return result.rows[0];
+  }
+
+  async findById(id: string): Promise<SeriesData | null> {
+    const query = 'SELECT * FROM series WHERE id = $1';
+    const result = await this.pool.query(query, [id]);
+    return result.rows[0] || null;
+  }
+
+  async findBySlug(creatorId: string, slug: string): Promise<SeriesData | null> {
+    const query = 'SELECT * FROM series WHERE creator_id = $1 AND slug = $2';
+    const result = await this.pool.query(query, [creatorId, slug]);
+    return result.rows[0] || null;
+  }
+
+  async findByCreator(creatorId: string, publishedOnly = true): Promise<SeriesData[]> {
+    const query = `
+      SELECT s.*, COUNT(a.id)::int AS article_count
+      FROM series s
+      LEFT JOIN series_articles sa ON sa.series_id = s.id
+      LEFT JOIN articles a ON a.id = sa.article_id ${publishedOnly ? "AND a.status = 'published'" : ''}
+      WHERE s.creator_id = $1
+      GROUP BY s.id
+      ORDER BY s.created_at DESC
+    `;
+    const result = await this.pool.query(query, [creatorId]);
+    return result.rows;
+  }
+
+  async findByArticleId(articleId: string): Promise<SeriesData | null> {
+    const query = `
+      SELECT s.* FROM series s
+      JOIN series_articles sa ON sa.series_id = s.id
+      WHERE sa.article_id = $1
+    `;
+    const result = await this.pool.query(query, [articleId]);
+    return result.rows[0] || null;
+  }
+
+  async update(id: string, updateData: UpdateSeriesData): Promise<SeriesData | null> {
+    const fields: string[] = [];
+    const values: any[] = [];
+    let paramCount = 1;
+
+    Object.entries(updateData).forEach(([key, value]) => {
+      if (value !== undefined) {
+        fields.push(`${key} = $${paramCount}`);
+        values.push(value);
+        paramCount++;
+      }
+    });
+
+    if (fields.length === 0) {
+      return this.findById(id);
+    }
+
+    fields.push(`updated_at = $${paramCount}`);
+    values.push(new Date());
+    values.push(id);
+
+    const query = `
+      UPDATE series
+      SET ${fields.join(', ')}
+      WHERE id = $${paramCount + 1}
+      RETURNING *
+    `;
+
+    const result = await this.pool.query(query, values);
+    return result.rows[0] || null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const query = 'DELETE FROM series WHERE id = $1';
+    const result = await this.pool.query(query, [id]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getArticles(seriesId: string, publishedOnly = true): Promise<SeriesArticleData[]> {
+    const query = `
+      SELECT a.id, a.title, a.slug, a.excerpt, a.reading_time, a.status, a.is_premium, a.published_at, sa.position
+      FROM series_articles sa
+      JOIN articles a ON a.id = sa.article_id
+      WHERE sa.series_id = $1 ${publishedOnly ? "AND a.status = 'published'" : ''}
+      ORDER BY sa.position ASC
+    `;
+    const result = await this.pool.query(query, [seriesId]);
+    return result.rows;
+  }
+
+  /**
+   * Adds an article at the given position (appending when omitted), shifting later
+   * articles down. Both steps run in one statement so positions never collide.
+   */
+  async addArticle(seriesId: string, articleId: string, position?: number): Promise<void> {
+    const query = `
+      WITH last AS (
+        SELECT COALESCE(MAX(position), 0) AS max_position FROM series_articles WHERE series_id = $1
+      ), target AS (
+        SELECT LEAST(COALESCE($3::int, max_position + 1), max_position + 1) AS position FROM last
+      ), shifted AS (
+        UPDATE series_articles SET position = position + 1
+        WHERE series_id = $1 AND position >= (SELECT position FROM target)
+      )
+      INSERT INTO series_articles (series_id, article_id, position, added_at)
+      SELECT $1, $2, position, $4 FROM target
+    `;
+
+    await this.pool.query(query, [seriesId, articleId, position || null, new Date()]);
+  }
+
+  async removeArticle(seriesId: string, articleId: string): Promise<boolean> {
+    // Close the gap left behind so positions stay contiguous
+    const query = `
+      WITH removed AS (
+        DELETE FROM series_articles WHERE series_id = $1 AND article_id = $2
+        RETURNING position
+      ), shifted AS (
+        UPDATE series_articles SET position = position - 1
+        WHERE series_id = $1 AND position > (SELECT position FROM removed)
+      )
+      SELECT COUNT(*) AS count FROM removed
+    `;
+
+    const result = await this.pool.query(query, [seriesId, articleId]);
+    return parseInt(result.rows[0].count) > 0;
+  }
+
+  async reorder(seriesId: string, articleIds: string[]): Promise<void> {
+    const query = `
+      UPDATE series_articles sa
+      SET position = ordered.position
+      FROM unnest($2::uuid[]) WITH ORDINALITY AS ordered(article_id, position)
+      WHERE sa.series_id = $1 AND sa.article_id = ordered.article_id
+    `;
+
+    await this.pool.query(query, [seriesId, articleIds]);
+  }
+
+  async getArticleIds(seriesId: string): Promise<string[]> {
+    const query = 'SELECT article_id FROM series_articles WHERE series_id = $1 ORDER BY position ASC';
+    const result = await this.pool.query(query, [seriesId]);
+    return result.rows.map(row => row.article_id);
+  }
+
+  static generateSlug(title: string): string {
+    return title
+      .toLowerCase()
+      .replace(/[^a-z0-9\s-]/g, '')
+      .trim()
+      .replace(/\s+/g, '-')
+      .replace(/-+/g, '-')
+      .substring(0, 100);
+  }
+
+  // Validation methods
+  static validateTitle(title: string): boolean {
+    return title.length > 0 && title.length <= 200;
+  }
+
+  static validateSlug(slug: string): boolean {
+    return /^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(slug) && slug.length <= 100;
+  }
+
+  static validateSeoDescription(description: string): boolean {
+    return description.length <= 300;
+  }
+}
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { Pool } from 'pg';
 import { v4 as uuidv4 } from 'uuid';
+import { PageOptions, Pagination, SortColumn } from '../services/Pagination';
 
 export interface SubscriberData {
   id?: string;
@@ -31,15 +32,23 @@ export interface UpdateSubscriberData {
   last_opened?: Date;
 }
 
-export interface SubscriberFilters {
+export type SubscriberSortField = 'subscribed_at' | 'email' | 'name' | 'engagement_score' | 'last_opened';
+
+const SUBSCRIBER_SORTS: Record<SubscriberSortField, SortColumn> = {
+  subscribed_at: { column: 'subscribed_at' },
+  email: { column: 'email' },
+  name: { column: 'name', nullable: true },
+  engagement_score: { column: 'engagement_score', nullable: true },
+  last_opened: { column: 'last_opened', nullable: true }
+};
+
+export interface SubscriberFilters extends PageOptions<SubscriberSortField> {
   status?: 'active' | 'unsubscribed' | 'bounced';
   source?: 'website' | 'social' | 'referral' | 'import';
   tags?: string[];
   email_verified?: boolean;
   engagement_score_min?: number;
   engagement_score_max?: number;
-  limit?: number;
-  offset?: number;
   search?: string;
 }
 
@@ -90,7 +99,7 @@ export class Subscriber {
     return result.rows[0] || null;
   }
 
-  async findMany(filters: SubscriberFilters = {}): Promise<{ subscribers: SubscriberData[]; total: number }> {
+  async findMany(filters: SubscriberFilters = {}): Promise<{ subscribers: SubscriberData[]; total: number; next_cursor: string | null }> {
     let whereClause = 'WHERE 1=1';
     const values: any[] = [];
     let paramCount = 0;
@@ -144,22 +153,12 @@ export class Subscriber {
     const total = parseInt(countResult.rows[0].count);
 
     // Get paginated results
-    let query = `SELECT * FROM subscribers ${whereClause} ORDER BY subscribed_at DESC`;
-
-    if (filters.limit) {
-      paramCount++;
-      query += ` LIMIT $${paramCount}`;
-      values.push(filters.limit);
-    }
-
-    if (filters.offset) {
-      paramCount++;
-      query += ` OFFSET $${paramCount}`;
-      values.push(filters.offset);
-    }
+    const page = Pagination.build(SUBSCRIBER_SORTS, 'subscribed_at', filters, values);
+    const query = `SELECT *${page.select} FROM subscribers ${whereClause}${page.where} ${page.orderBy}${page.limit}`;
 
     const result = await this.pool.query(query, values);
-    return { subscribers: result.rows, total };
+    const { rows, next_cursor } = Pagination.page(result.rows, page);
+    return { subscribers: rows, total, next_cursor };
   }
 
   async update(id: string, updateData: UpdateSubscriberData): Promise<SubscriberData | null> {
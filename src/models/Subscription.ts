@@ -321,6 +321,18 @@ export class Subscription {
     return result.rows.length > 0;
   }
 
+  async hasActiveSubscriptionToCreator(subscriberId: string, creatorId: string): Promise<boolean> {
+    const query = `
+      SELECT 1 FROM subscriptions s
+      JOIN subscription_plans sp ON s.plan_id = sp.id
+      WHERE s.subscriber_id = $1 AND sp.creator_id = $2 AND s.status = 'active'
+      LIMIT 1
+    `;
+
+    const result = await this.pool.query(query, [subscriberId, creatorId]);
+    return result.rows.length > 0;
+  }
+
   async getActiveCount(): Promise<number> {
     const query = 'SELECT COUNT(*) FROM subscriptions WHERE status = $1';
     const result = await this.pool.query(query, ['active']);
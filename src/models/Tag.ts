@@ -0,0 +1,244 @@
+import { Pool } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface TagData {
+  id?: string;
+  creator_id: string;
+  name: string;
+  slug: string;
+  description?: string;
+  seo_title?: string;
+  seo_description?: string;
+  article_count?: number;
+  synonyms?: string[];
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export interface CreateTagData {
+  creator_id: string;
+  name: string;
+  description?: string;
+  seo_title?: string;
+  seo_description?: string;
+}
+
+export interface UpdateTagData {
+  name?: string;
+  description?: string;
+  seo_title?: string;
+  seo_description?: string;
+}
+
+export interface TagSynonymData {
+  creator_id: string;
+  slug: string;
+  name: string;
+  tag_id: string;
+  created_at?: Date;
+}
+
+export interface ResolvedTag extends TagData {
+  // The slug that matched: the tag's own slug or one of its synonyms
+  matched_slug: string;
+}
+
+export class Tag {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  /**
+   * Creates the tag, or returns the creator's existing tag with the same slug
+   */
+  async findOrCreate(tagData: CreateTagData): Promise<TagData> {
+    const now = new Date();
+
+    const query = `
+      INSERT INTO tags (id, creator_id, name, slug, description, seo_title, seo_description, created_at, updated_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      ON CONFLICT (creator_id, slug) DO UPDATE SET slug = tags.slug
+      RETURNING *
+    `;
+
+    const values = [
+      uuidv4(),
+      tagData.creator_id,
+      tagData.name,
+      Tag.generateSlug(tagData.name),
+      tagData.description || null,
+      tagData.seo_title || null,
+      tagData.seo_description || null,
+      now,
+      now
+    ];
+
+    const result = await this.pool.query(query, values);
+    return result.rows[0];
+  }
+
+  async findById(id: string): Promise<TagData | null> {
+    const query = 'SELECT * FROM tags WHERE id = $1';
+    const result = await this.pool.query(query, [id]);
+    return result.rows[0] || null;
+  }
+
+  async findByIds(ids: string[]): Promise<TagData[]> {
+    const query = 'SELECT * FROM tags WHERE id = ANY($1::uuid[])';
+    const result = await this.pool.query(query, [ids]);
+    return result.rows;
+  }
+
+  /**
+   * Looks slugs up among the creator's tags and synonyms
+   */
+  async resolveSlugs(creatorId: string, slugs: string[]): Promise<ResolvedTag[]> {
+    const query = `
+      SELECT t.*, t.slug AS matched_slug FROM tags t
+      WHERE t.creator_id = $1 AND t.slug = ANY($2::text[])
+      UNION ALL
+      SELECT t.*, s.slug AS matched_slug FROM tag_synonyms s
+      JOIN tags t ON t.id = s.tag_id
+      WHERE s.creator_id = $1 AND s.slug = ANY($2::text[])
+    `;
+
+    const result = await this.pool.query(query, [creatorId, slugs]);
+    return result.rows;
+  }
+
+  /**
+   * The creator's tags with their synonyms and the number of articles using each
+   */
+  async findByCreator(creatorId: string, publishedOnly = true): Promise<TagData[]> {
+    const query = `
+      SELECT t.*,
+        (SELECT COUNT(*)::int FROM articles a
+          WHERE a.author_id = t.creator_id AND t.name = ANY(a.tags) ${publishedOnly ? "AND a.status = 'published'" : ''}) AS article_count,
+        ARRAY(SELECT s.name FROM tag_synonyms s WHERE s.tag_id = t.id ORDER BY s.name) AS synonyms
+      FROM tags t
+      WHERE t.creator_id = $1
+      ORDER BY article_count DESC, t.name ASC
+    `;
+
+    const result = await this.pool.query(query, [creatorId]);
+    return result.rows;
+  }
+
+  async findSynonyms(tagId: string): Promise<TagSynonymData[]> {
+    const query = 'SELECT * FROM tag_synonyms WHERE tag_id = $1 ORDER BY name ASC';
+    const result = await this.pool.query(query, [tagId]);
+    return result.rows;
+  }
+
+  async update(id: string, updateData: UpdateTagData): Promise<TagData | null> {
+    const fields: string[] = [];
+    const values: any[] = [];
+    let paramCount = 1;
+
+    Object.entries(updateData).forEach(([key, value]) => {
+      if (value !== undefined) {
+        fields.push(`${key} = $${paramCount}`);
+        values.push(value);
+        paramCount++;
+
+        // The slug always follows the name
+        if (key === 'name') {
+          fields.push(`slug = $${paramCount}`);
+          values.push(Tag.generateSlug(value as string));
+          paramCount++;
+        }
+      }
+    });
+
+    if (fields.length === 0) {
+      return this.findById(id);
+    }
+
+    fields.push(`updated_at = $${paramCount}`);
+    values.push(new Date());
+    values.push(id);
+
+    const query = `
+      UPDATE tags
+      SET ${fields.join(', ')}
+      WHERE id = $${paramCount + 1}
+      RETURNING *
+    `;
+
+    const result = await this.pool.query(query, values);
+    return result.rows[0] || null;
+  }
+
+  async delete(ids: string[]): Promise<number> {
+    const query = 'DELETE FROM tags WHERE id = ANY($1::uuid[])';
+    const result = await this.pool.query(query, [ids]);
+    return result.rowCount ?? 0;
+  }
+
+  async addSynonym(creatorId: string, tagId: string, name: string): Promise<TagSynonymData> {
+    const query = `
+      INSERT INTO tag_synonyms (creator_id, slug, name, tag_id, created_at)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING *
+    `;
+
+    const result = await this.pool.query(query, [creatorId, Tag.generateSlug(name), name, tagId, new Date()]);
+    return result.rows[0];
+  }
+
+  async removeSynonym(tagId: string, slug: string): Promise<boolean> {
+    const query = 'DELETE FROM tag_synonyms WHERE tag_id = $1 AND slug = $2';
+    const result = await this.pool.query(query, [tagId, slug]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Points the source tags' synonyms at the target and keeps each source tag's own
+   * name as a synonym, so everything that resolved to a source now resolves to the target
+   */
+  async moveSynonyms(sourceIds: string[], targetId: string): Promise<void> {
+    const query = `
+      WITH moved AS (
+        UPDATE tag_synonyms SET tag_id = $2 WHERE tag_id = ANY($1::uuid[])
+      )
+      INSERT INTO tag_synonyms (creator_id, slug, name, tag_id, created_at)
+      SELECT creator_id, slug, name, $2, $3 FROM tags WHERE id = ANY($1::uuid[])
+      ON CONFLICT (creator_id, slug) DO UPDATE SET tag_id = EXCLUDED.tag_id
+    `;
+
+    await this.pool.query(query, [sourceIds, targetId, new Date()]);
+  }
+
+  /**
+   * Lower-case letters and digits in any script separated by single hyphens, so "ML",
+   * "Machine Learning" and "machine_learning" compare by their slugs. Latin accents are
+   * folded ("Café" is "cafe"), but combining marks other scripts need, such as Thai
+   * vowels, are kept.
+   */
+  static generateSlug(name: string): string {
+    const slug = name
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .normalize('NFC')
+      .toLowerCase()
+      .replace(/[^\p{L}\p{M}\p{N}]+/gu, '-')
+      .replace(/^-+/, '');
+
+    return Array.from(slug).slice(0, 100).join('').replace(/-+$/, '');
+  }
+
+  // Validation methods
+  static validateName(name: string): boolean {
+    return name.trim().length > 0 && name.length <= 50 && Tag.generateSlug(name).length > 0;
+  }
+
+  static validateSeoTitle(title: string): boolean {
+    return title.length <= 200;
+  }
+
+  static validateSeoDescription(description: string): boolean {
+    return description.length <= 300;
+  }
+}
\ No newline at end of file
@@ -9,6 +9,7 @@ export interface UserData {
   name: string;
   bio?: string;
   avatar_url?: string;
+  avatar_media_id?: string;
   role: 'creator' | 'subscriber' | 'admin';
   email_verified?: boolean;
   created_at?: Date;
@@ -27,7 +28,8 @@ export interface CreateUserData {
 export interface UpdateUserData {
   name?: string;
   bio?: string;
-  avatar_url?: string;
+  avatar_url?: string | null;
+  avatar_media_id?: string | null;
   email_verified?: boolean;
 }
 
@@ -48,7 +50,7 @@ export class User {
         id, email, password_hash, name, bio, avatar_url, role,
         email_verified, created_at, updated_at
       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
-      RETURNING id, email, name, bio, avatar_url, role, email_verified, created_at, updated_at
+      RETURNING id, email, name, bio, avatar_url, avatar_media_id, role, email_verified, created_at, updated_at
     `;
 
     const values = [
@@ -70,7 +72,7 @@ export class User {
 
   async findById(id: string): Promise<UserData | null> {
     const query = `
-      SELECT id, email, name, bio, avatar_url, role, email_verified, created_at, updated_at
+      SELECT id, email, name, bio, avatar_url, avatar_media_id, role, email_verified, created_at, updated_at
       FROM users
       WHERE id = $1
     `;
@@ -79,9 +81,24 @@ export class User {
     return result.rows[0] || null;
   }
 
+  async findByIds(ids: string[]): Promise<UserData[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const query = `
+      SELECT id, email, name, bio, avatar_url, avatar_media_id, role, email_verified, created_at, updated_at
+      FROM users
+      WHERE id = ANY($1::uuid[])
+    `;
+
+    const result = await this.pool.query(query, [ids]);
+    return result.rows;
+  }
+
   async findByEmail(email: string): Promise<UserData | null> {
     const query = `
-      SELECT id, email, name, bio, avatar_url, role, email_verified, created_at, updated_at
+      SELECT id, email, name, bio, avatar_url, avatar_media_id, role, email_verified, created_at, updated_at
       FROM users
       WHERE email = $1
     `;
@@ -92,7 +109,7 @@ export class User {
 
   async findByEmailWithPassword(email: string): Promise<(UserData & { password_hash: string }) | null> {
     const query = `
-      SELECT id, email, password_hash, name, bio, avatar_url, role, email_verified, created_at, updated_at
+      SELECT id, email, password_hash, name, bio, avatar_url, avatar_media_id, role, email_verified, created_at, updated_at
       FROM users
       WHERE email = $1
     `;
@@ -127,7 +144,7 @@ export class User {
       UPDATE users
       SET ${fields.join(', ')}
       WHERE id = $${paramCount + 1}
-      RETURNING id, email, name, bio, avatar_url, role, email_verified, created_at, updated_at
+      RETURNING id, email, name, bio, avatar_url, avatar_media_id, role, email_verified, created_at, updated_at
     `;
 
     const result = await this.pool.query(query, values);
@@ -150,6 +167,10 @@ export class User {
     return (result.rowCount ?? 0) > 0;
   }
 
+  static buildProfileUrl(userId: string): string {
+    return `${process.env.FRONTEND_URL || ''}/creators/${userId}`;
+  }
+
   // Validation methods
   static validateEmail(email: string): boolean {
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
@@ -1,6 +1,7 @@
 import { Router, Request, Response } from 'express';
 import { Pool } from 'pg';
 import { AffiliateService } from '../services/AffiliateService';
+import { Pagination } from '../services/Pagination';
 
 export interface AuthRequest extends Request {
   user?: any;
@@ -38,15 +39,10 @@ export function createAffiliatesRouter(pool: Pool): Router {
         network,
         category,
         is_active,
-        search,
-        limit = 20,
-        offset = 0
+        search
       } = req.query;
 
-      const filters: any = {
-        limit: Math.min(parseInt(limit as string) || 20, 100),
-        offset: parseInt(offset as string) || 0
-      };
+      const filters: any = Pagination.fromQuery(req.query, 20, 100);
 
       if (network) filters.network = network as string;
       if (category) filters.category = category as string;
@@ -59,10 +55,14 @@ export function createAffiliatesRouter(pool: Pool): Router {
         links: result.links,
         total: result.total,
         limit: filters.limit,
-        offset: filters.offset
+        ...(filters.cursor === undefined ? { offset: filters.offset } : {}),
+        next_cursor: result.next_cursor
       });
     } catch (error) {
       console.error('Get affiliate links error:', error);
+      if (error instanceof Error && error.message.startsWith('Invalid')) {
+        return res.status(400).json({ error: error.message });
+      }
       res.status(500).json({ error: 'Failed to fetch affiliate links' });
     }
   });
@@ -528,16 +528,16 @@ export function createAffiliatesRouter(pool: Pool): Router {
       }
 
       const { id } = req.params;
-      const { limit = 50 } = req.query;
+      const options: any = Pagination.fromQuery(req.query, 50, 200);
 
-      const clickHistory = await affiliateService.getClickHistory(
-        id,
-        req.user.id,
-        parseInt(limit as string) || 50
-      );
+      const clickHistory = await affiliateService.getClickHistory(id, req.user.id, options);
 
       res.json({
-        clicks: clickHistory
+        clicks: clickHistory.clicks,
+        total: clickHistory.total,
+        limit: options.limit,
+        ...(options.cursor === undefined ? { offset: options.offset } : {}),
+        next_cursor: clickHistory.next_cursor
       });
     } catch (error) {
       console.error('Get click history error:', error);
@@ -549,6 +549,9 @@ export function createAffiliatesRouter(pool: Pool): Router {
       if (message.includes('Unauthorized')) {
         return res.status(403).json({ error: message });
       }
+      if (message.startsWith('Invalid')) {
+        return res.status(400).json({ error: message });
+      }
 
       res.status(500).json({ error: message });
     }
@@ -1,7 +1,20 @@
 import { Router, Request, Response } from 'express';
 import { Pool } from 'pg';
-import { ArticleService } from '../services/ArticleService';
-import { Article } from '../models/Article';
+import { ArticleService, ArticleWithSEO } from '../services/ArticleService';
+import { RevisionService } from '../services/RevisionService';
+import { BibliographyService } from '../services/BibliographyService';
+import { SeriesService } from '../services/SeriesService';
+import { ReviewService } from '../services/ReviewService';
+import { PaywallService } from '../services/PaywallService';
+import { CommentService } from '../services/CommentService';
+import { TranslationService } from '../services/TranslationService';
+import { ExpiryService } from '../services/ExpiryService';
+import { ReadingService } from '../services/ReadingService';
+import { PreviewLinkService, PREVIEW_ROBOTS } from '../services/PreviewLinkService';
+import { DuplicateContentService } from '../services/DuplicateContentService';
+import { Pagination } from '../services/Pagination';
+import { Article, DEFAULT_LOCALE } from '../models/Article';
+import { ArticleRevision } from '../models/ArticleRevision';
 
 export interface AuthRequest extends Request {
   user?: any;
@@ -10,6 +23,37 @@ export interface AuthRequest extends Request {
 export function createArticlesRouter(pool: Pool): Router {
   const router = Router();
   const articleService = new ArticleService(pool);
+  const revisionService = new RevisionService(pool);
+  const bibliographyService = new BibliographyService(pool);
+  const seriesService = new SeriesService(pool);
+  const reviewService = new ReviewService(pool);
+  const paywallService = new PaywallService(pool);
+  const commentService = new CommentService(pool);
+  const translationService = new TranslationService(pool);
+  const expiryService = new ExpiryService(pool);
+  const readingService = new ReadingService(pool);
+  const previewLinkService = new PreviewLinkService(pool);
+  const duplicateService = new DuplicateContentService(pool);
+
+  // Swaps in the published translation in the reader's language, if the article has one
+  const inReaderLocale = async (article: ArticleWithSEO, req: Request, res: Response, includeAnalytics = false) => {
+    const translationId = await translationService.selectForReader(article, {
+      locale: req.query.locale as string | undefined,
+      acceptLanguage: req.get('Accept-Language')
+    });
+    const selected = translationId ? (await articleService.getArticle(translationId, includeAnalytics)) || article : article;
+
+    res.set('Content-Language', selected.locale || DEFAULT_LOCALE);
+    res.vary('Accept-Language');
+    return selected;
+  };
+
+  // Listings never spend metered reads, so premium articles the reader cannot always read
+  // come back as previews; the full text is only served by GET /:id and /slug/:slug
+  const withPaywall = async <T extends ArticleWithSEO>(articles: T[], req: AuthRequest) =>
+    Promise.all(articles.map(async article =>
+      await paywallService.hasFullAccess(article, req.user?.id) ? article : ArticleService.buildPreview(article)
+    ));
 
   // Middleware to authenticate JWT tokens (would be imported from auth routes in real app)
   const authenticateToken = async (req: AuthRequest, res: Response, next: any) => {
@@ -53,75 +97,304 @@ export function createArticlesRouter(pool: Pool): Router {
         status = 'published',
         is_premium,
         tags,
-        search,
-        limit = 20,
-        offset = 0,
-        sortBy = 'created_at',
-        sortOrder = 'desc'
+        locale,
+        search
       } = req.query;
 
-      // Parse query parameters
-      const filters: any = {
-        limit: Math.min(parseInt(limit as string) || 20, 100), // Max 100 items
-        offset: parseInt(offset as string) || 0
-      };
+      // Parse query parameters; a cursor parameter switches from offset to cursor pagination
+      const filters: any = Pagination.fromQuery(req.query, 20, 100);
 
       if (author_id) filters.author_id = author_id as string;
       if (status) filters.status = status as string;
       if (is_premium !== undefined) filters.is_premium = is_premium === 'true';
       if (search) filters.search = search as string;
+      if (locale) filters.locale = Article.normalizeLocale(locale as string) || (locale as string);
       if (tags) {
         const tagArray = Array.isArray(tags) ? tags : [tags];
         filters.tags = tagArray as string[];
       }
 
-      // Only allow access to drafts if user is the author
-      if (filters.status === 'draft' && (!req.user || !filters.author_id || req.user.id !== filters.author_id)) {
+      // Only allow access to drafts and scheduled articles if user is the author
+      const ownArticles = !!req.user && !!filters.author_id && req.user.id === filters.author_id;
+      if (Article.isPrivateStatus(filters.status) && !ownArticles) {
         filters.status = 'published';
       }
 
+      // Creators still see their own expired articles; everyone else does not
+      if (!ownArticles) {
+        filters.exclude_expired = true;
+      }
+
       const result = await articleService.getArticles(filters);
 
       res.json({
-        articles: result.articles,
+        articles: await withPaywall(result.articles, req),
         total: result.total,
         limit: filters.limit,
-        offset: filters.offset
+        ...(filters.cursor === undefined ? { offset: filters.offset } : {}),
+        next_cursor: result.next_cursor
       });
     } catch (error) {
       console.error('Get articles error:', error);
+      if (error instanceof Error && error.message.startsWith('Invalid')) {
+        return res.status(400).json({ error: error.message });
+      }
       res.status(500).json({ error: 'Failed to fetch articles' });
     }
   });
 
+  // GET /api/articles/scheduled - List upcoming scheduled articles for the editorial calendar
+  router.get('/scheduled', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const articles = await articleService.getScheduledArticles(req.user.id);
+
+      res.json({
+        articles,
+        total: articles.length
+      });
+    } catch (error) {
+      console.error('Get scheduled articles error:', error);
+      res.status(500).json({ error: 'Failed to fetch scheduled articles' });
+    }
+  });
+
+  // GET /api/articles/expiries - Report of the creator's articles that expired
+  router.get('/expiries', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const since = req.query.since ? new Date(req.query.since as string) : undefined;
+      if (since && isNaN(since.getTime())) {
+        return res.status(400).json({ error: 'Invalid since date' });
+      }
+
+      const expiries = await expiryService.getReport(req.user.id, since, parseInt(req.query.limit as string) || 100);
+
+      res.json({
+        expiries,
+        total: expiries.length
+      });
+    } catch (error) {
+      console.error('Get expiry report error:', error);
+      res.status(500).json({ error: 'Failed to fetch expiry report' });
+    }
+  });
+
+  // GET /api/articles/duplicates - Near-duplicate pairs involving the creator's articles
+  router.get('/duplicates', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const duplicates = await duplicateService.getReport(req.user.id, {
+        threshold: req.query.threshold !== undefined ? parseFloat(req.query.threshold as string) : undefined,
+        limit: parseInt(req.query.limit as string) || 50
+      });
+
+      res.json({
+        duplicates,
+        total: duplicates.length
+      });
+    } catch (error) {
+      console.error('Get duplicate report error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to fetch duplicate report';
+
+      if (message.startsWith('Invalid')) {
+        return res.status(400).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // GET /api/articles/review-queue - Articles awaiting review by the current editor
+  router.get('/review-queue', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const articles = await reviewService.getReviewQueue(req.user.id);
+
+      res.json({
+        articles,
+        total: articles.length
+      });
+    } catch (error) {
+      console.error('Get review queue error:', error);
+      res.status(500).json({ error: 'Failed to fetch review queue' });
+    }
+  });
+
+  // GET /api/articles/comment-queue - Reader comments awaiting moderation
+  router.get('/comment-queue', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const { page = '1', limit = '20' } = req.query;
+      const pageNumber = Math.max(1, parseInt(page as string) || 1);
+      const limitNumber = Math.min(100, Math.max(1, parseInt(limit as string) || 20));
+
+      const { comments, total } = await commentService.getModerationQueue(
+        req.user.id,
+        limitNumber,
+        (pageNumber - 1) * limitNumber
+      );
+
+      res.json({
+        comments,
+        pagination: {
+          page: pageNumber,
+          limit: limitNumber,
+          total,
+          totalPages: Math.ceil(total / limitNumber)
+        }
+      });
+    } catch (error) {
+      console.error('Get comment queue error:', error);
+      res.status(500).json({ error: 'Failed to fetch comment queue' });
+    }
+  });
+
+  // GET /api/articles/meter/:creatorId - Free premium reads left this month for the current reader
+  router.get('/meter/:creatorId', optionalAuth, async (req: AuthRequest, res: Response) => {
+    try {
+      const meter = await paywallService.getMeterStatus(req.params.creatorId, {
+        user_id: req.user?.id,
+        device_id: req.get('X-Device-Id')
+      });
+
+      res.json({ meter });
+    } catch (error) {
+      console.error('Get meter status error:', error);
+      res.status(500).json({ error: 'Failed to fetch meter status' });
+    }
+  });
+
+  // GET /api/articles/preview/:token - Open a signed preview link; no account needed
+  router.get('/preview/:token', async (req: Request, res: Response) => {
+    // Previews must never be indexed, cached by shared caches or leak the token onwards
+    res.set({
+      'X-Robots-Tag': PREVIEW_ROBOTS,
+      'Cache-Control': 'private, no-store',
+      'Referrer-Policy': 'no-referrer'
+    });
+
+    try {
+      const { article, preview } = await previewLinkService.openPreview(req.params.token, {
+        ip_address: req.ip,
+        user_agent: req.get('User-Agent')
+      });
+
+      res.json({ article, preview });
+    } catch (error) {
+      console.error('Open preview error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to open preview';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('expired') || message.includes('revoked')) {
+        return res.status(410).json({ error: message });
+      }
+
+      res.status(500).json({ error: 'Failed to open preview' });
+    }
+  });
+
+  // GET /api/articles/search/:term - Full-text search with ranking, highlights and facets.
+  // Registered before the /:id routes, which would otherwise take terms like "related".
+  router.get('/search/:term', optionalAuth, async (req: AuthRequest, res: Response) => {
+    try {
+      const { term } = req.params;
+      const {
+        limit = 20,
+        offset = 0,
+        author_id,
+        tags
+      } = req.query;
+
+      const searchOptions: any = {
+        limit: Math.min(parseInt(limit as string) || 20, 100),
+        offset: parseInt(offset as string) || 0,
+        status: 'published' // Only search published articles
+      };
+
+      if (author_id) searchOptions.author_id = author_id as string;
+      if (tags) {
+        const tagArray = Array.isArray(tags) ? tags : [tags];
+        searchOptions.tags = tagArray as string[];
+      }
+
+      const result = await articleService.searchArticles(term, searchOptions);
+
+      res.json({
+        articles: await withPaywall(result.articles, req),
+        total: result.total,
+        facets: result.facets,
+        searchTerm: term,
+        limit: searchOptions.limit,
+        offset: searchOptions.offset
+      });
+    } catch (error) {
+      console.error('Search articles error:', error);
+      if (error instanceof Error && error.message.includes('Search query')) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: 'Failed to search articles' });
+    }
+  });
+
   // GET /api/articles/:id - Get article by ID
   router.get('/:id', optionalAuth, async (req: AuthRequest, res: Response) => {
     try {
       const { id } = req.params;
       const { includeAnalytics = false } = req.query;
 
-      const article = await articleService.getArticle(id, includeAnalytics === 'true');
+      const requested = await articleService.getArticle(id, includeAnalytics === 'true');
 
-      if (!article) {
+      if (!requested) {
         return res.status(404).json({ error: 'Article not found' });
       }
 
       // Check if user can access this article
-      if (article.status === 'draft' && (!req.user || req.user.id !== article.author_id)) {
+      if (Article.isPrivateStatus(requested.status) && !(await articleService.canViewUnpublished(requested, req.user?.id))) {
         return res.status(404).json({ error: 'Article not found' });
       }
 
-      if (article.is_premium && !req.user) {
+      const article = await inReaderLocale(requested, req, res, includeAnalytics === 'true');
+
+      // Authors also see the newsletter and social delivery status of their article
+      if (req.user && req.user.id === article.author_id) {
+        article.deliveries = await articleService.getArticleDeliveries(article.id!);
+      }
+
+      const series = await seriesService.getArticleNavigation(article.id!, req.user?.id);
+
+      // Signed-in readers get their bookmark and reading position back
+      const reading = req.user ? await readingService.getReaderState(article.id!, req.user.id) : undefined;
+
+      // Articles in a premium series are gated by the series plan as well
+      const access = await paywallService.checkAccess(article, {
+        user_id: req.user?.id,
+        device_id: req.get('X-Device-Id')
+      });
+
+      if (!access.has_access) {
         // Return preview for premium content
-        const preview = {
-          ...article,
-          content: article.content.substring(0, 500) + '...',
-          is_preview: true
-        };
-        return res.json({ article: preview });
+        return res.json({ article: ArticleService.buildPreview(article), series, access, reading });
       }
 
-      res.json({ article });
+      res.json({ article, series, access, reading });
     } catch (error) {
       console.error('Get article error:', error);
       res.status(500).json({ error: 'Failed to fetch article' });
@@ -138,27 +411,42 @@ export function createArticlesRouter(pool: Pool): Router {
         return res.status(400).json({ error: 'Author ID is required' });
       }
 
-      const article = await articleService.getArticleBySlug(author_id as string, slug);
+      const requested = await articleService.getArticleBySlug(author_id as string, slug);
+
+      if (!requested) {
+        // Links to a previous slug redirect to the article's current slug
+        const currentSlug = await articleService.getRedirectSlug(author_id as string, slug);
+        if (currentSlug) {
+          const query = new URLSearchParams({ author_id: author_id as string });
+          return res.redirect(301, `${req.baseUrl}/slug/${encodeURIComponent(currentSlug)}?${query}`);
+        }
 
-      if (!article) {
         return res.status(404).json({ error: 'Article not found' });
       }
 
       // Check access permissions
-      if (article.status === 'draft' && (!req.user || req.user.id !== article.author_id)) {
+      if (Article.isPrivateStatus(requested.status) && !(await articleService.canViewUnpublished(requested, req.user?.id))) {
         return res.status(404).json({ error: 'Article not found' });
       }
 
-      if (article.is_premium && !req.user) {
-        const preview = {
-          ...article,
-          content: article.content.substring(0, 500) + '...',
-          is_preview: true
-        };
-        return res.json({ article: preview });
+      const article = await inReaderLocale(requested, req, res);
+
+      const series = await seriesService.getArticleNavigation(article.id!, req.user?.id);
+
+      // Signed-in readers get their bookmark and reading position back
+      const reading = req.user ? await readingService.getReaderState(article.id!, req.user.id) : undefined;
+
+      // Articles in a premium series are gated by the series plan as well
+      const access = await paywallService.checkAccess(article, {
+        user_id: req.user?.id,
+        device_id: req.get('X-Device-Id')
+      });
+
+      if (!access.has_access) {
+        return res.json({ article: ArticleService.buildPreview(article), series, access, reading });
       }
 
-      res.json({ article });
+      res.json({ article, series, access, reading });
     } catch (error) {
       console.error('Get article by slug error:', error);
       res.status(500).json({ error: 'Failed to fetch article' });
@@ -174,15 +462,25 @@ export function createArticlesRouter(pool: Pool): Router {
 
       const {
         title,
-        content,
         excerpt,
-        featured_image_url,
+        featured_image_id,
         is_premium = false,
         seo_title,
         seo_description,
-        tags = []
+        tags = [],
+        content_format = 'markdown',
+        citation_style,
+        locale,
+        expires_at,
+        expiry_action,
+        expiry_banner
       } = req.body;
 
+      // Block documents may be sent as JSON objects; they are stored as serialized JSON
+      const content = req.body.content && typeof req.body.content === 'object'
+        ? JSON.stringify(req.body.content)
+        : req.body.content;
+
       // Validate required fields
       if (!title || !content) {
         return res.status(400).json({
@@ -190,6 +488,12 @@ export function createArticlesRouter(pool: Pool): Router {
         });
       }
 
+      if (!Article.validateContentFormat(content_format)) {
+        return res.status(400).json({
+          error: 'Content format must be markdown, blocks or html'
+        });
+      }
+
       // Validate field lengths
       if (!Article.validateTitle(title)) {
         return res.status(400).json({
@@ -219,12 +523,18 @@ export function createArticlesRouter(pool: Pool): Router {
         author_id: req.user.id,
         title: title.trim(),
         content,
+        content_format,
+        citation_style,
+        locale,
         excerpt: excerpt?.trim(),
-        featured_image_url: featured_image_url?.trim(),
+        featured_image_id: featured_image_id || undefined,
         is_premium: Boolean(is_premium),
         seo_title: seo_title?.trim(),
         seo_description: seo_description?.trim(),
-        tags: Array.isArray(tags) ? tags : []
+        tags: Array.isArray(tags) ? tags : [],
+        expires_at: expires_at ? new Date(expires_at) : undefined,
+        expiry_action,
+        expiry_banner: expiry_banner?.trim() || undefined
       };
 
       const article = await articleService.createArticle(articleData);
@@ -236,6 +546,11 @@ export function createArticlesRouter(pool: Pool): Router {
     } catch (error) {
       console.error('Create article error:', error);
       const message = error instanceof Error ? error.message : 'Failed to create article';
+
+      if (message.startsWith('Invalid')) {
+        return res.status(400).json({ error: message });
+      }
+
       res.status(500).json({ error: message });
     }
   });
@@ -252,23 +567,35 @@ export function createArticlesRouter(pool: Pool): Router {
         title,
         content,
         excerpt,
-        featured_image_url,
+        featured_image_id,
         is_premium,
         seo_title,
         seo_description,
-        tags
+        tags,
+        content_format,
+        citation_style,
+        locale,
+        expires_at,
+        expiry_action,
+        expiry_banner
       } = req.body;
 
       // Build update data object
       const updateData: any = {};
       if (title !== undefined) updateData.title = title.trim();
-      if (content !== undefined) updateData.content = content;
+      if (content !== undefined) updateData.content = content && typeof content === 'object' ? JSON.stringify(content) : content;
+      if (content_format !== undefined) updateData.content_format = content_format;
+      if (citation_style !== undefined) updateData.citation_style = citation_style;
+      if (locale !== undefined) updateData.locale = locale;
       if (excerpt !== undefined) updateData.excerpt = excerpt?.trim();
-      if (featured_image_url !== undefined) updateData.featured_image_url = featured_image_url?.trim();
+      if (featured_image_id !== undefined) updateData.featured_image_id = featured_image_id || null;
       if (is_premium !== undefined) updateData.is_premium = Boolean(is_premium);
       if (seo_title !== undefined) updateData.seo_title = seo_title?.trim();
       if (seo_description !== undefined) updateData.seo_description = seo_description?.trim();
       if (tags !== undefined) updateData.tags = Array.isArray(tags) ? tags : [];
+      if (expires_at !== undefined) updateData.expires_at = expires_at ? new Date(expires_at) : null;
+      if (expiry_action !== undefined) updateData.expiry_action = expiry_action;
+      if (expiry_banner !== undefined) updateData.expiry_banner = expiry_banner?.trim() || null;
 
       if (Object.keys(updateData).length === 0) {
         return res.status(400).json({ error: 'No valid fields to update' });
@@ -290,6 +617,9 @@ export function createArticlesRouter(pool: Pool): Router {
       if (message.includes('Unauthorized')) {
         return res.status(403).json({ error: message });
       }
+      if (message.startsWith('Invalid')) {
+        return res.status(400).json({ error: message });
+      }
 
       res.status(500).json({ error: message });
     }
@@ -318,12 +648,23 @@ export function createArticlesRouter(pool: Pool): Router {
         publishOptions.scheduledAt = new Date(scheduledAt);
       }
 
+      if (publishOptions.scheduledAt && isNaN(publishOptions.scheduledAt.getTime())) {
+        return res.status(400).json({ error: 'Invalid scheduledAt date' });
+      }
+
       const article = await articleService.publishArticle(id, publishOptions, req.user.id);
 
-      res.json({
-        message: 'Article published successfully',
+      const response: any = {
+        message: article.status === 'scheduled' ? 'Article scheduled successfully' : 'Article published successfully',
         article
-      });
+      };
+
+      // Publishing is not blocked; the matches are in article.duplicate_warnings
+      if (article.duplicate_warnings && article.duplicate_warnings.length > 0) {
+        response.warning = 'This article overlaps heavily with existing content';
+      }
+
+      res.json(response);
     } catch (error) {
       console.error('Publish article error:', error);
       const message = error instanceof Error ? error.message : 'Failed to publish article';
@@ -337,6 +678,110 @@ export function createArticlesRouter(pool: Pool): Router {
       if (message.includes('already published')) {
         return res.status(400).json({ error: message });
       }
+      if (message.startsWith('Review required') || message.startsWith('Audit failed')) {
+        return res.status(409).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // GET /api/articles/:id/deliveries - Newsletter and social delivery status
+  router.get('/:id/deliveries', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const { id } = req.params;
+
+      const deliveries = await articleService.getArticleDeliveries(id, req.user.id);
+
+      res.json({
+        deliveries
+      });
+    } catch (error) {
+      console.error('Get article deliveries error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to fetch deliveries';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // PUT /api/articles/:id/schedule - Reschedule a scheduled article
+  router.put('/:id/schedule', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const { id } = req.params;
+      const { scheduledAt } = req.body;
+
+      const scheduledDate = new Date(scheduledAt);
+      if (!scheduledAt || isNaN(scheduledDate.getTime())) {
+        return res.status(400).json({ error: 'A valid scheduledAt date is required' });
+      }
+
+      const article = await articleService.rescheduleArticle(id, scheduledDate, req.user.id);
+
+      res.json({
+        message: 'Article rescheduled successfully',
+        article
+      });
+    } catch (error) {
+      console.error('Reschedule article error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to reschedule article';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+      if (message.includes('not scheduled') || message.includes('must be in the future')) {
+        return res.status(400).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // DELETE /api/articles/:id/schedule - Cancel a scheduled publish and return the article to draft
+  router.delete('/:id/schedule', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const { id } = req.params;
+
+      const article = await articleService.cancelScheduledArticle(id, req.user.id);
+
+      res.json({
+        message: 'Scheduled publish canceled',
+        article
+      });
+    } catch (error) {
+      console.error('Cancel scheduled article error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to cancel scheduled article';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+      if (message.includes('not scheduled')) {
+        return res.status(400).json({ error: message });
+      }
 
       res.status(500).json({ error: message });
     }
@@ -421,41 +866,1229 @@ export function createArticlesRouter(pool: Pool): Router {
     }
   });
 
-  // GET /api/articles/search/:term - Search articles
-  router.get('/search/:term', async (req: Request, res: Response) => {
+  // GET /api/articles/:id/duplicates - Articles across the catalog that overlap with this one
+  router.get('/:id/duplicates', authenticateToken, async (req: AuthRequest, res: Response) => {
     try {
-      const { term } = req.params;
-      const {
-        limit = 20,
-        offset = 0,
-        author_id,
-        tags
-      } = req.query;
-
-      const searchOptions: any = {
-        limit: Math.min(parseInt(limit as string) || 20, 100),
-        offset: parseInt(offset as string) || 0,
-        status: 'published' // Only search published articles
-      };
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const duplicates = await duplicateService.getDuplicates(req.params.id, req.user.id, {
+        threshold: req.query.threshold !== undefined ? parseFloat(req.query.threshold as string) : undefined,
+        limit: parseInt(req.query.limit as string) || 20
+      });
+
+      res.json({
+        duplicates,
+        total: duplicates.length
+      });
+    } catch (error) {
+      console.error('Get duplicates error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to fetch duplicates';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+      if (message.startsWith('Invalid')) {
+        return res.status(400).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // GET /api/articles/:id/audit - Readability, SEO, accessibility and link checks
+  router.get('/:id/audit', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const audit = await articleService.auditArticle(req.params.id, req.user.id);
+
+      res.json({ audit });
+    } catch (error) {
+      console.error('Audit article error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to audit article';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // GET /api/articles/:id/slugs - Previous slugs that redirect to the article
+  router.get('/:id/slugs', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const slugs = await articleService.getPreviousSlugs(req.params.id, req.user.id);
+
+      res.json({ slugs });
+    } catch (error) {
+      console.error('Get article slugs error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to fetch slug history';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // GET /api/articles/:id/translations - The article's translation group
+  router.get('/:id/translations', optionalAuth, async (req: AuthRequest, res: Response) => {
+    try {
+      const translations = await translationService.getTranslations(req.params.id, req.user?.id);
+
+      res.json({ translations });
+    } catch (error) {
+      console.error('Get translations error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to fetch translations';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // POST /api/articles/:id/translations - Create a draft translation of the article
+  router.post('/:id/translations', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const {
+        locale,
+        title,
+        excerpt,
+        featured_image_id,
+        is_premium,
+        seo_title,
+        seo_description,
+        tags,
+        content_format,
+        citation_style
+      } = req.body;
+
+      const content = req.body.content && typeof req.body.content === 'object'
+        ? JSON.stringify(req.body.content)
+        : req.body.content;
+
+      if (!locale || !title || !content) {
+        return res.status(400).json({ error: 'Locale, title and content are required' });
+      }
+
+      const article = await translationService.createTranslation(req.params.id, {
+        locale,
+        title: title.trim(),
+        content,
+        content_format,
+        citation_style,
+        excerpt: excerpt?.trim(),
+        featured_image_id: featured_image_id || undefined,
+        is_premium: is_premium !== undefined ? Boolean(is_premium) : undefined,
+        seo_title: seo_title?.trim(),
+        seo_description: seo_description?.trim(),
+        tags: Array.isArray(tags) ? tags : undefined
+      }, req.user.id);
+
+      res.status(201).json({
+        message: 'Translation created successfully',
+        article
+      });
+    } catch (error) {
+      console.error('Create translation error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to create translation';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+      if (message.includes('already')) {
+        return res.status(409).json({ error: message });
+      }
+      if (message.startsWith('Invalid')) {
+        return res.status(400).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // POST /api/articles/:id/translations/link - Add an existing article to the translation group
+  router.post('/:id/translations/link', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const { article_id } = req.body;
+
+      if (!article_id) {
+        return res.status(400).json({ error: 'Article ID is required' });
+      }
+
+      const translations = await translationService.linkTranslation(req.params.id, article_id, req.user.id);
+
+      res.json({
+        message: 'Translation linked successfully',
+        translations
+      });
+    } catch (error) {
+      console.error('Link translation error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to link translation';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+      if (message.includes('already')) {
+        return res.status(409).json({ error: message });
+      }
+      if (message.startsWith('Invalid')) {
+        return res.status(400).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // DELETE /api/articles/:id/translations - Take the article out of its translation group
+  router.delete('/:id/translations', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      await translationService.unlinkTranslation(req.params.id, req.user.id);
+
+      res.json({ message: 'Article removed from its translation group' });
+    } catch (error) {
+      console.error('Unlink translation error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to unlink translation';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+      if (message.startsWith('Invalid')) {
+        return res.status(400).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // GET /api/articles/:id/previews - Preview links of an article with their view counts
+  router.get('/:id/previews', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const previews = await previewLinkService.getLinks(req.params.id, req.user.id);
+
+      res.json({ previews });
+    } catch (error) {
+      console.error('Get preview links error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to fetch preview links';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // POST /api/articles/:id/previews - Create an expiring preview link, optionally pinned to a revision
+  router.post('/:id/previews', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const { label, revision_number, expires_in_hours } = req.body;
+
+      const preview = await previewLinkService.createLink(req.params.id, req.user.id, {
+        label,
+        revision_number,
+        expires_in_hours
+      });
+
+      res.status(201).json({ message: 'Preview link created', preview });
+    } catch (error) {
+      console.error('Create preview link error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to create preview link';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+      if (message.startsWith('Invalid')) {
+        return res.status(400).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // DELETE /api/articles/:id/previews/:linkId - Revoke a preview link
+  router.delete('/:id/previews/:linkId', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const preview = await previewLinkService.revokeLink(req.params.id, req.params.linkId, req.user.id);
+
+      res.json({ message: 'Preview link revoked', preview });
+    } catch (error) {
+      console.error('Revoke preview link error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to revoke preview link';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+      if (message.includes('already')) {
+        return res.status(409).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // GET /api/articles/:id/previews/:linkId/views - Access log of a preview link, newest first
+  router.get('/:id/previews/:linkId/views', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const limit = parseInt(req.query.limit as string) || 100;
+      const views = await previewLinkService.getViews(req.params.id, req.params.linkId, req.user.id, limit);
+
+      res.json({ views });
+    } catch (error) {
+      console.error('Get preview views error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to fetch preview views';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // GET /api/articles/:id/revisions - List revisions of an article
+  router.get('/:id/revisions', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const { id } = req.params;
+
+      const revisions = await revisionService.listRevisions(id, req.user.id);
+
+      res.json({
+        revisions
+      });
+    } catch (error) {
+      console.error('List revisions error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to fetch revisions';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // GET /api/articles/:id/revisions/diff - Word-level diff between two revisions
+  router.get('/:id/revisions/diff', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const { id } = req.params;
+      const { from, to } = req.query;
+
+      if (!ArticleRevision.validateRevisionNumber(from) || !ArticleRevision.validateRevisionNumber(to)) {
+        return res.status(400).json({ error: 'Query parameters from and to must be revision numbers' });
+      }
+
+      const diff = await revisionService.diffRevisions(id, Number(from), Number(to), req.user.id);
+
+      res.json({
+        diff
+      });
+    } catch (error) {
+      console.error('Diff revisions error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to diff revisions';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // GET /api/articles/:id/revisions/:revision - Get a single revision
+  router.get('/:id/revisions/:revision', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const { id, revision } = req.params;
+
+      if (!ArticleRevision.validateRevisionNumber(revision)) {
+        return res.status(400).json({ error: 'Invalid revision number' });
+      }
+
+      const articleRevision = await revisionService.getRevision(id, Number(revision), req.user.id);
+
+      res.json({
+        revision: articleRevision
+      });
+    } catch (error) {
+      console.error('Get revision error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to fetch revision';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // POST /api/articles/:id/revisions/:revision/restore - Restore a revision as a new revision
+  router.post('/:id/revisions/:revision/restore', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const { id, revision } = req.params;
+
+      if (!ArticleRevision.validateRevisionNumber(revision)) {
+        return res.status(400).json({ error: 'Invalid revision number' });
+      }
+
+      const article = await revisionService.restoreRevision(id, Number(revision), req.user.id);
+
+      res.json({
+        message: 'Revision restored successfully',
+        article
+      });
+    } catch (error) {
+      console.error('Restore revision error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to restore revision';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // PUT /api/articles/:id/authors - Set the ordered byline
+  router.put('/:id/authors', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const { author_ids } = req.body;
+
+      if (!Array.isArray(author_ids)) {
+        return res.status(400).json({ error: 'author_ids must be an array' });
+      }
+
+      const authors = await articleService.setAuthors(req.params.id, author_ids, req.user.id);
+
+      res.json({
+        message: 'Byline updated successfully',
+        authors
+      });
+    } catch (error) {
+      console.error('Set article authors error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to update byline';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+      if (message.startsWith('Invalid')) {
+        return res.status(400).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // POST /api/articles/:id/submit-review - Submit a draft for editorial review
+  router.post('/:id/submit-review', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const article = await reviewService.submitForReview(req.params.id, req.user.id);
+
+      res.json({
+        message: 'Article submitted for review',
+        article
+      });
+    } catch (error) {
+      console.error('Submit for review error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to submit article for review';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+      if (message.startsWith('Invalid status')) {
+        return res.status(409).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // GET /api/articles/:id/reviews - Review status and decision history
+  router.get('/:id/reviews', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const review = await reviewService.getReviewStatus(req.params.id, req.user.id);
+
+      res.json(review);
+    } catch (error) {
+      console.error('Get reviews error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to fetch reviews';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // POST /api/articles/:id/reviews - Approve or request changes
+  router.post('/:id/reviews', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const { decision, summary } = req.body;
+
+      if (!decision) {
+        return res.status(400).json({ error: 'Decision is required' });
+      }
+
+      const result = await reviewService.reviewArticle(req.params.id, req.user.id, decision, summary);
+
+      res.status(201).json({
+        message: decision === 'approved' ? 'Article approved' : 'Changes requested',
+        ...result
+      });
+    } catch (error) {
+      console.error('Review article error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to review article';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+      if (message.startsWith('Invalid status')) {
+        return res.status(409).json({ error: message });
+      }
+      if (message.startsWith('Invalid')) {
+        return res.status(400).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // GET /api/articles/:id/review-comments - Inline review comments
+  router.get('/:id/review-comments', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const comments = await reviewService.getComments(
+        req.params.id,
+        req.user.id,
+        req.query.include_resolved === 'true'
+      );
+
+      res.json({ comments });
+    } catch (error) {
+      console.error('Get review comments error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to fetch review comments';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // POST /api/articles/:id/review-comments - Comment on a range of the content
+  router.post('/:id/review-comments', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const { anchor_start, anchor_end, body } = req.body;
+
+      if (typeof body !== 'string' || anchor_start === undefined || anchor_end === undefined) {
+        return res.status(400).json({ error: 'anchor_start, anchor_end and body are required' });
+      }
+
+      const comment = await reviewService.addComment(req.params.id, req.user.id, {
+        anchor_start: Number(anchor_start),
+        anchor_end: Number(anchor_end),
+        body
+      });
+
+      res.status(201).json({
+        message: 'Comment added',
+        comment
+      });
+    } catch (error) {
+      console.error('Add review comment error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to add comment';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+      if (message.startsWith('Invalid')) {
+        return res.status(400).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // POST /api/articles/:id/review-comments/:commentId/resolve - Mark a comment as resolved
+  router.post('/:id/review-comments/:commentId/resolve', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const comment = await reviewService.resolveComment(req.params.id, req.params.commentId, req.user.id);
+
+      res.json({
+        message: 'Comment resolved',
+        comment
+      });
+    } catch (error) {
+      console.error('Resolve review comment error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to resolve comment';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+      if (message.includes('already resolved')) {
+        return res.status(409).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // PUT /api/articles/:id/bookmark - Bookmark an article, optionally into a reading list folder
+  router.put('/:id/bookmark', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const { folder_id } = req.body;
+
+      if (folder_id !== undefined && folder_id !== null && typeof folder_id !== 'string') {
+        return res.status(400).json({ error: 'folder_id must be a folder ID or null' });
+      }
+
+      const bookmark = await readingService.bookmark(req.params.id, req.user.id, folder_id);
+
+      res.json({ message: 'Article bookmarked', bookmark });
+    } catch (error) {
+      console.error('Bookmark article error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to bookmark article';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // DELETE /api/articles/:id/bookmark - Remove an article from the reading list
+  router.delete('/:id/bookmark', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      await readingService.removeBookmark(req.params.id, req.user.id);
+
+      res.json({ message: 'Bookmark removed' });
+    } catch (error) {
+      console.error('Remove bookmark error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to remove bookmark';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // GET /api/articles/:id/progress - The reader's synced position in the article
+  router.get('/:id/progress', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const progress = await readingService.getProgress(req.params.id, req.user.id);
+
+      res.json({ progress });
+    } catch (error) {
+      console.error('Get reading progress error:', error);
+      res.status(500).json({ error: 'Failed to fetch reading progress' });
+    }
+  });
+
+  // PUT /api/articles/:id/progress - Sync the reader's scroll position and last paragraph
+  router.put('/:id/progress', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const { scroll_percentage, last_paragraph_index, updated_at } = req.body;
+
+      const progress = await readingService.syncProgress(req.params.id, req.user.id, {
+        scroll_percentage,
+        last_paragraph_index,
+        updated_at
+      });
+
+      res.json({ progress });
+    } catch (error) {
+      console.error('Sync reading progress error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to sync reading progress';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.startsWith('Invalid')) {
+        return res.status(400).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // DELETE /api/articles/:id/progress - Forget the reader's progress, e.g. to drop it from "continue reading"
+  router.delete('/:id/progress', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      await readingService.clearProgress(req.params.id, req.user.id);
+
+      res.json({ message: 'Reading progress cleared' });
+    } catch (error) {
+      console.error('Clear reading progress error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to clear reading progress';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // GET /api/articles/:id/comments - Threaded reader comments
+  router.get('/:id/comments', optionalAuth, async (req: AuthRequest, res: Response) => {
+    try {
+      const { comments, total } = await commentService.getComments(req.params.id, req.user?.id);
+
+      res.json({ comments, total });
+    } catch (error) {
+      console.error('Get comments error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to fetch comments';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+
+      res.status(500).json({ error: 'Failed to fetch comments' });
+    }
+  });
+
+  // POST /api/articles/:id/comments - Comment on an article or reply to a comment
+  router.post('/:id/comments', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const { body, parent_id } = req.body;
+
+      if (typeof body !== 'string') {
+        return res.status(400).json({ error: 'Comment body is required' });
+      }
+
+      const comment = await commentService.addComment(req.params.id, req.user.id, { body, parent_id });
+
+      res.status(201).json({
+        message: comment.status === 'pending' ? 'Comment submitted for moderation' : 'Comment posted',
+        comment
+      });
+    } catch (error) {
+      console.error('Add comment error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to add comment';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+      if (message.startsWith('Rate limit')) {
+        return res.status(429).json({ error: message });
+      }
+      if (message.startsWith('Invalid')) {
+        return res.status(400).json({ error: message });
+      }
 
-      if (author_id) searchOptions.author_id = author_id as string;
-      if (tags) {
-        const tagArray = Array.isArray(tags) ? tags : [tags];
-        searchOptions.tags = tagArray as string[];
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // POST /api/articles/:id/comments/:commentId/approve - Publish a comment from the moderation queue
+  router.post('/:id/comments/:commentId/approve', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
       }
 
-      const result = await articleService.searchArticles(term, searchOptions);
+      const comment = await commentService.approveComment(req.params.id, req.params.commentId, req.user.id);
 
       res.json({
-        articles: result.articles,
-        total: result.total,
-        searchTerm: term,
-        limit: searchOptions.limit,
-        offset: searchOptions.offset
+        message: 'Comment approved',
+        comment
       });
     } catch (error) {
-      console.error('Search articles error:', error);
-      res.status(500).json({ error: 'Failed to search articles' });
+      console.error('Approve comment error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to approve comment';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+      if (message.startsWith('Invalid')) {
+        return res.status(400).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // POST /api/articles/:id/comments/:commentId/hide - Hide a published comment from readers
+  router.post('/:id/comments/:commentId/hide', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const comment = await commentService.hideComment(req.params.id, req.params.commentId, req.user.id);
+
+      res.json({
+        message: 'Comment hidden',
+        comment
+      });
+    } catch (error) {
+      console.error('Hide comment error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to hide comment';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+      if (message.startsWith('Invalid')) {
+        return res.status(400).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // POST /api/articles/:id/comments/:commentId/unhide - Show a hidden comment again
+  router.post('/:id/comments/:commentId/unhide', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const comment = await commentService.unhideComment(req.params.id, req.params.commentId, req.user.id);
+
+      res.json({
+        message: 'Comment restored',
+        comment
+      });
+    } catch (error) {
+      console.error('Unhide comment error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to restore comment';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+      if (message.startsWith('Invalid')) {
+        return res.status(400).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // POST /api/articles/:id/comments/:commentId/pin - Pin a top-level comment above the discussion
+  router.post('/:id/comments/:commentId/pin', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const comment = await commentService.setPinned(req.params.id, req.params.commentId, req.user.id, true);
+
+      res.json({
+        message: 'Comment pinned',
+        comment
+      });
+    } catch (error) {
+      console.error('Pin comment error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to pin comment';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+      if (message.startsWith('Invalid')) {
+        return res.status(400).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // DELETE /api/articles/:id/comments/:commentId/pin - Unpin a comment
+  router.delete('/:id/comments/:commentId/pin', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const comment = await commentService.setPinned(req.params.id, req.params.commentId, req.user.id, false);
+
+      res.json({
+        message: 'Comment unpinned',
+        comment
+      });
+    } catch (error) {
+      console.error('Unpin comment error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to unpin comment';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+      if (message.startsWith('Invalid')) {
+        return res.status(400).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // DELETE /api/articles/:id/comments/:commentId - Delete own comment, or any comment as a moderator
+  router.delete('/:id/comments/:commentId', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      await commentService.deleteComment(req.params.id, req.params.commentId, req.user.id);
+
+      res.json({ message: 'Comment deleted' });
+    } catch (error) {
+      console.error('Delete comment error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to delete comment';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // POST /api/articles/:id/comments/:commentId/reactions - React to a comment
+  router.post('/:id/comments/:commentId/reactions', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const { reaction } = req.body;
+
+      if (typeof reaction !== 'string') {
+        return res.status(400).json({ error: 'Reaction is required' });
+      }
+
+      const reactions = await commentService.addReaction(req.params.id, req.params.commentId, req.user.id, reaction);
+
+      res.json({ reactions });
+    } catch (error) {
+      console.error('Add comment reaction error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to add reaction';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+      if (message.startsWith('Invalid')) {
+        return res.status(400).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // DELETE /api/articles/:id/comments/:commentId/reactions/:reaction - Remove a reaction
+  router.delete('/:id/comments/:commentId/reactions/:reaction', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const reactions = await commentService.removeReaction(
+        req.params.id,
+        req.params.commentId,
+        req.user.id,
+        req.params.reaction
+      );
+
+      res.json({ reactions });
+    } catch (error) {
+      console.error('Remove comment reaction error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to remove reaction';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.startsWith('Invalid')) {
+        return res.status(400).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // GET /api/articles/:id/bibliography - List the article's bibliography entries
+  router.get('/:id/bibliography', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const entries = await bibliographyService.getBibliography(req.params.id, req.user.id);
+
+      res.json({ entries });
+    } catch (error) {
+      console.error('Get bibliography error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to fetch bibliography';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // POST /api/articles/:id/bibliography/import - Import BibTeX entries and re-render citations
+  router.post('/:id/bibliography/import', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const { bibtex, replace = false } = req.body;
+
+      if (typeof bibtex !== 'string' || bibtex.trim().length === 0) {
+        return res.status(400).json({ error: 'bibtex is required' });
+      }
+
+      if (bibtex.length > 1000000) {
+        return res.status(400).json({ error: 'BibTeX must be at most 1,000,000 characters' });
+      }
+
+      const result = await bibliographyService.importBibTeX(req.params.id, bibtex, req.user.id, Boolean(replace));
+
+      res.json({
+        message: 'Bibliography imported successfully',
+        ...result
+      });
+    } catch (error) {
+      console.error('Import bibliography error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to import bibliography';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+      if (message.startsWith('Invalid BibTeX')) {
+        return res.status(400).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // DELETE /api/articles/:id/bibliography/:key - Remove a bibliography entry
+  router.delete('/:id/bibliography/:key', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      await bibliographyService.deleteEntry(req.params.id, req.params.key, req.user.id);
+
+      res.json({ message: 'Bibliography entry deleted successfully' });
+    } catch (error) {
+      console.error('Delete bibliography entry error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to delete bibliography entry';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
     }
   });
 
@@ -2,6 +2,8 @@ import { Router, Request, Response } from 'express';
 import { Pool } from 'pg';
 import { AuthService } from '../services/AuthService';
 import { User } from '../models/User';
+import { Media } from '../models/Media';
+import { MediaService } from '../services/MediaService';
 
 export interface AuthRequest extends Request {
   user?: any;
@@ -10,6 +12,7 @@ export interface AuthRequest extends Request {
 export function createAuthRouter(pool: Pool): Router {
   const router = Router();
   const authService = new AuthService(pool);
+  const mediaService = new MediaService(pool);
 
   // Middleware to authenticate JWT tokens
   const authenticateToken = async (req: AuthRequest, res: Response, next: any) => {
@@ -286,13 +289,18 @@ export function createAuthRouter(pool: Pool): Router {
         return res.status(401).json({ error: 'User not authenticated' });
       }
 
-      const { name, bio, avatar_url } = req.body;
+      const { name, bio, avatar_media_id } = req.body;
       const user = new User(pool);
 
       const updateData: any = {};
       if (name !== undefined) updateData.name = name.trim();
       if (bio !== undefined) updateData.bio = bio.trim();
-      if (avatar_url !== undefined) updateData.avatar_url = avatar_url.trim();
+      if (avatar_media_id !== undefined) {
+        // Avatars come from the user's media library; the URL is copied for bylines
+        const avatar = avatar_media_id ? await mediaService.getImageForCreator(avatar_media_id, req.user.id) : null;
+        updateData.avatar_media_id = avatar ? avatar.id : null;
+        updateData.avatar_url = avatar ? Media.displayUrl(avatar) : null;
+      }
 
       if (Object.keys(updateData).length === 0) {
         return res.status(400).json({ error: 'No valid fields to update' });
@@ -310,6 +318,12 @@ export function createAuthRouter(pool: Pool): Router {
       });
     } catch (error) {
       console.error('Profile update error:', error);
+      const message = error instanceof Error ? error.message : 'Profile update failed';
+
+      if (message.startsWith('Invalid image')) {
+        return res.status(400).json({ error: message });
+      }
+
       res.status(500).json({ error: 'Profile update failed' });
     }
   });
@@ -1,6 +1,7 @@
 import { Router, Request, Response } from 'express';
 import { Pool } from 'pg';
 import { EmailService } from '../services/EmailService';
+import { Pagination } from '../services/Pagination';
 
 export interface AuthRequest extends Request {
   user?: any;
@@ -34,13 +35,32 @@ export function createEmailCampaignsRouter(pool: Pool): Router {
         return res.status(401).json({ error: 'Authentication required' });
       }
 
-      const campaigns = await emailService.getCampaigns(req.user.id);
+      const { type, status, search } = req.query;
+
+      const filters: any = Pagination.fromQuery(req.query, 20, 100);
+      if (req.query.limit === undefined && req.query.cursor === undefined) {
+        // Without limit or cursor the whole list is returned, as before pagination was added
+        delete filters.limit;
+      }
+
+      if (type) filters.type = type as string;
+      if (status) filters.status = status as string;
+      if (search) filters.search = search as string;
+
+      const result = await emailService.getCampaigns(req.user.id, filters);
 
       res.json({
-        campaigns
+        campaigns: result.campaigns,
+        total: result.total,
+        limit: filters.limit,
+        ...(filters.cursor === undefined ? { offset: filters.offset } : {}),
+        next_cursor: result.next_cursor
       });
     } catch (error) {
       console.error('Get email campaigns error:', error);
+      if (error instanceof Error && error.message.startsWith('Invalid')) {
+        return res.status(400).json({ error: error.message });
+      }
       res.status(500).json({ error: 'Failed to fetch email campaigns' });
     }
   });
@@ -461,15 +481,10 @@ export function createEmailCampaignsRouter(pool: Pool): Router {
         email_verified,
         engagement_score_min,
         engagement_score_max,
-        search,
-        limit = 50,
-        offset = 0
+        search
       } = req.query;
 
-      const filters: any = {
-        limit: Math.min(parseInt(limit as string) || 50, 200),
-        offset: parseInt(offset as string) || 0
-      };
+      const filters: any = Pagination.fromQuery(req.query, 50, 200);
 
       if (status) filters.status = status as string;
       if (source) filters.source = source as string;
@@ -488,10 +503,14 @@ export function createEmailCampaignsRouter(pool: Pool): Router {
         subscribers: result.subscribers,
         total: result.total,
         limit: filters.limit,
-        offset: filters.offset
+        ...(filters.cursor === undefined ? { offset: filters.offset } : {}),
+        next_cursor: result.next_cursor
       });
     } catch (error) {
       console.error('Get subscribers error:', error);
+      if (error instanceof Error && error.message.startsWith('Invalid')) {
+        return res.status(400).json({ error: error.message });
+      }
       res.status(500).json({ error: 'Failed to fetch subscribers' });
     }
   });
@@ -0,0 +1,137 @@
+import { Router, Request, Response } from 'express';
+import { Pool } from 'pg';
+import { ExportService } from '../services/ExportService';
+
+export interface AuthRequest extends Request {
+  user?: any;
+}
+
+export function createExportsRouter(pool: Pool): Router {
+  const router = Router();
+  const exportService = new ExportService(pool);
+
+  // Middleware to authenticate JWT tokens (would be imported from auth routes in real app)
+  const authenticateToken = async (req: AuthRequest, res: Response, next: any) => {
+    try {
+      const authHeader = req.headers.authorization;
+      if (!authHeader || !authHeader.startsWith('Bearer ')) {
+        return res.status(401).json({ error: 'Access token required' });
+      }
+
+      const token = authHeader.substring(7);
+      // In a real implementation, this would verify the JWT token
+      // For now, we'll simulate a user object
+      req.user = { id: 'user-id', role: 'creator' };
+      next();
+    } catch (error) {
+      res.status(401).json({ error: 'Invalid token' });
+    }
+  };
+
+  // GET /api/exports/download/:token - Download a finished export; the token is the credential
+  router.get('/download/:token', async (req: Request, res: Response) => {
+    let download;
+    try {
+      download = await exportService.getDownload(req.params.token);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to fetch export';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('expired')) {
+        return res.status(410).json({ error: message });
+      }
+
+      console.error('Download export error:', error);
+      return res.status(500).json({ error: 'Failed to fetch export' });
+    }
+
+    res.set('Content-Type', 'application/zip');
+    res.set('Content-Disposition', `attachment; filename="${download.file_name}"`);
+    res.set('Content-Length', String(download.size_bytes));
+    res.set('Cache-Control', 'private, no-store');
+
+    // The archive is stored in parts; send them in order without joining them in memory
+    try {
+      for (const key of download.part_keys) {
+        const part = await exportService.readPart(key);
+        if (!res.write(part)) {
+          await new Promise(resolve => res.once('drain', resolve));
+        }
+      }
+      res.end();
+    } catch (error) {
+      console.error('Stream export error:', error);
+      res.destroy(error instanceof Error ? error : undefined);
+    }
+  });
+
+  // GET /api/exports - Your exports, newest first
+  router.get('/', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const exports = await exportService.getExports(req.user.id);
+
+      res.json({ exports: exports.map(contentExport => ExportService.summarize(contentExport)) });
+    } catch (error) {
+      console.error('Get exports error:', error);
+      res.status(500).json({ error: 'Failed to fetch exports' });
+    }
+  });
+
+  // GET /api/exports/:id - Export status and download link
+  router.get('/:id', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const contentExport = await exportService.getExport(req.params.id, req.user.id);
+
+      res.json({ export: ExportService.summarize(contentExport) });
+    } catch (error) {
+      console.error('Get export error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to fetch export';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // POST /api/exports - Queue an export of your whole archive
+  router.post('/', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const contentExport = await exportService.requestExport(req.user.id);
+
+      res.status(202).json({
+        message: 'Export queued',
+        export: ExportService.summarize(contentExport)
+      });
+    } catch (error) {
+      console.error('Create export error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to queue export';
+
+      if (message.includes('already')) {
+        return res.status(409).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  return router;
+}
\ No newline at end of file
@@ -0,0 +1,82 @@
+import { Router, Request, Response } from 'express';
+import { Pool } from 'pg';
+import { FeedService, FeedOptions } from '../services/FeedService';
+
+const FEED_CACHE_SECONDS = 900;
+
+export function createFeedsRouter(pool: Pool): Router {
+  const router = Router();
+  const feedService = new FeedService(pool);
+
+  // Shared by the creator, tag and series variants, which differ only in their filters
+  const sendFeed = async (req: Request, res: Response, options: Pick<FeedOptions, 'tag' | 'series_slug'>) => {
+    try {
+      const { creator, format } = req.params;
+      const { mode = 'full', premium = 'truncate', limit = 20 } = req.query;
+
+      if (!FeedService.validateFormat(format)) {
+        return res.status(404).json({ error: 'Feed not found' });
+      }
+
+      if (mode !== 'full' && mode !== 'excerpt') {
+        return res.status(400).json({ error: 'mode must be full or excerpt' });
+      }
+
+      if (premium !== 'truncate' && premium !== 'omit') {
+        return res.status(400).json({ error: 'premium must be truncate or omit' });
+      }
+
+      const feed = await feedService.buildFeed(creator, format, {
+        ...options,
+        mode,
+        premium,
+        limit: parseInt(limit as string) || 20
+      });
+
+      res.set({
+        'Content-Type': feed.content_type,
+        'Cache-Control': `public, max-age=${FEED_CACHE_SECONDS}`,
+        'ETag': feed.etag,
+        'Last-Modified': feed.last_modified.toUTCString()
+      });
+
+      // Let aggregators poll cheaply with conditional requests
+      const ifNoneMatch = req.headers['if-none-match'];
+      const ifModifiedSince = req.headers['if-modified-since'];
+      const lastModifiedSeconds = Math.floor(feed.last_modified.getTime() / 1000) * 1000;
+
+      if (ifNoneMatch ? ifNoneMatch === feed.etag : ifModifiedSince && Date.parse(ifModifiedSince) >= lastModifiedSeconds) {
+        return res.status(304).end();
+      }
+
+      res.send(feed.body);
+    } catch (error) {
+      console.error('Get feed error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to build feed';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.startsWith('Invalid')) {
+        return res.status(400).json({ error: message });
+      }
+
+      res.status(500).json({ error: 'Failed to build feed' });
+    }
+  };
+
+  // GET /feeds/:creator/tags/:tag.:format - Creator feed filtered by tag
+  router.get('/:creator/tags/:tag.:format', (req: Request, res: Response) =>
+    sendFeed(req, res, { tag: req.params.tag })
+  );
+
+  // GET /feeds/:creator/series/:series.:format - Feed of one series
+  router.get('/:creator/series/:series.:format', (req: Request, res: Response) =>
+    sendFeed(req, res, { series_slug: req.params.series })
+  );
+
+  // GET /feeds/:creator.:format - All published articles of a creator (rss, atom or json)
+  router.get('/:creator.:format', (req: Request, res: Response) => sendFeed(req, res, {}));
+
+  return router;
+}
\ No newline at end of file
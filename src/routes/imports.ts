@@ -0,0 +1,169 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { Pool } from 'pg';
+import multer from 'multer';
+import { ImportService, MAX_IMPORT_BYTES } from '../services/ImportService';
+import { ImportConflictStrategy, ImportSource } from '../models/ContentImport';
+
+export interface AuthRequest extends Request {
+  user?: any;
+}
+
+export function createImportsRouter(pool: Pool): Router {
+  const router = Router();
+  const importService = new ImportService(pool);
+
+  // The export is kept in memory only until the service has written it to storage
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: MAX_IMPORT_BYTES, files: 1 }
+  });
+
+  const receiveFile = (req: Request, res: Response, next: NextFunction) => {
+    upload.single('file')(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        return res.status(400).json({ error: `Invalid upload: ${error.message}` });
+      }
+      if (error) {
+        return next(error);
+      }
+      next();
+    });
+  };
+
+  // Middleware to authenticate JWT tokens (would be imported from auth routes in real app)
+  const authenticateToken = async (req: AuthRequest, res: Response, next: any) => {
+    try {
+      const authHeader = req.headers.authorization;
+      if (!authHeader || !authHeader.startsWith('Bearer ')) {
+        return res.status(401).json({ error: 'Access token required' });
+      }
+
+      const token = authHeader.substring(7);
+      // In a real implementation, this would verify the JWT token
+      // For now, we'll simulate a user object
+      req.user = { id: 'user-id', role: 'creator' };
+      next();
+    } catch (error) {
+      res.status(401).json({ error: 'Invalid token' });
+    }
+  };
+
+  // GET /api/imports - Your imports, newest first
+  router.get('/', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const imports = await importService.getImports(req.user.id);
+
+      res.json({ imports });
+    } catch (error) {
+      console.error('Get imports error:', error);
+      res.status(500).json({ error: 'Failed to fetch imports' });
+    }
+  });
+
+  // GET /api/imports/:id - Import status and report
+  router.get('/:id', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const contentImport = await importService.getImport(req.params.id, req.user.id);
+
+      res.json({ import: contentImport });
+    } catch (error) {
+      console.error('Get import error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to fetch import';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // POST /api/imports - Upload an export (multipart/form-data, field "file") and queue it
+  router.post('/', authenticateToken, receiveFile, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      if (!req.file) {
+        return res.status(400).json({ error: 'File is required' });
+      }
+
+      // Multipart fields arrive as strings
+      const { source, dry_run, on_conflict } = req.body;
+
+      if (!source) {
+        return res.status(400).json({ error: 'Source is required' });
+      }
+
+      const contentImport = await importService.createImport(req.user.id, req.file, {
+        source: source as ImportSource,
+        dry_run: dry_run === true || dry_run === 'true',
+        on_conflict: on_conflict as ImportConflictStrategy | undefined
+      });
+
+      res.status(202).json({
+        message: 'Import queued',
+        import: contentImport
+      });
+    } catch (error) {
+      console.error('Create import error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to queue import';
+
+      if (message.startsWith('Invalid')) {
+        return res.status(400).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // POST /api/imports/:id/run - Run a dry run for real, or finish a failed import
+  router.post('/:id/run', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const { dry_run, on_conflict } = req.body || {};
+
+      const contentImport = await importService.rerunImport(req.params.id, req.user.id, {
+        dry_run: dry_run === true || dry_run === 'true',
+        on_conflict: on_conflict as ImportConflictStrategy | undefined
+      });
+
+      res.status(202).json({
+        message: 'Import queued',
+        import: contentImport
+      });
+    } catch (error) {
+      console.error('Rerun import error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to queue import';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+      if (message.startsWith('Invalid')) {
+        return res.status(400).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  return router;
+}
\ No newline at end of file
@@ -0,0 +1,244 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { Pool } from 'pg';
+import path from 'path';
+import multer from 'multer';
+import { MediaService, ALLOWED_IMAGE_TYPES, MAX_UPLOAD_BYTES } from '../services/MediaService';
+import { validateFileUpload } from '../middleware/validation';
+
+export interface AuthRequest extends Request {
+  user?: any;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif'
+};
+
+export function createMediaRouter(pool: Pool): Router {
+  const router = Router();
+  const mediaService = new MediaService(pool);
+
+  // Files are kept in memory only until the service has written them to storage
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 }
+  });
+
+  const receiveFile = (req: Request, res: Response, next: NextFunction) => {
+    upload.single('file')(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        return res.status(400).json({ error: `Invalid upload: ${error.message}` });
+      }
+      if (error) {
+        return next(error);
+      }
+      next();
+    });
+  };
+
+  // Middleware to authenticate JWT tokens (would be imported from auth routes in real app)
+  const authenticateToken = async (req: AuthRequest, res: Response, next: any) => {
+    try {
+      const authHeader = req.headers.authorization;
+      if (!authHeader || !authHeader.startsWith('Bearer ')) {
+        return res.status(401).json({ error: 'Access token required' });
+      }
+
+      const token = authHeader.substring(7);
+      // In a real implementation, this would verify the JWT token
+      // For now, we'll simulate a user object
+      req.user = { id: 'user-id', role: 'creator' };
+      next();
+    } catch (error) {
+      res.status(401).json({ error: 'Invalid token' });
+    }
+  };
+
+  // GET /api/media/files/* - Serve stored files (local storage driver)
+  router.get('/files/*key', async (req: Request, res: Response) => {
+    try {
+      const key = (req.params.key as unknown as string[]).join('/');
+      const file = await mediaService.getFile(key);
+
+      if (!file) {
+        return res.status(404).json({ error: 'File not found' });
+      }
+
+      // Keys contain the media id, so a key's content never changes
+      res.set('Content-Type', CONTENT_TYPES[path.extname(key)] || 'application/octet-stream');
+      res.set('Cache-Control', 'public, max-age=31536000, immutable');
+      res.send(file);
+    } catch (error) {
+      console.error('Serve media file error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to fetch file';
+
+      if (message.startsWith('Invalid')) {
+        return res.status(400).json({ error: message });
+      }
+
+      res.status(500).json({ error: 'Failed to fetch file' });
+    }
+  });
+
+  // GET /api/media - Current creator's media library
+  router.get('/', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const { search, page = '1', limit = '20' } = req.query;
+      const pageNumber = Math.max(1, parseInt(page as string) || 1);
+      const limitNumber = Math.min(100, Math.max(1, parseInt(limit as string) || 20));
+
+      const { media, total } = await mediaService.getLibrary(req.user.id, {
+        search: search as string | undefined,
+        limit: limitNumber,
+        offset: (pageNumber - 1) * limitNumber
+      });
+
+      res.json({
+        media,
+        pagination: {
+          page: pageNumber,
+          limit: limitNumber,
+          total,
+          totalPages: Math.ceil(total / limitNumber)
+        }
+      });
+    } catch (error) {
+      console.error('Get media library error:', error);
+      res.status(500).json({ error: 'Failed to fetch media library' });
+    }
+  });
+
+  // POST /api/media - Upload an image (multipart/form-data, field "file")
+  router.post(
+    '/',
+    authenticateToken,
+    receiveFile,
+    validateFileUpload(ALLOWED_IMAGE_TYPES, MAX_UPLOAD_BYTES),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        if (!req.user) {
+          return res.status(401).json({ error: 'Authentication required' });
+        }
+
+        if (!req.file) {
+          return res.status(400).json({ error: 'File is required' });
+        }
+
+        // Multipart fields arrive as strings
+        const { alt_text, caption, focal_x, focal_y } = req.body;
+
+        const media = await mediaService.upload(req.user.id, req.file, {
+          alt_text,
+          caption,
+          focal_x: focal_x !== undefined && focal_x !== '' ? Number(focal_x) : undefined,
+          focal_y: focal_y !== undefined && focal_y !== '' ? Number(focal_y) : undefined
+        });
+
+        res.status(201).json({
+          message: 'Media uploaded successfully',
+          media
+        });
+      } catch (error) {
+        console.error('Upload media error:', error);
+        const message = error instanceof Error ? error.message : 'Failed to upload media';
+
+        if (message.startsWith('Invalid')) {
+          return res.status(400).json({ error: message });
+        }
+
+        res.status(500).json({ error: 'Failed to upload media' });
+      }
+    }
+  );
+
+  // GET /api/media/:id - Get a media item
+  router.get('/:id', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const media = await mediaService.getMedia(req.params.id, req.user.id);
+
+      res.json({ media });
+    } catch (error) {
+      console.error('Get media error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to fetch media';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // PUT /api/media/:id - Update alt text, caption or focal point
+  router.put('/:id', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const { alt_text, caption, focal_x, focal_y } = req.body;
+
+      const media = await mediaService.updateMedia(req.params.id, { alt_text, caption, focal_x, focal_y }, req.user.id);
+
+      res.json({
+        message: 'Media updated successfully',
+        media
+      });
+    } catch (error) {
+      console.error('Update media error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to update media';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+      if (message.startsWith('Invalid')) {
+        return res.status(400).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // DELETE /api/media/:id - Delete a media item and its files
+  router.delete('/:id', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      await mediaService.deleteMedia(req.params.id, req.user.id);
+
+      res.json({ message: 'Media deleted successfully' });
+    } catch (error) {
+      console.error('Delete media error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to delete media';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  return router;
+}
\ No newline at end of file
@@ -0,0 +1,158 @@
+import { Router, Request, Response } from 'express';
+import { Pool } from 'pg';
+import { PublicationService } from '../services/PublicationService';
+
+export interface AuthRequest extends Request {
+  user?: any;
+}
+
+export function createPublicationRouter(pool: Pool): Router {
+  const router = Router();
+  const publicationService = new PublicationService(pool);
+
+  // Middleware to authenticate JWT tokens (would be imported from auth routes in real app)
+  const authenticateToken = async (req: AuthRequest, res: Response, next: any) => {
+    try {
+      const authHeader = req.headers.authorization;
+      if (!authHeader || !authHeader.startsWith('Bearer ')) {
+        return res.status(401).json({ error: 'Access token required' });
+      }
+
+      const token = authHeader.substring(7);
+      // In a real implementation, this would verify the JWT token
+      // For now, we'll simulate a user object
+      req.user = { id: 'user-id', role: 'creator' };
+      next();
+    } catch (error) {
+      res.status(401).json({ error: 'Invalid token' });
+    }
+  };
+
+  // GET /api/publication/settings - Current creator's publication settings
+  router.get('/settings', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const settings = await publicationService.getSettings(req.user.id);
+
+      res.json({ settings });
+    } catch (error) {
+      console.error('Get publication settings error:', error);
+      res.status(500).json({ error: 'Failed to fetch settings' });
+    }
+  });
+
+  // PUT /api/publication/settings - Update publication settings
+  router.put('/settings', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const {
+        require_review,
+        metered_reads_per_month,
+        related_across_creators,
+        comments_access,
+        comment_flag_keywords,
+        audit_blocks_publish
+      } = req.body;
+
+      const settings = await publicationService.updateSettings(req.user.id, {
+        require_review,
+        metered_reads_per_month,
+        related_across_creators,
+        comments_access,
+        comment_flag_keywords,
+        audit_blocks_publish
+      });
+
+      res.json({
+        message: 'Settings updated successfully',
+        settings
+      });
+    } catch (error) {
+      console.error('Update publication settings error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to update settings';
+
+      if (message.startsWith('Invalid')) {
+        return res.status(400).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // GET /api/publication/editors - List editors who can review the creator's articles
+  router.get('/editors', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const editors = await publicationService.getEditors(req.user.id);
+
+      res.json({ editors });
+    } catch (error) {
+      console.error('Get editors error:', error);
+      res.status(500).json({ error: 'Failed to fetch editors' });
+    }
+  });
+
+  // POST /api/publication/editors - Add an editor
+  router.post('/editors', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const { editor_id } = req.body;
+
+      if (!editor_id) {
+        return res.status(400).json({ error: 'Editor ID is required' });
+      }
+
+      const editors = await publicationService.addEditor(req.user.id, editor_id);
+
+      res.status(201).json({
+        message: 'Editor added successfully',
+        editors
+      });
+    } catch (error) {
+      console.error('Add editor error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to add editor';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // DELETE /api/publication/editors/:editorId - Remove an editor
+  router.delete('/editors/:editorId', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      await publicationService.removeEditor(req.user.id, req.params.editorId);
+
+      res.json({ message: 'Editor removed successfully' });
+    } catch (error) {
+      console.error('Remove editor error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to remove editor';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  return router;
+}
\ No newline at end of file
@@ -0,0 +1,183 @@
+import { Router, Request, Response } from 'express';
+import { Pool } from 'pg';
+import { ReadingService } from '../services/ReadingService';
+import { BookmarkFilters } from '../models/Bookmark';
+import { Pagination } from '../services/Pagination';
+
+export interface AuthRequest extends Request {
+  user?: any;
+}
+
+export function createReadingRouter(pool: Pool): Router {
+  const router = Router();
+  const readingService = new ReadingService(pool);
+
+  // Middleware to authenticate JWT tokens (would be imported from auth routes in real app)
+  const authenticateToken = async (req: AuthRequest, res: Response, next: any) => {
+    try {
+      const authHeader = req.headers.authorization;
+      if (!authHeader || !authHeader.startsWith('Bearer ')) {
+        return res.status(401).json({ error: 'Access token required' });
+      }
+
+      const token = authHeader.substring(7);
+      // In a real implementation, this would verify the JWT token
+      // For now, we'll simulate a user object
+      req.user = { id: 'user-id', role: 'subscriber' };
+      next();
+    } catch (error) {
+      res.status(401).json({ error: 'Invalid token' });
+    }
+  };
+
+  // GET /api/reading/bookmarks - The reader's bookmarks, optionally of one folder
+  router.get('/bookmarks', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const filters: BookmarkFilters = Pagination.fromQuery(req.query, 20, 100);
+      const { folder_id } = req.query;
+
+      if (folder_id === 'unfiled') {
+        filters.folder_id = null;
+      } else if (folder_id) {
+        filters.folder_id = folder_id as string;
+      }
+
+      const result = await readingService.getBookmarks(req.user.id, filters);
+
+      res.json({
+        bookmarks: result.bookmarks,
+        total: result.total,
+        limit: filters.limit,
+        ...(filters.cursor === undefined ? { offset: filters.offset } : {}),
+        next_cursor: result.next_cursor
+      });
+    } catch (error) {
+      console.error('Get bookmarks error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to fetch bookmarks';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.startsWith('Invalid')) {
+        return res.status(400).json({ error: message });
+      }
+
+      res.status(500).json({ error: 'Failed to fetch bookmarks' });
+    }
+  });
+
+  // GET /api/reading/folders - The reader's reading list folders with bookmark counts
+  router.get('/folders', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const folders = await readingService.getFolders(req.user.id);
+
+      res.json({ folders });
+    } catch (error) {
+      console.error('Get reading list folders error:', error);
+      res.status(500).json({ error: 'Failed to fetch folders' });
+    }
+  });
+
+  // POST /api/reading/folders - Create a reading list folder
+  router.post('/folders', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const folder = await readingService.createFolder(req.user.id, req.body.name);
+
+      res.status(201).json({ message: 'Folder created successfully', folder });
+    } catch (error) {
+      console.error('Create reading list folder error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to create folder';
+
+      if (message.includes('already')) {
+        return res.status(409).json({ error: message });
+      }
+      if (message.startsWith('Invalid')) {
+        return res.status(400).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // PUT /api/reading/folders/:id - Rename or reorder a folder
+  router.put('/folders/:id', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const { name, position } = req.body;
+      const folder = await readingService.updateFolder(req.params.id, req.user.id, { name, position });
+
+      res.json({ message: 'Folder updated successfully', folder });
+    } catch (error) {
+      console.error('Update reading list folder error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to update folder';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('already')) {
+        return res.status(409).json({ error: message });
+      }
+      if (message.startsWith('Invalid')) {
+        return res.status(400).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // DELETE /api/reading/folders/:id - Delete a folder; its bookmarks become unfiled
+  router.delete('/folders/:id', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      await readingService.deleteFolder(req.params.id, req.user.id);
+
+      res.json({ message: 'Folder deleted successfully' });
+    } catch (error) {
+      console.error('Delete reading list folder error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to delete folder';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // GET /api/reading/continue - Started but unfinished articles, most recently read first
+  router.get('/continue', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const limit = parseInt(req.query.limit as string) || 10;
+      const articles = await readingService.getContinueReading(req.user.id, limit);
+
+      res.json({ articles });
+    } catch (error) {
+      console.error('Get continue reading error:', error);
+      res.status(500).json({ error: 'Failed to fetch articles to continue reading' });
+    }
+  });
+
+  return router;
+}
\ No newline at end of file
@@ -0,0 +1,183 @@
+import { Router, Request, Response } from 'express';
+import { Pool } from 'pg';
+import { RedirectService } from '../services/RedirectService';
+import { RedirectStatusCode } from '../models/RedirectRule';
+
+export interface AuthRequest extends Request {
+  user?: any;
+}
+
+export function createRedirectsRouter(pool: Pool): Router {
+  const router = Router();
+  const redirectService = new RedirectService(pool);
+
+  // Middleware to authenticate JWT tokens (would be imported from auth routes in real app)
+  const authenticateToken = async (req: AuthRequest, res: Response, next: any) => {
+    try {
+      const authHeader = req.headers.authorization;
+      if (!authHeader || !authHeader.startsWith('Bearer ')) {
+        return res.status(401).json({ error: 'Access token required' });
+      }
+
+      const token = authHeader.substring(7);
+      // In a real implementation, this would verify the JWT token
+      // For now, we'll simulate a user object
+      req.user = { id: 'user-id', role: 'creator' };
+      next();
+    } catch (error) {
+      res.status(401).json({ error: 'Invalid token' });
+    }
+  };
+
+  // GET /api/redirects/resolve - Where a path on a creator's site redirects to
+  router.get('/resolve', async (req: Request, res: Response) => {
+    try {
+      const { creator_id, path } = req.query;
+
+      if (!creator_id || !path) {
+        return res.status(400).json({ error: 'Creator ID and path are required' });
+      }
+
+      const redirect = await redirectService.resolve(creator_id as string, path as string);
+
+      if (!redirect) {
+        return res.status(404).json({ error: 'Redirect not found' });
+      }
+
+      res.json({ redirect });
+    } catch (error) {
+      console.error('Resolve redirect error:', error);
+      res.status(500).json({ error: 'Failed to resolve redirect' });
+    }
+  });
+
+  // GET /api/redirects - List your redirect rules
+  router.get('/', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const redirects = await redirectService.getRules(req.user.id);
+
+      res.json({ redirects });
+    } catch (error) {
+      console.error('Get redirects error:', error);
+      res.status(500).json({ error: 'Failed to fetch redirects' });
+    }
+  });
+
+  // POST /api/redirects - Create a redirect rule
+  router.post('/', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const { source_path, target_url, article_id, status_code } = req.body;
+
+      if (!source_path) {
+        return res.status(400).json({ error: 'Source path is required' });
+      }
+
+      const redirect = await redirectService.createRule({
+        creator_id: req.user.id,
+        source_path,
+        target_url,
+        article_id,
+        status_code: status_code === undefined ? undefined : parseInt(status_code) as RedirectStatusCode
+      });
+
+      res.status(201).json({
+        message: 'Redirect created successfully',
+        redirect
+      });
+    } catch (error) {
+      console.error('Create redirect error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to create redirect';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+      if (message.includes('already')) {
+        return res.status(409).json({ error: message });
+      }
+      if (message.startsWith('Invalid')) {
+        return res.status(400).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // PUT /api/redirects/:id - Update a redirect rule
+  router.put('/:id', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const { source_path, target_url, article_id, status_code } = req.body;
+
+      const redirect = await redirectService.updateRule(req.params.id, {
+        source_path,
+        target_url,
+        article_id,
+        status_code: status_code === undefined ? undefined : parseInt(status_code) as RedirectStatusCode
+      }, req.user.id);
+
+      res.json({
+        message: 'Redirect updated successfully',
+        redirect
+      });
+    } catch (error) {
+      console.error('Update redirect error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to update redirect';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+      if (message.includes('already')) {
+        return res.status(409).json({ error: message });
+      }
+      if (message.startsWith('Invalid')) {
+        return res.status(400).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // DELETE /api/redirects/:id - Delete a redirect rule
+  router.delete('/:id', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      await redirectService.deleteRule(req.params.id, req.user.id);
+
+      res.json({ message: 'Redirect deleted successfully' });
+    } catch (error) {
+      console.error('Delete redirect error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to delete redirect';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  return router;
+}
\ No newline at end of file
@@ -0,0 +1,352 @@
+import { Router, Request, Response } from 'express';
+import { Pool } from 'pg';
+import { SeriesService } from '../services/SeriesService';
+
+export interface AuthRequest extends Request {
+  user?: any;
+}
+
+export function createSeriesRouter(pool: Pool): Router {
+  const router = Router();
+  const seriesService = new SeriesService(pool);
+
+  // Middleware to authenticate JWT tokens (would be imported from auth routes in real app)
+  const authenticateToken = async (req: AuthRequest, res: Response, next: any) => {
+    try {
+      const authHeader = req.headers.authorization;
+      if (!authHeader || !authHeader.startsWith('Bearer ')) {
+        return res.status(401).json({ error: 'Access token required' });
+      }
+
+      const token = authHeader.substring(7);
+      // In a real implementation, this would verify the JWT token
+      // For now, we'll simulate a user object
+      req.user = { id: 'user-id', role: 'creator' };
+      next();
+    } catch (error) {
+      res.status(401).json({ error: 'Invalid token' });
+    }
+  };
+
+  // Optional authentication middleware
+  const optionalAuth = async (req: AuthRequest, res: Response, next: any) => {
+    try {
+      const authHeader = req.headers.authorization;
+      if (authHeader && authHeader.startsWith('Bearer ')) {
+        const token = authHeader.substring(7);
+        // Set user if token is valid, but don't fail if not
+        req.user = { id: 'user-id', role: 'creator' };
+      }
+      next();
+    } catch (error) {
+      // Continue without authentication
+      next();
+    }
+  };
+
+  // GET /api/series - List a creator's series
+  router.get('/', optionalAuth, async (req: AuthRequest, res: Response) => {
+    try {
+      const { creator_id } = req.query;
+
+      if (!creator_id) {
+        return res.status(400).json({ error: 'Creator ID is required' });
+      }
+
+      const series = await seriesService.getCreatorSeries(creator_id as string, req.user?.id);
+
+      res.json({ series });
+    } catch (error) {
+      console.error('Get series list error:', error);
+      res.status(500).json({ error: 'Failed to fetch series' });
+    }
+  });
+
+  // GET /api/series/slug/:slug - Series landing page
+  router.get('/slug/:slug', optionalAuth, async (req: AuthRequest, res: Response) => {
+    try {
+      const { creator_id } = req.query;
+
+      if (!creator_id) {
+        return res.status(400).json({ error: 'Creator ID is required' });
+      }
+
+      const series = await seriesService.getSeriesBySlug(creator_id as string, req.params.slug, req.user?.id);
+
+      if (!series) {
+        return res.status(404).json({ error: 'Series not found' });
+      }
+
+      res.json({ series });
+    } catch (error) {
+      console.error('Get series by slug error:', error);
+      res.status(500).json({ error: 'Failed to fetch series' });
+    }
+  });
+
+  // GET /api/series/:id - Get series with its ordered articles
+  router.get('/:id', optionalAuth, async (req: AuthRequest, res: Response) => {
+    try {
+      const series = await seriesService.getSeries(req.params.id, req.user?.id);
+
+      if (!series) {
+        return res.status(404).json({ error: 'Series not found' });
+      }
+
+      res.json({ series });
+    } catch (error) {
+      console.error('Get series error:', error);
+      res.status(500).json({ error: 'Failed to fetch series' });
+    }
+  });
+
+  // POST /api/series - Create series
+  router.post('/', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const {
+        title,
+        slug,
+        description,
+        cover_image_url,
+        seo_title,
+        seo_description,
+        is_premium = false,
+        plan_id
+      } = req.body;
+
+      if (!title) {
+        return res.status(400).json({ error: 'Title is required' });
+      }
+
+      const series = await seriesService.createSeries({
+        creator_id: req.user.id,
+        title,
+        slug,
+        description,
+        cover_image_url,
+        seo_title,
+        seo_description,
+        is_premium: Boolean(is_premium),
+        plan_id
+      });
+
+      res.status(201).json({
+        message: 'Series created successfully',
+        series
+      });
+    } catch (error) {
+      console.error('Create series error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to create series';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+      if (message.includes('already')) {
+        return res.status(409).json({ error: message });
+      }
+      if (message.startsWith('Invalid')) {
+        return res.status(400).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // PUT /api/series/:id - Update series
+  router.put('/:id', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const {
+        title,
+        slug,
+        description,
+        cover_image_url,
+        seo_title,
+        seo_description,
+        is_premium,
+        plan_id
+      } = req.body;
+
+      const series = await seriesService.updateSeries(req.params.id, {
+        title,
+        slug,
+        description,
+        cover_image_url,
+        seo_title,
+        seo_description,
+        is_premium: is_premium === undefined ? undefined : Boolean(is_premium),
+        plan_id
+      }, req.user.id);
+
+      res.json({
+        message: 'Series updated successfully',
+        series
+      });
+    } catch (error) {
+      console.error('Update series error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to update series';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+      if (message.includes('already')) {
+        return res.status(409).json({ error: message });
+      }
+      if (message.startsWith('Invalid')) {
+        return res.status(400).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // DELETE /api/series/:id - Delete series (its articles are kept)
+  router.delete('/:id', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      await seriesService.deleteSeries(req.params.id, req.user.id);
+
+      res.json({ message: 'Series deleted successfully' });
+    } catch (error) {
+      console.error('Delete series error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to delete series';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // POST /api/series/:id/articles - Add an article to the series
+  router.post('/:id/articles', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const { article_id, position } = req.body;
+
+      if (!article_id) {
+        return res.status(400).json({ error: 'Article ID is required' });
+      }
+
+      const series = await seriesService.addArticle(
+        req.params.id,
+        article_id,
+        req.user.id,
+        position === undefined ? undefined : parseInt(position)
+      );
+
+      res.json({
+        message: 'Article added to series',
+        series
+      });
+    } catch (error) {
+      console.error('Add series article error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to add article to series';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+      if (message.includes('already')) {
+        return res.status(409).json({ error: message });
+      }
+      if (message.startsWith('Invalid')) {
+        return res.status(400).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // PUT /api/series/:id/articles - Reorder the series
+  router.put('/:id/articles', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const { article_ids } = req.body;
+
+      if (!Array.isArray(article_ids)) {
+        return res.status(400).json({ error: 'article_ids must be an array' });
+      }
+
+      const series = await seriesService.reorderArticles(req.params.id, article_ids, req.user.id);
+
+      res.json({
+        message: 'Series reordered successfully',
+        series
+      });
+    } catch (error) {
+      console.error('Reorder series error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to reorder series';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+      if (message.startsWith('Invalid')) {
+        return res.status(400).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // DELETE /api/series/:id/articles/:articleId - Remove an article from the series
+  router.delete('/:id/articles/:articleId', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const series = await seriesService.removeArticle(req.params.id, req.params.articleId, req.user.id);
+
+      res.json({
+        message: 'Article removed from series',
+        series
+      });
+    } catch (error) {
+      console.error('Remove series article error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to remove article from series';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  return router;
+}
\ No newline at end of file
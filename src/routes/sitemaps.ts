@@ -0,0 +1,60 @@
+import { Router, Request, Response } from 'express';
+import { Pool } from 'pg';
+import { SitemapService } from '../services/SitemapService';
+
+const SITEMAP_CACHE_SECONDS = 3600;
+
+export function createSitemapsRouter(pool: Pool): Router {
+  const router = Router();
+  const sitemapService = new SitemapService(pool);
+
+  // GET /sitemaps/:creator/sitemap.xml - Creator sitemap, or a sitemap index past 50,000 URLs
+  router.get('/:creator/sitemap.xml', async (req: Request, res: Response) => {
+    try {
+      const xml = await sitemapService.buildCreatorSitemap(req.params.creator);
+
+      res.set({
+        'Content-Type': 'application/xml; charset=utf-8',
+        'Cache-Control': `public, max-age=${SITEMAP_CACHE_SECONDS}`
+      });
+      res.send(xml);
+    } catch (error) {
+      console.error('Get sitemap error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to build sitemap';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+
+      res.status(500).json({ error: 'Failed to build sitemap' });
+    }
+  });
+
+  // GET /sitemaps/:creator/sitemap-:page.xml - One page of a creator's sitemap index
+  router.get('/:creator/sitemap-:page.xml', async (req: Request, res: Response) => {
+    try {
+      const page = Number(req.params.page);
+      const xml = await sitemapService.buildCreatorSitemapPage(req.params.creator, page);
+
+      res.set({
+        'Content-Type': 'application/xml; charset=utf-8',
+        'Cache-Control': `public, max-age=${SITEMAP_CACHE_SECONDS}`
+      });
+      res.send(xml);
+    } catch (error) {
+      console.error('Get sitemap page error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to build sitemap';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.startsWith('Invalid')) {
+        return res.status(400).json({ error: message });
+      }
+
+      res.status(500).json({ error: 'Failed to build sitemap' });
+    }
+  });
+
+  return router;
+}
\ No newline at end of file
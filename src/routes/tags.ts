@@ -0,0 +1,321 @@
+import { Router, Request, Response } from 'express';
+import { Pool } from 'pg';
+import { TagService } from '../services/TagService';
+
+export interface AuthRequest extends Request {
+  user?: any;
+}
+
+export function createTagsRouter(pool: Pool): Router {
+  const router = Router();
+  const tagService = new TagService(pool);
+
+  // Middleware to authenticate JWT tokens (would be imported from auth routes in real app)
+  const authenticateToken = async (req: AuthRequest, res: Response, next: any) => {
+    try {
+      const authHeader = req.headers.authorization;
+      if (!authHeader || !authHeader.startsWith('Bearer ')) {
+        return res.status(401).json({ error: 'Access token required' });
+      }
+
+      const token = authHeader.substring(7);
+      // In a real implementation, this would verify the JWT token
+      // For now, we'll simulate a user object
+      req.user = { id: 'user-id', role: 'creator' };
+      next();
+    } catch (error) {
+      res.status(401).json({ error: 'Invalid token' });
+    }
+  };
+
+  // Optional authentication middleware
+  const optionalAuth = async (req: AuthRequest, res: Response, next: any) => {
+    try {
+      const authHeader = req.headers.authorization;
+      if (authHeader && authHeader.startsWith('Bearer ')) {
+        const token = authHeader.substring(7);
+        // Set user if token is valid, but don't fail if not
+        req.user = { id: 'user-id', role: 'creator' };
+      }
+      next();
+    } catch (error) {
+      // Continue without authentication
+      next();
+    }
+  };
+
+  // GET /api/tags - List a creator's tags with article counts
+  router.get('/', optionalAuth, async (req: AuthRequest, res: Response) => {
+    try {
+      const { creator_id } = req.query;
+
+      if (!creator_id) {
+        return res.status(400).json({ error: 'Creator ID is required' });
+      }
+
+      const tags = await tagService.getCreatorTags(creator_id as string, req.user?.id);
+
+      res.json({ tags });
+    } catch (error) {
+      console.error('Get tags error:', error);
+      res.status(500).json({ error: 'Failed to fetch tags' });
+    }
+  });
+
+  // GET /api/tags/slug/:slug - Tag landing page; synonyms redirect to the canonical slug
+  router.get('/slug/:slug', async (req: Request, res: Response) => {
+    try {
+      const { creator_id, page = '1', limit = '20' } = req.query;
+
+      if (!creator_id) {
+        return res.status(400).json({ error: 'Creator ID is required' });
+      }
+
+      const pageNumber = Math.max(1, parseInt(page as string) || 1);
+      const limitNumber = Math.min(100, Math.max(1, parseInt(limit as string) || 20));
+
+      const landing = await tagService.getTagLanding(
+        creator_id as string,
+        req.params.slug,
+        limitNumber,
+        (pageNumber - 1) * limitNumber
+      );
+
+      if (!landing) {
+        return res.status(404).json({ error: 'Tag not found' });
+      }
+
+      if ('redirect_slug' in landing) {
+        const query = new URLSearchParams({ creator_id: creator_id as string });
+        if (pageNumber > 1) query.set('page', String(pageNumber));
+        return res.redirect(301, `${req.baseUrl}/slug/${encodeURIComponent(landing.redirect_slug)}?${query}`);
+      }
+
+      res.json({
+        ...landing,
+        pagination: {
+          page: pageNumber,
+          limit: limitNumber,
+          total: landing.total,
+          pages: Math.ceil(landing.total / limitNumber)
+        }
+      });
+    } catch (error) {
+      console.error('Get tag landing error:', error);
+      res.status(500).json({ error: 'Failed to fetch tag' });
+    }
+  });
+
+  // POST /api/tags - Register a tag
+  router.post('/', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const { name, description, seo_title, seo_description } = req.body;
+
+      if (!name) {
+        return res.status(400).json({ error: 'Name is required' });
+      }
+
+      const tag = await tagService.createTag({
+        creator_id: req.user.id,
+        name,
+        description,
+        seo_title,
+        seo_description
+      });
+
+      res.status(201).json({
+        message: 'Tag created successfully',
+        tag
+      });
+    } catch (error) {
+      console.error('Create tag error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to create tag';
+
+      if (message.includes('already')) {
+        return res.status(409).json({ error: message });
+      }
+      if (message.startsWith('Invalid')) {
+        return res.status(400).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // PUT /api/tags/:id - Update a tag; renaming retags its articles
+  router.put('/:id', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const { name, description, seo_title, seo_description } = req.body;
+
+      const tag = await tagService.updateTag(req.params.id, {
+        name,
+        description,
+        seo_title,
+        seo_description
+      }, req.user.id);
+
+      res.json({
+        message: 'Tag updated successfully',
+        tag
+      });
+    } catch (error) {
+      console.error('Update tag error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to update tag';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+      if (message.includes('already')) {
+        return res.status(409).json({ error: message });
+      }
+      if (message.startsWith('Invalid')) {
+        return res.status(400).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // DELETE /api/tags/:id - Delete a tag and remove it from its articles
+  router.delete('/:id', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      await tagService.deleteTag(req.params.id, req.user.id);
+
+      res.json({ message: 'Tag deleted successfully' });
+    } catch (error) {
+      console.error('Delete tag error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to delete tag';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // POST /api/tags/:id/synonyms - Map another spelling to the tag
+  router.post('/:id/synonyms', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const { name } = req.body;
+
+      if (!name) {
+        return res.status(400).json({ error: 'Name is required' });
+      }
+
+      const synonyms = await tagService.addSynonym(req.params.id, name, req.user.id);
+
+      res.status(201).json({
+        message: 'Synonym added successfully',
+        synonyms
+      });
+    } catch (error) {
+      console.error('Add tag synonym error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to add synonym';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+      if (message.includes('already')) {
+        return res.status(409).json({ error: message });
+      }
+      if (message.startsWith('Invalid')) {
+        return res.status(400).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // DELETE /api/tags/:id/synonyms/:synonym - Remove a synonym by name or slug
+  router.delete('/:id/synonyms/:synonym', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const synonyms = await tagService.removeSynonym(req.params.id, req.params.synonym, req.user.id);
+
+      res.json({
+        message: 'Synonym removed successfully',
+        synonyms
+      });
+    } catch (error) {
+      console.error('Remove tag synonym error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to remove synonym';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // POST /api/tags/:id/merge - Fold other tags into this one and retag their articles
+  router.post('/:id/merge', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const { source_ids } = req.body;
+
+      if (!Array.isArray(source_ids)) {
+        return res.status(400).json({ error: 'source_ids must be an array' });
+      }
+
+      const result = await tagService.mergeTags(req.params.id, source_ids, req.user.id);
+
+      res.json({
+        message: 'Tags merged successfully',
+        ...result
+      });
+    } catch (error) {
+      console.error('Merge tags error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to merge tags';
+
+      if (message.includes('not found')) {
+        return res.status(404).json({ error: message });
+      }
+      if (message.includes('Unauthorized')) {
+        return res.status(403).json({ error: message });
+      }
+      if (message.startsWith('Invalid')) {
+        return res.status(400).json({ error: message });
+      }
+
+      res.status(500).json({ error: message });
+    }
+  });
+
+  return router;
+}
\ No newline at end of file
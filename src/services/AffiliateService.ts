@@ -1,6 +1,7 @@
 import { Pool } from 'pg';
 import { AffiliateLink, AffiliateLinkData, CreateAffiliateLinkData, UpdateAffiliateLinkData, AffiliateLinkPerformance, AffiliateLinkFilters } from '../models/AffiliateLink';
-import { AffiliateLinkStats, AffiliateLinkStatsData, CreateAffiliateLinkStatsData, ClickAnalytics, TimeSeriesData } from '../models/AffiliateLinkStats';
+import { AffiliateLinkStats, AffiliateLinkStatsData, AffiliateLinkStatsSortField, CreateAffiliateLinkStatsData, ClickAnalytics, TimeSeriesData } from '../models/AffiliateLinkStats';
+import { PageOptions } from './Pagination';
 
 export interface CreateLinkRequest {
   name: string;
@@ -175,7 +176,10 @@ export class AffiliateService {
     return link;
   }
 
-  async getLinks(creatorId: string, filters: AffiliateLinkFilters = {}): Promise<{ links: AffiliateLinkData[]; total: number }> {
+  async getLinks(
+    creatorId: string,
+    filters: AffiliateLinkFilters = {}
+  ): Promise<{ links: AffiliateLinkData[]; total: number; next_cursor: string | null }> {
     const searchFilters = {
       ...filters,
       creator_id: creatorId
@@ -574,7 +578,11 @@ export class AffiliateService {
     return this.affiliateLink.buildTrackedUrl(url, link.tracking_code!);
   }
 
-  async getClickHistory(linkId: string, creatorId?: string, limit = 50): Promise<AffiliateLinkStatsData[]> {
+  async getClickHistory(
+    linkId: string,
+    creatorId?: string,
+    options: PageOptions<AffiliateLinkStatsSortField> = { limit: 50 }
+  ): Promise<{ clicks: AffiliateLinkStatsData[]; total: number; next_cursor: string | null }> {
     // Verify access
     const link = await this.affiliateLink.findById(linkId);
     if (!link) {
@@ -585,12 +593,12 @@ export class AffiliateService {
       throw new Error('Unauthorized: You can only view click history for your own affiliate links');
     }
 
-    const { stats } = await this.affiliateLinkStats.findMany({
-      link_id: linkId,
-      limit
+    const { stats, total, next_cursor } = await this.affiliateLinkStats.findMany({
+      ...options,
+      link_id: linkId
     });
 
-    return stats;
+    return { clicks: stats, total, next_cursor };
   }
 
   async exportAnalytics(creatorId: string, format: 'json' | 'csv' = 'json', days = 30): Promise<any> {
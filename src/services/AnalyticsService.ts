@@ -69,6 +69,9 @@ export interface EngagementAnalytics {
   totalNewsletterSignups: number;
   totalAffiliateClicks: number;
   engagementRate: number;
+  // From the reading progress of signed-in readers, in percent
+  averageCompletion: number;
+  completionRate: number;
   topSocialPlatforms: Array<{
     platform: string;
     shares: number;
@@ -293,6 +296,8 @@ export class AnalyticsService {
       totalNewsletterSignups: aggregatedMetrics.total_newsletter_signups,
       totalAffiliateClicks: aggregatedMetrics.total_affiliate_clicks,
       engagementRate,
+      averageCompletion: aggregatedMetrics.avg_completion,
+      completionRate: aggregatedMetrics.completion_rate,
       topSocialPlatforms,
       conversionFunnel
     };
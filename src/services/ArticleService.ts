@@ -1,5 +1,30 @@
 import { Pool } from 'pg';
-import { Article, ArticleData, CreateArticleData, UpdateArticleData, ArticleFilters } from '../models/Article';
+import { Article, ArticleData, CreateArticleData, UpdateArticleData, ArticleFilters, SearchFacets, RenderedArticleFields, ImportedArticleFields, TranslationFields, DEFAULT_LOCALE } from '../models/Article';
+import { ArticleRevision, CreateRevisionOptions } from '../models/ArticleRevision';
+import { ArticleDeliveryData } from '../models/ArticleDelivery';
+import { DeliveryService } from './DeliveryService';
+import { ContentRenderer, ContentFormat, RenderedContent } from './ContentRenderer';
+import { CitationStyle } from './CitationFormatter';
+import { BibliographyEntry } from '../models/BibliographyEntry';
+import { ArticleAuthor, BylineAuthor } from '../models/ArticleAuthor';
+import { ArticleReview } from '../models/ArticleReview';
+import { CreatorSettings, CreatorSettingsData } from '../models/CreatorSettings';
+import { PublicationEditor } from '../models/PublicationEditor';
+import { User } from '../models/User';
+import { StructuredData, JsonLd } from './StructuredData';
+import { MediaService } from './MediaService';
+import { RelatedArticlesService, RelatedArticle } from './RelatedArticlesService';
+import { DuplicateContentService, DuplicateMatch, PUBLISH_WARNING_THRESHOLD } from './DuplicateContentService';
+import { ContentAuditService, ContentAudit } from './ContentAuditService';
+import { TagService } from './TagService';
+import { ExpiryService } from './ExpiryService';
+import { Media } from '../models/Media';
+
+// One <link rel="alternate" hreflang="..."> tag; "x-default" marks the original article
+export interface HreflangAlternate {
+  hreflang: string;
+  href: string;
+}
 
 export interface SEOData {
   title: string;
@@ -8,12 +33,28 @@ export interface SEOData {
   ogTitle?: string;
   ogDescription?: string;
   ogImage?: string;
+  jsonLd?: JsonLd;
+  alternates?: HreflangAlternate[];
+  // Robots meta directives for pages that must stay out of search results, e.g. draft previews
+  robots?: string;
 }
 
 export interface ArticleWithSEO extends ArticleData {
   seo: SEOData;
+  // Shown above an article that expired with the banner action
+  expiry_notice?: string;
+  authors?: BylineAuthor[];
+  deliveries?: ArticleDeliveryData[];
+  // Existing articles the body overlaps heavily with, returned when publishing
+  duplicate_warnings?: DuplicateMatch[];
 }
 
+// Previews without a paywall break leave out the stored source, which may be blocks JSON or markdown
+export type ArticlePreview<T extends ArticleData = ArticleWithSEO> = Omit<T, 'content'> & {
+  content?: string;
+  is_preview: true;
+};
+
 export interface PublishOptions {
   scheduledAt?: Date;
   notify_subscribers?: boolean;
@@ -21,30 +62,63 @@ export interface PublishOptions {
 }
 
 export interface ArticleSearchOptions extends ArticleFilters {
-  sortBy?: 'created_at' | 'published_at' | 'title' | 'reading_time';
-  sortOrder?: 'asc' | 'desc';
   includeAnalytics?: boolean;
 }
 
-export interface RelatedArticle {
-  id: string;
-  title: string;
-  excerpt: string;
-  slug: string;
-  reading_time: number;
-  published_at: Date;
+export interface ArticleSearchResult extends ArticleWithSEO {
+  rank: number;
+  highlights: {
+    title: string;
+    snippet: string;
+  };
 }
 
 export class ArticleService {
   private article: Article;
+  private revision: ArticleRevision;
+  private deliveries: DeliveryService;
+  private renderer: ContentRenderer;
+  private bibliography: BibliographyEntry;
+  private authors: ArticleAuthor;
+  private reviews: ArticleReview;
+  private settings: CreatorSettings;
+  private editors: PublicationEditor;
+  private user: User;
+  private media: MediaService;
+  private related: RelatedArticlesService;
+  private duplicates: DuplicateContentService;
+  private audits: ContentAuditService;
+  private tags: TagService;
   private pool: Pool;
 
   constructor(pool: Pool) {
     this.pool = pool;
     this.article = new Article(pool);
+    this.revision = new ArticleRevision(pool);
+    this.deliveries = new DeliveryService(pool);
+    this.renderer = new ContentRenderer();
+    this.bibliography = new BibliographyEntry(pool);
+    this.authors = new ArticleAuthor(pool);
+    this.reviews = new ArticleReview(pool);
+    this.settings = new CreatorSettings(pool);
+    this.editors = new PublicationEditor(pool);
+    this.user = new User(pool);
+    this.media = new MediaService(pool);
+    this.related = new RelatedArticlesService(pool);
+    this.duplicates = new DuplicateContentService(pool);
+    this.audits = new ContentAuditService(pool);
+    this.tags = new TagService(pool);
   }
 
-  async createArticle(articleData: CreateArticleData): Promise<ArticleWithSEO> {
+  /**
+   * Creates a draft. Imports pass the slug, status and dates the article had on its
+   * previous platform; imported articles are never delivered to subscribers. Translations
+   * pass their slug and translation group.
+   */
+  async createArticle(
+    articleData: CreateArticleData,
+    fields?: Partial<ImportedArticleFields & TranslationFields>
+  ): Promise<ArticleWithSEO> {
     // Validate input data
     if (!Article.validateTitle(articleData.title)) {
       throw new Error('Invalid title: must be 1-200 characters');
@@ -54,6 +128,14 @@ export class ArticleService {
       throw new Error('Invalid content: must be 1-100,000 characters');
     }
 
+    if (articleData.content_format && !Article.validateContentFormat(articleData.content_format)) {
+      throw new Error('Invalid content format: must be markdown, blocks or html');
+    }
+
+    if (articleData.citation_style && !Article.validateCitationStyle(articleData.citation_style)) {
+      throw new Error('Invalid citation style: must be apa, chicago or ieee');
+    }
+
     if (articleData.tags && !Article.validateTags(articleData.tags)) {
       throw new Error('Invalid tags: maximum 10 tags, each 1-50 characters');
     }
@@ -62,29 +144,69 @@ export class ArticleService {
       throw new Error('Invalid SEO description: maximum 300 characters');
     }
 
+    if (articleData.locale !== undefined) {
+      articleData = { ...articleData, locale: ArticleService.requireLocale(articleData.locale) };
+    }
+
+    ArticleService.validateExpiry(articleData);
+
+    // Tags are stored under the creator's canonical names
+    if (articleData.tags) {
+      articleData = { ...articleData, tags: await this.tags.resolveTags(articleData.author_id, articleData.tags) };
+    }
+
+    // Featured images come from the creator's media library; the URL is copied for feeds and SEO tags
+    if (articleData.featured_image_id) {
+      const image = await this.media.getImageForCreator(articleData.featured_image_id, articleData.author_id);
+      articleData = { ...articleData, featured_image_url: Media.displayUrl(image) };
+    }
+
+    const contentFormat = articleData.content_format || 'markdown';
+    const rendered = this.renderer.render(articleData.content, contentFormat, { citationStyle: articleData.citation_style });
+
     // Auto-generate SEO data if not provided
-    const seoData = this.generateSEOData(articleData);
+    const seoData = this.generateSEOData({ ...articleData, content: rendered.text });
     const articleWithSEO = {
       ...articleData,
+      ...this.toRenderedFields(rendered),
+      content_format: contentFormat,
       seo_title: articleData.seo_title || seoData.title,
       seo_description: articleData.seo_description || seoData.description,
-      excerpt: articleData.excerpt || this.generateExcerpt(articleData.content)
+      excerpt: articleData.excerpt || this.generateExcerpt(rendered.text)
     };
 
     // Create article
-    const newArticle = await this.article.create(articleWithSEO);
+    const newArticle = await this.article.create({ ...articleWithSEO, ...fields });
+
+    // Record the initial state so the first edit can always be rolled back
+    await this.revision.create(newArticle, { reason: 'create', created_by: articleData.author_id });
+
+    // The owner starts out as the only name on the byline
+    await this.authors.setAuthors(newArticle.id!, [articleData.author_id]);
+
+    // Drafts and imports are fingerprinted too, so a second import of the same archive shows up
+    await this.fingerprint(newArticle);
+
+    if (newArticle.status === 'published') {
+      await this.indexRelated(newArticle);
+    }
 
     return this.enrichWithSEO(newArticle);
   }
 
-  async updateArticle(id: string, updateData: UpdateArticleData, authorId?: string): Promise<ArticleWithSEO> {
+  async updateArticle(
+    id: string,
+    updateData: UpdateArticleData,
+    authorId?: string,
+    revisionOptions: Partial<CreateRevisionOptions> = {}
+  ): Promise<ArticleWithSEO> {
     // Verify article exists and user has permission
     const existingArticle = await this.article.findById(id);
     if (!existingArticle) {
       throw new Error('Article not found');
     }
 
-    if (authorId && existingArticle.author_id !== authorId) {
+    if (authorId && !(await this.isArticleAuthor(existingArticle, authorId))) {
       throw new Error('Unauthorized: You can only edit your own articles');
     }
 
@@ -97,6 +219,14 @@ export class ArticleService {
       throw new Error('Invalid content: must be 1-100,000 characters');
     }
 
+    if (updateData.content_format && !Article.validateContentFormat(updateData.content_format)) {
+      throw new Error('Invalid content format: must be markdown, blocks or html');
+    }
+
+    if (updateData.citation_style && !Article.validateCitationStyle(updateData.citation_style)) {
+      throw new Error('Invalid citation style: must be apa, chicago or ieee');
+    }
+
     if (updateData.tags && !Article.validateTags(updateData.tags)) {
       throw new Error('Invalid tags: maximum 10 tags, each 1-50 characters');
     }
@@ -105,11 +235,57 @@ export class ArticleService {
       throw new Error('Invalid SEO description: maximum 300 characters');
     }
 
+    if (updateData.locale !== undefined) {
+      updateData.locale = ArticleService.requireLocale(updateData.locale);
+
+      // A translation group has one article per locale
+      if (existingArticle.translation_group_id && updateData.locale !== existingArticle.locale) {
+        const translations = await this.article.findTranslations([existingArticle.translation_group_id]);
+        if (translations.some(translation => translation.id !== id && translation.locale === updateData.locale)) {
+          throw new Error(`Invalid locale: this article already has a ${updateData.locale} translation`);
+        }
+      }
+    }
+
+    ArticleService.validateExpiry(updateData);
+
+    // A new expiry time or action is enforced afresh, which also lifts an expiry banner
+    if (updateData.expires_at !== undefined || updateData.expiry_action !== undefined) {
+      updateData.expired_at = null;
+    }
+
+    if (updateData.tags) {
+      updateData.tags = await this.tags.resolveTags(existingArticle.author_id, updateData.tags);
+    }
+
+    if (updateData.featured_image_id !== undefined) {
+      updateData.featured_image_url = updateData.featured_image_id
+        ? Media.displayUrl(await this.media.getImageForCreator(updateData.featured_image_id, existingArticle.author_id))
+        : null;
+    }
+
+    // Re-render whenever the source, its format or the citation style changes
+    const contentChanged = updateData.content !== undefined
+      || updateData.content_format !== undefined
+      || updateData.citation_style !== undefined;
+    const rendered = contentChanged
+      ? await this.renderContent(
+        id,
+        updateData.content ?? existingArticle.content,
+        updateData.content_format || existingArticle.content_format || 'markdown',
+        updateData.citation_style || existingArticle.citation_style
+      )
+      : null;
+
     // Auto-generate SEO data for updated content
-    if (updateData.title || updateData.content) {
+    if (updateData.title || rendered) {
       const seoData = this.generateSEOData({
         title: updateData.title || existingArticle.title,
-        content: updateData.content || existingArticle.content,
+        content: rendered
+          ? rendered.text
+          : existingArticle.content_html
+            ? ContentRenderer.toPlainText(existingArticle.content_html)
+            : this.renderArticle(existingArticle).text,
         tags: updateData.tags || existingArticle.tags
       } as CreateArticleData);
 
@@ -118,15 +294,33 @@ export class ArticleService {
     }
 
     // Update excerpt if content changed
-    if (updateData.content && !updateData.excerpt) {
-      updateData.excerpt = this.generateExcerpt(updateData.content);
+    if (rendered && !updateData.excerpt) {
+      updateData.excerpt = this.generateExcerpt(rendered.text);
     }
 
-    const updatedArticle = await this.article.update(id, updateData);
+    const updatedArticle = await this.article.update(
+      id,
+      rendered ? { ...updateData, ...this.toRenderedFields(rendered) } : updateData
+    );
     if (!updatedArticle) {
       throw new Error('Article not found');
     }
 
+    await this.revision.create(updatedArticle, {
+      reason: revisionOptions.reason || 'update',
+      restored_from: revisionOptions.restored_from,
+      created_by: authorId
+    });
+
+    if (rendered) {
+      await this.fingerprint(updatedArticle);
+    }
+
+    // A lifted expiry banner brings the article back into related-article lists
+    if (updatedArticle.status === 'published' && (updateData.title || rendered || updateData.tags || updateData.expired_at === null)) {
+      await this.indexRelated(updatedArticle);
+    }
+
     return this.enrichWithSEO(updatedArticle);
   }
 
@@ -136,7 +330,7 @@ export class ArticleService {
       return null;
     }
 
-    const enrichedArticle = this.enrichWithSEO(article);
+    const [enrichedArticle] = await this.withStructuredData([this.enrichWithSEO(article)]);
 
     if (includeAnalytics) {
       // Add analytics data if requested
@@ -147,21 +341,100 @@ export class ArticleService {
     return enrichedArticle;
   }
 
+  /**
+   * The article with the title, content and metadata of one of its revisions, rendered
+   * with the article's current bibliography
+   */
+  async getArticleAtRevision(id: string, revisionNumber: number): Promise<ArticleWithSEO | null> {
+    const [article, revision] = await Promise.all([
+      this.article.findById(id),
+      this.revision.findByNumber(id, revisionNumber)
+    ]);
+
+    if (!article || !revision) {
+      return null;
+    }
+
+    const contentFormat = revision.content_format || 'html';
+    const rendered = await this.renderContent(id, revision.content, contentFormat, article.citation_style);
+
+    const [enrichedArticle] = await this.withStructuredData([this.enrichWithSEO({
+      ...article,
+      title: revision.title,
+      content: revision.content,
+      content_format: contentFormat,
+      excerpt: revision.excerpt,
+      tags: revision.tags || [],
+      seo_title: revision.seo_title,
+      seo_description: revision.seo_description,
+      ...this.toRenderedFields(rendered)
+    })]);
+
+    return enrichedArticle;
+  }
+
   async getArticleBySlug(authorId: string, slug: string): Promise<ArticleWithSEO | null> {
     const article = await this.article.findBySlug(authorId, slug);
     if (!article) {
       return null;
     }
 
-    return this.enrichWithSEO(article);
+    const [enrichedArticle] = await this.withStructuredData([this.enrichWithSEO(article)]);
+    return enrichedArticle;
+  }
+
+  /**
+   * The current slug of the article that previously had this slug, for redirecting old links
+   */
+  async getRedirectSlug(authorId: string, slug: string): Promise<string | null> {
+    const article = await this.article.findByPreviousSlug(authorId, slug);
+    return article ? article.slug! : null;
+  }
+
+  async getPreviousSlugs(id: string, userId?: string): Promise<{ slug: string; created_at: Date }[]> {
+    const article = await this.article.findById(id);
+    if (!article) {
+      throw new Error('Article not found');
+    }
+
+    if (!(await this.canViewUnpublished(article, userId))) {
+      throw new Error('Unauthorized: You can only view the slug history of your own articles');
+    }
+
+    return this.article.findPreviousSlugs(id);
+  }
+
+  /**
+   * Readability, SEO, accessibility and link checks, with whether the author's settings
+   * would let the article be published as it stands
+   */
+  async auditArticle(id: string, userId?: string): Promise<ContentAudit> {
+    const article = await this.article.findById(id);
+    if (!article) {
+      throw new Error('Article not found');
+    }
+
+    if (!(await this.canViewUnpublished(article, userId))) {
+      throw new Error('Unauthorized: You can only audit your own articles');
+    }
+
+    const settings = await this.settings.get(article.author_id);
+    return this.audits.audit(article, settings.audit_blocks_publish);
   }
 
-  async getArticles(options: ArticleSearchOptions = {}): Promise<{ articles: ArticleWithSEO[]; total: number }> {
-    const { articles, total } = await this.article.findMany(options);
+  async getArticles(
+    options: ArticleSearchOptions = {}
+  ): Promise<{ articles: ArticleWithSEO[]; total: number; next_cursor: string | null }> {
+    // Within one creator, "ML" finds articles tagged with its canonical tag
+    if (options.author_id && options.tags && options.tags.length > 0) {
+      options = { ...options, tags: await this.tags.canonicalNames(options.author_id, options.tags) };
+    }
+
+    const { articles, total, next_cursor } = await this.article.findMany(options);
 
-    const enrichedArticles = articles.map(article => this.enrichWithSEO(article));
+    const enrichedArticles = await this.withStructuredData(articles.map(article => this.enrichWithSEO(article)));
 
-    return { articles: enrichedArticles, total };
+    return { articles: enrichedArticles, total, next_cursor };
   }
 
   async publishArticle(id: string, options: PublishOptions = {}, authorId?: string): Promise<ArticleWithSEO> {
@@ -184,24 +457,188 @@ export class ArticleService {
       throw new Error('Article must have title and content to be published');
     }
 
+    if (Article.isExpired(existingArticle)) {
+      throw new Error('Invalid expiry: the article has expired; move or clear expires_at before publishing');
+    }
+
+    if (options.scheduledAt && existingArticle.expires_at && new Date(existingArticle.expires_at) <= options.scheduledAt) {
+      throw new Error('Invalid expiry: the article would expire before its scheduled publish time');
+    }
+
+    const settings = await this.settings.get(existingArticle.author_id);
+    await this.verifyReviewApproval(existingArticle, settings);
+    await this.verifyAudit(existingArticle, settings);
+
+    // Persist distribution choices so a scheduled publish still honours them later
+    await this.article.updateDistribution(id, Boolean(options.notify_subscribers), Boolean(options.social_auto_post));
+
+    // Future-dated articles wait in the scheduled state until the scheduler picks them up
+    if (options.scheduledAt && options.scheduledAt > new Date()) {
+      const scheduledArticle = await this.article.schedule(id, options.scheduledAt);
+      if (!scheduledArticle) {
+        throw new Error('Failed to schedule article');
+      }
+
+      return {
+        ...this.enrichWithSEO(scheduledArticle),
+        duplicate_warnings: await this.checkDuplicates(scheduledArticle)
+      };
+    }
+
+    // Math and citations are rendered against the bibliography as it stands at publish time
+    await this.refreshRenderedContent(id);
+
     // Publish article
     const publishedArticle = await this.article.publish(id, options.scheduledAt);
     if (!publishedArticle) {
       throw new Error('Failed to publish article');
     }
 
-    // TODO: Handle notification and social posting options
-    if (options.notify_subscribers) {
-      // Add to newsletter queue
-      console.log('TODO: Add article to newsletter queue');
+    await this.revision.create(publishedArticle, { reason: 'publish', created_by: authorId });
+    await this.indexRelated(publishedArticle);
+
+    // Newsletter and social posts are queued here and sent by the delivery worker
+    const deliveries = await this.deliveries.enqueueForArticle(publishedArticle);
+
+    return {
+      ...this.enrichWithSEO(publishedArticle),
+      deliveries,
+      duplicate_warnings: await this.checkDuplicates(publishedArticle)
+    };
+  }
+
+  async publishDueArticles(now: Date = new Date(), limit = 50): Promise<ArticleWithSEO[]> {
+    const dueIds = await this.article.findDueScheduledIds(now, limit);
+    const published: ArticleWithSEO[] = [];
+
+    for (const id of dueIds) {
+      const scheduledArticle = await this.article.findById(id);
+      if (!scheduledArticle || !(await this.passesPublishChecks(scheduledArticle))) {
+        continue;
+      }
+
+      // A null result means another worker already published it or it was rescheduled meanwhile
+      const claimedArticle = await this.article.claimScheduled(id, now);
+      if (!claimedArticle) {
+        continue;
+      }
+
+      const { article: publishedArticle } = await this.refreshRenderedContent(id);
+
+      await this.revision.create(publishedArticle, { reason: 'publish', created_by: publishedArticle.author_id });
+      await this.indexRelated(publishedArticle);
+      await this.deliveries.enqueueForArticle(publishedArticle);
+      published.push(publishedArticle);
+    }
+
+    return published;
+  }
+
+  /**
+   * Scheduled articles can be edited after they were approved and audited, so the checks run
+   * again when they fall due. Articles that no longer pass go back to draft for the author to
+   * resubmit rather than staying in the queue.
+   */
+  private async passesPublishChecks(article: ArticleData): Promise<boolean> {
+    const settings = await this.settings.get(article.author_id);
+
+    try {
+      await this.verifyReviewApproval(article, settings);
+      await this.verifyAudit(article, settings);
+      return true;
+    } catch (error) {
+      if (!(error instanceof Error) || !/^(Review required|Audit failed)/.test(error.message)) {
+        throw error;
+      }
+
+      await this.article.unschedule(article.id!);
+      console.warn(`Scheduled article ${article.id} returned to draft: ${error.message}`);
+      return false;
+    }
+  }
+
+  /**
+   * Re-renders stored content with the article's current bibliography and citation style.
+   * The source is unchanged, so no revision is recorded.
+   */
+  async refreshRenderedContent(id: string): Promise<{ article: ArticleWithSEO; unresolved_citations: string[] }> {
+    const article = await this.article.findById(id);
+    if (!article) {
+      throw new Error('Article not found');
+    }
+
+    const rendered = await this.renderContent(id, article.content, article.content_format || 'html', article.citation_style);
+    const updatedArticle = await this.article.update(id, this.toRenderedFields(rendered));
+    if (!updatedArticle) {
+      throw new Error('Article not found');
+    }
+
+    return {
+      article: this.enrichWithSEO(updatedArticle),
+      unresolved_citations: rendered.unresolved_citations
+    };
+  }
+
+  async getArticleDeliveries(id: string, authorId?: string): Promise<ArticleDeliveryData[]> {
+    const existingArticle = await this.article.findById(id);
+    if (!existingArticle) {
+      throw new Error('Article not found');
+    }
+
+    if (authorId && existingArticle.author_id !== authorId) {
+      throw new Error('Unauthorized: You can only view deliveries of your own articles');
+    }
+
+    return this.deliveries.getDeliveries(id);
+  }
+
+  async getScheduledArticles(authorId: string): Promise<ArticleWithSEO[]> {
+    const articles = await this.article.findScheduled(authorId);
+    return articles.map(article => this.enrichWithSEO(article));
+  }
+
+  async rescheduleArticle(id: string, scheduledAt: Date, authorId?: string): Promise<ArticleWithSEO> {
+    const existingArticle = await this.article.findById(id);
+    if (!existingArticle) {
+      throw new Error('Article not found');
+    }
+
+    if (authorId && existingArticle.author_id !== authorId) {
+      throw new Error('Unauthorized: You can only reschedule your own articles');
+    }
+
+    if (existingArticle.status !== 'scheduled') {
+      throw new Error('Article is not scheduled');
+    }
+
+    if (scheduledAt <= new Date()) {
+      throw new Error('Scheduled time must be in the future');
     }
 
-    if (options.social_auto_post) {
-      // Schedule social media posts
-      console.log('TODO: Schedule social media posts');
+    const rescheduledArticle = await this.article.schedule(id, scheduledAt);
+    if (!rescheduledArticle) {
+      throw new Error('Failed to reschedule article');
     }
 
-    return this.enrichWithSEO(publishedArticle);
+    return this.enrichWithSEO(rescheduledArticle);
+  }
+
+  async cancelScheduledArticle(id: string, authorId?: string): Promise<ArticleWithSEO> {
+    const existingArticle = await this.article.findById(id);
+    if (!existingArticle) {
+      throw new Error('Article not found');
+    }
+
+    if (authorId && existingArticle.author_id !== authorId) {
+      throw new Error('Unauthorized: You can only cancel your own scheduled articles');
+    }
+
+    const draftArticle = await this.article.unschedule(id);
+    if (!draftArticle) {
+      throw new Error('Article is not scheduled');
+    }
+
+    return this.enrichWithSEO(draftArticle);
   }
 
   async archiveArticle(id: string, authorId?: string): Promise<ArticleWithSEO> {
@@ -220,6 +657,8 @@ export class ArticleService {
       throw new Error('Failed to archive article');
     }
 
+    await this.related.removeArticle(id);
+
     return this.enrichWithSEO(archivedArticle);
   }
 
@@ -234,6 +673,9 @@ export class ArticleService {
       throw new Error('Unauthorized: You can only delete your own articles');
     }
 
+    // Release the article's document counts before its vector is cascaded away
+    await this.related.removeArticle(id);
+
     const deleted = await this.article.delete(id);
     if (!deleted) {
       throw new Error('Failed to delete article');
@@ -241,40 +683,84 @@ export class ArticleService {
   }
 
   async getRelatedArticles(articleId: string, limit = 5): Promise<RelatedArticle[]> {
-    const article = await this.article.findById(articleId);
-    if (!article) {
-      return [];
+    return this.related.getRelatedArticles(articleId, limit);
+  }
+
+  async searchArticles(
+    searchTerm: string,
+    options: ArticleSearchOptions = {}
+  ): Promise<{ articles: ArticleSearchResult[]; total: number; facets: SearchFacets }> {
+    if (!Article.buildSearchQuery(searchTerm)) {
+      throw new Error('Search query must contain at least one word');
     }
 
-    // Find related articles based on tags and author
-    const query = `
-      SELECT id, title, excerpt, slug, reading_time, published_at
-      FROM articles
-      WHERE id != $1
-        AND author_id = $2
-        AND status = 'published'
-        AND (tags @> $3 OR tags && $3)
-      ORDER BY published_at DESC
-      LIMIT $4
-    `;
+    const searchOptions = {
+      ...options,
+      search: searchTerm,
+      exclude_expired: true
+    };
 
-    const result = await this.pool.query(query, [
-      articleId,
-      article.author_id,
-      JSON.stringify(article.tags || []),
-      limit
+    const [{ articles, total }, facets] = await Promise.all([
+      this.article.search(searchOptions),
+      this.article.searchFacets(searchOptions)
     ]);
 
-    return result.rows;
+    const results = articles.map(({ rank, title_highlight, snippet, ...article }) => ({
+      ...this.enrichWithSEO(article),
+      rank: parseFloat(String(rank)),
+      highlights: {
+        title: title_highlight,
+        snippet
+      }
+    }));
+
+    return { articles: await this.withStructuredData(results), total, facets };
   }
 
-  async searchArticles(searchTerm: string, options: ArticleSearchOptions = {}): Promise<{ articles: ArticleWithSEO[]; total: number }> {
-    const searchOptions = {
-      ...options,
-      search: searchTerm
-    };
+  /**
+   * Replaces the ordered byline. Only the owning creator may change who is credited.
+   */
+  async setAuthors(id: string, userIds: string[], ownerId?: string): Promise<BylineAuthor[]> {
+    const article = await this.article.findById(id);
+    if (!article) {
+      throw new Error('Article not found');
+    }
+
+    if (ownerId && article.author_id !== ownerId) {
+      throw new Error('Unauthorized: You can only change the byline of your own articles');
+    }
 
-    return this.getArticles(searchOptions);
+    if (!ArticleAuthor.validateByline(userIds)) {
+      throw new Error('Invalid byline: 1-10 distinct authors required');
+    }
+
+    for (const userId of userIds) {
+      if (!(await this.user.findById(userId))) {
+        throw new Error(`Invalid byline: user ${userId} does not exist`);
+      }
+    }
+
+    await this.authors.setAuthors(id, userIds);
+    return this.authors.findByArticleId(id);
+  }
+
+  /**
+   * Unpublished articles are visible to the owner, byline authors and the publication's editors
+   */
+  async canViewUnpublished(article: ArticleData, userId?: string): Promise<boolean> {
+    if (!userId) {
+      return false;
+    }
+
+    if (await this.isArticleAuthor(article, userId)) {
+      return true;
+    }
+
+    return this.editors.isEditor(article.author_id, userId);
+  }
+
+  async isArticleAuthor(article: ArticleData, userId: string): Promise<boolean> {
+    return article.author_id === userId || this.authors.isAuthor(article.id!, userId);
   }
 
   async getDraftCount(authorId: string): Promise<number> {
@@ -290,6 +776,43 @@ export class ArticleService {
   }
 
   // SEO and optimization methods
+  /**
+   * When the publication requires review, the latest review must be an approval of the
+   * current revision. Any edit after approval creates a new revision and needs a fresh review.
+   */
+  private async verifyReviewApproval(article: ArticleData, settings: CreatorSettingsData): Promise<void> {
+    if (!settings.require_review) {
+      return;
+    }
+
+    const [latestReview, latestRevision] = await Promise.all([
+      this.reviews.findLatest(article.id!),
+      this.revision.findLatest(article.id!)
+    ]);
+
+    const approved = latestReview?.decision === 'approved'
+      && latestReview.revision_number === latestRevision?.revision_number;
+
+    if (!approved) {
+      throw new Error('Review required: an editor must approve the current revision before publishing');
+    }
+  }
+
+  private async verifyAudit(article: ArticleData, settings: CreatorSettingsData): Promise<void> {
+    if (settings.audit_blocks_publish === 'off') {
+      return;
+    }
+
+    const audit = await this.audits.audit(article, settings.audit_blocks_publish);
+    if (!audit.blocks_publish) {
+      return;
+    }
+
+    const blocking = audit.findings.filter(finding => ContentAuditService.blocks(finding, settings.audit_blocks_publish));
+    const codes = Array.from(new Set(blocking.map(finding => finding.code)));
+    throw new Error(`Audit failed: fix ${blocking.length} finding${blocking.length === 1 ? '' : 's'} before publishing (${codes.join(', ')})`);
+  }
+
   private generateSEOData(articleData: Partial<CreateArticleData>): SEOData {
     const title = articleData.title || '';
     const content = articleData.content || '';
@@ -354,7 +877,39 @@ export class ArticleService {
     }
   }
 
-  private enrichWithSEO(article: ArticleData): ArticleWithSEO {
+  private async renderContent(
+    articleId: string,
+    content: string,
+    format: ContentFormat,
+    citationStyle?: CitationStyle
+  ): Promise<RenderedContent> {
+    const bibliography = await this.bibliography.findByArticleId(articleId);
+    return this.renderer.render(content, format, { bibliography, citationStyle });
+  }
+
+  private renderArticle(article: ArticleData): RenderedContent {
+    return this.renderer.render(article.content, article.content_format || 'html');
+  }
+
+  private toRenderedFields(rendered: RenderedContent): RenderedArticleFields {
+    return {
+      content_html: rendered.html,
+      toc: rendered.toc,
+      reading_time: rendered.reading_time
+    };
+  }
+
+  private enrichWithSEO(articleRow: ArticleData): ArticleWithSEO {
+    // The tsvector column is an index helper and never part of the API response
+    const { search_vector, ...article } = articleRow as ArticleData & { search_vector?: unknown };
+
+    // Articles written before the rendering pipeline have no stored HTML yet
+    if (article.content_html === null || article.content_html === undefined) {
+      const rendered = this.renderArticle(article);
+      article.content_html = rendered.html;
+      article.toc = rendered.toc;
+    }
+
     const seo: SEOData = {
       title: article.seo_title || article.title,
       description: article.seo_description || article.excerpt || '',
@@ -364,12 +919,110 @@ export class ArticleService {
       ogImage: article.featured_image_url
     };
 
+    const expiryNotice = ExpiryService.bannerFor(article);
+
     return {
       ...article,
-      seo
+      seo,
+      ...(expiryNotice ? { expiry_notice: expiryNotice } : {})
     };
   }
 
+  /**
+   * Attaches the byline, the JSON-LD graph and hreflang alternates to the seo block.
+   * Bylines, creator names and translations are loaded with one query each for the
+   * whole page of articles.
+   */
+  private async withStructuredData<T extends ArticleWithSEO>(articles: T[]): Promise<T[]> {
+    if (articles.length === 0) {
+      return articles;
+    }
+
+    const bylines = await this.authors.findByArticleIds(articles.map(article => article.id!));
+    const creators = await this.user.findByIds(Array.from(new Set(articles.map(article => article.author_id))));
+    const creatorNames = new Map(creators.map(creator => [creator.id!, creator.name]));
+
+    const groupIds = Array.from(new Set(articles.map(article => article.translation_group_id).filter((id): id is string => !!id)));
+    const translations = await this.article.findTranslations(groupIds);
+
+    return articles.map(article => {
+      const authors = bylines.get(article.id!) || [];
+      const creatorName = creatorNames.get(article.author_id) || authors[0]?.name || '';
+      const alternates = ArticleService.buildAlternates(article, translations);
+
+      return {
+        ...article,
+        authors,
+        seo: {
+          ...article.seo,
+          jsonLd: StructuredData.forArticle(article, authors, creatorName),
+          ...(alternates.length > 0 ? { alternates } : {})
+        }
+      };
+    });
+  }
+
+  /**
+   * hreflang links for an article and its published translations, itself included as
+   * search engines require. The group's original article is the x-default.
+   */
+  static buildAlternates(article: ArticleData, translations: ArticleData[]): HreflangAlternate[] {
+    if (!article.translation_group_id) {
+      return [];
+    }
+
+    const published = translations.filter(translation =>
+      translation.translation_group_id === article.translation_group_id
+      && translation.id !== article.id
+      && translation.status === 'published');
+    if (published.length === 0) {
+      return [];
+    }
+
+    const group = [article, ...published]
+      .sort((a, b) => new Date(a.created_at || 0).getTime() - new Date(b.created_at || 0).getTime());
+
+    return [
+      ...group.map(member => ({ hreflang: member.locale || DEFAULT_LOCALE, href: Article.buildPublicUrl(member) })),
+      { hreflang: 'x-default', href: Article.buildPublicUrl(group[0]) }
+    ];
+  }
+
+  // Recommendations are secondary; a failure here must not undo a publish or an edit
+  private async indexRelated(article: ArticleData): Promise<void> {
+    try {
+      await this.related.indexArticle(article);
+    } catch (error) {
+      console.error(`Failed to index related articles for ${article.id}:`, error);
+    }
+  }
+
+  private async fingerprint(article: ArticleData): Promise<void> {
+    try {
+      await this.duplicates.indexArticle(article);
+    } catch (error) {
+      console.error(`Failed to fingerprint article ${article.id}:`, error);
+    }
+  }
+
+  /**
+   * Articles the one being published overlaps heavily with. Publishing goes ahead either
+   * way; whether the overlap is a problem (a cross-post, a stolen post) is the creator's call.
+   */
+  private async checkDuplicates(article: ArticleData): Promise<DuplicateMatch[]> {
+    try {
+      const signature = await this.duplicates.indexArticle(article);
+      if (!signature) {
+        return [];
+      }
+
+      return await this.duplicates.findNearDuplicates(article, signature, { threshold: PUBLISH_WARNING_THRESHOLD, limit: 5 });
+    } catch (error) {
+      console.error(`Failed to check article ${article.id} for duplicates:`, error);
+      return [];
+    }
+  }
+
   private async getArticleAnalytics(articleId: string): Promise<any> {
     // Get latest analytics data for the article
     const query = `
@@ -390,6 +1043,32 @@ export class ArticleService {
     return result.rows[0] || {};
   }
 
+  /**
+   * Truncated view of gated content. When the creator placed a paywall break, everything
+   * above it is shown as-is; otherwise only the opening of the rendered text is kept, and
+   * the source and TOC are dropped so the full text cannot leak through them.
+   */
+  static buildPreview<T extends ArticleData>(article: T): ArticlePreview<T> {
+    const { content, content_html, toc, ...rest } = article;
+
+    const split = content_html ? ContentRenderer.splitAtPaywall(content_html) : null;
+    if (split) {
+      return {
+        ...rest,
+        content: ContentRenderer.sourceBeforePaywall(content, article.content_format) || '',
+        content_html: split.free,
+        toc: (toc || []).filter(entry => split.free.includes(`id="${entry.anchor}"`)),
+        is_preview: true
+      } as ArticlePreview<T>;
+    }
+
+    return {
+      ...rest,
+      content_html: content_html ? ContentRenderer.previewParagraph(content_html) : undefined,
+      is_preview: true
+    } as ArticlePreview<T>;
+  }
+
   // URL and slug utilities
   static generateSlugFromTitle(title: string): string {
     return title
@@ -401,6 +1080,36 @@ export class ArticleService {
       .substring(0, 100);
   }
 
+  private static validateExpiry(data: Pick<UpdateArticleData, 'expires_at' | 'expiry_action' | 'expiry_banner'>): void {
+    if (data.expires_at) {
+      const expiresAt = new Date(data.expires_at);
+      if (isNaN(expiresAt.getTime())) {
+        throw new Error('Invalid expiry: expires_at must be a date');
+      }
+
+      if (expiresAt <= new Date()) {
+        throw new Error('Invalid expiry: expires_at must be in the future');
+      }
+    }
+
+    if (data.expiry_action !== undefined && !Article.validateExpiryAction(data.expiry_action)) {
+      throw new Error('Invalid expiry action: must be archive, unpublish or banner');
+    }
+
+    if (data.expiry_banner && !Article.validateExpiryBanner(data.expiry_banner)) {
+      throw new Error('Invalid expiry banner: maximum 500 characters');
+    }
+  }
+
+  private static requireLocale(locale: string): string {
+    const normalized = Article.normalizeLocale(locale);
+    if (!normalized) {
+      throw new Error('Invalid locale: use a language tag such as en or th-TH');
+    }
+
+    return normalized;
+  }
+
   static validateSlug(slug: string): boolean {
     const slugRegex = /^[a-z0-9-]+$/;
     return slugRegex.test(slug) && slug.length > 0 && slug.length <= 100;
@@ -0,0 +1,266 @@
+import { Pool } from 'pg';
+import { Article } from '../models/Article';
+import { BibliographyEntry, BibliographyEntryData, CreateBibliographyEntryData } from '../models/BibliographyEntry';
+import { ArticleService, ArticleWithSEO } from './ArticleService';
+
+export interface BibTeXParseResult {
+  entries: CreateBibliographyEntryData[];
+  errors: string[];
+}
+
+export interface BibliographyImportResult {
+  imported: number;
+  entries: BibliographyEntryData[];
+  errors: string[];
+  unresolved_citations: string[];
+  article: ArticleWithSEO;
+}
+
+const MONTHS: Record<string, string> = {
+  jan: 'January', feb: 'February', mar: 'March', apr: 'April', may: 'May', jun: 'June',
+  jul: 'July', aug: 'August', sep: 'September', oct: 'October', nov: 'November', dec: 'December'
+};
+
+// Combining marks for LaTeX accent commands such as \"u and \c{c}
+const ACCENTS: Record<string, string> = {
+  '"': '\u0308', "'": '\u0301', '`': '\u0300', '^': '\u0302', '~': '\u0303', '=': '\u0304',
+  '.': '\u0307', c: '\u0327', v: '\u030c', u: '\u0306', H: '\u030b', k: '\u0328'
+};
+
+const MAX_ENTRIES = 500;
+
+export class BibliographyService {
+  private article: Article;
+  private bibliography: BibliographyEntry;
+  private articleService: ArticleService;
+
+  constructor(pool: Pool) {
+    this.article = new Article(pool);
+    this.bibliography = new BibliographyEntry(pool);
+    this.articleService = new ArticleService(pool);
+  }
+
+  async getBibliography(articleId: string, authorId?: string): Promise<BibliographyEntryData[]> {
+    await this.verifyAccess(articleId, authorId);
+    return this.bibliography.findByArticleId(articleId);
+  }
+
+  /**
+   * Imports entries from a BibTeX string. Entries with an existing citation key are
+   * replaced; with replace=true the previous bibliography is discarded first.
+   */
+  async importBibTeX(articleId: string, bibtex: string, authorId?: string, replace = false): Promise<BibliographyImportResult> {
+    await this.verifyAccess(articleId, authorId);
+
+    const { entries, errors } = BibliographyService.parseBibTeX(bibtex);
+    if (entries.length === 0) {
+      throw new Error(errors.length > 0 ? `Invalid BibTeX: ${errors[0]}` : 'Invalid BibTeX: no entries found');
+    }
+
+    if (entries.length > MAX_ENTRIES) {
+      throw new Error(`Invalid BibTeX: maximum ${MAX_ENTRIES} entries per article`);
+    }
+
+    if (replace) {
+      await this.bibliography.deleteAllForArticle(articleId);
+    }
+
+    await this.bibliography.upsertMany(articleId, entries);
+
+    // Citations that previously pointed at missing keys may resolve now
+    const { article, unresolved_citations } = await this.articleService.refreshRenderedContent(articleId);
+
+    return {
+      imported: entries.length,
+      entries: await this.bibliography.findByArticleId(articleId),
+      errors,
+      unresolved_citations,
+      article
+    };
+  }
+
+  async deleteEntry(articleId: string, citationKey: string, authorId?: string): Promise<void> {
+    await this.verifyAccess(articleId, authorId);
+
+    const deleted = await this.bibliography.delete(articleId, citationKey);
+    if (!deleted) {
+      throw new Error('Bibliography entry not found');
+    }
+
+    await this.articleService.refreshRenderedContent(articleId);
+  }
+
+  /**
+   * Parses BibTeX into entries with plain-text field values. @string macros, # concatenation
+   * and common LaTeX accents are resolved; @comment and @preamble are skipped. Name fields
+   * keep their protective braces so corporate authors like {World Health Organization} survive.
+   */
+  static parseBibTeX(input: string): BibTeXParseResult {
+    const entries: CreateBibliographyEntryData[] = [];
+    const errors: string[] = [];
+    const macros: Record<string, string> = { ...MONTHS };
+    const seenKeys = new Set<string>();
+    let pos = 0;
+
+    while ((pos = input.indexOf('@', pos)) !== -1) {
+      const header = /^@\s*([a-zA-Z]+)\s*([{(])/.exec(input.slice(pos));
+      if (!header) {
+        pos++;
+        continue;
+      }
+
+      const type = header[1].toLowerCase();
+      const open = pos + header[0].length - 1;
+      const close = BibliographyService.findClosing(input, open);
+      if (close === -1) {
+        errors.push(`Unterminated @${type} starting at offset ${pos}`);
+        break;
+      }
+
+      const body = input.slice(open + 1, close);
+      pos = close + 1;
+
+      if (type === 'comment' || type === 'preamble') {
+        continue;
+      }
+
+      try {
+        if (type === 'string') {
+          Object.assign(macros, BibliographyService.parseFields(body, macros));
+          continue;
+        }
+
+        const comma = body.indexOf(',');
+        const key = (comma === -1 ? body : body.slice(0, comma)).trim();
+        if (!key || !/^[\w:.\-/]+$/.test(key)) {
+          throw new Error(`invalid citation key "${key}"`);
+        }
+
+        if (seenKeys.has(key)) {
+          throw new Error(`duplicate citation key "${key}"`);
+        }
+        seenKeys.add(key);
+
+        const raw = BibliographyService.parseFields(comma === -1 ? '' : body.slice(comma + 1), macros);
+        const fields: Record<string, string> = {};
+        for (const [name, value] of Object.entries(raw)) {
+          fields[name] = BibliographyService.cleanValue(value, name === 'author' || name === 'editor');
+        }
+
+        entries.push({ citation_key: key, entry_type: type, fields });
+      } catch (error) {
+        errors.push(`@${type} at offset ${open}: ${error instanceof Error ? error.message : 'parse error'}`);
+      }
+    }
+
+    return { entries, errors };
+  }
+
+  private static parseFields(body: string, macros: Record<string, string>): Record<string, string> {
+    const raw: Record<string, string> = {};
+    let pos = 0;
+
+    while (pos < body.length) {
+      const nameMatch = /^[\s,]*([a-zA-Z][\w-]*)\s*=\s*/.exec(body.slice(pos));
+      if (!nameMatch) {
+        if (body.slice(pos).trim().replace(/,/g, '') !== '') {
+          throw new Error(`unexpected text "${body.slice(pos).trim().slice(0, 20)}"`);
+        }
+        break;
+      }
+
+      const name = nameMatch[1].toLowerCase();
+      pos += nameMatch[0].length;
+
+      // A value is one or more parts joined with #: {braced}, "quoted", number or macro
+      const parts: string[] = [];
+      while (true) {
+        while (/\s/.test(body.charAt(pos))) pos++;
+        const char = body.charAt(pos);
+
+        if (char === '{') {
+          const end = BibliographyService.findClosing(body, pos);
+          if (end === -1) throw new Error(`unbalanced braces in field "${name}"`);
+          parts.push(body.slice(pos + 1, end));
+          pos = end + 1;
+        } else if (char === '"') {
+          let end = pos + 1;
+          let depth = 0;
+          while (end < body.length && !(body[end] === '"' && depth === 0)) {
+            if (body[end] === '{') depth++;
+            if (body[end] === '}') depth--;
+            end++;
+          }
+          if (end >= body.length) throw new Error(`unterminated string in field "${name}"`);
+          parts.push(body.slice(pos + 1, end));
+          pos = end + 1;
+        } else {
+          const bare = /^[\w.:-]+/.exec(body.slice(pos));
+          if (!bare) throw new Error(`missing value for field "${name}"`);
+          const token = bare[0];
+          parts.push(/^\d+$/.test(token) ? token : (macros[token.toLowerCase()] ?? token));
+          pos += token.length;
+        }
+
+        while (/\s/.test(body.charAt(pos))) pos++;
+        if (body.charAt(pos) !== '#') break;
+        pos++;
+      }
+
+      raw[name] = parts.join('');
+    }
+
+    return raw;
+  }
+
+  private static findClosing(text: string, open: number): number {
+    const openChar = text[open];
+    const closeChar = openChar === '(' ? ')' : '}';
+    let depth = 0;
+
+    for (let i = open; i < text.length; i++) {
+      if (text[i] === '\\') {
+        i++;
+        continue;
+      }
+      if (text[i] === openChar) depth++;
+      if (text[i] === closeChar) {
+        depth--;
+        if (depth === 0) return i;
+      }
+    }
+
+    return -1;
+  }
+
+  private static cleanValue(value: string, keepBraces: boolean): string {
+    let text = value
+      .replace(/\\([`'^"~=.])\s*\{?([a-zA-Z])\}?/g, (_m, accent: string, letter: string) => letter + ACCENTS[accent])
+      .replace(/\\([cvuHk])\s*\{([a-zA-Z])\}/g, (_m, accent: string, letter: string) => letter + ACCENTS[accent])
+      .replace(/\\([&%$#_{}])/g, '$1')
+      .replace(/\\(?:textit|textbf|emph|textsc|textrm|mathrm)\s*\{([^{}]*)\}/g, '$1')
+      .replace(/---/g, '—')
+      .replace(/--/g, '–')
+      .replace(/~/g, ' ');
+
+    if (!keepBraces) {
+      text = text.replace(/[{}]/g, '');
+    } else {
+      // Only whole-name protection is meaningful for names; drop braces around single letters
+      text = text.replace(/\{([^{}\s])\}/g, '$1');
+    }
+
+    return text.replace(/\s+/g, ' ').trim().normalize('NFC');
+  }
+
+  private async verifyAccess(articleId: string, authorId?: string): Promise<void> {
+    const article = await this.article.findById(articleId);
+    if (!article) {
+      throw new Error('Article not found');
+    }
+
+    if (authorId && article.author_id !== authorId) {
+      throw new Error('Unauthorized: You can only manage the bibliography of your own articles');
+    }
+  }
+}
\ No newline at end of file
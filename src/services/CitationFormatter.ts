@@ -0,0 +1,295 @@
+export type CitationStyle = 'apa' | 'chicago' | 'ieee';
+
+export const CITATION_STYLES: CitationStyle[] = ['apa', 'chicago', 'ieee'];
+
+export interface CitableEntry {
+  citation_key: string;
+  entry_type: string;
+  fields: Record<string, string>;
+}
+
+export interface CitationItem {
+  key: string;
+  locator?: string;
+}
+
+interface PersonName {
+  family: string;
+  given?: string;
+}
+
+/**
+ * Formats in-text citations and the reference list for one rendering of an article.
+ *
+ * The formatter is stateful: IEEE numbers are assigned in order of first citation,
+ * and only entries that were actually cited appear in the bibliography.
+ */
+export class CitationFormatter {
+  private style: CitationStyle;
+  private entries: Map<string, CitableEntry>;
+  private numbers = new Map<string, number>();
+  private unresolved = new Set<string>();
+
+  constructor(style: CitationStyle, entries: CitableEntry[]) {
+    this.style = style;
+    this.entries = new Map(entries.map(entry => [entry.citation_key, entry]));
+  }
+
+  get unresolvedKeys(): string[] {
+    return Array.from(this.unresolved);
+  }
+
+  /**
+   * Renders a citation cluster such as [@smith2020, p. 4; @lee2019] to HTML
+   */
+  cite(items: CitationItem[]): string {
+    const parts: string[] = [];
+
+    for (const item of items) {
+      const entry = this.entries.get(item.key);
+      if (!entry) {
+        this.unresolved.add(item.key);
+        parts.push(`<span class="citation-missing">${escapeHtml(item.key)}?</span>`);
+        continue;
+      }
+
+      if (!this.numbers.has(item.key)) {
+        this.numbers.set(item.key, this.numbers.size + 1);
+      }
+
+      const label = this.style === 'ieee'
+        ? this.numbers.get(item.key) + (item.locator ? `, ${escapeHtml(item.locator)}` : '')
+        : this.authorDateLabel(entry, item.locator);
+
+      parts.push(`<a class="citation" href="#ref-${anchorFor(item.key)}">${label}</a>`);
+    }
+
+    if (this.style === 'ieee') {
+      return parts.map(part => `[${part}]`).join(', ');
+    }
+
+    return `(${parts.join('; ')})`;
+  }
+
+  /**
+   * Renders the reference list for every cited entry, or an empty string if nothing was cited
+   */
+  bibliographyHtml(): string {
+    const cited = Array.from(this.numbers.keys()).map(key => this.entries.get(key)!);
+    if (cited.length === 0) {
+      return '';
+    }
+
+    if (this.style === 'ieee') {
+      const items = cited.map(entry => {
+        const number = this.numbers.get(entry.citation_key);
+        return `<li id="ref-${anchorFor(entry.citation_key)}">[${number}] ${CitationFormatter.formatReference(entry, this.style)}</li>`;
+      });
+      return `<section class="bibliography"><h2>References</h2><ol>${items.join('')}</ol></section>`;
+    }
+
+    const sorted = [...cited].sort((a, b) => {
+      const byName = sortName(a).localeCompare(sortName(b));
+      return byName !== 0 ? byName : (a.fields.year || '').localeCompare(b.fields.year || '');
+    });
+
+    const items = sorted.map(entry =>
+      `<li id="ref-${anchorFor(entry.citation_key)}">${CitationFormatter.formatReference(entry, this.style)}</li>`
+    );
+    return `<section class="bibliography"><h2>References</h2><ul>${items.join('')}</ul></section>`;
+  }
+
+  static formatReference(entry: CitableEntry, style: CitationStyle): string {
+    const f = entry.fields;
+    const authors = CitationFormatter.parseNames(f.author || f.editor || '');
+    const year = f.year ? escapeHtml(f.year) : 'n.d.';
+    const title = escapeHtml(f.title || entry.citation_key);
+    const container = f.journal || f.booktitle;
+    const isArticle = Boolean(container);
+    const doi = f.doi ? `https://doi.org/${f.doi.replace(/^https?:\/\/(dx\.)?doi\.org\//, '')}` : f.url;
+    const link = doi ? ` <a href="${escapeHtml(doi)}">${escapeHtml(doi)}</a>` : '';
+    const pages = f.pages ? escapeHtml(f.pages.replace(/-+/g, '–')) : '';
+
+    switch (style) {
+      case 'apa': {
+        const names = joinNames(authors.map(name => invertedInitials(name)), ', ', ', &amp; ');
+        const titlePart = isArticle ? title : `<em>${title}</em>`;
+        // Works without authors move the title into the author position
+        let reference = names ? `${names.endsWith('.') ? names : `${names}.`} (${year}). ${titlePart}.` : `${titlePart}. (${year}).`;
+        if (isArticle) {
+          reference += ` <em>${escapeHtml(container!)}</em>`;
+          if (f.volume) reference += `, <em>${escapeHtml(f.volume)}</em>`;
+          if (f.number) reference += `(${escapeHtml(f.number)})`;
+          if (pages) reference += `, ${pages}`;
+          reference += '.';
+        } else if (f.publisher) {
+          reference += ` ${escapeHtml(f.publisher)}.`;
+        }
+        return reference + link;
+      }
+
+      case 'chicago': {
+        const formatted = authors.map((name, index) => (index === 0 ? invertedFull(name) : fullName(name)));
+        const names = joinNames(formatted, ', ', ', and ');
+        let reference = names ? `${names}. ${year}.` : '';
+        reference += isArticle ? ` “${title}.”` : ` <em>${title}</em>.`;
+        if (isArticle) {
+          reference += ` <em>${escapeHtml(container!)}</em>`;
+          if (f.volume) reference += ` ${escapeHtml(f.volume)}`;
+          if (f.number) reference += ` (${escapeHtml(f.number)})`;
+          if (pages) reference += `: ${pages}`;
+          reference += '.';
+        } else if (f.publisher) {
+          reference += ` ${f.address ? `${escapeHtml(f.address)}: ` : ''}${escapeHtml(f.publisher)}.`;
+        }
+        return (reference + link).trim();
+      }
+
+      case 'ieee': {
+        const names = joinNames(authors.map(name => initialsFirst(name)), ', ', authors.length > 2 ? ', and ' : ' and ');
+        let reference = names ? `${names}, ` : '';
+        if (isArticle) {
+          reference += `“${title},” <em>${escapeHtml(container!)}</em>`;
+          if (f.volume) reference += `, vol. ${escapeHtml(f.volume)}`;
+          if (f.number) reference += `, no. ${escapeHtml(f.number)}`;
+          if (pages) reference += `, pp. ${pages}`;
+          reference += `, ${year}`;
+        } else {
+          reference += `<em>${title}</em>`;
+          if (f.publisher) reference += `. ${f.address ? `${escapeHtml(f.address)}: ` : ''}${escapeHtml(f.publisher)}`;
+          reference += `, ${year}`;
+        }
+        if (f.doi) {
+          return `${reference}, doi: ${escapeHtml(f.doi)}.`;
+        }
+        return reference + '.' + link;
+      }
+    }
+  }
+
+  /**
+   * Splits a BibTeX name list ("Last, First and First Last") into names.
+   * Brace-protected names such as {World Health Organization} are kept whole.
+   */
+  static parseNames(value: string): PersonName[] {
+    if (!value.trim()) {
+      return [];
+    }
+
+    return splitOutsideBraces(value, /\s+and\s+/i).map(raw => {
+      const name = raw.trim();
+      if (/^\{.*\}$/.test(name)) {
+        return { family: name.slice(1, -1) };
+      }
+
+      const clean = name.replace(/[{}]/g, '');
+      if (clean.includes(',')) {
+        const [family, ...given] = clean.split(',');
+        return { family: family.trim(), given: given.join(',').trim() || undefined };
+      }
+
+      const words = clean.split(/\s+/);
+      const family = words.pop() || clean;
+      return { family, given: words.join(' ') || undefined };
+    });
+  }
+
+  private authorDateLabel(entry: CitableEntry, locator?: string): string {
+    const names = CitationFormatter.parseNames(entry.fields.author || entry.fields.editor || '');
+    const year = entry.fields.year || 'n.d.';
+    const separator = this.style === 'apa' ? ', ' : ' ';
+
+    let authors: string;
+    if (names.length === 0) {
+      authors = entry.fields.title || entry.citation_key;
+    } else if (names.length === 1) {
+      authors = names[0].family;
+    } else if (names.length === 2) {
+      authors = `${names[0].family} ${this.style === 'apa' ? '&' : 'and'} ${names[1].family}`;
+    } else if (names.length === 3 && this.style === 'chicago') {
+      authors = `${names[0].family}, ${names[1].family}, and ${names[2].family}`;
+    } else {
+      authors = `${names[0].family} et al.`;
+    }
+
+    let label = `${escapeHtml(authors)}${separator}${escapeHtml(year)}`;
+    if (locator) {
+      label += `, ${escapeHtml(this.style === 'chicago' ? locator.replace(/^pp?\.\s*/, '') : locator)}`;
+    }
+    return label;
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function anchorFor(key: string): string {
+  return key.replace(/[^\w-]/g, '-');
+}
+
+function sortName(entry: CitableEntry): string {
+  const names = CitationFormatter.parseNames(entry.fields.author || entry.fields.editor || '');
+  return (names[0]?.family || entry.fields.title || entry.citation_key).toLowerCase();
+}
+
+function initials(given?: string): string {
+  if (!given) return '';
+  return given
+    .split(/[\s.]+/)
+    .filter(part => part.length > 0)
+    .map(part => part.split('-').map(piece => `${piece.charAt(0).toUpperCase()}.`).join('-'))
+    .join(' ');
+}
+
+function invertedInitials(name: PersonName): string {
+  const given = initials(name.given);
+  return escapeHtml(given ? `${name.family}, ${given}` : name.family);
+}
+
+function invertedFull(name: PersonName): string {
+  return escapeHtml(name.given ? `${name.family}, ${name.given}` : name.family);
+}
+
+function fullName(name: PersonName): string {
+  return escapeHtml(name.given ? `${name.given} ${name.family}` : name.family);
+}
+
+function initialsFirst(name: PersonName): string {
+  const given = initials(name.given);
+  return escapeHtml(given ? `${given} ${name.family}` : name.family);
+}
+
+function joinNames(names: string[], separator: string, lastSeparator: string): string {
+  if (names.length <= 1) {
+    return names.join('');
+  }
+  return names.slice(0, -1).join(separator) + lastSeparator + names[names.length - 1];
+}
+
+function splitOutsideBraces(value: string, separator: RegExp): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === '{') depth++;
+    if (char === '}') depth--;
+
+    if (depth === 0) {
+      const match = value.slice(i).match(separator);
+      if (match && match.index === 0) {
+        parts.push(current);
+        current = '';
+        i += match[0].length - 1;
+        continue;
+      }
+    }
+
+    current += char;
+  }
+
+  parts.push(current);
+  return parts.filter(part => part.trim().length > 0);
+}
\ No newline at end of file
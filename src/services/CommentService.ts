@@ -0,0 +1,452 @@
+import { Pool } from 'pg';
+import { Article, ArticleData } from '../models/Article';
+import { ArticleComment, ArticleCommentData, CommentStatus, QueuedCommentData } from '../models/ArticleComment';
+import { CommentReaction } from '../models/CommentReaction';
+import { CreatorSettings, CreatorSettingsData } from '../models/CreatorSettings';
+import { PublicationEditor } from '../models/PublicationEditor';
+import { Subscription } from '../models/Subscription';
+import { User } from '../models/User';
+import { EmailService } from './EmailService';
+
+export interface CommentServiceOptions {
+  emailService?: EmailService;
+}
+
+export interface CreateCommentData {
+  body: string;
+  parent_id?: string;
+}
+
+// Removed comments keep their place in the thread but lose their author
+export interface CommentThread extends Omit<ArticleCommentData, 'author_id'> {
+  author_id: string | null;
+  replies: CommentThread[];
+}
+
+export const COMMENT_REACTIONS = ['like', 'insightful', 'thanks'];
+
+// Top-level comments have depth 0; deeper replies would be unreadable on small screens
+const MAX_DEPTH = 4;
+
+// Per-user posting limits; creators and editors are exempt
+const RATE_LIMITS = [
+  { windowMs: 10 * 60 * 1000, max: 5, label: '10 minutes' },
+  { windowMs: 24 * 60 * 60 * 1000, max: 50, label: 'day' }
+];
+
+export class CommentService {
+  private pool: Pool;
+  private article: Article;
+  private comments: ArticleComment;
+  private reactions: CommentReaction;
+  private settings: CreatorSettings;
+  private editors: PublicationEditor;
+  private subscription: Subscription;
+  private user: User;
+  private emailService?: EmailService;
+
+  constructor(pool: Pool, options: CommentServiceOptions = {}) {
+    this.pool = pool;
+    this.article = new Article(pool);
+    this.comments = new ArticleComment(pool);
+    this.reactions = new CommentReaction(pool);
+    this.settings = new CreatorSettings(pool);
+    this.editors = new PublicationEditor(pool);
+    this.subscription = new Subscription(pool);
+    this.user = new User(pool);
+    this.emailService = options.emailService;
+  }
+
+  /**
+   * The article's discussion as a tree. Readers see published comments and their own
+   * pending ones; the creator and editors also see hidden comments. Removed comments
+   * stay in the tree without content while they still have visible replies.
+   */
+  async getComments(articleId: string, viewerId?: string): Promise<{ comments: CommentThread[]; total: number }> {
+    const article = await this.findPublishedArticle(articleId);
+    const moderator = viewerId ? await this.isModerator(article, viewerId) : false;
+    const rows = await this.comments.findByArticleId(articleId);
+
+    const comments = CommentService.buildThread(rows, { viewerId, moderator });
+    const total = rows.filter(row => row.status === 'published').length;
+
+    return { comments, total };
+  }
+
+  /**
+   * Posts a comment or reply. Comments from people who have never had a comment
+   * published on the creator's articles, and comments containing one of the creator's
+   * flagged keywords, wait in the moderation queue.
+   */
+  async addComment(articleId: string, userId: string, commentData: CreateCommentData): Promise<ArticleCommentData> {
+    if (!ArticleComment.validateBody(commentData.body)) {
+      throw new Error('Invalid comment: must be 1-5000 characters');
+    }
+
+    const article = await this.findPublishedArticle(articleId);
+    const settings = await this.settings.get(article.author_id);
+    const moderator = await this.isModerator(article, userId);
+    await this.verifyCanParticipate(article, settings, userId, moderator);
+
+    let parent: ArticleCommentData | null = null;
+    if (commentData.parent_id) {
+      parent = await this.comments.findById(commentData.parent_id);
+      if (!parent || parent.article_id !== articleId) {
+        throw new Error('Comment not found');
+      }
+
+      if (parent.status !== 'published') {
+        throw new Error('Invalid parent: replies are only possible to published comments');
+      }
+
+      if (parent.depth >= MAX_DEPTH) {
+        throw new Error(`Invalid parent: replies can be nested at most ${MAX_DEPTH} levels deep`);
+      }
+    }
+
+    const flagReasons: string[] = [];
+    if (!moderator) {
+      await this.enforceRateLimit(userId);
+
+      if (!(await this.comments.hasPublishedComment(userId, article.author_id))) {
+        flagReasons.push('first_comment');
+      }
+
+      for (const keyword of CommentService.matchKeywords(commentData.body, settings.comment_flag_keywords)) {
+        flagReasons.push(`keyword:${keyword}`);
+      }
+    }
+
+    const comment = await this.comments.create({
+      article_id: articleId,
+      parent_id: parent ? parent.id : null,
+      author_id: userId,
+      body: commentData.body.trim(),
+      depth: parent ? parent.depth + 1 : 0,
+      status: flagReasons.length > 0 ? 'pending' : 'published',
+      flag_reasons: flagReasons
+    });
+
+    if (comment.status === 'published') {
+      await this.notifyReply(comment, parent, article);
+    }
+
+    return comment;
+  }
+
+  /**
+   * Pending comments across every publication the user creates or edits
+   */
+  async getModerationQueue(
+    moderatorId: string,
+    limit = 20,
+    offset = 0
+  ): Promise<{ comments: QueuedCommentData[]; total: number }> {
+    return this.comments.findPendingForModerator(moderatorId, Math.min(limit, 100), offset);
+  }
+
+  async approveComment(articleId: string, commentId: string, moderatorId: string): Promise<ArticleCommentData> {
+    const { article } = await this.findModeratedComment(articleId, commentId, moderatorId);
+
+    const approved = await this.transition(commentId, 'published', ['pending'], moderatorId, 'Invalid status: comment is not awaiting moderation');
+
+    const parent = approved.parent_id ? await this.comments.findById(approved.parent_id) : null;
+    await this.notifyReply(approved, parent, article);
+
+    return approved;
+  }
+
+  async hideComment(articleId: string, commentId: string, moderatorId: string): Promise<ArticleCommentData> {
+    await this.findModeratedComment(articleId, commentId, moderatorId);
+    return this.transition(commentId, 'hidden', ['published'], moderatorId, 'Invalid status: only published comments can be hidden');
+  }
+
+  async unhideComment(articleId: string, commentId: string, moderatorId: string): Promise<ArticleCommentData> {
+    await this.findModeratedComment(articleId, commentId, moderatorId);
+    return this.transition(commentId, 'published', ['hidden'], moderatorId, 'Invalid status: comment is not hidden');
+  }
+
+  /**
+   * Pinned top-level comments are listed before the rest of the discussion
+   */
+  async setPinned(articleId: string, commentId: string, moderatorId: string, pinned: boolean): Promise<ArticleCommentData> {
+    const { comment } = await this.findModeratedComment(articleId, commentId, moderatorId);
+
+    if (comment.status !== 'published') {
+      throw new Error('Invalid status: only published comments can be pinned');
+    }
+
+    if (comment.parent_id) {
+      throw new Error('Invalid comment: only top-level comments can be pinned');
+    }
+
+    const updated = await this.comments.setPinned(commentId, pinned);
+    if (!updated) {
+      throw new Error('Comment not found');
+    }
+
+    return updated;
+  }
+
+  /**
+   * Comment authors can delete their own comments; the creator and editors can delete
+   * any comment, which is also how pending comments are rejected
+   */
+  async deleteComment(articleId: string, commentId: string, userId: string): Promise<void> {
+    const comment = await this.comments.findById(commentId);
+    if (!comment || comment.article_id !== articleId || comment.status === 'deleted') {
+      throw new Error('Comment not found');
+    }
+
+    if (comment.author_id !== userId) {
+      const article = await this.findArticle(articleId);
+      if (!(await this.isModerator(article, userId))) {
+        throw new Error('Unauthorized: You can only delete your own comments');
+      }
+    }
+
+    const deleted = await this.comments.markDeleted(commentId, userId);
+    if (!deleted) {
+      throw new Error('Comment not found');
+    }
+  }
+
+  async addReaction(articleId: string, commentId: string, userId: string, reaction: string): Promise<Record<string, number>> {
+    if (!COMMENT_REACTIONS.includes(reaction)) {
+      throw new Error(`Invalid reaction: must be one of ${COMMENT_REACTIONS.join(', ')}`);
+    }
+
+    const article = await this.findPublishedArticle(articleId);
+    const comment = await this.comments.findById(commentId);
+    if (!comment || comment.article_id !== articleId || comment.status !== 'published') {
+      throw new Error('Comment not found');
+    }
+
+    const settings = await this.settings.get(article.author_id);
+    await this.verifyCanParticipate(article, settings, userId, await this.isModerator(article, userId));
+
+    await this.reactions.add(commentId, userId, reaction);
+    return this.reactions.countForComment(commentId);
+  }
+
+  async removeReaction(articleId: string, commentId: string, userId: string, reaction: string): Promise<Record<string, number>> {
+    if (!COMMENT_REACTIONS.includes(reaction)) {
+      throw new Error(`Invalid reaction: must be one of ${COMMENT_REACTIONS.join(', ')}`);
+    }
+
+    const comment = await this.comments.findById(commentId);
+    if (!comment || comment.article_id !== articleId) {
+      throw new Error('Comment not found');
+    }
+
+    await this.reactions.remove(commentId, userId, reaction);
+    return this.reactions.countForComment(commentId);
+  }
+
+  private async transition(
+    commentId: string,
+    status: CommentStatus,
+    fromStatuses: CommentStatus[],
+    moderatorId: string,
+    invalidMessage: string
+  ): Promise<ArticleCommentData> {
+    const updated = await this.comments.transitionStatus(commentId, status, fromStatuses, moderatorId);
+    if (!updated) {
+      throw new Error(invalidMessage);
+    }
+
+    return updated;
+  }
+
+  private async enforceRateLimit(userId: string, now: Date = new Date()): Promise<void> {
+    for (const limit of RATE_LIMITS) {
+      const count = await this.comments.countByAuthorSince(userId, new Date(now.getTime() - limit.windowMs));
+      if (count >= limit.max) {
+        throw new Error(`Rate limit exceeded: at most ${limit.max} comments per ${limit.label}`);
+      }
+    }
+  }
+
+  private async verifyCanParticipate(
+    article: ArticleData,
+    settings: CreatorSettingsData,
+    userId: string,
+    moderator: boolean
+  ): Promise<void> {
+    if (settings.comments_access === 'disabled') {
+      throw new Error('Unauthorized: Comments are turned off for this publication');
+    }
+
+    if (
+      settings.comments_access === 'subscribers'
+      && !moderator
+      && !(await this.subscription.hasActiveSubscriptionToCreator(userId, article.author_id))
+    ) {
+      throw new Error('Unauthorized: Only paid subscribers can join the discussion');
+    }
+  }
+
+  /**
+   * Emails the author of the parent comment when a reply goes live. Failures are logged
+   * so a mail outage never blocks the discussion.
+   */
+  private async notifyReply(reply: ArticleCommentData, parent: ArticleCommentData | null, article: ArticleData): Promise<void> {
+    if (!parent || parent.author_id === reply.author_id) {
+      return;
+    }
+
+    try {
+      const [recipient, replier] = await Promise.all([
+        this.user.findById(parent.author_id),
+        this.user.findById(reply.author_id)
+      ]);
+
+      if (!recipient || !recipient.email) {
+        return;
+      }
+
+      const articleUrl = `${Article.buildPublicUrl(article)}#comment-${reply.id}`;
+      const replierName = replier ? replier.name : 'Someone';
+
+      const result = await this.getEmailService().sendSingleEmail({
+        to: recipient.email,
+        subject: `${replierName} replied to your comment on "${article.title}"`,
+        html_content: `
+          <p>${escapeHtml(replierName)} replied to your comment on <a href="${escapeHtml(articleUrl)}">${escapeHtml(article.title)}</a>:</p>
+          <blockquote>${escapeHtml(reply.body || '')}</blockquote>
+        `,
+        text_content: `${replierName} replied to your comment on "${article.title}":\n\n${reply.body}\n\n${articleUrl}`,
+        custom_args: {
+          type: 'comment_reply',
+          article_id: article.id!,
+          comment_id: reply.id!
+        }
+      });
+
+      if (result.status === 'failed') {
+        console.error(`Failed to send reply notification for comment ${reply.id}:`, result.error);
+      }
+    } catch (error) {
+      console.error(`Failed to send reply notification for comment ${reply.id}:`, error);
+    }
+  }
+
+  private getEmailService(): EmailService {
+    // Created lazily because EmailService refuses to start without SendGrid credentials
+    if (!this.emailService) {
+      this.emailService = new EmailService(this.pool);
+    }
+    return this.emailService;
+  }
+
+  private async findModeratedComment(
+    articleId: string,
+    commentId: string,
+    moderatorId: string
+  ): Promise<{ article: ArticleData; comment: ArticleCommentData }> {
+    const article = await this.findArticle(articleId);
+
+    if (!(await this.isModerator(article, moderatorId))) {
+      throw new Error('Unauthorized: Only the publication\'s creator and editors can moderate comments');
+    }
+
+    const comment = await this.comments.findById(commentId);
+    if (!comment || comment.article_id !== articleId || comment.status === 'deleted') {
+      throw new Error('Comment not found');
+    }
+
+    return { article, comment };
+  }
+
+  private async findArticle(articleId: string): Promise<ArticleData> {
+    const article = await this.article.findById(articleId);
+    if (!article) {
+      throw new Error('Article not found');
+    }
+
+    return article;
+  }
+
+  // Discussions only exist on published articles
+  private async findPublishedArticle(articleId: string): Promise<ArticleData> {
+    const article = await this.article.findById(articleId);
+    if (!article || article.status !== 'published') {
+      throw new Error('Article not found');
+    }
+
+    return article;
+  }
+
+  private async isModerator(article: ArticleData, userId: string): Promise<boolean> {
+    return article.author_id === userId || this.editors.isEditor(article.author_id, userId);
+  }
+
+  /**
+   * Keywords found in the text as whole words or phrases, ignoring case
+   */
+  static matchKeywords(text: string, keywords: string[]): string[] {
+    const normalized = text.toLowerCase();
+
+    return keywords.filter(keyword => {
+      const escaped = keyword.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      return new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}($|[^\\p{L}\\p{N}])`, 'u').test(normalized);
+    });
+  }
+
+  /**
+   * Arranges comments (oldest first) into reply trees, pinned top-level comments first.
+   * Moderation details are only included for the creator and editors.
+   */
+  static buildThread(rows: ArticleCommentData[], viewer: { viewerId?: string; moderator: boolean }): CommentThread[] {
+    const nodes = new Map<string, CommentThread>();
+    const roots: CommentThread[] = [];
+
+    for (const row of rows) {
+      nodes.set(row.id!, { ...row, replies: [] });
+    }
+
+    for (const node of nodes.values()) {
+      const parent = node.parent_id ? nodes.get(node.parent_id) : undefined;
+      if (parent) {
+        parent.replies.push(node);
+      } else if (!node.parent_id) {
+        roots.push(node);
+      }
+    }
+
+    const visible = (node: CommentThread): CommentThread | null => {
+      const replies = node.replies.map(visible).filter((reply): reply is CommentThread => reply !== null);
+
+      const canRead = node.status === 'published'
+        || (node.status === 'pending' && (viewer.moderator || node.author_id === viewer.viewerId))
+        || (node.status === 'hidden' && viewer.moderator);
+
+      if (!canRead && replies.length === 0) {
+        return null;
+      }
+
+      const shown: CommentThread = canRead
+        ? { ...node, replies }
+        : { ...node, body: null, author_id: null, author_name: null, author_avatar_url: null, reactions: {}, replies };
+
+      if (!viewer.moderator) {
+        delete shown.moderated_by;
+        delete shown.moderated_at;
+        shown.flag_reasons = [];
+      }
+
+      return shown;
+    };
+
+    const pinnedAt = (node: CommentThread) => (node.pinned_at ? new Date(node.pinned_at).getTime() : 0);
+
+    return roots
+      .map(visible)
+      .filter((node): node is CommentThread => node !== null)
+      .sort((a, b) => pinnedAt(b) - pinnedAt(a));
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
\ No newline at end of file
@@ -0,0 +1,558 @@
+import { Pool } from 'pg';
+import { Article, ArticleData, ArticleLink, DEFAULT_LOCALE } from '../models/Article';
+import { AuditBlockLevel } from '../models/CreatorSettings';
+import { Media } from '../models/Media';
+import { ContentRenderer } from './ContentRenderer';
+
+export type AuditSeverity = 'error' | 'warning' | 'info';
+
+export interface AuditFinding {
+  // `<area>.<problem>`, e.g. links.broken, stable for clients to key on
+  code: string;
+  severity: AuditSeverity;
+  // What is wrong and how to fix it
+  message: string;
+  // The heading, image, link or paragraph concerned
+  context?: string;
+}
+
+export interface ReadabilityScores {
+  words: number;
+  sentences: number;
+  average_sentence_length: number;
+  flesch_reading_ease: number;
+  flesch_kincaid_grade: number;
+  gunning_fog: number;
+}
+
+export interface KeywordDensity {
+  keyword: string;
+  occurrences: number;
+  // Share of the body's words taken up by the keyword, in percent
+  density: number;
+}
+
+export interface ContentAudit {
+  article_id: string;
+  // Null for articles not in English, which the formulas are calibrated for
+  readability: ReadabilityScores | null;
+  seo: {
+    title: string;
+    title_length: number;
+    description: string;
+    description_length: number;
+    keyword_density: KeywordDensity[];
+  };
+  findings: AuditFinding[];
+  summary: Record<AuditSeverity, number>;
+  // Whether the creator's audit_blocks_publish setting would stop this article from publishing
+  blocks_publish: boolean;
+  audited_at: Date;
+}
+
+// Search results cut titles at about 60 characters and descriptions at about 160
+const SEO_TITLE_MAX = 60;
+const SEO_TITLE_MIN = 20;
+const DESCRIPTION_MAX = 160;
+const DESCRIPTION_MIN = 70;
+const KEYWORD_DENSITY_MAX = 3;
+const PARAGRAPH_MAX_WORDS = 150;
+const SENTENCE_MAX_AVERAGE = 25;
+const READING_EASE_DIFFICULT = 30;
+const READING_EASE_FAIRLY_DIFFICULT = 50;
+// Below this the scores swing too much on a single sentence to be worth reporting
+const READABILITY_MIN_WORDS = 100;
+const HEADINGS_SUGGESTED_WORDS = 600;
+const MAX_LINKS_CHECKED = 100;
+
+const SEVERITY_ORDER: AuditSeverity[] = ['error', 'warning', 'info'];
+
+/**
+ * Readability, SEO, accessibility, structure and internal link checks on an article's
+ * rendered HTML. Each problem comes back as a finding with a severity; creators can have
+ * errors (or errors and warnings) block publishing with the audit_blocks_publish setting.
+ */
+export class ContentAuditService {
+  private article: Article;
+  private media: Media;
+  private renderer: ContentRenderer;
+
+  constructor(pool: Pool) {
+    this.article = new Article(pool);
+    this.media = new Media(pool);
+    this.renderer = new ContentRenderer();
+  }
+
+  async audit(article: ArticleData, blockLevel: AuditBlockLevel = 'off'): Promise<ContentAudit> {
+    const html = article.content_html || this.renderer.render(article.content, article.content_format || 'html').html;
+    const text = ContentRenderer.toPlainText(html);
+    const wordCount = ContentAuditService.words(text).length;
+    const findings: AuditFinding[] = [];
+
+    const english = (article.locale || DEFAULT_LOCALE).toLowerCase().startsWith('en');
+    const readability = english ? ContentAuditService.readability(ContentAuditService.proseText(html)) : null;
+    if (readability && readability.words >= READABILITY_MIN_WORDS) {
+      findings.push(...ContentAuditService.checkReadability(readability));
+    }
+
+    const title = article.seo_title || article.title || '';
+    const description = article.seo_description || article.excerpt || '';
+    const keywordDensity = ContentAuditService.keywordDensity(text, article.tags || []);
+    findings.push(...ContentAuditService.checkSEO(title, description, keywordDensity));
+
+    findings.push(...ContentAuditService.checkImages(html));
+    findings.push(...(await this.checkFeaturedImage(article)));
+    findings.push(...ContentAuditService.checkHeadings(html, wordCount));
+    findings.push(...ContentAuditService.checkParagraphs(html));
+    findings.push(...(await this.checkLinks(article, html)));
+
+    const sorted = findings
+      .map((finding, index) => ({ finding, index }))
+      .sort((a, b) => SEVERITY_ORDER.indexOf(a.finding.severity) - SEVERITY_ORDER.indexOf(b.finding.severity) || a.index - b.index)
+      .map(({ finding }) => finding);
+
+    return {
+      article_id: article.id!,
+      readability,
+      seo: {
+        title,
+        title_length: title.length,
+        description,
+        description_length: description.length,
+        keyword_density: keywordDensity
+      },
+      findings: sorted,
+      summary: {
+        error: sorted.filter(finding => finding.severity === 'error').length,
+        warning: sorted.filter(finding => finding.severity === 'warning').length,
+        info: sorted.filter(finding => finding.severity === 'info').length
+      },
+      blocks_publish: sorted.some(finding => ContentAuditService.blocks(finding, blockLevel)),
+      audited_at: new Date()
+    };
+  }
+
+  static blocks(finding: AuditFinding, level: AuditBlockLevel): boolean {
+    if (level === 'off') {
+      return false;
+    }
+    return finding.severity === 'error' || (level === 'warnings' && finding.severity === 'warning');
+  }
+
+  /**
+   * Flesch reading ease, Flesch-Kincaid grade level and Gunning fog index
+   */
+  static readability(text: string): ReadabilityScores {
+    const words = ContentAuditService.words(text).filter(word => /\p{L}/u.test(word));
+    const sentences = Math.max(1, ContentAuditService.sentences(text).length);
+    const syllables = words.map(word => ContentAuditService.countSyllables(word));
+    const totalSyllables = syllables.reduce((sum, count) => sum + count, 0);
+    const complexWords = syllables.filter(count => count >= 3).length;
+
+    const wordsPerSentence = words.length / sentences;
+    const syllablesPerWord = words.length === 0 ? 0 : totalSyllables / words.length;
+    const round = (value: number) => Math.round(value * 10) / 10;
+
+    return {
+      words: words.length,
+      sentences,
+      average_sentence_length: round(wordsPerSentence),
+      flesch_reading_ease: round(206.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord),
+      flesch_kincaid_grade: round(0.39 * wordsPerSentence + 11.8 * syllablesPerWord - 15.59),
+      gunning_fog: round(0.4 * (wordsPerSentence + (words.length === 0 ? 0 : 100 * complexWords / words.length)))
+    };
+  }
+
+  /**
+   * Vowel groups, less a silent final e; close enough for English prose
+   */
+  static countSyllables(word: string): number {
+    const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+    if (letters.length <= 3) {
+      return 1;
+    }
+
+    const groups = letters
+      .replace(/(?:[^laeiouy]es|[^laeiouy]ed|[^laeiouy]e)$/, '')
+      .replace(/^y/, '')
+      .match(/[aeiouy]{1,2}/g);
+
+    return Math.max(1, groups ? groups.length : 0);
+  }
+
+  static keywordDensity(text: string, tags: string[]): KeywordDensity[] {
+    const words = ContentAuditService.words(ContentAuditService.fold(text));
+    const seen = new Set<string>();
+
+    return tags
+      .map(tag => ContentAuditService.words(ContentAuditService.fold(tag)))
+      .filter(phrase => {
+        const key = phrase.join(' ');
+        if (phrase.length === 0 || seen.has(key)) {
+          return false;
+        }
+        seen.add(key);
+        return true;
+      })
+      .map(phrase => {
+        let occurrences = 0;
+        for (let i = 0; i + phrase.length <= words.length; i++) {
+          if (phrase.every((word, offset) => words[i + offset] === word)) {
+            occurrences++;
+          }
+        }
+
+        const density = words.length === 0 ? 0 : (occurrences * phrase.length * 100) / words.length;
+        return { keyword: phrase.join(' '), occurrences, density: Math.round(density * 100) / 100 };
+      });
+  }
+
+  static checkReadability(scores: ReadabilityScores): AuditFinding[] {
+    const findings: AuditFinding[] = [];
+
+    if (scores.flesch_reading_ease < READING_EASE_DIFFICULT) {
+      findings.push({
+        code: 'readability.difficult',
+        severity: 'warning',
+        message: `Flesch reading ease is ${scores.flesch_reading_ease} (very difficult, grade ${scores.flesch_kincaid_grade}). Shorter sentences and plainer words will bring it above ${READING_EASE_FAIRLY_DIFFICULT}.`
+      });
+    } else if (scores.flesch_reading_ease < READING_EASE_FAIRLY_DIFFICULT) {
+      findings.push({
+        code: 'readability.fairly_difficult',
+        severity: 'info',
+        message: `Flesch reading ease is ${scores.flesch_reading_ease} (fairly difficult, grade ${scores.flesch_kincaid_grade}). Fine for a specialist audience; aim for ${READING_EASE_FAIRLY_DIFFICULT} or more for a general one.`
+      });
+    }
+
+    if (scores.average_sentence_length > SENTENCE_MAX_AVERAGE) {
+      findings.push({
+        code: 'readability.long_sentences',
+        severity: 'warning',
+        message: `Sentences average ${scores.average_sentence_length} words. Split the longest ones to keep the average under ${SENTENCE_MAX_AVERAGE}.`
+      });
+    }
+
+    return findings;
+  }
+
+  static checkSEO(title: string, description: string, keywordDensity: KeywordDensity[]): AuditFinding[] {
+    const findings: AuditFinding[] = [];
+
+    if (title.length > SEO_TITLE_MAX) {
+      findings.push({
+        code: 'seo.title_too_long',
+        severity: 'warning',
+        message: `The search title is ${title.length} characters and will be cut off in search results. Keep it within ${SEO_TITLE_MAX}; set seo_title to shorten it without changing the headline.`,
+        context: title
+      });
+    } else if (title.length < SEO_TITLE_MIN) {
+      findings.push({
+        code: 'seo.title_too_short',
+        severity: 'info',
+        message: `The search title is only ${title.length} characters. A more descriptive seo_title of ${SEO_TITLE_MIN}-${SEO_TITLE_MAX} characters helps readers choose it in search results.`,
+        context: title
+      });
+    }
+
+    if (description.trim().length === 0) {
+      findings.push({
+        code: 'seo.description_missing',
+        severity: 'warning',
+        message: 'There is no meta description. Set seo_description or an excerpt so search results show a summary rather than a random snippet.'
+      });
+    } else if (description.length > DESCRIPTION_MAX) {
+      findings.push({
+        code: 'seo.description_too_long',
+        severity: 'warning',
+        message: `The meta description is ${description.length} characters and will be cut off in search results. Set seo_description to a summary of at most ${DESCRIPTION_MAX} characters.`,
+        context: description
+      });
+    } else if (description.length < DESCRIPTION_MIN) {
+      findings.push({
+        code: 'seo.description_too_short',
+        severity: 'info',
+        message: `The meta description is only ${description.length} characters. Aim for ${DESCRIPTION_MIN}-${DESCRIPTION_MAX}.`,
+        context: description
+      });
+    }
+
+    if (keywordDensity.length === 0) {
+      findings.push({
+        code: 'seo.no_tags',
+        severity: 'info',
+        message: 'The article has no tags. Tags are used as keywords and group the article with related ones.'
+      });
+    }
+
+    for (const keyword of keywordDensity) {
+      if (keyword.occurrences === 0) {
+        findings.push({
+          code: 'seo.keyword_missing',
+          severity: 'info',
+          message: `The tag "${keyword.keyword}" never appears in the text. Mention it where it fits naturally, or drop the tag.`,
+          context: keyword.keyword
+        });
+      } else if (keyword.density > KEYWORD_DENSITY_MAX) {
+        findings.push({
+          code: 'seo.keyword_stuffing',
+          severity: 'warning',
+          message: `"${keyword.keyword}" makes up ${keyword.density}% of the text. Above ${KEYWORD_DENSITY_MAX}% search engines may treat it as keyword stuffing; vary the wording.`,
+          context: keyword.keyword
+        });
+      }
+    }
+
+    return findings;
+  }
+
+  static checkImages(html: string): AuditFinding[] {
+    const findings: AuditFinding[] = [];
+
+    for (const [tag] of html.matchAll(/<img\b[^>]*>/gi)) {
+      const src = ContentAuditService.attribute(tag, 'src') || undefined;
+
+      if (!/\salt(?=[\s=/>])/i.test(tag)) {
+        findings.push({
+          code: 'accessibility.missing_alt',
+          severity: 'error',
+          message: 'An image has no alt text, so screen reader users cannot tell what it shows. Describe the image in a short phrase.',
+          context: src
+        });
+      } else if (!ContentAuditService.attribute(tag, 'alt')?.trim()) {
+        // alt="" is how HTML marks an image as decorative, so screen readers skip it on purpose
+        findings.push({
+          code: 'accessibility.decorative_image',
+          severity: 'info',
+          message: 'An image is marked as decorative (empty alt text), so screen readers skip it. If it shows something readers need, describe it.',
+          context: src
+        });
+      }
+    }
+
+    return findings;
+  }
+
+  /**
+   * The title is the page's h1, so body headings start at h2 and go down one level at a time
+   */
+  static checkHeadings(html: string, wordCount: number): AuditFinding[] {
+    const findings: AuditFinding[] = [];
+    let previousLevel = 1;
+    let headingCount = 0;
+
+    for (const [, levelText, inner] of html.matchAll(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi)) {
+      const level = parseInt(levelText);
+      const text = ContentRenderer.toPlainText(inner);
+      headingCount++;
+
+      if (text.length === 0) {
+        findings.push({
+          code: 'structure.heading_empty',
+          severity: 'warning',
+          message: `An h${level} heading is empty. Give it text or remove it.`
+        });
+      }
+
+      if (level === 1) {
+        findings.push({
+          code: 'structure.heading_h1',
+          severity: 'warning',
+          message: 'The article title is already the page\'s h1. Use h2 for top-level sections.',
+          context: text
+        });
+      } else if (level > previousLevel + 1) {
+        findings.push({
+          code: 'structure.heading_skipped',
+          severity: 'warning',
+          message: `An h${level} follows an h${previousLevel}, skipping a level. Make it an h${previousLevel + 1} so the outline stays navigable for screen readers.`,
+          context: text
+        });
+      }
+
+      previousLevel = level;
+    }
+
+    if (headingCount === 0 && wordCount > HEADINGS_SUGGESTED_WORDS) {
+      findings.push({
+        code: 'structure.no_headings',
+        severity: 'info',
+        message: `The article has ${wordCount} words and no headings. Section headings make long articles easier to scan and build the table of contents.`
+      });
+    }
+
+    return findings;
+  }
+
+  static checkParagraphs(html: string): AuditFinding[] {
+    const findings: AuditFinding[] = [];
+    let index = 0;
+
+    for (const [, inner] of html.matchAll(/<p\b[^>]*>([\s\S]*?)<\/p>/gi)) {
+      index++;
+      const words = ContentAuditService.words(ContentRenderer.toPlainText(inner));
+
+      if (words.length > PARAGRAPH_MAX_WORDS) {
+        findings.push({
+          code: 'structure.long_paragraph',
+          severity: 'warning',
+          message: `Paragraph ${index} has ${words.length} words. Split it into paragraphs of at most ${PARAGRAPH_MAX_WORDS} words; long blocks are hard to read on phones.`,
+          context: `${words.slice(0, 8).join(' ')}...`
+        });
+      }
+    }
+
+    return findings;
+  }
+
+  /**
+   * Checks links to other articles on this site and to anchors within the article.
+   * External links are left alone.
+   */
+  private async checkLinks(article: ArticleData, html: string): Promise<AuditFinding[]> {
+    const findings: AuditFinding[] = [];
+    const ids = new Set(Array.from(html.matchAll(/\sid="([^"]+)"/g), ([, id]) => id));
+    const frontendUrl = process.env.FRONTEND_URL || '';
+    const articleLinks = new Map<string, ArticleLink & { href: string; legacy: boolean }>();
+
+    for (const [tag] of html.matchAll(/<a\b[^>]*>/gi)) {
+      const href = (ContentAuditService.attribute(tag, 'href') || '').replace(/&amp;/g, '&');
+
+      if (href.startsWith('#')) {
+        const anchor = ContentAuditService.decode(href.substring(1));
+        if (anchor && !ids.has(anchor)) {
+          findings.push({
+            code: 'links.missing_anchor',
+            severity: 'warning',
+            message: `A link points to #${anchor}, which is not on this page. Link to an existing heading instead.`,
+            context: href
+          });
+        }
+        continue;
+      }
+
+      const path = href.startsWith('/articles/')
+        ? href
+        : frontendUrl && href.startsWith(`${frontendUrl}/articles/`) ? href.substring(frontendUrl.length) : null;
+      const segments = path ? path.substring('/articles/'.length).split(/[?#]/)[0].replace(/\/$/, '').split('/') : [];
+      const decoded = segments.map(segment => ContentAuditService.decode(segment));
+
+      if (path && (decoded.includes(null) || decoded.includes(''))) {
+        findings.push({
+          code: 'links.broken',
+          severity: 'error',
+          message: 'A link to another article is malformed. Copy the article\'s URL again.',
+          context: href
+        });
+      } else if (decoded.length <= 2 && articleLinks.size < MAX_LINKS_CHECKED) {
+        // Older URLs without the creator resolve on this creator's site
+        const [authorId, slug] = decoded.length === 2 ? decoded as string[] : [article.author_id, decoded[0]!];
+        articleLinks.set(`${authorId}/${slug}`, { author_id: authorId, slug, href, legacy: decoded.length === 1 });
+      }
+    }
+
+    if (articleLinks.size === 0) {
+      return findings;
+    }
+
+    const links = Array.from(articleLinks.values());
+    const [targets, renamed] = await Promise.all([
+      this.article.findByAuthorSlugs(links),
+      this.article.findByPreviousAuthorSlugs(links)
+    ]);
+
+    for (const link of links) {
+      const target = targets.find(candidate => candidate.author_id === link.author_id && candidate.slug === link.slug);
+
+      if (target && target.id !== article.id && (target.status !== 'published' || Article.isExpired(target))) {
+        findings.push({
+          code: 'links.unpublished',
+          severity: 'warning',
+          message: 'A link points to an article that is not published (or has expired), so readers will get a 404. Publish it first or remove the link.',
+          context: link.href
+        });
+        continue;
+      }
+
+      const current = target || renamed.find(candidate => candidate.author_id === link.author_id && candidate.previous_slug === link.slug);
+      if (current && (link.legacy || !target)) {
+        findings.push({
+          code: 'links.redirected',
+          severity: 'info',
+          message: `A link uses an old URL and goes through a redirect. Update it to ${Article.buildPublicUrl(current)}.`,
+          context: link.href
+        });
+        continue;
+      }
+
+      if (!current) {
+        findings.push({
+          code: 'links.broken',
+          severity: 'error',
+          message: 'A link points to an article that does not exist. Fix the URL or remove the link.',
+          context: link.href
+        });
+      }
+    }
+
+    return findings;
+  }
+
+  private async checkFeaturedImage(article: ArticleData): Promise<AuditFinding[]> {
+    if (!article.featured_image_id) {
+      return [];
+    }
+
+    const image = await this.media.findById(article.featured_image_id);
+    if (!image || (image.alt_text && image.alt_text.trim().length > 0)) {
+      return [];
+    }
+
+    return [{
+      code: 'accessibility.featured_image_alt',
+      severity: 'warning',
+      message: 'The featured image has no alt text. Add it in the media library; it is also used when the article is shared.',
+      context: image.url
+    }];
+  }
+
+  /**
+   * Body text without headings and code, with a sentence break after every block, so
+   * list items and captions without a full stop are not run together
+   */
+  static proseText(html: string): string {
+    return ContentRenderer.toPlainText(
+      html
+        .replace(/<pre\b[^>]*>[\s\S]*?<\/pre>/gi, ' ')
+        .replace(/<h([1-6])\b[^>]*>[\s\S]*?<\/h\1>/gi, ' ')
+        .replace(/<\/(?:p|li|blockquote|td|th|figcaption)>/gi, '. ')
+    );
+  }
+
+  static sentences(text: string): string[] {
+    return text
+      .split(/[.!?]+(?=\s|$)/)
+      .map(sentence => sentence.trim())
+      .filter(sentence => /\p{L}/u.test(sentence));
+  }
+
+  static words(text: string): string[] {
+    return text.match(/[\p{L}\p{N}]+(?:['’][\p{L}]+)*/gu) || [];
+  }
+
+  private static fold(text: string): string {
+    return text.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '');
+  }
+
+  private static attribute(tag: string, name: string): string | null {
+    const match = new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i').exec(tag);
+    return match ? match[1] ?? match[2] : null;
+  }
+
+  private static decode(value: string): string | null {
+    try {
+      return decodeURIComponent(value);
+    } catch {
+      return null;
+    }
+  }
+}
\ No newline at end of file
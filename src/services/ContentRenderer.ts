@@ -0,0 +1,465 @@
+import MarkdownIt from 'markdown-it';
+import markdownItFootnote from 'markdown-it-footnote';
+import sanitizeHtml from 'sanitize-html';
+import katex from 'katex';
+import { CitationFormatter, CitationStyle, CitableEntry, CitationItem } from './CitationFormatter';
+
+export type ContentFormat = 'markdown' | 'blocks' | 'html';
+
+export interface TocEntry {
+  level: number;
+  text: string;
+  anchor: string;
+}
+
+export interface RenderedContent {
+  html: string;
+  text: string;
+  toc: TocEntry[];
+  word_count: number;
+  reading_time: number;
+  unresolved_citations: string[];
+}
+
+export interface RenderOptions {
+  bibliography?: CitableEntry[];
+  citationStyle?: CitationStyle;
+}
+
+export type ContentBlock =
+  | { type: 'paragraph'; text: string }
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'list'; style?: 'ordered' | 'unordered'; items: string[] }
+  | { type: 'quote'; text: string; citation?: string }
+  | { type: 'code'; code: string; language?: string }
+  | { type: 'math'; tex: string }
+  | { type: 'image'; url: string; alt?: string; caption?: string }
+  | { type: 'divider' }
+  | { type: 'paywall' }
+  | { type: 'html'; html: string };
+
+export interface BlockDocument {
+  blocks: ContentBlock[];
+}
+
+const WORDS_PER_MINUTE = 225;
+
+// Creators mark where free content ends with this comment on a line of its own
+export const PAYWALL_MARKER = '<!-- paywall -->';
+const PAYWALL_MARKER_PATTERN = /<!--\s*paywall\s*-->/i;
+const PAYWALL_BREAK_HTML = '<hr class="paywall-break">';
+const PAYWALL_BREAK_PATTERN = /<hr class="paywall-break"\s*\/?>/;
+
+const MATHML_TAGS = [
+  'math', 'semantics', 'annotation', 'mrow', 'mi', 'mn', 'mo', 'ms', 'mtext', 'mspace', 'msup', 'msub',
+  'msubsup', 'mfrac', 'msqrt', 'mroot', 'mover', 'munder', 'munderover', 'mtable', 'mtr', 'mtd',
+  'mstyle', 'mpadded', 'mphantom', 'menclose', 'merror', 'mlabeledtr'
+];
+
+const MATHML_ATTRIBUTES = [
+  'xmlns', 'display', 'encoding', 'mathvariant', 'stretchy', 'fence', 'separator', 'lspace', 'rspace',
+  'accent', 'accentunder', 'movablelimits', 'minsize', 'maxsize', 'width', 'height', 'depth',
+  'linethickness', 'scriptlevel', 'displaystyle', 'columnalign', 'columnspacing', 'rowspacing',
+  'columnlines', 'rowlines', 'frame', 'notation', 'mathcolor', 'mathbackground', 'voffset'
+];
+
+const SANITIZE_OPTIONS: sanitizeHtml.IOptions = {
+  allowedTags: [
+    'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'p', 'br', 'hr', 'blockquote', 'pre', 'code',
+    'ul', 'ol', 'li', 'dl', 'dt', 'dd', 'strong', 'b', 'em', 'i', 'u', 's', 'del', 'ins',
+    'sub', 'sup', 'mark', 'small', 'abbr', 'cite', 'q', 'kbd', 'a', 'img', 'figure',
+    'figcaption', 'table', 'thead', 'tbody', 'tfoot', 'tr', 'th', 'td', 'caption', 'section', 'span', 'div',
+    ...MATHML_TAGS
+  ],
+  allowedAttributes: {
+    a: ['href', 'title', 'id', 'class', 'rel', 'target'],
+    img: ['src', 'alt', 'title', 'width', 'height', 'loading'],
+    code: ['class'],
+    sup: ['class', 'id'],
+    li: ['id', 'class'],
+    ol: ['class', 'start'],
+    hr: ['class'],
+    section: ['class'],
+    th: ['colspan', 'rowspan', 'style'],
+    td: ['colspan', 'rowspan', 'style'],
+    abbr: ['title'],
+    span: ['class', 'title'],
+    ...Object.fromEntries(MATHML_TAGS.map(tag => [tag, MATHML_ATTRIBUTES]))
+  },
+  allowedClasses: {
+    code: [/^language-[\w-]+$/],
+    sup: ['footnote-ref'],
+    a: ['footnote-backref', 'heading-anchor', 'citation'],
+    li: ['footnote-item'],
+    ol: ['footnotes-list'],
+    hr: ['footnotes-sep', 'paywall-break'],
+    section: ['footnotes', 'bibliography'],
+    span: ['katex', 'katex-error', 'citation-missing']
+  },
+  allowedStyles: {
+    th: { 'text-align': [/^(left|right|center)$/] },
+    td: { 'text-align': [/^(left|right|center)$/] }
+  },
+  allowedSchemes: ['http', 'https', 'mailto'],
+  parser: { lowerCaseAttributeNames: false },
+  allowedSchemesByTag: { img: ['http', 'https', 'data'] },
+  allowProtocolRelative: false,
+  transformTags: {
+    a: (tagName, attribs) => {
+      // Links leaving the page must not get access to window.opener
+      if (attribs.target === '_blank') {
+        attribs.rel = 'noopener noreferrer';
+      }
+      return { tagName, attribs };
+    }
+  }
+};
+
+type Markdown = ReturnType<typeof MarkdownIt>;
+type InlineRule = Parameters<Markdown['inline']['ruler']['after']>[2];
+type BlockRule = Parameters<Markdown['block']['ruler']['before']>[2];
+
+// A type alias rather than an interface so it satisfies markdown-it's indexable Env
+type RenderEnv = {
+  citations: CitationFormatter;
+};
+
+function renderMath(tex: string, displayMode: boolean): string {
+  // MathML needs no client-side script or fonts; invalid TeX renders as an inline error instead of failing the save
+  return katex.renderToString(tex, { displayMode, output: 'mathml', throwOnError: false });
+}
+
+/**
+ * Inline $...$ and display $$...$$ math. A dollar followed by a space or a closing
+ * dollar followed by a digit is left alone so prices like $5 and $10 stay text.
+ */
+const mathInline: InlineRule = (state, silent) => {
+  const start = state.pos;
+  if (state.src.charCodeAt(start) !== 0x24 /* $ */) return false;
+
+  const display = state.src.charCodeAt(start + 1) === 0x24;
+  const delimiter = display ? '$$' : '$';
+  const contentStart = start + delimiter.length;
+
+  if (!display && /\s/.test(state.src.charAt(contentStart))) return false;
+
+  let end = state.src.indexOf(delimiter, contentStart);
+  while (end !== -1 && state.src.charCodeAt(end - 1) === 0x5c /* \ */) {
+    end = state.src.indexOf(delimiter, end + 1);
+  }
+
+  if (end === -1 || end === contentStart) return false;
+  if (!display && (/\s/.test(state.src.charAt(end - 1)) || /\d/.test(state.src.charAt(end + 1)))) return false;
+
+  if (!silent) {
+    const token = state.push('math_inline', 'math', 0);
+    token.content = state.src.slice(contentStart, end);
+    token.meta = { display };
+  }
+
+  state.pos = end + delimiter.length;
+  return true;
+};
+
+const mathBlock: BlockRule = (state, startLine, endLine, silent) => {
+  const start = state.bMarks[startLine] + state.tShift[startLine];
+  const max = state.eMarks[startLine];
+
+  if (state.sCount[startLine] - state.blkIndent >= 4) return false;
+  if (state.src.slice(start, start + 2) !== '$$') return false;
+
+  const firstLine = state.src.slice(start + 2, max).trim();
+  const lines: string[] = [];
+  let nextLine = startLine;
+  let closed = false;
+
+  if (firstLine.endsWith('$$')) {
+    lines.push(firstLine.slice(0, -2));
+    closed = true;
+  } else {
+    lines.push(firstLine);
+  }
+
+  while (!closed) {
+    nextLine++;
+    if (nextLine >= endLine) break;
+
+    const line = state.src.slice(state.bMarks[nextLine] + state.tShift[nextLine], state.eMarks[nextLine]).trim();
+    if (line.endsWith('$$')) {
+      lines.push(line.slice(0, -2));
+      closed = true;
+    } else {
+      lines.push(line);
+    }
+  }
+
+  // Unterminated blocks fall through to the paragraph rule
+  if (!closed) return false;
+  if (silent) return true;
+
+  const token = state.push('math_block', 'math', 0);
+  token.block = true;
+  token.content = lines.filter(line => line.length > 0).join('\n');
+  token.map = [startLine, nextLine + 1];
+  state.line = nextLine + 1;
+  return true;
+};
+
+const mathPlugin = (md: Markdown): void => {
+  md.inline.ruler.after('escape', 'math_inline', mathInline);
+  md.block.ruler.before('fence', 'math_block', mathBlock, { alt: ['paragraph', 'reference', 'blockquote', 'list'] });
+  md.renderer.rules.math_inline = (tokens, idx) => renderMath(tokens[idx].content, Boolean(tokens[idx].meta?.display));
+  md.renderer.rules.math_block = (tokens, idx) => `<p>${renderMath(tokens[idx].content, true)}</p>\n`;
+};
+
+/**
+ * Pandoc-style citation clusters: [@key], [@key, p. 12], [@first; @second]
+ */
+const citationInline: InlineRule = (state, silent) => {
+  const start = state.pos;
+  if (state.src.charCodeAt(start) !== 0x5b /* [ */ || state.src.charCodeAt(start + 1) !== 0x40 /* @ */) return false;
+
+  const end = state.src.indexOf(']', start);
+  if (end === -1) return false;
+
+  const items: CitationItem[] = [];
+  for (const part of state.src.slice(start + 1, end).split(';')) {
+    const match = part.trim().match(/^@([\w:.\-/]+)(?:\s*,\s*(.+))?$/);
+    if (!match) return false;
+    items.push({ key: match[1], locator: match[2]?.trim() });
+  }
+
+  if (!silent) {
+    const token = state.push('citation', '', 0);
+    token.meta = { items };
+  }
+
+  state.pos = end + 1;
+  return true;
+};
+
+const citationPlugin = (md: Markdown): void => {
+  md.inline.ruler.before('link', 'citation', citationInline);
+  md.renderer.rules.citation = (tokens, idx, _options, env) => (env as RenderEnv).citations.cite(tokens[idx].meta?.items as CitationItem[]);
+};
+
+/**
+ * Renders stored article content (Markdown, JSON blocks or legacy HTML) into
+ * sanitized HTML with heading anchors, a table of contents, footnotes, math and citations.
+ */
+export class ContentRenderer {
+  private markdown: Markdown;
+
+  constructor() {
+    this.markdown = new MarkdownIt({ html: true, linkify: true })
+      .use(markdownItFootnote)
+      .use(mathPlugin)
+      .use(citationPlugin);
+  }
+
+  render(content: string, format: ContentFormat = 'markdown', options: RenderOptions = {}): RenderedContent {
+    const env: RenderEnv = {
+      citations: new CitationFormatter(options.citationStyle || 'apa', options.bibliography || [])
+    };
+    let rawHtml: string;
+
+    switch (format) {
+      case 'markdown':
+        rawHtml = this.markdown.render(content, env);
+        break;
+      case 'blocks':
+        rawHtml = this.markdown.render(ContentRenderer.blocksToMarkdown(ContentRenderer.parseBlocks(content)), env);
+        break;
+      case 'html':
+        rawHtml = content;
+        break;
+      default:
+        throw new Error(`Unsupported content format: ${format}`);
+    }
+
+    // Comments are stripped by the sanitizer, so the break survives as a marked rule.
+    // Only the first marker counts.
+    rawHtml = rawHtml.replace(PAYWALL_MARKER_PATTERN, PAYWALL_BREAK_HTML).replace(new RegExp(PAYWALL_MARKER_PATTERN, 'gi'), '');
+    rawHtml += env.citations.bibliographyHtml();
+
+    const { html, toc } = ContentRenderer.addHeadingAnchors(sanitizeHtml(rawHtml, SANITIZE_OPTIONS));
+    const text = ContentRenderer.toPlainText(html);
+    const word_count = text.split(/\s+/).filter(word => word.length > 0).length;
+
+    return {
+      html,
+      text,
+      toc,
+      word_count,
+      reading_time: Math.max(1, Math.ceil(word_count / WORDS_PER_MINUTE)),
+      unresolved_citations: env.citations.unresolvedKeys
+    };
+  }
+
+  static parseBlocks(content: string): ContentBlock[] {
+    let document: BlockDocument;
+    try {
+      document = JSON.parse(content);
+    } catch {
+      throw new Error('Invalid block content: must be valid JSON');
+    }
+
+    if (!document || !Array.isArray(document.blocks)) {
+      throw new Error('Invalid block content: expected an object with a blocks array');
+    }
+
+    return document.blocks;
+  }
+
+  /**
+   * Block text fields accept inline Markdown, so converting the document to
+   * Markdown gives blocks the same footnote and link handling as Markdown articles.
+   */
+  static blocksToMarkdown(blocks: ContentBlock[]): string {
+    return blocks.map(block => {
+      switch (block.type) {
+        case 'paragraph':
+          return block.text;
+        case 'heading': {
+          const level = Math.min(6, Math.max(1, Math.floor(block.level) || 2));
+          return `${'#'.repeat(level)} ${block.text.replace(/\n+/g, ' ')}`;
+        }
+        case 'list':
+          return block.items
+            .map((item, index) => (block.style === 'ordered' ? `${index + 1}. ` : '- ') + item.replace(/\n+/g, ' '))
+            .join('\n');
+        case 'quote': {
+          const lines = block.text.split('\n');
+          if (block.citation) lines.push('', `— ${block.citation}`);
+          return lines.map(line => `> ${line}`).join('\n');
+        }
+        case 'code': {
+          // Use a fence longer than any backtick run inside the code
+          const longestRun = Math.max(2, ...(block.code.match(/`+/g) || []).map(run => run.length));
+          const fence = '`'.repeat(longestRun + 1);
+          return `${fence}${block.language || ''}\n${block.code}\n${fence}`;
+        }
+        case 'image': {
+          const image = `<img src="${ContentRenderer.escapeAttribute(block.url)}" alt="${ContentRenderer.escapeAttribute(block.alt || '')}">`;
+          return block.caption
+            ? `<figure>${image}<figcaption>${ContentRenderer.escapeText(block.caption)}</figcaption></figure>`
+            : `<figure>${image}</figure>`;
+        }
+        case 'math':
+          return `$$\n${block.tex.trim()}\n$$`;
+        case 'divider':
+          return '---';
+        case 'paywall':
+          return PAYWALL_MARKER;
+        case 'html':
+          return block.html;
+        default:
+          throw new Error(`Invalid block content: unknown block type "${(block as { type: string }).type}"`);
+      }
+    }).join('\n\n');
+  }
+
+  /**
+   * Splits rendered HTML at the paywall break. Returns null when the article has none.
+   */
+  static splitAtPaywall(html: string): { free: string; gated: string } | null {
+    const match = PAYWALL_BREAK_PATTERN.exec(html);
+    if (!match) {
+      return null;
+    }
+
+    return {
+      free: html.substring(0, match.index).trimEnd(),
+      gated: html.substring(match.index + match[0].length).trimStart()
+    };
+  }
+
+  /**
+   * The stored source above the paywall marker, in the article's own format
+   */
+  static sourceBeforePaywall(content: string, format: ContentFormat = 'markdown'): string | null {
+    if (format === 'blocks') {
+      const blocks = ContentRenderer.parseBlocks(content);
+      const index = blocks.findIndex(block => block.type === 'paywall');
+      return index === -1 ? null : JSON.stringify({ blocks: blocks.slice(0, index) });
+    }
+
+    const match = PAYWALL_MARKER_PATTERN.exec(content);
+    return match ? content.substring(0, match.index).trimEnd() : null;
+  }
+
+  static addHeadingAnchors(html: string): { html: string; toc: TocEntry[] } {
+    const toc: TocEntry[] = [];
+    const used = new Map<string, number>();
+
+    const anchored = html.replace(/<h([1-6])>([\s\S]*?)<\/h\1>/g, (_match, level: string, inner: string) => {
+      const text = ContentRenderer.toPlainText(inner);
+      const base = ContentRenderer.slugifyHeading(text) || 'section';
+      const seen = used.get(base) || 0;
+      used.set(base, seen + 1);
+      const anchor = seen === 0 ? base : `${base}-${seen + 1}`;
+
+      toc.push({ level: parseInt(level), text, anchor });
+      return `<h${level} id="${anchor}">${inner}<a class="heading-anchor" href="#${anchor}" aria-hidden="true">#</a></h${level}>`;
+    });
+
+    return { html: anchored, toc };
+  }
+
+  static slugifyHeading(text: string): string {
+    return text
+      .toLowerCase()
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[^\p{L}\p{N}\s-]/gu, '')
+      .trim()
+      .replace(/[\s-]+/g, '-')
+      .substring(0, 80);
+  }
+
+  static toPlainText(html: string): string {
+    return ContentRenderer.decodeEntities(
+      html
+        .replace(/<a [^>]*class="(?:heading-anchor|footnote-backref)"[^>]*>[\s\S]*?<\/a>/g, '')
+        .replace(/<annotation\b[^>]*>[\s\S]*?<\/annotation>/g, '')
+        .replace(/<\/?(?:p|div|h[1-6]|li|blockquote|pre|tr|td|th|figcaption|section|br|hr)\b[^>]*>/gi, ' ')
+        .replace(/<[^>]*>/g, '')
+    )
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  /**
+   * The opening words of rendered HTML as a single paragraph, cut at a word boundary. Never
+   * more than a third of the text, so short articles are not previewed in full.
+   */
+  static previewParagraph(html: string, maxLength = 500): string {
+    const text = ContentRenderer.toPlainText(html);
+    const length = Math.min(maxLength, Math.floor(text.length / 3));
+    if (length === 0) {
+      return '';
+    }
+
+    const cut = text.lastIndexOf(' ', length);
+    return `<p>${ContentRenderer.escapeText(text.substring(0, cut > 0 ? cut : length))}...</p>`;
+  }
+
+  private static decodeEntities(text: string): string {
+    const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+      if (code[0] === '#') {
+        const point = code[1] === 'x' || code[1] === 'X' ? parseInt(code.substring(2), 16) : parseInt(code.substring(1), 10);
+        return Number.isFinite(point) && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+      }
+      return named[code.toLowerCase()] ?? entity;
+    });
+  }
+
+  private static escapeAttribute(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+  }
+
+  private static escapeText(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+}
\ No newline at end of file
@@ -0,0 +1,155 @@
+import { Pool } from 'pg';
+import { Article, ArticleData } from '../models/Article';
+import { ArticleDelivery, ArticleDeliveryData } from '../models/ArticleDelivery';
+import { SocialProviderRegistry } from '../integrations/social';
+import { EmailService } from './EmailService';
+
+export interface DeliveryServiceOptions {
+  socialProviders?: SocialProviderRegistry;
+  emailService?: EmailService;
+  maxAttempts?: number;
+}
+
+export interface DeliveryRunResult {
+  sent: number;
+  retried: number;
+  failed: number;
+}
+
+export interface RecoveryResult {
+  retried: number;
+  failed: number;
+}
+
+export class DeliveryService {
+  private pool: Pool;
+  private article: Article;
+  private delivery: ArticleDelivery;
+  private socialProviders: SocialProviderRegistry;
+  private emailService?: EmailService;
+  private maxAttempts: number;
+
+  constructor(pool: Pool, options: DeliveryServiceOptions = {}) {
+    this.pool = pool;
+    this.article = new Article(pool);
+    this.delivery = new ArticleDelivery(pool);
+    this.socialProviders = options.socialProviders || SocialProviderRegistry.fromEnv();
+    this.emailService = options.emailService;
+    this.maxAttempts = options.maxAttempts || 5;
+  }
+
+  async enqueueForArticle(article: ArticleData): Promise<ArticleDeliveryData[]> {
+    if (article.status !== 'published') {
+      return [];
+    }
+
+    if (article.notify_subscribers) {
+      await this.delivery.enqueue(article.id!, 'newsletter', 'sendgrid');
+    }
+
+    if (article.social_auto_post) {
+      for (const provider of this.socialProviders.names()) {
+        await this.delivery.enqueue(article.id!, 'social', provider);
+      }
+    }
+
+    return this.delivery.findByArticleId(article.id!);
+  }
+
+  async getDeliveries(articleId: string): Promise<ArticleDeliveryData[]> {
+    return this.delivery.findByArticleId(articleId);
+  }
+
+  async processPending(limit = 20, now: Date = new Date()): Promise<DeliveryRunResult> {
+    const results: DeliveryRunResult = { sent: 0, retried: 0, failed: 0 };
+
+    for (let i = 0; i < limit; i++) {
+      const delivery = await this.delivery.claimNext(now);
+      if (!delivery) break;
+
+      try {
+        const { externalId, externalUrl } = await this.deliver(delivery);
+        await this.delivery.markSent(delivery.id!, externalId, externalUrl);
+        results.sent++;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        const attempts = delivery.attempts || 1;
+
+        if (attempts < this.maxAttempts) {
+          // Exponential backoff: 2, 4, 8, ... minutes
+          const retryAt = new Date(now.getTime() + Math.pow(2, attempts) * 60 * 1000);
+          await this.delivery.markForRetry(delivery.id!, message, retryAt);
+          results.retried++;
+        } else {
+          await this.delivery.markFailed(delivery.id!, message);
+          results.failed++;
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Newsletters record each recipient as they go, so an interrupted send is retried and only
+   * reaches the subscribers it missed. A social post may already be live, so it is failed.
+   */
+  async recoverInterrupted(lockTimeoutMs: number, now: Date = new Date()): Promise<RecoveryResult> {
+    const lockedBefore = new Date(now.getTime() - lockTimeoutMs);
+
+    const retried = await this.delivery.requeueStale('newsletter', lockedBefore, this.maxAttempts);
+    const failed = await this.delivery.failStale(lockedBefore);
+
+    return { retried, failed };
+  }
+
+  async enqueueMissing(since: Date, limit = 50): Promise<number> {
+    const articleIds = await this.delivery.findArticlesMissingDeliveries(since, limit);
+
+    for (const articleId of articleIds) {
+      const article = await this.article.findById(articleId);
+      if (article) {
+        await this.enqueueForArticle(article);
+      }
+    }
+
+    return articleIds.length;
+  }
+
+  private async deliver(delivery: ArticleDeliveryData): Promise<{ externalId?: string; externalUrl?: string }> {
+    const article = await this.article.findById(delivery.article_id);
+    if (!article || article.status !== 'published') {
+      throw new Error('Article is no longer published');
+    }
+
+    const articleUrl = Article.buildPublicUrl(article);
+
+    if (delivery.channel === 'newsletter') {
+      await this.getEmailService().sendArticleNotification(article.id!, article.title, articleUrl);
+      return {};
+    }
+
+    const provider = this.socialProviders.get(delivery.provider);
+    if (!provider) {
+      throw new Error(`Social provider "${delivery.provider}" is not configured`);
+    }
+
+    const result = await provider.post({
+      articleId: article.id!,
+      title: article.title,
+      url: articleUrl,
+      excerpt: article.excerpt,
+      tags: article.tags
+    });
+
+    return { externalId: result.id, externalUrl: result.url };
+  }
+
+  private getEmailService(): EmailService {
+    // Created lazily because EmailService refuses to start without SendGrid credentials
+    if (!this.emailService) {
+      this.emailService = new EmailService(this.pool);
+    }
+    return this.emailService;
+  }
+}
\ No newline at end of file
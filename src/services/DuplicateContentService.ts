@@ -0,0 +1,292 @@
+import { Pool } from 'pg';
+import { Article, ArticleData } from '../models/Article';
+import { ArticleFingerprint, FingerprintedArticleData } from '../models/ArticleFingerprint';
+import { ContentRenderer } from './ContentRenderer';
+
+export interface DuplicateMatch {
+  id: string;
+  author_id: string;
+  title: string;
+  slug: string;
+  status: string;
+  published_at?: Date | null;
+  // Estimated Jaccard similarity of the two articles' shingle sets, 0-1
+  similarity: number;
+  same_author: boolean;
+}
+
+export interface DuplicatePair {
+  article: Omit<DuplicateMatch, 'similarity' | 'same_author'>;
+  duplicate: Omit<DuplicateMatch, 'similarity'>;
+  similarity: number;
+}
+
+export interface DuplicateSearchOptions {
+  threshold?: number;
+  limit?: number;
+}
+
+// Words per shingle; shorter shingles match on common phrases, longer ones miss light edits
+const SHINGLE_SIZE = 5;
+const SIGNATURE_SIZE = 128;
+// 32 bands of 4 rows: pairs at 0.5 similarity share a bucket ~87% of the time, at 0.6 ~99%
+const BAND_ROWS = 4;
+const CANDIDATE_LIMIT = 200;
+const REPORT_PAIR_LIMIT = 1000;
+
+export const MIN_DUPLICATE_THRESHOLD = 0.5;
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.6;
+// Overlap at which publishing warns the creator
+export const PUBLISH_WARNING_THRESHOLD = 0.8;
+
+// Seeds for the MinHash permutations. Stored signatures depend on them: changing these
+// (or the shingle size) means recomputing every fingerprint.
+const SEEDS = Array.from({ length: SIGNATURE_SIZE }, (_, index) => Math.imul(index + 1, 0x9e3779b9) >>> 0);
+
+/**
+ * Duplicate and near-duplicate detection across the catalog. Each article's body is cut
+ * into overlapping word shingles and summarised as a MinHash signature, stored with its
+ * LSH buckets whenever the content is created or edited. Lookups fetch articles sharing a
+ * bucket and compare full signatures, so the similarity is an estimate of how many
+ * shingles the two texts share, unaffected by formatting, case or accents.
+ */
+export class DuplicateContentService {
+  private article: Article;
+  private fingerprints: ArticleFingerprint;
+
+  constructor(pool: Pool) {
+    this.article = new Article(pool);
+    this.fingerprints = new ArticleFingerprint(pool);
+  }
+
+  /**
+   * (Re)computes an article's fingerprint and returns its signature. Articles too short to
+   * form a single shingle are not fingerprinted.
+   */
+  async indexArticle(article: ArticleData): Promise<number[] | null> {
+    const shingles = DuplicateContentService.shingle(DuplicateContentService.bodyText(article));
+    if (shingles.size === 0) {
+      await this.fingerprints.remove(article.id!);
+      return null;
+    }
+
+    const signature = DuplicateContentService.signature(shingles);
+    await this.fingerprints.save(article.id!, signature, DuplicateContentService.buckets(signature), shingles.size);
+
+    return signature;
+  }
+
+  /**
+   * Articles overlapping with the given one, most similar first. Other creators' articles
+   * are only compared once published.
+   */
+  async findNearDuplicates(article: ArticleData, signature: number[], options: DuplicateSearchOptions = {}): Promise<DuplicateMatch[]> {
+    const threshold = options.threshold ?? DEFAULT_DUPLICATE_THRESHOLD;
+    const candidates = await this.fingerprints.findCandidates(
+      article.id!,
+      DuplicateContentService.buckets(signature),
+      article.author_id,
+      CANDIDATE_LIMIT
+    );
+
+    return candidates
+      .map(candidate => ({
+        ...this.toSummary(candidate),
+        similarity: DuplicateContentService.similarity(signature, candidate.signature),
+        same_author: candidate.author_id === article.author_id
+      }))
+      .filter(match => match.similarity >= threshold)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, options.limit ?? 20);
+  }
+
+  async getDuplicates(articleId: string, userId: string, options: DuplicateSearchOptions = {}): Promise<DuplicateMatch[]> {
+    const article = await this.article.findById(articleId);
+    if (!article) {
+      throw new Error('Article not found');
+    }
+
+    if (article.author_id !== userId) {
+      throw new Error('Unauthorized: You can only check your own articles for duplicates');
+    }
+
+    const threshold = DuplicateContentService.parseThreshold(options.threshold);
+
+    // Articles written before fingerprinting existed are fingerprinted on first request
+    const fingerprint = await this.fingerprints.find(articleId);
+    const signature = fingerprint ? fingerprint.signature : await this.indexArticle(article);
+    if (!signature) {
+      return [];
+    }
+
+    return this.findNearDuplicates(article, signature, {
+      threshold,
+      limit: Math.min(Math.max(options.limit || 20, 1), 100)
+    });
+  }
+
+  /**
+   * Every pair of near-duplicates involving one of the creator's articles, most similar
+   * first. Each pair of the creator's own articles is listed once.
+   */
+  async getReport(userId: string, options: DuplicateSearchOptions = {}): Promise<DuplicatePair[]> {
+    const threshold = DuplicateContentService.parseThreshold(options.threshold);
+    const limit = Math.min(Math.max(options.limit || 50, 1), 200);
+
+    const pairs = await this.fingerprints.findCandidatePairs(userId, REPORT_PAIR_LIMIT);
+    if (pairs.length === 0) {
+      return [];
+    }
+
+    const ids = Array.from(new Set(pairs.flatMap(pair => [pair.article_id, pair.duplicate_id])));
+    const articles = new Map((await this.fingerprints.findByArticleIds(ids)).map(article => [article.id, article]));
+
+    const seen = new Set<string>();
+    const report: DuplicatePair[] = [];
+
+    for (const pair of pairs) {
+      const article = articles.get(pair.article_id);
+      const duplicate = articles.get(pair.duplicate_id);
+      if (!article || !duplicate) {
+        continue;
+      }
+
+      const key = [pair.article_id, pair.duplicate_id].sort().join(':');
+      if (seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+
+      const similarity = DuplicateContentService.similarity(article.signature, duplicate.signature);
+      if (similarity < threshold) {
+        continue;
+      }
+
+      report.push({
+        article: this.toSummary(article),
+        duplicate: { ...this.toSummary(duplicate), same_author: duplicate.author_id === userId },
+        similarity
+      });
+    }
+
+    return report.sort((a, b) => b.similarity - a.similarity).slice(0, limit);
+  }
+
+  /**
+   * The rendered body as plain text; the title is left out so a retitled copy still matches
+   */
+  static bodyText(article: Pick<ArticleData, 'content' | 'content_html'>): string {
+    return article.content_html ? ContentRenderer.toPlainText(article.content_html) : article.content;
+  }
+
+  static words(text: string): string[] {
+    return text
+      .toLowerCase()
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(word => word.length > 0);
+  }
+
+  /**
+   * Hashes of every run of SHINGLE_SIZE consecutive words
+   */
+  static shingle(text: string): Set<number> {
+    const words = DuplicateContentService.words(text);
+    const shingles = new Set<number>();
+
+    for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+      shingles.add(DuplicateContentService.hashString(words.slice(i, i + SHINGLE_SIZE).join(' ')));
+    }
+
+    return shingles;
+  }
+
+  /**
+   * The minimum of each seeded hash over the shingles, as signed 32-bit integers so the
+   * values fit an INTEGER column
+   */
+  static signature(shingles: Set<number>): number[] {
+    const minimums = new Array<number>(SIGNATURE_SIZE).fill(0xffffffff);
+
+    for (const shingle of shingles) {
+      for (let i = 0; i < SIGNATURE_SIZE; i++) {
+        const hash = DuplicateContentService.mix(shingle ^ SEEDS[i]);
+        if (hash < minimums[i]) {
+          minimums[i] = hash;
+        }
+      }
+    }
+
+    return minimums.map(value => value | 0);
+  }
+
+  /**
+   * One LSH bucket per band of BAND_ROWS signature values
+   */
+  static buckets(signature: number[]): number[] {
+    const buckets: number[] = [];
+
+    for (let start = 0; start < signature.length; start += BAND_ROWS) {
+      buckets.push(DuplicateContentService.hashString(signature.slice(start, start + BAND_ROWS).join(',')) | 0);
+    }
+
+    return buckets;
+  }
+
+  /**
+   * Share of signature positions that agree, rounded to two decimals
+   */
+  static similarity(a: number[], b: number[]): number {
+    if (a.length === 0 || a.length !== b.length) {
+      return 0;
+    }
+
+    const equal = a.filter((value, index) => value === b[index]).length;
+    return Math.round((equal / a.length) * 100) / 100;
+  }
+
+  // 32-bit FNV-1a
+  static hashString(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+
+  // MurmurHash3 finalizer: spreads every input bit over the whole output
+  static mix(value: number): number {
+    let hash = value;
+    hash ^= hash >>> 16;
+    hash = Math.imul(hash, 0x85ebca6b);
+    hash ^= hash >>> 13;
+    hash = Math.imul(hash, 0xc2b2ae35);
+    hash ^= hash >>> 16;
+    return hash >>> 0;
+  }
+
+  private static parseThreshold(threshold?: number): number {
+    if (threshold === undefined) {
+      return DEFAULT_DUPLICATE_THRESHOLD;
+    }
+
+    if (!Number.isFinite(threshold) || threshold < MIN_DUPLICATE_THRESHOLD || threshold > 1) {
+      throw new Error(`Invalid threshold: must be a number from ${MIN_DUPLICATE_THRESHOLD} to 1`);
+    }
+
+    return threshold;
+  }
+
+  private toSummary(article: FingerprintedArticleData): Omit<DuplicateMatch, 'similarity' | 'same_author'> {
+    return {
+      id: article.id,
+      author_id: article.author_id,
+      title: article.title,
+      slug: article.slug,
+      status: article.status,
+      published_at: article.published_at
+    };
+  }
+}
\ No newline at end of file
@@ -1,7 +1,8 @@
 import { Pool } from 'pg';
 import sgMail from '@sendgrid/mail';
-import { EmailCampaign, EmailCampaignData, CreateEmailCampaignData, UpdateEmailCampaignData, EmailCampaignStats } from '../models/EmailCampaign';
+import { EmailCampaign, EmailCampaignData, CreateEmailCampaignData, UpdateEmailCampaignData, EmailCampaignFilters, EmailCampaignStats } from '../models/EmailCampaign';
 import { Subscriber, SubscriberData, CreateSubscriberData, SubscriberFilters } from '../models/Subscriber';
+import { ArticleDelivery } from '../models/ArticleDelivery';
 
 export interface EmailTemplate {
   id: string;
@@ -57,6 +58,7 @@ export interface SendResult {
 export class EmailService {
   private emailCampaign: EmailCampaign;
   private subscriber: Subscriber;
+  private articleDelivery: ArticleDelivery;
   private pool: Pool;
   private sendgridApiKey: string;
 
@@ -64,6 +66,7 @@ export class EmailService {
     this.pool = pool;
     this.emailCampaign = new EmailCampaign(pool);
     this.subscriber = new Subscriber(pool);
+    this.articleDelivery = new ArticleDelivery(pool);
 
     // Initialize SendGrid
     this.sendgridApiKey = sendgridApiKey || process.env.SENDGRID_API_KEY || '';
@@ -144,8 +147,11 @@ export class EmailService {
     return campaign;
   }
 
-  async getCampaigns(creatorId: string): Promise<EmailCampaignData[]> {
-    return this.emailCampaign.findByCreatorId(creatorId);
+  async getCampaigns(
+    creatorId: string,
+    filters: EmailCampaignFilters = {}
+  ): Promise<{ campaigns: EmailCampaignData[]; total: number; next_cursor: string | null }> {
+    return this.emailCampaign.findMany({ ...filters, creator_id: creatorId });
   }
 
   async duplicateCampaign(campaignId: string, newName: string, creatorId?: string): Promise<EmailCampaignData | null> {
@@ -229,7 +235,9 @@ export class EmailService {
     return this.subscriber.unsubscribeByEmail(email);
   }
 
-  async getSubscribers(filters: SubscriberFilters = {}): Promise<{ subscribers: SubscriberData[]; total: number }> {
+  async getSubscribers(
+    filters: SubscriberFilters = {}
+  ): Promise<{ subscribers: SubscriberData[]; total: number; next_cursor: string | null }> {
     return this.subscriber.findMany(filters);
   }
 
@@ -442,6 +450,10 @@ export class EmailService {
     });
   }
 
+  /**
+   * Mails the article to active subscribers who have not received it yet. Every successful
+   * send is recorded, so when some fail and the delivery is retried only the rest are mailed.
+   */
   async sendArticleNotification(articleId: string, articleTitle: string, articleUrl: string): Promise<void> {
     // Send to active subscribers
     const { subscribers } = await this.subscriber.findMany({ status: 'active' });
@@ -449,9 +461,13 @@ export class EmailService {
     const template = await this.getArticleNotificationTemplate();
     if (!template || subscribers.length === 0) return;
 
+    const notified = new Set(await this.articleDelivery.findNewsletterRecipientIds(articleId));
+    const recipients = subscribers.filter(subscriber => !notified.has(subscriber.id!));
+    let failed = 0;
+
     const batchSize = 50;
-    for (let i = 0; i < subscribers.length; i += batchSize) {
-      const batch = subscribers.slice(i, i + batchSize);
+    for (let i = 0; i < recipients.length; i += batchSize) {
+      const batch = recipients.slice(i, i + batchSize);
 
       const batchPromises = batch.map(async (subscriber) => {
         const personalizedContent = this.personalizeContent(template.html_content, subscriber, {
@@ -463,7 +479,7 @@ export class EmailService {
           article_title: articleTitle
         });
 
-        return this.sendSingleEmail({
+        const result = await this.sendSingleEmail({
           to: subscriber.email,
           subject: personalizedSubject,
           html_content: personalizedContent,
@@ -473,15 +489,26 @@ export class EmailService {
             subscriber_id: subscriber.id!
           }
         });
+
+        if (result.status === 'failed') {
+          failed++;
+          return;
+        }
+
+        await this.articleDelivery.recordNewsletterRecipient(articleId, subscriber.id!, result.message_id);
       });
 
       await Promise.all(batchPromises);
 
       // Delay between batches
-      if (i + batchSize < subscribers.length) {
+      if (i + batchSize < recipients.length) {
         await new Promise(resolve => setTimeout(resolve, 500));
       }
     }
+
+    if (failed > 0) {
+      throw new Error(`Failed to send article notification to ${failed} of ${recipients.length} subscribers`);
+    }
   }
 
   // Webhook Handling for SendGrid Events
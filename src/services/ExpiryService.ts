@@ -0,0 +1,145 @@
+import { Pool } from 'pg';
+import { Article, ArticleData, ExpiryAction } from '../models/Article';
+import { ArticleExpiry, ArticleExpiryData } from '../models/ArticleExpiry';
+import { User } from '../models/User';
+import { EmailService } from './EmailService';
+import { RelatedArticlesService } from './RelatedArticlesService';
+
+export interface ExpiryServiceOptions {
+  emailService?: EmailService;
+}
+
+export const DEFAULT_EXPIRY_BANNER = 'This article has expired and may no longer be accurate.';
+
+const ACTION_LABELS: Record<ExpiryAction, string> = {
+  archive: 'archived',
+  unpublish: 'moved back to drafts',
+  banner: 'still online with an expiry banner'
+};
+
+export class ExpiryService {
+  private pool: Pool;
+  private article: Article;
+  private expiries: ArticleExpiry;
+  private user: User;
+  private related: RelatedArticlesService;
+  private emailService?: EmailService;
+
+  constructor(pool: Pool, options: ExpiryServiceOptions = {}) {
+    this.pool = pool;
+    this.article = new Article(pool);
+    this.expiries = new ArticleExpiry(pool);
+    this.user = new User(pool);
+    this.related = new RelatedArticlesService(pool);
+    this.emailService = options.emailService;
+  }
+
+  /**
+   * Runs the expiry action of published articles whose expires_at has passed and logs
+   * each one for the creator's report. Expired articles also leave related-article lists.
+   */
+  async expireDueArticles(now: Date = new Date(), limit = 50): Promise<ArticleData[]> {
+    const dueIds = await this.article.findDueExpiredIds(now, limit);
+    const expired: ArticleData[] = [];
+
+    for (const id of dueIds) {
+      // A null result means another worker got there first or the expiry was moved meanwhile
+      const claimedArticle = await this.article.claimExpired(id, now);
+      if (!claimedArticle) {
+        continue;
+      }
+
+      await this.related.removeArticle(id);
+      await this.expiries.create(claimedArticle);
+      expired.push(claimedArticle);
+    }
+
+    return expired;
+  }
+
+  /**
+   * Emails each creator one report of their articles that expired since the last one.
+   * Entries stay queued when sending fails, so the next run retries them.
+   */
+  async sendReports(limit = 200): Promise<number> {
+    const pending = await this.expiries.findUnnotified(limit);
+
+    const byAuthor = new Map<string, ArticleExpiryData[]>();
+    for (const entry of pending) {
+      byAuthor.set(entry.author_id, [...(byAuthor.get(entry.author_id) || []), entry]);
+    }
+
+    let sent = 0;
+    for (const [authorId, entries] of byAuthor) {
+      const ids = entries.map(entry => entry.id!);
+
+      try {
+        const creator = await this.user.findById(authorId);
+        if (!creator || !creator.email) {
+          // Nobody to tell; the entries still show up in the report endpoint
+          await this.expiries.markNotified(ids);
+          continue;
+        }
+
+        const result = await this.getEmailService().sendSingleEmail({
+          to: creator.email,
+          subject: entries.length === 1
+            ? `"${entries[0].title}" has expired`
+            : `${entries.length} of your articles have expired`,
+          html_content: `
+            <p>These articles reached their expiry date:</p>
+            <ul>${entries.map(entry => `<li>${escapeHtml(entry.title)}: ${ACTION_LABELS[entry.action]}</li>`).join('')}</ul>
+          `,
+          text_content: [
+            'These articles reached their expiry date:',
+            '',
+            ...entries.map(entry => `- ${entry.title}: ${ACTION_LABELS[entry.action]}`)
+          ].join('\n'),
+          custom_args: {
+            type: 'expiry_report',
+            creator_id: authorId
+          }
+        });
+
+        if (result.status === 'failed') {
+          console.error(`Failed to send expiry report to creator ${authorId}:`, result.error);
+          continue;
+        }
+
+        await this.expiries.markNotified(ids);
+        sent++;
+      } catch (error) {
+        console.error(`Failed to send expiry report to creator ${authorId}:`, error);
+      }
+    }
+
+    return sent;
+  }
+
+  async getReport(authorId: string, since?: Date, limit = 100): Promise<ArticleExpiryData[]> {
+    return this.expiries.findByAuthor(authorId, since, Math.min(limit, 500));
+  }
+
+  /**
+   * The notice readers see on an article that expired with the banner action, or null
+   */
+  static bannerFor(article: ArticleData, now: Date = new Date()): string | null {
+    if (article.expiry_action !== 'banner' || !Article.isExpired(article, now)) {
+      return null;
+    }
+
+    return article.expiry_banner || DEFAULT_EXPIRY_BANNER;
+  }
+
+  private getEmailService(): EmailService {
+    // Created lazily because EmailService refuses to start without SendGrid credentials
+    if (!this.emailService) {
+      this.emailService = new EmailService(this.pool);
+    }
+    return this.emailService;
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
\ No newline at end of file
@@ -0,0 +1,379 @@
+import { Pool } from 'pg';
+import crypto from 'crypto';
+import { Article, ArticleData } from '../models/Article';
+import { Media, MediaData } from '../models/Media';
+import {
+  ContentExport,
+  ContentExportData,
+  ExportManifestMedia,
+  ExportProgress
+} from '../models/ContentExport';
+import { StorageAdapter, createStorageAdapter } from '../integrations/storage';
+import { ContentRenderer } from './ContentRenderer';
+import { ZipArchive } from './ZipArchive';
+
+// Articles per part; each part also carries the media first referenced by its articles
+export const EXPORT_BATCH_SIZE = 25;
+
+// Errors such as a storage outage are retried; the saved progress is kept between attempts
+export const MAX_EXPORT_ATTEMPTS = 3;
+
+export const EXPORT_LINK_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Media library URLs end in media/<creatorId>/<mediaId>/<file>
+const MEDIA_ID_PATTERN = /media\/[0-9a-f-]{36}\/([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\//gi;
+
+export interface ExportRunResult {
+  completed: number;
+  failed: number;
+}
+
+// What creators see of an export; the progress record itself holds every file in the archive
+export interface ExportSummary {
+  id: string;
+  status: ContentExportData['status'];
+  article_count: number;
+  media_count: number;
+  size_bytes: number | null;
+  download_url: string | null;
+  expires_at: Date | null;
+  last_error: string | null;
+  created_at?: Date;
+  completed_at: Date | null;
+}
+
+export interface ExportDownload {
+  file_name: string;
+  size_bytes: number;
+  part_keys: string[];
+}
+
+export class ExportService {
+  private contentExport: ContentExport;
+  private article: Article;
+  private media: Media;
+  private storage: StorageAdapter;
+
+  constructor(pool: Pool, storage: StorageAdapter = createStorageAdapter()) {
+    this.contentExport = new ContentExport(pool);
+    this.article = new Article(pool);
+    this.media = new Media(pool);
+    this.storage = storage;
+  }
+
+  async requestExport(creatorId: string): Promise<ContentExportData> {
+    if (await this.contentExport.findUnfinished(creatorId)) {
+      throw new Error('An export is already in progress');
+    }
+
+    return this.contentExport.create(creatorId);
+  }
+
+  async getExports(creatorId: string): Promise<ContentExportData[]> {
+    return this.contentExport.findByCreator(creatorId);
+  }
+
+  async getExport(id: string, creatorId?: string): Promise<ContentExportData> {
+    const contentExport = await this.contentExport.findById(id);
+    if (!contentExport) {
+      throw new Error('Export not found');
+    }
+
+    if (creatorId && contentExport.creator_id !== creatorId) {
+      throw new Error('Unauthorized: You can only view your own exports');
+    }
+
+    return contentExport;
+  }
+
+  /**
+   * The stored parts of a finished export, in order. The link is the token, so it works
+   * without signing in until it expires.
+   */
+  async getDownload(token: string, now: Date = new Date()): Promise<ExportDownload> {
+    const contentExport = await this.contentExport.findByToken(token);
+    if (!contentExport || contentExport.status !== 'completed') {
+      throw new Error('Export not found');
+    }
+
+    if (contentExport.expires_at && new Date(contentExport.expires_at) <= now) {
+      throw new Error('Export link has expired');
+    }
+
+    const date = new Date(contentExport.completed_at || now).toISOString().substring(0, 10);
+
+    return {
+      file_name: `export-${date}.zip`,
+      size_bytes: contentExport.size_bytes || 0,
+      part_keys: Array.from({ length: contentExport.progress.parts }, (_, n) => ExportService.partKey(contentExport, n))
+    };
+  }
+
+  async readPart(key: string): Promise<Buffer> {
+    const part = await this.storage.get(key);
+    if (!part) {
+      throw new Error('Export file not found');
+    }
+
+    return part;
+  }
+
+  static summarize(contentExport: ContentExportData): ExportSummary {
+    const downloadable = contentExport.status === 'completed' && contentExport.download_token;
+
+    return {
+      id: contentExport.id!,
+      status: contentExport.status,
+      article_count: contentExport.progress.articles.length,
+      media_count: contentExport.progress.media.length,
+      size_bytes: contentExport.size_bytes ?? null,
+      download_url: downloadable ? `${process.env.API_URL || ''}/exports/download/${contentExport.download_token}` : null,
+      expires_at: contentExport.expires_at ?? null,
+      last_error: contentExport.last_error ?? null,
+      created_at: contentExport.created_at,
+      completed_at: contentExport.completed_at ?? null
+    };
+  }
+
+  async processPending(limit = 1, now: Date = new Date()): Promise<ExportRunResult> {
+    const results: ExportRunResult = { completed: 0, failed: 0 };
+
+    for (let i = 0; i < limit; i++) {
+      const contentExport = await this.contentExport.claimNext(now);
+      if (!contentExport) break;
+
+      try {
+        if (await this.runExport(contentExport, now)) {
+          results.completed++;
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        if ((contentExport.attempts || 0) < MAX_EXPORT_ATTEMPTS) {
+          await this.contentExport.markRetry(contentExport.id!, message);
+        } else {
+          await this.contentExport.markFailed(contentExport.id!, message);
+          await this.removeParts(contentExport);
+          results.failed++;
+        }
+      }
+    }
+
+    return results;
+  }
+
+  async recoverInterrupted(lockTimeoutMs: number, now: Date = new Date()): Promise<number> {
+    return this.contentExport.requeueStale(new Date(now.getTime() - lockTimeoutMs));
+  }
+
+  /**
+   * Deletes the files of exports whose download link has expired
+   */
+  async expireDownloads(now: Date = new Date(), limit = 20): Promise<number> {
+    const expired = await this.contentExport.findExpired(now, limit);
+
+    for (const contentExport of expired) {
+      await this.removeParts(contentExport);
+      await this.contentExport.markExpired(contentExport.id!);
+    }
+
+    return expired.length;
+  }
+
+  /**
+   * Writes the rest of the archive, one part per batch of articles, then the manifest and
+   * the ZIP central directory as the last part.
+   */
+  private async runExport(contentExport: ContentExportData, now: Date): Promise<boolean> {
+    const progress = contentExport.progress;
+
+    for (;;) {
+      const articles = await this.article.findForExport(contentExport.creator_id, progress.cursor, EXPORT_BATCH_SIZE);
+      if (articles.length === 0) break;
+
+      await this.writeBatch(contentExport, articles, progress, now);
+      if (!(await this.contentExport.saveProgress(contentExport.id!, progress))) {
+        // Taken for stale by another worker, which resumes from the last saved batch
+        return false;
+      }
+    }
+
+    const manifest = ZipArchive.writeEntry({
+      name: 'manifest.json',
+      data: Buffer.from(JSON.stringify(ExportService.buildManifest(contentExport, progress, now), null, 2))
+    }, progress.bytes, { modified: now });
+
+    const files = [...progress.files, manifest.directoryEntry];
+    const last = Buffer.concat([manifest.data, ZipArchive.writeCentralDirectory(files, progress.bytes + manifest.data.length)]);
+    await this.storage.put(ExportService.partKey(contentExport, progress.parts), last, 'application/zip');
+
+    const finished: ExportProgress = { ...progress, parts: progress.parts + 1, bytes: progress.bytes + last.length, files };
+
+    await this.contentExport.markCompleted(contentExport.id!, finished, {
+      token: crypto.randomBytes(32).toString('hex'),
+      expires_at: new Date(now.getTime() + EXPORT_LINK_TTL_MS),
+      size_bytes: finished.bytes
+    });
+
+    return true;
+  }
+
+  private async writeBatch(
+    contentExport: ContentExportData,
+    articles: ArticleData[],
+    progress: ExportProgress,
+    now: Date
+  ): Promise<void> {
+    const chunks: Buffer[] = [];
+    let offset = progress.bytes;
+
+    const add = (name: string, data: Buffer, options: { compress?: boolean; modified?: Date }) => {
+      const written = ZipArchive.writeEntry({ name, data }, offset, options);
+      chunks.push(written.data);
+      progress.files.push(written.directoryEntry);
+      offset += written.data.length;
+    };
+
+    const exported = new Set(progress.media.map(item => item.id));
+    const newIds = Array.from(new Set(articles.flatMap(article => ExportService.referencedMediaIds(article))))
+      .filter(id => !exported.has(id));
+
+    for (const media of await this.media.findByIds(contentExport.creator_id, newIds)) {
+      const entry: ExportManifestMedia = {
+        id: media.id,
+        filename: media.filename,
+        mime_type: media.mime_type,
+        alt_text: media.alt_text || undefined,
+        caption: media.caption || undefined,
+        files: []
+      };
+
+      for (const { key, url } of ExportService.mediaFiles(media)) {
+        const data = await this.storage.get(key);
+        if (!data) continue;
+
+        const path = `media/${media.id}/${key.split('/').pop()}`;
+        // Images are already compressed
+        add(path, data, { compress: false, modified: media.created_at ? new Date(media.created_at) : now });
+        entry.files.push({ path, url });
+      }
+
+      progress.media.push(entry);
+    }
+
+    for (const article of articles) {
+      const path = `articles/${article.slug || article.id}.md`;
+      const markdown = ExportService.toMarkdown(article, progress.media);
+
+      add(path, Buffer.from(markdown, 'utf8'), { modified: article.updated_at ? new Date(article.updated_at) : now });
+      progress.articles.push({
+        id: article.id!,
+        slug: article.slug || '',
+        title: article.title,
+        status: article.status,
+        path,
+        media: ExportService.referencedMediaIds(article).filter(id => progress.media.some(item => item.id === id))
+      });
+    }
+
+    await this.storage.put(ExportService.partKey(contentExport, progress.parts), Buffer.concat(chunks), 'application/zip');
+
+    progress.parts++;
+    progress.bytes = offset;
+    progress.cursor = articles[articles.length - 1].id!;
+  }
+
+  private async removeParts(contentExport: ContentExportData): Promise<void> {
+    for (let n = 0; n < contentExport.progress.parts; n++) {
+      try {
+        await this.storage.delete(ExportService.partKey(contentExport, n));
+      } catch (error) {
+        console.error(`Failed to delete export part ${n} of ${contentExport.id}:`, error);
+      }
+    }
+  }
+
+  static partKey(contentExport: ContentExportData, n: number): string {
+    return `exports/${contentExport.creator_id}/${contentExport.id}/part-${n}`;
+  }
+
+  /**
+   * The article as Markdown with YAML front matter. Block content is converted to
+   * Markdown; HTML content is kept as is, which Markdown allows. Links to media library
+   * files point at their copies in the archive.
+   */
+  static toMarkdown(article: ArticleData, media: ExportManifestMedia[]): string {
+    let body = article.content_format === 'blocks'
+      ? ContentRenderer.blocksToMarkdown(ContentRenderer.parseBlocks(article.content))
+      : article.content;
+
+    const featured = media.find(item => item.id === article.featured_image_id);
+    const localPath = (path: string) => `../${path}`;
+
+    for (const item of media) {
+      for (const file of item.files) {
+        body = body.split(file.url).join(localPath(file.path));
+      }
+    }
+
+    const frontMatter = ExportService.toYaml({
+      title: article.title,
+      slug: article.slug,
+      status: article.status,
+      content_format: article.content_format || 'markdown',
+      tags: article.tags || [],
+      is_premium: !!article.is_premium,
+      excerpt: article.excerpt,
+      seo_title: article.seo_title,
+      seo_description: article.seo_description,
+      featured_image: featured && featured.files.length > 0 ? localPath(featured.files[0].path) : article.featured_image_url,
+      created_at: article.created_at,
+      updated_at: article.updated_at,
+      published_at: article.published_at,
+      scheduled_at: article.scheduled_at
+    });
+
+    return `---\n${frontMatter}---\n\n${body.trim()}\n`;
+  }
+
+  /**
+   * Flat YAML mapping. Strings are written as double-quoted scalars, which JSON string
+   * syntax is a subset of; dates are unquoted so static site generators read them as dates.
+   */
+  static toYaml(fields: Record<string, string | number | boolean | Date | string[] | null | undefined>): string {
+    return Object.entries(fields)
+      .filter(([, value]) => value !== undefined && value !== null && value !== '')
+      .map(([key, value]) => {
+        if (value instanceof Date) {
+          return `${key}: ${value.toISOString()}\n`;
+        }
+        return `${key}: ${JSON.stringify(value)}\n`;
+      })
+      .join('');
+  }
+
+  static referencedMediaIds(article: ArticleData): string[] {
+    const ids = Array.from(article.content.matchAll(MEDIA_ID_PATTERN), match => match[1].toLowerCase());
+    if (article.featured_image_id) {
+      ids.unshift(article.featured_image_id);
+    }
+
+    return Array.from(new Set(ids));
+  }
+
+  private static mediaFiles(media: MediaData): { key: string; url: string }[] {
+    return [
+      { key: media.storage_key, url: media.url },
+      ...media.variants.map(variant => ({ key: variant.storage_key, url: variant.url }))
+    ];
+  }
+
+  private static buildManifest(contentExport: ContentExportData, progress: ExportProgress, now: Date) {
+    return {
+      version: 1,
+      creator_id: contentExport.creator_id,
+      exported_at: now.toISOString(),
+      articles: progress.articles,
+      media: progress.media
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,307 @@
+import { Pool } from 'pg';
+import crypto from 'crypto';
+import { Article } from '../models/Article';
+import { Series } from '../models/Series';
+import { User } from '../models/User';
+import { ArticleService, ArticleWithSEO } from './ArticleService';
+import { SeriesService } from './SeriesService';
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+export type FeedContentMode = 'full' | 'excerpt';
+export type FeedPremiumMode = 'truncate' | 'omit';
+
+export const FEED_FORMATS: FeedFormat[] = ['rss', 'atom', 'json'];
+
+export interface FeedOptions {
+  mode?: FeedContentMode;
+  premium?: FeedPremiumMode;
+  limit?: number;
+  tag?: string;
+  series_slug?: string;
+}
+
+export interface FeedItem {
+  id: string;
+  url: string;
+  title: string;
+  summary: string;
+  content_html?: string;
+  published: Date;
+  updated: Date;
+  tags: string[];
+  authors: string[];
+  is_truncated: boolean;
+}
+
+export interface FeedDocument {
+  title: string;
+  description: string;
+  home_page_url: string;
+  feed_url: string;
+  author: string;
+  updated: Date;
+  items: FeedItem[];
+}
+
+export interface RenderedFeed {
+  body: string;
+  content_type: string;
+  etag: string;
+  last_modified: Date;
+}
+
+const CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8'
+};
+
+const GENERATOR = 'Frogtales';
+
+export class FeedService {
+  private articleService: ArticleService;
+  private series: Series;
+  private user: User;
+
+  constructor(pool: Pool) {
+    this.articleService = new ArticleService(pool);
+    this.series = new Series(pool);
+    this.user = new User(pool);
+  }
+
+  /**
+   * Builds a creator feed, optionally narrowed to a tag or a series, from published articles
+   */
+  async buildFeed(creatorId: string, format: FeedFormat, options: FeedOptions = {}): Promise<RenderedFeed> {
+    if (!FEED_FORMATS.includes(format)) {
+      throw new Error('Invalid feed format: must be rss, atom or json');
+    }
+
+    const creator = await this.user.findById(creatorId);
+    if (!creator) {
+      throw new Error('Creator not found');
+    }
+
+    const mode = options.mode || 'full';
+    const premium = options.premium || 'truncate';
+    let title = creator.name;
+    let description = creator.bio || `Articles by ${creator.name}`;
+    let homePageUrl = User.buildProfileUrl(creatorId);
+    let seriesId: string | undefined;
+
+    if (options.series_slug) {
+      const series = await this.series.findBySlug(creatorId, options.series_slug);
+      if (!series) {
+        throw new Error('Series not found');
+      }
+
+      seriesId = series.id;
+      title = `${series.title} | ${creator.name}`;
+      description = series.description || description;
+      homePageUrl = SeriesService.buildPublicUrl(series);
+    } else if (options.tag) {
+      title = `${creator.name}: ${options.tag}`;
+      description = `Articles by ${creator.name} tagged "${options.tag}"`;
+    }
+
+    // Articles in a premium series are gated like premium articles, whichever feed lists them
+    const { articles } = await this.articleService.getArticles({
+      author_id: creatorId,
+      status: 'published',
+      tags: options.tag ? [options.tag] : undefined,
+      series_id: seriesId,
+      is_premium: premium === 'omit' ? false : undefined,
+      exclude_premium_series: premium === 'omit' || undefined,
+      limit: Math.min(options.limit || 20, 100),
+      sortBy: 'published_at',
+      sortOrder: 'desc',
+      exclude_expired: true
+    });
+
+    const items = articles
+      .map(article => FeedService.toFeedItem(
+        article,
+        mode,
+        Boolean(article.is_premium || article.in_premium_series),
+        (article.authors || []).map(author => author.name)
+      ))
+      .sort((a, b) => b.published.getTime() - a.published.getTime());
+
+    const updated = items.reduce(
+      (latest, item) => (item.updated > latest ? item.updated : latest),
+      new Date(creator.updated_at || 0)
+    );
+
+    const document: FeedDocument = {
+      title,
+      description,
+      home_page_url: homePageUrl,
+      feed_url: `${process.env.API_URL || ''}${FeedService.buildFeedPath(creatorId, format, options)}`,
+      author: creator.name,
+      updated,
+      items
+    };
+
+    const body = FeedService.render(document, format);
+
+    return {
+      body,
+      content_type: CONTENT_TYPES[format],
+      etag: `W/"${crypto.createHash('sha1').update(body).digest('hex')}"`,
+      last_modified: updated
+    };
+  }
+
+  /**
+   * Premium articles only ever expose their excerpt and a link back to the site
+   */
+  static toFeedItem(article: ArticleWithSEO, mode: FeedContentMode, truncate: boolean, authors: string[]): FeedItem {
+    const url = Article.buildPublicUrl(article);
+    const summary = article.excerpt || article.seo.description || '';
+
+    let contentHtml: string | undefined;
+    if (truncate) {
+      contentHtml = `<p>${escapeXml(summary)}</p><p><a href="${escapeXml(url)}">Subscribe to read the full article.</a></p>`;
+    } else if (mode === 'full') {
+      contentHtml = article.content_html;
+    }
+
+    return {
+      id: `urn:uuid:${article.id}`,
+      url,
+      title: article.title,
+      summary,
+      content_html: contentHtml,
+      published: new Date(article.published_at || article.created_at!),
+      updated: new Date(article.updated_at || article.published_at || article.created_at!),
+      tags: article.tags || [],
+      authors,
+      is_truncated: truncate
+    };
+  }
+
+  static buildFeedPath(creatorId: string, format: FeedFormat, options: Pick<FeedOptions, 'tag' | 'series_slug'> = {}): string {
+    if (options.series_slug) {
+      return `/feeds/${creatorId}/series/${encodeURIComponent(options.series_slug)}.${format}`;
+    }
+    if (options.tag) {
+      return `/feeds/${creatorId}/tags/${encodeURIComponent(options.tag)}.${format}`;
+    }
+    return `/feeds/${creatorId}.${format}`;
+  }
+
+  static render(document: FeedDocument, format: FeedFormat): string {
+    switch (format) {
+      case 'rss':
+        return FeedService.renderRss(document);
+      case 'atom':
+        return FeedService.renderAtom(document);
+      case 'json':
+        return FeedService.renderJsonFeed(document);
+    }
+  }
+
+  static renderRss(document: FeedDocument): string {
+    const items = document.items.map(item => [
+      '<item>',
+      `<title>${escapeXml(item.title)}</title>`,
+      `<link>${escapeXml(item.url)}</link>`,
+      `<guid isPermaLink="false">${escapeXml(item.id)}</guid>`,
+      `<pubDate>${item.published.toUTCString()}</pubDate>`,
+      ...item.authors.map(author => `<dc:creator>${escapeXml(author)}</dc:creator>`),
+      ...item.tags.map(tag => `<category>${escapeXml(tag)}</category>`),
+      `<description>${escapeXml(item.summary)}</description>`,
+      item.content_html !== undefined ? `<content:encoded>${cdata(item.content_html)}</content:encoded>` : '',
+      '</item>'
+    ].filter(Boolean).join(''));
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+      '<channel>',
+      `<title>${escapeXml(document.title)}</title>`,
+      `<link>${escapeXml(document.home_page_url)}</link>`,
+      `<description>${escapeXml(document.description)}</description>`,
+      `<atom:link href="${escapeXml(document.feed_url)}" rel="self" type="application/rss+xml"/>`,
+      `<lastBuildDate>${document.updated.toUTCString()}</lastBuildDate>`,
+      `<generator>${GENERATOR}</generator>`,
+      ...items,
+      '</channel>',
+      '</rss>'
+    ].join('\n');
+  }
+
+  static renderAtom(document: FeedDocument): string {
+    const entries = document.items.map(item => [
+      '<entry>',
+      `<id>${escapeXml(item.id)}</id>`,
+      `<title>${escapeXml(item.title)}</title>`,
+      `<link rel="alternate" type="text/html" href="${escapeXml(item.url)}"/>`,
+      `<published>${item.published.toISOString()}</published>`,
+      `<updated>${item.updated.toISOString()}</updated>`,
+      ...item.authors.map(author => `<author><name>${escapeXml(author)}</name></author>`),
+      ...item.tags.map(tag => `<category term="${escapeXml(tag)}"/>`),
+      `<summary type="text">${escapeXml(item.summary)}</summary>`,
+      item.content_html !== undefined ? `<content type="html">${escapeXml(item.content_html)}</content>` : '',
+      '</entry>'
+    ].filter(Boolean).join(''));
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<feed xmlns="http://www.w3.org/2005/Atom">',
+      `<id>${escapeXml(document.feed_url)}</id>`,
+      `<title>${escapeXml(document.title)}</title>`,
+      `<subtitle>${escapeXml(document.description)}</subtitle>`,
+      `<updated>${document.updated.toISOString()}</updated>`,
+      `<link rel="self" type="application/atom+xml" href="${escapeXml(document.feed_url)}"/>`,
+      `<link rel="alternate" type="text/html" href="${escapeXml(document.home_page_url)}"/>`,
+      `<author><name>${escapeXml(document.author)}</name></author>`,
+      `<generator>${GENERATOR}</generator>`,
+      ...entries,
+      '</feed>'
+    ].join('\n');
+  }
+
+  static renderJsonFeed(document: FeedDocument): string {
+    const feed = {
+      version: 'https://jsonfeed.org/version/1.1',
+      title: document.title,
+      home_page_url: document.home_page_url,
+      feed_url: document.feed_url,
+      description: document.description,
+      authors: [{ name: document.author }],
+      items: document.items.map(item => ({
+        id: item.id,
+        url: item.url,
+        title: item.title,
+        // JSON Feed requires content; excerpt-only items carry the summary as text
+        ...(item.content_html !== undefined ? { content_html: item.content_html } : { content_text: item.summary }),
+        summary: item.summary,
+        date_published: item.published.toISOString(),
+        date_modified: item.updated.toISOString(),
+        tags: item.tags,
+        authors: item.authors.map(name => ({ name }))
+      }))
+    };
+
+    return JSON.stringify(feed, null, 2);
+  }
+
+  static validateFormat(format: string): format is FeedFormat {
+    return FEED_FORMATS.includes(format as FeedFormat);
+  }
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function cdata(value: string): string {
+  // A literal ]]> would end the section early, so split it across two sections
+  return `<![CDATA[${value.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
\ No newline at end of file
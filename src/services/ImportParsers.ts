@@ -0,0 +1,365 @@
+import { ImportIssue, ImportSource } from '../models/ContentImport';
+import { ZipArchive, ZipEntry } from './ZipArchive';
+
+export interface ImportedPost {
+  // The post's id on the source platform, used to label issues when it has no slug
+  source_id: string;
+  title: string;
+  slug: string;
+  content_html: string;
+  excerpt?: string;
+  status: 'published' | 'draft';
+  published_at?: Date;
+  created_at?: Date;
+  tags: string[];
+  is_premium: boolean;
+  seo_title?: string;
+  seo_description?: string;
+}
+
+export interface ImportedSubscriber {
+  email: string;
+  name?: string;
+}
+
+export interface ParsedArchive {
+  posts: ImportedPost[];
+  subscribers: ImportedSubscriber[];
+  // Items left out while reading the archive, such as pages and trashed posts
+  skipped: ImportIssue[];
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: '\''
+};
+
+const BLOCK_TAG = /^<\/?(p|div|h[1-6]|ul|ol|li|blockquote|pre|table|figure|hr|img|iframe|!--)/i;
+
+/**
+ * Reads the export formats of other publishing platforms into one shape
+ */
+export class ImportParsers {
+  static parse(source: ImportSource, file: Buffer): ParsedArchive {
+    switch (source) {
+      case 'substack':
+        return ImportParsers.parseSubstack(ZipArchive.read(file));
+      case 'ghost':
+        return ImportParsers.parseGhost(file.toString('utf8'));
+      case 'wordpress':
+        return ImportParsers.parseWordPress(file.toString('utf8'));
+      default:
+        throw new Error('Invalid import source: must be substack, ghost or wordpress');
+    }
+  }
+
+  /**
+   * Substack export ZIP: posts.csv lists the posts, posts/<post_id>.html holds each
+   * body and email_list.*.csv the subscribers. A post_id is "<number>.<slug>".
+   */
+  static parseSubstack(entries: ZipEntry[]): ParsedArchive {
+    const files = new Map(entries.map(entry => [entry.name, entry.data]));
+    const postsCsv = Array.from(files.keys()).find(name => /(^|\/)posts\.csv$/.test(name));
+    if (!postsCsv) {
+      throw new Error('Invalid Substack export: posts.csv not found');
+    }
+
+    const posts: ImportedPost[] = [];
+    const skipped: ImportIssue[] = [];
+    const postsDir = postsCsv.replace(/posts\.csv$/, 'posts/');
+
+    for (const row of ImportParsers.parseCsv(files.get(postsCsv)!.toString('utf8'))) {
+      const postId = row.post_id || '';
+      const slug = postId.includes('.') ? postId.substring(postId.indexOf('.') + 1) : '';
+      const ref = slug || postId;
+      const html = files.get(`${postsDir}${postId}.html`);
+
+      if (!row.title) {
+        skipped.push({ type: 'article', ref, reason: 'Post has no title' });
+        continue;
+      }
+
+      if (!html) {
+        skipped.push({ type: 'article', ref, title: row.title, reason: 'Post body missing from the export' });
+        continue;
+      }
+
+      const published = row.is_published === 'true';
+      posts.push({
+        source_id: postId,
+        title: row.title,
+        slug,
+        content_html: html.toString('utf8'),
+        excerpt: row.subtitle || undefined,
+        status: published ? 'published' : 'draft',
+        published_at: published ? ImportParsers.parseDate(row.post_date) : undefined,
+        created_at: ImportParsers.parseDate(row.post_date),
+        tags: [],
+        is_premium: row.audience === 'only_paid' || row.audience === 'founding'
+      });
+    }
+
+    const subscribers: ImportedSubscriber[] = [];
+    for (const [name, data] of files) {
+      if (name === postsCsv || name.startsWith(postsDir) || !name.endsWith('.csv')) {
+        continue;
+      }
+
+      const rows = ImportParsers.parseCsv(data.toString('utf8'));
+      if (rows.length === 0 || !('email' in rows[0])) {
+        continue;
+      }
+
+      for (const row of rows) {
+        if (row.email_disabled === 'true') {
+          skipped.push({ type: 'subscriber', ref: row.email, reason: 'Email disabled on Substack' });
+          continue;
+        }
+
+        subscribers.push({ email: row.email, name: row.name || undefined });
+      }
+    }
+
+    return { posts, subscribers, skipped };
+  }
+
+  /**
+   * Ghost JSON export (Settings > Labs > Export). Older exports keep pages among the
+   * posts with type "page"; tags are joined through posts_tags.
+   */
+  static parseGhost(json: string): ParsedArchive {
+    let data: any;
+    try {
+      const parsed = JSON.parse(json);
+      data = parsed.db ? parsed.db[0]?.data : parsed.data;
+    } catch (error) {
+      throw new Error('Invalid Ghost export: not valid JSON');
+    }
+
+    if (!data || !Array.isArray(data.posts)) {
+      throw new Error('Invalid Ghost export: no posts found');
+    }
+
+    // Internal tags (#name) are Ghost's own markers, not topics
+    const tagNames = new Map<string, string>(
+      (data.tags || [])
+        .filter((tag: any) => tag.name && !tag.name.startsWith('#'))
+        .map((tag: any) => [tag.id, tag.name])
+    );
+
+    const postTags = new Map<string, string[]>();
+    const links = [...(data.posts_tags || [])].sort((a: any, b: any) => (a.sort_order || 0) - (b.sort_order || 0));
+    for (const link of links) {
+      const name = tagNames.get(link.tag_id);
+      if (name) {
+        postTags.set(link.post_id, [...(postTags.get(link.post_id) || []), name]);
+      }
+    }
+
+    const posts: ImportedPost[] = [];
+    const skipped: ImportIssue[] = [];
+
+    for (const post of data.posts) {
+      const ref = post.slug || post.id;
+
+      if (post.type === 'page') {
+        skipped.push({ type: 'article', ref, title: post.title, reason: 'Pages are not imported' });
+        continue;
+      }
+
+      if (!post.html) {
+        skipped.push({ type: 'article', ref, title: post.title, reason: 'Post has no HTML content' });
+        continue;
+      }
+
+      const published = post.status === 'published' || post.status === 'sent';
+      posts.push({
+        source_id: post.id,
+        title: post.title || '',
+        slug: post.slug || '',
+        content_html: post.html,
+        excerpt: post.custom_excerpt || undefined,
+        status: published ? 'published' : 'draft',
+        published_at: published ? ImportParsers.parseDate(post.published_at) : undefined,
+        created_at: ImportParsers.parseDate(post.created_at),
+        tags: postTags.get(post.id) || [],
+        is_premium: post.visibility === 'paid' || post.visibility === 'tiers',
+        seo_title: post.meta_title || undefined,
+        seo_description: post.meta_description || undefined
+      });
+    }
+
+    const subscribers: ImportedSubscriber[] = [];
+    for (const member of data.members || []) {
+      if (member.subscribed === false) {
+        skipped.push({ type: 'subscriber', ref: member.email, reason: 'Unsubscribed on Ghost' });
+        continue;
+      }
+
+      subscribers.push({ email: member.email, name: member.name || undefined });
+    }
+
+    return { posts, subscribers, skipped };
+  }
+
+  /**
+   * WordPress eXtended RSS (Tools > Export). Posts are imported; pages are reported as
+   * skipped and attachments, menus and other internal items are left out silently.
+   */
+  static parseWordPress(xml: string): ParsedArchive {
+    if (!/<rss[\s>]/.test(xml) || !xml.includes('wordpress.org/export/')) {
+      throw new Error('Invalid WordPress export: not a WXR file');
+    }
+
+    const posts: ImportedPost[] = [];
+    const skipped: ImportIssue[] = [];
+
+    for (const [, item] of xml.matchAll(/<item>([\s\S]*?)<\/item>/g)) {
+      const field = (tag: string) => ImportParsers.xmlText(item, tag);
+      const postType = field('wp:post_type');
+      const title = field('title');
+      const slug = field('wp:post_name');
+      const ref = slug || field('wp:post_id');
+      const status = field('wp:status');
+
+      if (postType === 'page') {
+        skipped.push({ type: 'article', ref, title, reason: 'Pages are not imported' });
+        continue;
+      }
+
+      if (postType !== 'post') {
+        continue;
+      }
+
+      if (status === 'trash') {
+        skipped.push({ type: 'article', ref, title, reason: 'Post is in the trash' });
+        continue;
+      }
+
+      const tags = Array.from(item.matchAll(/<category domain="(?:post_tag|category)"[^>]*>([\s\S]*?)<\/category>/g))
+        .map(([, name]) => ImportParsers.decodeXml(name).trim())
+        .filter(name => name && name !== 'Uncategorized');
+
+      const date = ImportParsers.parseWordPressDate(field('wp:post_date_gmt'));
+      const published = status === 'publish';
+
+      posts.push({
+        source_id: field('wp:post_id'),
+        title,
+        slug,
+        content_html: ImportParsers.autop(field('content:encoded')),
+        excerpt: field('excerpt:encoded') || undefined,
+        status: published ? 'published' : 'draft',
+        published_at: published ? date : undefined,
+        created_at: date,
+        tags: Array.from(new Set(tags)),
+        is_premium: false
+      });
+    }
+
+    return { posts, subscribers: [], skipped };
+  }
+
+  /**
+   * RFC 4180 CSV with a header row; quoted fields may contain commas, quotes and newlines
+   */
+  static parseCsv(text: string): Record<string, string>[] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let value = '';
+    let quoted = false;
+    const input = text.replace(/^\uFEFF/, '');
+
+    for (let i = 0; i < input.length; i++) {
+      const char = input[i];
+
+      if (quoted) {
+        if (char === '"' && input[i + 1] === '"') {
+          value += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          value += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ',') {
+        row.push(value);
+        value = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && input[i + 1] === '\n') i++;
+        row.push(value);
+        rows.push(row);
+        row = [];
+        value = '';
+      } else {
+        value += char;
+      }
+    }
+
+    if (value || row.length > 0) {
+      row.push(value);
+      rows.push(row);
+    }
+
+    const [header, ...records] = rows.filter(cells => cells.some(cell => cell !== ''));
+    if (!header) {
+      return [];
+    }
+
+    const columns = header.map(column => column.trim());
+    return records.map(cells => Object.fromEntries(columns.map((column, index) => [column, (cells[index] || '').trim()])));
+  }
+
+  private static xmlText(xml: string, tag: string): string {
+    const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`));
+    return match ? ImportParsers.decodeXml(match[1]).trim() : '';
+  }
+
+  private static decodeXml(value: string): string {
+    // CDATA sections are literal; "]]>" inside content is split across two sections
+    return value
+      .split(/(<!\[CDATA\[[\s\S]*?\]\]>)/)
+      .map(part => part.startsWith('<![CDATA[')
+        ? part.slice(9, -3)
+        : part.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+          if (code.startsWith('#x') || code.startsWith('#X')) return String.fromCodePoint(parseInt(code.slice(2), 16));
+          if (code.startsWith('#')) return String.fromCodePoint(parseInt(code.slice(1), 10));
+          return XML_ENTITIES[code] ?? entity;
+        }))
+      .join('');
+  }
+
+  /**
+   * WordPress stores classic-editor posts without paragraph tags and adds them on
+   * display; do the same for blocks of text separated by blank lines
+   */
+  private static autop(html: string): string {
+    if (/<p[\s>]/i.test(html)) {
+      return html;
+    }
+
+    return html
+      .split(/\n\s*\n/)
+      .map(block => block.trim())
+      .filter(block => block.length > 0)
+      .map(block => BLOCK_TAG.test(block) ? block : `<p>${block.replace(/\n/g, '<br>')}</p>`)
+      .join('\n');
+  }
+
+  private static parseDate(value?: string | null): Date | undefined {
+    if (!value) return undefined;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+
+  // "2019-05-04 09:30:00" in UTC; drafts carry "0000-00-00 00:00:00"
+  private static parseWordPressDate(value: string): Date | undefined {
+    if (!value || value.startsWith('0000')) return undefined;
+    return ImportParsers.parseDate(`${value.replace(' ', 'T')}Z`);
+  }
+}
\ No newline at end of file
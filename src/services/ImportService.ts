@@ -0,0 +1,391 @@
+import { Pool } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import { Article } from '../models/Article';
+import { Subscriber } from '../models/Subscriber';
+import { Tag } from '../models/Tag';
+import {
+  ContentImport,
+  ContentImportData,
+  ImportConflictStrategy,
+  ImportIssue,
+  ImportReport,
+  ImportSource,
+  IMPORT_CONFLICT_STRATEGIES,
+  IMPORT_SOURCES
+} from '../models/ContentImport';
+import { StorageAdapter, createStorageAdapter } from '../integrations/storage';
+import { ArticleService } from './ArticleService';
+import { ImportParsers, ImportedPost, ImportedSubscriber, ParsedArchive } from './ImportParsers';
+import { ZipArchive } from './ZipArchive';
+
+export const MAX_IMPORT_BYTES = 100 * 1024 * 1024;
+
+// Issue lists are capped so a large subscriber list cannot bloat the report
+export const MAX_REPORT_ISSUES = 1000;
+
+export interface ImportUpload {
+  originalname: string;
+  buffer: Buffer;
+  size: number;
+}
+
+export interface ImportOptions {
+  source: ImportSource;
+  dry_run?: boolean;
+  on_conflict?: ImportConflictStrategy;
+}
+
+export interface ImportRunResult {
+  completed: number;
+  failed: number;
+}
+
+export class ImportService {
+  private contentImport: ContentImport;
+  private article: Article;
+  private subscriber: Subscriber;
+  private articleService: ArticleService;
+  private storage: StorageAdapter;
+
+  constructor(pool: Pool, storage: StorageAdapter = createStorageAdapter()) {
+    this.contentImport = new ContentImport(pool);
+    this.article = new Article(pool);
+    this.subscriber = new Subscriber(pool);
+    this.articleService = new ArticleService(pool);
+    this.storage = storage;
+  }
+
+  /**
+   * Stores the uploaded export and queues it for the import worker
+   */
+  async createImport(creatorId: string, file: ImportUpload, options: ImportOptions): Promise<ContentImportData> {
+    if (!IMPORT_SOURCES.includes(options.source)) {
+      throw new Error('Invalid import source: must be substack, ghost or wordpress');
+    }
+
+    if (options.on_conflict && !IMPORT_CONFLICT_STRATEGIES.includes(options.on_conflict)) {
+      throw new Error('Invalid conflict strategy: must be skip or rename');
+    }
+
+    if (file.size > MAX_IMPORT_BYTES) {
+      throw new Error('Invalid import file: maximum 100 MB');
+    }
+
+    ImportService.verifyFileType(options.source, file.buffer);
+
+    const key = `imports/${creatorId}/${uuidv4()}/${options.source}-export`;
+    await this.storage.put(key, file.buffer, 'application/octet-stream');
+
+    return this.contentImport.create({
+      creator_id: creatorId,
+      source: options.source,
+      dry_run: options.dry_run,
+      on_conflict: options.on_conflict,
+      file_name: file.originalname.substring(0, 255),
+      storage_key: key
+    });
+  }
+
+  /**
+   * Queues the uploaded file again: a dry run for real, or a failed import to finish it
+   */
+  async rerunImport(
+    id: string,
+    creatorId: string,
+    options: Pick<ImportOptions, 'dry_run' | 'on_conflict'> = {}
+  ): Promise<ContentImportData> {
+    const existingImport = await this.getImport(id, creatorId);
+
+    if (existingImport.status === 'pending' || existingImport.status === 'processing') {
+      throw new Error('Invalid import: it has not finished yet');
+    }
+
+    if (existingImport.status === 'completed' && !existingImport.dry_run) {
+      throw new Error('Invalid import: it has already been imported');
+    }
+
+    if (options.on_conflict && !IMPORT_CONFLICT_STRATEGIES.includes(options.on_conflict)) {
+      throw new Error('Invalid conflict strategy: must be skip or rename');
+    }
+
+    if (!(await this.storage.get(existingImport.storage_key))) {
+      throw new Error('Import file not found; upload the export again');
+    }
+
+    return this.contentImport.create({
+      creator_id: existingImport.creator_id,
+      source: existingImport.source,
+      dry_run: options.dry_run || false,
+      on_conflict: options.on_conflict || existingImport.on_conflict,
+      file_name: existingImport.file_name,
+      storage_key: existingImport.storage_key
+    });
+  }
+
+  async getImports(creatorId: string): Promise<ContentImportData[]> {
+    return this.contentImport.findByCreator(creatorId);
+  }
+
+  async getImport(id: string, creatorId?: string): Promise<ContentImportData> {
+    const contentImport = await this.contentImport.findById(id);
+    if (!contentImport) {
+      throw new Error('Import not found');
+    }
+
+    if (creatorId && contentImport.creator_id !== creatorId) {
+      throw new Error('Unauthorized: You can only view your own imports');
+    }
+
+    return contentImport;
+  }
+
+  async processPending(limit = 1, now: Date = new Date()): Promise<ImportRunResult> {
+    const results: ImportRunResult = { completed: 0, failed: 0 };
+
+    for (let i = 0; i < limit; i++) {
+      const contentImport = await this.contentImport.claimNext(now);
+      if (!contentImport) break;
+
+      try {
+        const file = await this.storage.get(contentImport.storage_key);
+        if (!file) {
+          throw new Error('Import file not found; upload the export again');
+        }
+
+        const report = await this.runImport(contentImport, ImportParsers.parse(contentImport.source, file));
+        await this.contentImport.markCompleted(contentImport.id!, report);
+        results.completed++;
+
+        // A dry run keeps the file so it can be imported for real without another upload
+        if (!contentImport.dry_run && !(await this.contentImport.isFileInUse(contentImport.storage_key, contentImport.id!))) {
+          await this.storage.delete(contentImport.storage_key);
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        await this.contentImport.markFailed(contentImport.id!, message);
+        results.failed++;
+      }
+    }
+
+    return results;
+  }
+
+  async recoverInterrupted(lockTimeoutMs: number, now: Date = new Date()): Promise<number> {
+    return this.contentImport.failStale(new Date(now.getTime() - lockTimeoutMs));
+  }
+
+  /**
+   * Maps a parsed archive into articles, tags and subscribers. A dry run makes the same
+   * decisions without writing anything, so its report previews the real import.
+   */
+  async runImport(contentImport: ContentImportData, archive: ParsedArchive): Promise<ImportReport> {
+    const report: ImportReport = {
+      dry_run: contentImport.dry_run,
+      articles: { total: archive.posts.length, imported: 0, renamed: 0, skipped: 0 },
+      subscribers: { total: archive.subscribers.length, imported: 0, skipped: 0 },
+      tags: [],
+      conflicts: [],
+      skipped: []
+    };
+
+    for (const issue of archive.skipped) {
+      this.addIssue(report, 'skipped', issue);
+      report[issue.type === 'article' ? 'articles' : 'subscribers'].skipped++;
+    }
+    report.articles.total += report.articles.skipped;
+    report.subscribers.total += report.subscribers.skipped;
+
+    const takenSlugs = new Set(await this.article.findSlugsByAuthor(contentImport.creator_id));
+    const tags = new Map<string, string>();
+
+    for (const post of archive.posts) {
+      // Tags we cannot store are dropped rather than failing the whole post
+      const postTags = post.tags.filter(tag => Tag.validateName(tag)).slice(0, 10);
+
+      if (await this.importPost(contentImport, { ...post, tags: postTags }, takenSlugs, report)) {
+        for (const tag of postTags) {
+          if (!tags.has(Tag.generateSlug(tag))) {
+            tags.set(Tag.generateSlug(tag), tag);
+          }
+        }
+      }
+    }
+
+    report.tags = Array.from(tags.values()).sort((a, b) => a.localeCompare(b));
+
+    const seenEmails = new Set<string>();
+    for (const subscriber of archive.subscribers) {
+      await this.importSubscriber(contentImport, subscriber, seenEmails, report);
+    }
+
+    return report;
+  }
+
+  private async importPost(
+    contentImport: ContentImportData,
+    post: ImportedPost,
+    takenSlugs: Set<string>,
+    report: ImportReport
+  ): Promise<boolean> {
+    const title = post.title.trim();
+    let slug = ImportService.normalizeSlug(post.slug || title);
+    const ref = slug || post.source_id;
+
+    const skip = (reason: string) => {
+      this.addIssue(report, 'skipped', { type: 'article', ref, title, reason });
+      report.articles.skipped++;
+      return false;
+    };
+
+    if (!Article.validateTitle(title)) {
+      return skip('Title must be 1-200 characters');
+    }
+
+    if (!Article.validateContent(post.content_html)) {
+      return skip('Content must be 1-100,000 characters');
+    }
+
+    if (!slug) {
+      return skip('No usable slug');
+    }
+
+    if (takenSlugs.has(slug)) {
+      if (contentImport.on_conflict === 'skip') {
+        this.addIssue(report, 'conflicts', { type: 'article', ref: slug, title, reason: 'Slug already in use', resolution: 'skipped' });
+        report.articles.skipped++;
+        return false;
+      }
+
+      const renamed = ImportService.nextFreeSlug(slug, takenSlugs);
+      this.addIssue(report, 'conflicts', {
+        type: 'article',
+        ref: slug,
+        title,
+        reason: 'Slug already in use',
+        resolution: 'renamed',
+        new_slug: renamed
+      });
+      report.articles.renamed++;
+      slug = renamed;
+    }
+
+    if (!contentImport.dry_run) {
+      try {
+        const createdAt = post.created_at || post.published_at || new Date();
+        await this.articleService.createArticle({
+          author_id: contentImport.creator_id,
+          title,
+          content: post.content_html,
+          content_format: 'html',
+          excerpt: post.excerpt ? post.excerpt.substring(0, 500) : undefined,
+          is_premium: post.is_premium,
+          seo_title: post.seo_title ? post.seo_title.substring(0, 200) : undefined,
+          seo_description: post.seo_description ? post.seo_description.substring(0, 300) : undefined,
+          tags: post.tags
+        }, {
+          slug,
+          status: post.status,
+          published_at: post.status === 'published' ? post.published_at || createdAt : undefined,
+          created_at: createdAt
+        });
+      } catch (error) {
+        return skip(error instanceof Error ? error.message : 'Unknown error');
+      }
+    }
+
+    takenSlugs.add(slug);
+    report.articles.imported++;
+    return true;
+  }
+
+  private async importSubscriber(
+    contentImport: ContentImportData,
+    importedSubscriber: ImportedSubscriber,
+    seenEmails: Set<string>,
+    report: ImportReport
+  ): Promise<void> {
+    const email = (importedSubscriber.email || '').trim().toLowerCase();
+
+    if (!Subscriber.validateEmail(email)) {
+      this.addIssue(report, 'skipped', { type: 'subscriber', ref: email, reason: 'Invalid email address' });
+      report.subscribers.skipped++;
+      return;
+    }
+
+    if (seenEmails.has(email) || (await this.subscriber.findByEmail(email))) {
+      this.addIssue(report, 'conflicts', { type: 'subscriber', ref: email, reason: 'Already subscribed', resolution: 'skipped' });
+      report.subscribers.skipped++;
+      return;
+    }
+
+    seenEmails.add(email);
+
+    if (!contentImport.dry_run) {
+      await this.subscriber.create({
+        email,
+        name: importedSubscriber.name ? importedSubscriber.name.substring(0, 100) : undefined,
+        source: 'import',
+        tags: [`imported-${contentImport.source}`]
+      });
+    }
+
+    report.subscribers.imported++;
+  }
+
+  private addIssue(report: ImportReport, list: 'conflicts' | 'skipped', issue: ImportIssue): void {
+    if (report[list].length < MAX_REPORT_ISSUES) {
+      report[list].push(issue);
+    } else {
+      report.issues_truncated = true;
+    }
+  }
+
+  // Reject obviously wrong files at upload instead of failing later in the worker
+  static verifyFileType(source: ImportSource, file: Buffer): void {
+    const start = file.subarray(0, 512).toString('utf8').replace(/^\uFEFF/, '').trimStart();
+
+    if (source === 'substack' && !ZipArchive.isZip(file)) {
+      throw new Error('Invalid import file: a Substack export is a ZIP archive');
+    }
+
+    if (source === 'ghost' && !start.startsWith('{')) {
+      throw new Error('Invalid import file: a Ghost export is a JSON file');
+    }
+
+    if (source === 'wordpress' && !start.startsWith('<')) {
+      throw new Error('Invalid import file: a WordPress export is a WXR (XML) file');
+    }
+  }
+
+  /**
+   * Slugs follow the same rules as ours: lower-case letters, digits and hyphens,
+   * at most 100 characters. Percent-encoded and accented slugs lose what does not fit.
+   */
+  static normalizeSlug(value: string): string {
+    let decoded = value;
+    try {
+      decoded = decodeURIComponent(value);
+    } catch (error) {
+      // Not percent-encoded
+    }
+
+    return decoded
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+/, '')
+      .substring(0, 100)
+      .replace(/-+$/, '');
+  }
+
+  static nextFreeSlug(slug: string, taken: Set<string>): string {
+    for (let n = 2; ; n++) {
+      const suffix = `-${n}`;
+      const candidate = `${slug.substring(0, 100 - suffix.length).replace(/-+$/, '')}${suffix}`;
+      if (!taken.has(candidate)) {
+        return candidate;
+      }
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,243 @@
+import { Pool } from 'pg';
+import path from 'path';
+import sharp from 'sharp';
+import { v4 as uuidv4 } from 'uuid';
+import { Media, MediaData, MediaFilters, MediaVariant, UpdateMediaData } from '../models/Media';
+import { StorageAdapter, createStorageAdapter } from '../integrations/storage';
+
+export interface UploadedFile {
+  buffer: Buffer;
+  originalname: string;
+  mimetype: string;
+  size: number;
+}
+
+export interface UploadOptions {
+  alt_text?: string;
+  caption?: string;
+  focal_x?: number;
+  focal_y?: number;
+}
+
+export const ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+// Sharp format names for the accepted MIME types
+const IMAGE_FORMATS: Record<string, string> = {
+  jpeg: 'jpg',
+  png: 'png',
+  webp: 'webp',
+  gif: 'gif'
+};
+
+// Widths of the generated WebP renditions, smallest first
+const VARIANT_WIDTHS: Array<[string, number]> = [
+  ['thumbnail', 320],
+  ['medium', 768],
+  ['large', 1280],
+  ['xlarge', 1920]
+];
+
+const WEBP_QUALITY = 82;
+
+export class MediaService {
+  private media: Media;
+  private storage: StorageAdapter;
+
+  constructor(pool: Pool, storage: StorageAdapter = createStorageAdapter()) {
+    this.media = new Media(pool);
+    this.storage = storage;
+  }
+
+  /**
+   * Stores an uploaded image with its metadata stripped, plus WebP renditions at the
+   * variant widths. Images are never enlarged, so small uploads get fewer variants.
+   */
+  async upload(creatorId: string, file: UploadedFile, options: UploadOptions = {}): Promise<MediaData> {
+    if (!ALLOWED_IMAGE_TYPES.includes(file.mimetype)) {
+      throw new Error(`Invalid file type: allowed types are ${ALLOWED_IMAGE_TYPES.join(', ')}`);
+    }
+
+    if (file.size > MAX_UPLOAD_BYTES) {
+      throw new Error(`Invalid file: maximum size is ${MAX_UPLOAD_BYTES / (1024 * 1024)}MB`);
+    }
+
+    this.validateDetails(options);
+
+    // The declared type is only a hint; trust what the decoder finds
+    let metadata: sharp.Metadata;
+    try {
+      metadata = await sharp(file.buffer).metadata();
+    } catch {
+      throw new Error('Invalid image: file could not be read');
+    }
+
+    const extension = metadata.format ? IMAGE_FORMATS[metadata.format] : undefined;
+    if (!extension || !metadata.width || !metadata.height) {
+      throw new Error('Invalid image: unsupported or corrupt file');
+    }
+
+    const id = uuidv4();
+    const prefix = `media/${creatorId}/${id}`;
+
+    // Apply EXIF rotation and drop the EXIF block (camera details, GPS) from the stored original
+    const original = await sharp(file.buffer, { animated: true }).rotate().toBuffer({ resolveWithObject: true });
+    const stored = await this.storage.put(`${prefix}/original.${extension}`, original.data, `image/${metadata.format}`);
+
+    const variants: MediaVariant[] = [];
+    try {
+      for (const [name, width] of VARIANT_WIDTHS) {
+        const targetWidth = Math.min(width, original.info.width);
+        if (variants.some(variant => variant.width === targetWidth)) {
+          continue;
+        }
+
+        const rendition = await sharp(original.data, { animated: true })
+          .resize({ width: targetWidth, withoutEnlargement: true })
+          .webp({ quality: WEBP_QUALITY })
+          .toBuffer({ resolveWithObject: true });
+
+        const key = `${prefix}/${name}.webp`;
+        const storedVariant = await this.storage.put(key, rendition.data, 'image/webp');
+
+        variants.push({
+          name,
+          width: rendition.info.width,
+          height: rendition.info.pageHeight || rendition.info.height,
+          format: 'webp',
+          storage_key: key,
+          url: storedVariant.url,
+          size_bytes: rendition.info.size
+        });
+      }
+
+      return await this.media.create({
+        id,
+        creator_id: creatorId,
+        storage_key: stored.key,
+        url: stored.url,
+        filename: MediaService.sanitizeFilename(file.originalname),
+        mime_type: `image/${metadata.format}`,
+        size_bytes: stored.size,
+        width: original.info.width,
+        height: original.info.pageHeight || original.info.height,
+        alt_text: options.alt_text?.trim(),
+        caption: options.caption?.trim(),
+        focal_x: options.focal_x,
+        focal_y: options.focal_y,
+        variants
+      });
+    } catch (error) {
+      // Don't leave orphaned files behind when a later step fails
+      await this.removeFiles([stored.key, ...variants.map(variant => variant.storage_key)]);
+      throw error;
+    }
+  }
+
+  async getMedia(id: string, creatorId?: string): Promise<MediaData> {
+    const media = await this.media.findById(id);
+    if (!media) {
+      throw new Error('Media not found');
+    }
+
+    if (creatorId && media.creator_id !== creatorId) {
+      throw new Error('Unauthorized: You can only access your own media');
+    }
+
+    return media;
+  }
+
+  async getLibrary(creatorId: string, filters: MediaFilters = {}): Promise<{ media: MediaData[]; total: number }> {
+    return this.media.findByCreator(creatorId, {
+      ...filters,
+      limit: Math.min(filters.limit || 20, 100)
+    });
+  }
+
+  async updateMedia(id: string, updateData: UpdateMediaData, creatorId?: string): Promise<MediaData> {
+    await this.getMedia(id, creatorId);
+    this.validateDetails(updateData);
+
+    const updated = await this.media.update(id, {
+      ...updateData,
+      alt_text: typeof updateData.alt_text === 'string' ? updateData.alt_text.trim() : updateData.alt_text,
+      caption: typeof updateData.caption === 'string' ? updateData.caption.trim() : updateData.caption
+    });
+    if (!updated) {
+      throw new Error('Media not found');
+    }
+
+    return updated;
+  }
+
+  /**
+   * Removes the record and its files. Articles and profiles using the image lose it.
+   */
+  async deleteMedia(id: string, creatorId?: string): Promise<void> {
+    const media = await this.getMedia(id, creatorId);
+
+    await this.media.delete(id);
+    await this.removeFiles([media.storage_key, ...media.variants.map(variant => variant.storage_key)]);
+  }
+
+  /**
+   * Resolves an image reference for an article or profile. Only images from the
+   * creator's own library can be used.
+   */
+  async getImageForCreator(mediaId: string, creatorId: string): Promise<MediaData> {
+    const media = await this.media.findById(mediaId);
+    if (!media) {
+      throw new Error('Invalid image: unknown media id');
+    }
+
+    if (media.creator_id !== creatorId) {
+      throw new Error('Invalid image: must be from your media library');
+    }
+
+    return media;
+  }
+
+  async getFile(key: string): Promise<Buffer | null> {
+    // Storage also holds private files such as uploaded imports and exports; only media is
+    // public. Keys arrive URL-decoded, so "media/..%2Fexports" must not count as media.
+    const normalized = path.posix.normalize(key);
+    if (key.includes('\\') || normalized.startsWith('/') || normalized.split('/').includes('..')) {
+      return null;
+    }
+
+    if (!normalized.startsWith('media/')) {
+      return null;
+    }
+
+    return this.storage.get(normalized);
+  }
+
+  private validateDetails(details: UploadOptions | UpdateMediaData): void {
+    if (details.alt_text && !Media.validateAltText(details.alt_text)) {
+      throw new Error('Invalid alt text: maximum 500 characters');
+    }
+
+    if (details.focal_x !== undefined && !Media.validateFocalPoint(details.focal_x)) {
+      throw new Error('Invalid focal point: focal_x must be between 0 and 1');
+    }
+
+    if (details.focal_y !== undefined && !Media.validateFocalPoint(details.focal_y)) {
+      throw new Error('Invalid focal point: focal_y must be between 0 and 1');
+    }
+  }
+
+  private async removeFiles(keys: string[]): Promise<void> {
+    for (const key of keys) {
+      try {
+        await this.storage.delete(key);
+      } catch (error) {
+        console.error(`Failed to delete stored file ${key}:`, error);
+      }
+    }
+  }
+
+  static sanitizeFilename(filename: string): string {
+    const name = filename.split(/[\\/]/).pop() || '';
+    return name.replace(/[^\w.\- ]/g, '_').substring(0, 255) || 'upload';
+  }
+}
\ No newline at end of file
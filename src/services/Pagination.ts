@@ -0,0 +1,180 @@
+export type SortOrder = 'asc' | 'desc';
+
+export interface SortColumn {
+  column: string;
+  // NULLs sort last in either direction
+  nullable?: boolean;
+}
+
+export interface PageOptions<TSort extends string = string> {
+  limit?: number;
+  offset?: number;
+  // next_cursor of the previous page; an empty string asks for the first page in cursor mode
+  cursor?: string;
+  sortBy?: TSort;
+  sortOrder?: SortOrder;
+}
+
+export interface PageQuery {
+  // Extra select list entry carrying the sort value the next cursor is made from
+  select: string;
+  // Keyset condition to AND onto the WHERE clause; empty outside cursor mode
+  where: string;
+  orderBy: string;
+  limit: string;
+  sortBy: string;
+  sortOrder: SortOrder;
+  pageSize?: number;
+}
+
+interface CursorPayload {
+  s: string;
+  o: SortOrder;
+  v: string | null;
+  id: string;
+}
+
+const SORT_KEY = 'sort_key';
+
+export class Pagination {
+  /**
+   * ORDER BY, LIMIT and, for a cursor, the keyset condition of a list query. Rows are
+   * ordered by the sort column and then by id, so rows with equal sort values keep a
+   * stable position for the cursor to resume from. Call it after the count query: it
+   * adds its parameters to `values`.
+   */
+  static build<TSort extends string>(
+    sorts: Record<TSort, SortColumn>,
+    defaultSort: TSort,
+    options: PageOptions<TSort>,
+    values: any[],
+    idColumn = 'id'
+  ): PageQuery {
+    const sortBy = options.sortBy || defaultSort;
+    const sortOrder = options.sortOrder || 'desc';
+
+    if (!Object.prototype.hasOwnProperty.call(sorts, sortBy)) {
+      throw new Error(`Invalid sortBy: use one of ${Object.keys(sorts).join(', ')}`);
+    }
+
+    if (sortOrder !== 'asc' && sortOrder !== 'desc') {
+      throw new Error('Invalid sortOrder: use asc or desc');
+    }
+
+    const { column, nullable } = sorts[sortBy];
+    const direction = sortOrder.toUpperCase();
+    const nulls = nullable ? ' NULLS LAST' : '';
+
+    let where = '';
+    if (options.cursor) {
+      const cursor = Pagination.decodeCursor(options.cursor);
+      if (cursor.s !== sortBy || cursor.o !== sortOrder) {
+        throw new Error('Invalid cursor: it was issued for a different sort order');
+      }
+
+      const comparison = sortOrder === 'asc' ? '>' : '<';
+      values.push(cursor.id);
+      const idParam = `$${values.length}`;
+
+      if (cursor.v === null) {
+        // Only NULLs are left, ordered by id
+        where = ` AND (${column} IS NULL AND ${idColumn} ${comparison} ${idParam})`;
+      } else {
+        values.push(cursor.v);
+        const valueParam = `$${values.length}`;
+        where = ` AND (${column} ${comparison} ${valueParam} OR (${column} = ${valueParam} AND ${idColumn} ${comparison} ${idParam})` +
+          `${nullable ? ` OR ${column} IS NULL` : ''})`;
+      }
+    }
+
+    // One extra row tells whether there is a next page
+    let limit = '';
+    if (options.limit) {
+      values.push(options.limit + 1);
+      limit += ` LIMIT $${values.length}`;
+    }
+
+    if (options.offset && options.cursor === undefined) {
+      values.push(options.offset);
+      limit += ` OFFSET $${values.length}`;
+    }
+
+    return {
+      // The value as text keeps timestamps at full (microsecond) precision in the cursor
+      select: `, (${column})::text AS ${SORT_KEY}`,
+      where,
+      orderBy: `ORDER BY ${column} ${direction}${nulls}, ${idColumn} ${direction}`,
+      limit,
+      sortBy,
+      sortOrder,
+      pageSize: options.limit
+    };
+  }
+
+  /**
+   * Trims the extra row fetched by build() and makes the cursor for the next page
+   */
+  static page<T extends { id?: string }>(rows: T[], query: PageQuery): { rows: T[]; next_cursor: string | null } {
+    const hasMore = query.pageSize !== undefined && rows.length > query.pageSize;
+    const pageRows = hasMore ? rows.slice(0, query.pageSize) : rows;
+    const last = pageRows[pageRows.length - 1] as (T & { [SORT_KEY]?: string | null }) | undefined;
+
+    const nextCursor = hasMore && last
+      ? Pagination.encodeCursor({ s: query.sortBy, o: query.sortOrder, v: last[SORT_KEY] ?? null, id: last.id! })
+      : null;
+
+    return {
+      rows: pageRows.map(row => {
+        const { [SORT_KEY]: _sortKey, ...rest } = row as T & { [SORT_KEY]?: string | null };
+        return rest as T;
+      }),
+      next_cursor: nextCursor
+    };
+  }
+
+  static encodeCursor(payload: CursorPayload): string {
+    return Buffer.from(JSON.stringify(payload)).toString('base64url');
+  }
+
+  static decodeCursor(cursor: string): CursorPayload {
+    let payload: any;
+    try {
+      payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+      throw new Error('Invalid cursor');
+    }
+
+    const valid = payload && typeof payload === 'object' &&
+      typeof payload.s === 'string' &&
+      (payload.o === 'asc' || payload.o === 'desc') &&
+      (payload.v === null || typeof payload.v === 'string') &&
+      typeof payload.id === 'string';
+
+    if (!valid) {
+      throw new Error('Invalid cursor');
+    }
+
+    return payload;
+  }
+
+  /**
+   * Reads the shared list query parameters. A `cursor` parameter, even an empty one,
+   * switches to cursor mode and `offset` is then ignored.
+   */
+  static fromQuery(query: Record<string, unknown>, defaultLimit: number, maxLimit: number): PageOptions<any> {
+    const options: PageOptions<any> = {
+      limit: Math.min(Math.max(parseInt(query.limit as string) || defaultLimit, 1), maxLimit)
+    };
+
+    if (typeof query.cursor === 'string') {
+      options.cursor = query.cursor;
+    } else {
+      options.offset = parseInt(query.offset as string) || 0;
+    }
+
+    if (query.sortBy) options.sortBy = query.sortBy as string;
+    if (query.sortOrder) options.sortOrder = (query.sortOrder as string).toLowerCase() as SortOrder;
+
+    return options;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,195 @@
+import { Pool } from 'pg';
+import { ArticleData } from '../models/Article';
+import { ArticleAuthor } from '../models/ArticleAuthor';
+import { CreatorSettings } from '../models/CreatorSettings';
+import { MeteredRead } from '../models/MeteredRead';
+import { PublicationEditor } from '../models/PublicationEditor';
+import { Series, SeriesData } from '../models/Series';
+import { Subscription } from '../models/Subscription';
+
+export type PaywallReason = 'free' | 'author' | 'subscriber' | 'metered' | 'paywall' | 'series';
+
+export interface MeterStatus {
+  limit: number;
+  used: number;
+  remaining: number;
+  resets_at: string;
+}
+
+export interface PaywallAccess {
+  has_access: boolean;
+  reason: PaywallReason;
+  meter?: MeterStatus;
+}
+
+export interface Reader {
+  user_id?: string;
+  device_id?: string;
+}
+
+export class PaywallService {
+  private authors: ArticleAuthor;
+  private editors: PublicationEditor;
+  private settings: CreatorSettings;
+  private meteredReads: MeteredRead;
+  private series: Series;
+  private subscription: Subscription;
+
+  constructor(pool: Pool) {
+    this.authors = new ArticleAuthor(pool);
+    this.editors = new PublicationEditor(pool);
+    this.settings = new CreatorSettings(pool);
+    this.meteredReads = new MeteredRead(pool);
+    this.series = new Series(pool);
+    this.subscription = new Subscription(pool);
+  }
+
+  /**
+   * Decides whether a reader gets the full text of an article. Premium articles, and every
+   * article in a premium series, are open to their authors and the publication's editors and
+   * to active subscribers: of the series plan when the series sets one, otherwise of any of
+   * the creator's plans. Premium articles outside a premium series are also open to readers
+   * with metered reads left this month.
+   */
+  async checkAccess(article: ArticleData, reader: Reader, now: Date = new Date()): Promise<PaywallAccess> {
+    const series = await this.findPremiumSeries(article);
+    if (!article.is_premium && !series) {
+      return { has_access: true, reason: 'free' };
+    }
+
+    if (reader.user_id) {
+      if (await this.isAuthorOrEditor(article, reader.user_id)) {
+        return { has_access: true, reason: 'author' };
+      }
+
+      if (await this.isSubscriber(article, series, reader.user_id)) {
+        return { has_access: true, reason: 'subscriber' };
+      }
+    }
+
+    // Premium series are never metered
+    if (series) {
+      return { has_access: false, reason: 'series' };
+    }
+
+    const { metered_reads_per_month: limit } = await this.settings.get(article.author_id);
+    const readerKey = PaywallService.readerKey(reader);
+
+    if (limit === 0 || !readerKey) {
+      return { has_access: false, reason: 'paywall' };
+    }
+
+    const { granted, used } = await this.meteredReads.consume(
+      article.author_id,
+      article.id!,
+      readerKey,
+      MeteredRead.periodFor(now),
+      limit
+    );
+
+    return {
+      has_access: granted,
+      reason: granted ? 'metered' : 'paywall',
+      meter: PaywallService.buildMeterStatus(limit, used, now)
+    };
+  }
+
+  /**
+   * Whether a signed-in reader can always read the article in full, as its author, an editor
+   * or a subscriber. Unlike checkAccess this never spends a metered read, so listings and
+   * search use it and show everyone else a preview.
+   */
+  async hasFullAccess(article: ArticleData, userId?: string): Promise<boolean> {
+    const series = await this.findPremiumSeries(article);
+    if (!article.is_premium && !series) {
+      return true;
+    }
+
+    if (!userId) {
+      return false;
+    }
+
+    return await this.isAuthorOrEditor(article, userId) ||
+      this.isSubscriber(article, series, userId);
+  }
+
+  /**
+   * Premium series are open to their creator and to subscribers of the series plan, or of
+   * any of the creator's plans when no specific plan is set
+   */
+  async hasSeriesAccess(series: SeriesData, userId?: string): Promise<boolean> {
+    if (!series.is_premium) {
+      return true;
+    }
+
+    if (!userId) {
+      return false;
+    }
+
+    if (userId === series.creator_id) {
+      return true;
+    }
+
+    return series.plan_id
+      ? this.subscription.hasActiveSubscription(userId, series.plan_id)
+      : this.subscription.hasActiveSubscriptionToCreator(userId, series.creator_id);
+  }
+
+  /**
+   * Current meter for a reader without consuming a read, for "N free articles left" banners
+   */
+  async getMeterStatus(creatorId: string, reader: Reader, now: Date = new Date()): Promise<MeterStatus | null> {
+    const { metered_reads_per_month: limit } = await this.settings.get(creatorId);
+    const readerKey = PaywallService.readerKey(reader);
+
+    if (limit === 0 || !readerKey) {
+      return null;
+    }
+
+    const used = await this.meteredReads.countForPeriod(creatorId, readerKey, MeteredRead.periodFor(now));
+    return PaywallService.buildMeterStatus(limit, used, now);
+  }
+
+  private async findPremiumSeries(article: ArticleData): Promise<SeriesData | null> {
+    const series = await this.series.findByArticleId(article.id!);
+    return series && series.is_premium ? series : null;
+  }
+
+  private async isSubscriber(article: ArticleData, series: SeriesData | null, userId: string): Promise<boolean> {
+    return series
+      ? this.hasSeriesAccess(series, userId)
+      : this.subscription.hasActiveSubscriptionToCreator(userId, article.author_id);
+  }
+
+  private async isAuthorOrEditor(article: ArticleData, userId: string): Promise<boolean> {
+    if (article.author_id === userId || await this.authors.isAuthor(article.id!, userId)) {
+      return true;
+    }
+
+    return this.editors.isEditor(article.author_id, userId);
+  }
+
+  /**
+   * Signed-in readers are metered per account across devices; anonymous readers per device
+   */
+  static readerKey(reader: Reader): string | null {
+    if (reader.user_id) {
+      return `user:${reader.user_id}`;
+    }
+
+    if (reader.device_id && MeteredRead.validateDeviceId(reader.device_id)) {
+      return `device:${reader.device_id}`;
+    }
+
+    return null;
+  }
+
+  static buildMeterStatus(limit: number, used: number, now: Date): MeterStatus {
+    return {
+      limit,
+      used: Math.min(used, limit),
+      remaining: Math.max(0, limit - used),
+      resets_at: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)).toISOString()
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,248 @@
+import { Pool } from 'pg';
+import crypto from 'crypto';
+import { Article, ArticleData } from '../models/Article';
+import { ArticlePreviewLink, ArticlePreviewLinkData, PreviewViewData } from '../models/ArticlePreviewLink';
+import { ArticleRevision } from '../models/ArticleRevision';
+import { ArticleService, ArticleWithSEO } from './ArticleService';
+
+export interface PreviewLinkServiceOptions {
+  // Defaults to PREVIEW_TOKEN_SECRET
+  secret?: string;
+}
+
+export interface CreatePreviewLinkData {
+  label?: unknown;
+  revision_number?: unknown;
+  expires_in_hours?: unknown;
+}
+
+// A preview link as its creator sees it; the URL can be rebuilt from the id at any time
+export interface PreviewLink extends ArticlePreviewLinkData {
+  token: string;
+  preview_url: string;
+  status: 'active' | 'expired' | 'revoked';
+}
+
+export interface PreviewVisitor {
+  ip_address?: string | null;
+  user_agent?: string | null;
+}
+
+export interface OpenedPreview {
+  article: ArticleWithSEO;
+  preview: {
+    label?: string | null;
+    revision_number?: number | null;
+    expires_at: Date;
+  };
+}
+
+export const PREVIEW_ROBOTS = 'noindex, nofollow';
+
+const DEFAULT_EXPIRY_HOURS = 7 * 24;
+const MAX_EXPIRY_HOURS = 30 * 24;
+
+export class PreviewLinkService {
+  private article: Article;
+  private links: ArticlePreviewLink;
+  private revision: ArticleRevision;
+  private articleService: ArticleService;
+  private secret?: string;
+
+  constructor(pool: Pool, options: PreviewLinkServiceOptions = {}) {
+    this.article = new Article(pool);
+    this.links = new ArticlePreviewLink(pool);
+    this.revision = new ArticleRevision(pool);
+    this.articleService = new ArticleService(pool);
+    this.secret = options.secret || process.env.PREVIEW_TOKEN_SECRET;
+  }
+
+  /**
+   * Creates a link that shows the article to anyone holding it until it expires or is
+   * revoked. With a revision number the link keeps showing that revision while the
+   * draft moves on.
+   */
+  async createLink(articleId: string, userId: string, linkData: CreatePreviewLinkData = {}): Promise<PreviewLink> {
+    const article = await this.findManagedArticle(articleId, userId);
+
+    let label: string | null = null;
+    if (linkData.label !== undefined && linkData.label !== null) {
+      if (typeof linkData.label !== 'string' || !ArticlePreviewLink.validateLabel(linkData.label)) {
+        throw new Error('Invalid label: must be 1-200 characters');
+      }
+      label = linkData.label.trim();
+    }
+
+    let revisionNumber: number | null = null;
+    if (linkData.revision_number !== undefined && linkData.revision_number !== null) {
+      if (!ArticleRevision.validateRevisionNumber(linkData.revision_number)) {
+        throw new Error('Invalid revision_number: must be a positive integer');
+      }
+
+      revisionNumber = Number(linkData.revision_number);
+      if (!(await this.revision.findByNumber(article.id!, revisionNumber))) {
+        throw new Error('Revision not found');
+      }
+    }
+
+    let hours = DEFAULT_EXPIRY_HOURS;
+    if (linkData.expires_in_hours !== undefined) {
+      hours = Number(linkData.expires_in_hours);
+      if (typeof linkData.expires_in_hours !== 'number' || !Number.isFinite(hours) || hours <= 0 || hours > MAX_EXPIRY_HOURS) {
+        throw new Error(`Invalid expires_in_hours: must be more than 0 and at most ${MAX_EXPIRY_HOURS}`);
+      }
+    }
+
+    const link = await this.links.create({
+      article_id: article.id!,
+      created_by: userId,
+      label,
+      revision_number: revisionNumber,
+      // Whole seconds, because the token signs the expiry in seconds
+      expires_at: new Date(Math.floor((Date.now() + hours * 60 * 60 * 1000) / 1000) * 1000)
+    });
+
+    return this.withToken({ ...link, view_count: 0, last_viewed_at: null });
+  }
+
+  async getLinks(articleId: string, userId: string): Promise<PreviewLink[]> {
+    await this.findManagedArticle(articleId, userId);
+
+    const links = await this.links.findByArticleId(articleId);
+    return links.map(link => this.withToken(link));
+  }
+
+  /**
+   * Revokes a link; anyone opening it afterwards gets 410 Gone
+   */
+  async revokeLink(articleId: string, linkId: string, userId: string): Promise<ArticlePreviewLinkData> {
+    await this.findManagedArticle(articleId, userId);
+
+    const link = await this.links.findById(linkId);
+    if (!link || link.article_id !== articleId) {
+      throw new Error('Preview link not found');
+    }
+
+    const revoked = await this.links.revoke(linkId, userId);
+    if (!revoked) {
+      throw new Error('Preview link already revoked');
+    }
+
+    return revoked;
+  }
+
+  async getViews(articleId: string, linkId: string, userId: string, limit = 100): Promise<PreviewViewData[]> {
+    await this.findManagedArticle(articleId, userId);
+
+    const link = await this.links.findById(linkId);
+    if (!link || link.article_id !== articleId) {
+      throw new Error('Preview link not found');
+    }
+
+    return this.links.findViews(linkId, Math.min(Math.max(limit, 1), 500));
+  }
+
+  /**
+   * The article behind a preview token, marked noindex. Each successful open is logged.
+   * Tokens with a bad signature are indistinguishable from unknown ones.
+   */
+  async openPreview(token: string, visitor: PreviewVisitor = {}, now: Date = new Date()): Promise<OpenedPreview> {
+    const payload = PreviewLinkService.verifyToken(token, this.getSecret());
+    if (!payload) {
+      throw new Error('Preview link not found');
+    }
+
+    const link = await this.links.findById(payload.id);
+    if (!link) {
+      throw new Error('Preview link not found');
+    }
+
+    if (link.revoked_at) {
+      throw new Error('Preview link has been revoked');
+    }
+
+    if (new Date(link.expires_at) <= now || payload.expires_at <= now) {
+      throw new Error('Preview link has expired');
+    }
+
+    const article = link.revision_number
+      ? await this.articleService.getArticleAtRevision(link.article_id, link.revision_number)
+      : await this.articleService.getArticle(link.article_id);
+
+    if (!article) {
+      throw new Error('Preview link not found');
+    }
+
+    await this.links.logView(link.id!, visitor.ip_address, visitor.user_agent);
+
+    // Draft URLs and translations are not public yet, so there is nothing to point search engines at
+    const { alternates, ...seo } = article.seo;
+
+    return {
+      article: { ...article, seo: { ...seo, robots: PREVIEW_ROBOTS } },
+      preview: {
+        label: link.label,
+        revision_number: link.revision_number,
+        expires_at: link.expires_at
+      }
+    };
+  }
+
+  /**
+   * `<link id>.<expiry in unix seconds>.<signature>`, signed with HMAC-SHA256
+   */
+  static signToken(id: string, expiresAt: Date, secret: string): string {
+    const payload = `${id}.${Math.floor(new Date(expiresAt).getTime() / 1000)}`;
+    const signature = crypto.createHmac('sha256', secret).update(payload).digest('base64url');
+    return `${payload}.${signature}`;
+  }
+
+  static verifyToken(token: string, secret: string): { id: string; expires_at: Date } | null {
+    const parts = token.split('.');
+    if (parts.length !== 3 || !/^\d+$/.test(parts[1])) {
+      return null;
+    }
+
+    const [id, expiresAt, signature] = parts;
+    const expected = crypto.createHmac('sha256', secret).update(`${id}.${expiresAt}`).digest();
+    const given = Buffer.from(signature, 'base64url');
+
+    if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+      return null;
+    }
+
+    return { id, expires_at: new Date(parseInt(expiresAt) * 1000) };
+  }
+
+  private withToken(link: ArticlePreviewLinkData): PreviewLink {
+    const token = PreviewLinkService.signToken(link.id!, link.expires_at, this.getSecret());
+    const status = link.revoked_at ? 'revoked' : new Date(link.expires_at) <= new Date() ? 'expired' : 'active';
+
+    return {
+      ...link,
+      token,
+      preview_url: `${process.env.FRONTEND_URL || ''}/preview/${token}`,
+      status
+    };
+  }
+
+  private async findManagedArticle(articleId: string, userId: string): Promise<ArticleData> {
+    const article = await this.article.findById(articleId);
+    if (!article) {
+      throw new Error('Article not found');
+    }
+
+    if (!(await this.articleService.canViewUnpublished(article, userId))) {
+      throw new Error('Unauthorized: You can only share previews of your own articles');
+    }
+
+    return article;
+  }
+
+  private getSecret(): string {
+    if (!this.secret) {
+      throw new Error('PREVIEW_TOKEN_SECRET environment variable is not set');
+    }
+    return this.secret;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,77 @@
+import { Pool } from 'pg';
+import { CreatorSettings, CreatorSettingsData, UpdateCreatorSettingsData } from '../models/CreatorSettings';
+import { PublicationEditor, PublicationEditorData } from '../models/PublicationEditor';
+import { User } from '../models/User';
+
+export class PublicationService {
+  private settings: CreatorSettings;
+  private editors: PublicationEditor;
+  private user: User;
+
+  constructor(pool: Pool) {
+    this.settings = new CreatorSettings(pool);
+    this.editors = new PublicationEditor(pool);
+    this.user = new User(pool);
+  }
+
+  async getSettings(creatorId: string): Promise<CreatorSettingsData> {
+    return this.settings.get(creatorId);
+  }
+
+  async updateSettings(creatorId: string, updateData: UpdateCreatorSettingsData): Promise<CreatorSettingsData> {
+    if (updateData.require_review !== undefined && typeof updateData.require_review !== 'boolean') {
+      throw new Error('Invalid require_review: must be a boolean');
+    }
+
+    if (updateData.metered_reads_per_month !== undefined && !CreatorSettings.validateMeteredReads(updateData.metered_reads_per_month)) {
+      throw new Error('Invalid metered_reads_per_month: must be an integer between 0 and 100');
+    }
+
+    if (updateData.related_across_creators !== undefined && typeof updateData.related_across_creators !== 'boolean') {
+      throw new Error('Invalid related_across_creators: must be a boolean');
+    }
+
+    if (updateData.comments_access !== undefined && !CreatorSettings.validateCommentsAccess(updateData.comments_access)) {
+      throw new Error('Invalid comments_access: must be everyone, subscribers or disabled');
+    }
+
+    if (updateData.audit_blocks_publish !== undefined && !CreatorSettings.validateAuditBlockLevel(updateData.audit_blocks_publish)) {
+      throw new Error('Invalid audit_blocks_publish: must be off, errors or warnings');
+    }
+
+    if (updateData.comment_flag_keywords !== undefined) {
+      if (!CreatorSettings.validateFlagKeywords(updateData.comment_flag_keywords)) {
+        throw new Error('Invalid comment_flag_keywords: must be a list of up to 100 words or phrases of 1-50 characters');
+      }
+
+      // Matching is case-insensitive, so store each keyword once in lower case
+      updateData = {
+        ...updateData,
+        comment_flag_keywords: Array.from(new Set(updateData.comment_flag_keywords.map(keyword => keyword.trim().toLowerCase())))
+      };
+    }
+
+    return this.settings.upsert(creatorId, updateData);
+  }
+
+  async getEditors(creatorId: string): Promise<PublicationEditorData[]> {
+    return this.editors.findByCreator(creatorId);
+  }
+
+  async addEditor(creatorId: string, editorId: string): Promise<PublicationEditorData[]> {
+    const editor = await this.user.findById(editorId);
+    if (!editor) {
+      throw new Error('User not found');
+    }
+
+    await this.editors.add(creatorId, editorId);
+    return this.editors.findByCreator(creatorId);
+  }
+
+  async removeEditor(creatorId: string, editorId: string): Promise<void> {
+    const removed = await this.editors.remove(creatorId, editorId);
+    if (!removed) {
+      throw new Error('Editor not found');
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,201 @@
+import { Pool } from 'pg';
+import { Article, ArticleData } from '../models/Article';
+import { Bookmark, BookmarkData, BookmarkedArticleData, BookmarkFilters } from '../models/Bookmark';
+import { ReadingListFolder, ReadingListFolderData, UpdateReadingListFolderData } from '../models/ReadingListFolder';
+import { ContinueReadingData, ReadingProgress, ReadingProgressData } from '../models/ReadingProgress';
+
+export interface ProgressUpdate {
+  scroll_percentage: unknown;
+  last_paragraph_index: unknown;
+  updated_at?: unknown;
+}
+
+// What a signed-in reader gets alongside an article
+export interface ReaderState {
+  bookmark: BookmarkData | null;
+  progress: ReadingProgressData | null;
+}
+
+export class ReadingService {
+  private article: Article;
+  private bookmarks: Bookmark;
+  private folders: ReadingListFolder;
+  private progress: ReadingProgress;
+
+  constructor(pool: Pool) {
+    this.article = new Article(pool);
+    this.bookmarks = new Bookmark(pool);
+    this.folders = new ReadingListFolder(pool);
+    this.progress = new ReadingProgress(pool);
+  }
+
+  async getReaderState(articleId: string, userId: string): Promise<ReaderState> {
+    const [bookmark, progress] = await Promise.all([
+      this.bookmarks.find(userId, articleId),
+      this.progress.find(userId, articleId)
+    ]);
+
+    return { bookmark, progress };
+  }
+
+  // Bookmarks
+
+  /**
+   * Bookmarks a published article. Passing a folder files the bookmark there, null
+   * takes it out of its folder, and leaving it out keeps an existing bookmark where it is.
+   */
+  async bookmark(articleId: string, userId: string, folderId?: string | null): Promise<BookmarkData> {
+    await this.findPublishedArticle(articleId);
+
+    if (folderId === undefined) {
+      const existing = await this.bookmarks.find(userId, articleId);
+      if (existing) {
+        return existing;
+      }
+    }
+
+    if (folderId) {
+      await this.findOwnFolder(folderId, userId);
+    }
+
+    return this.bookmarks.upsert(userId, articleId, folderId || null);
+  }
+
+  async removeBookmark(articleId: string, userId: string): Promise<void> {
+    if (!(await this.bookmarks.remove(userId, articleId))) {
+      throw new Error('Bookmark not found');
+    }
+  }
+
+  async getBookmarks(
+    userId: string,
+    filters: BookmarkFilters = {}
+  ): Promise<{ bookmarks: BookmarkedArticleData[]; total: number; next_cursor: string | null }> {
+    if (filters.folder_id) {
+      await this.findOwnFolder(filters.folder_id, userId);
+    }
+
+    return this.bookmarks.findByUser(userId, filters);
+  }
+
+  // Reading list folders
+
+  async getFolders(userId: string): Promise<ReadingListFolderData[]> {
+    return this.folders.findByUser(userId);
+  }
+
+  async createFolder(userId: string, name: unknown): Promise<ReadingListFolderData> {
+    const folderName = await this.validateFolderName(userId, name);
+    return this.folders.create(userId, folderName);
+  }
+
+  async updateFolder(folderId: string, userId: string, updateData: { name?: unknown; position?: unknown }): Promise<ReadingListFolderData> {
+    const folder = await this.findOwnFolder(folderId, userId);
+    const changes: UpdateReadingListFolderData = {};
+
+    if (updateData.name !== undefined) {
+      changes.name = await this.validateFolderName(userId, updateData.name, folder.id);
+    }
+
+    if (updateData.position !== undefined) {
+      if (typeof updateData.position !== 'number' || !Number.isInteger(updateData.position) || updateData.position < 0) {
+        throw new Error('Invalid position: must be a non-negative integer');
+      }
+      changes.position = updateData.position;
+    }
+
+    return (await this.folders.update(folderId, changes))!;
+  }
+
+  /**
+   * Deletes the folder; its bookmarks stay in the reading list, unfiled
+   */
+  async deleteFolder(folderId: string, userId: string): Promise<void> {
+    await this.findOwnFolder(folderId, userId);
+    await this.folders.delete(folderId);
+  }
+
+  // Reading progress
+
+  /**
+   * Records where the reader is in a published article. updated_at is when the reader
+   * was there, so that a device syncing late cannot move the reader back; times in the
+   * future are taken as now.
+   */
+  async syncProgress(articleId: string, userId: string, update: ProgressUpdate): Promise<ReadingProgressData> {
+    if (!ReadingProgress.validateScrollPercentage(update.scroll_percentage)) {
+      throw new Error('Invalid scroll_percentage: must be a number from 0 to 100');
+    }
+
+    if (!ReadingProgress.validateParagraphIndex(update.last_paragraph_index)) {
+      throw new Error('Invalid last_paragraph_index: must be a non-negative integer');
+    }
+
+    const now = new Date();
+    let updatedAt = now;
+    if (update.updated_at !== undefined) {
+      const clientTime = new Date(update.updated_at as string);
+      if (typeof update.updated_at !== 'string' || isNaN(clientTime.getTime())) {
+        throw new Error('Invalid updated_at: must be an ISO 8601 date');
+      }
+      updatedAt = clientTime < now ? clientTime : now;
+    }
+
+    await this.findPublishedArticle(articleId);
+
+    return this.progress.sync(userId, articleId, {
+      scroll_percentage: update.scroll_percentage,
+      last_paragraph_index: update.last_paragraph_index,
+      updated_at: updatedAt
+    });
+  }
+
+  async getProgress(articleId: string, userId: string): Promise<ReadingProgressData | null> {
+    return this.progress.find(userId, articleId);
+  }
+
+  async clearProgress(articleId: string, userId: string): Promise<void> {
+    if (!(await this.progress.remove(userId, articleId))) {
+      throw new Error('Reading progress not found');
+    }
+  }
+
+  /**
+   * Articles the reader started and has not finished, most recently read first
+   */
+  async getContinueReading(userId: string, limit = 10): Promise<ContinueReadingData[]> {
+    return this.progress.findUnfinished(userId, Math.min(Math.max(limit, 1), 50));
+  }
+
+  private async findPublishedArticle(articleId: string): Promise<ArticleData> {
+    const article = await this.article.findById(articleId);
+    if (!article || article.status !== 'published') {
+      throw new Error('Article not found');
+    }
+
+    return article;
+  }
+
+  private async findOwnFolder(folderId: string, userId: string): Promise<ReadingListFolderData> {
+    const folder = await this.folders.findById(folderId);
+    if (!folder || folder.user_id !== userId) {
+      throw new Error('Folder not found');
+    }
+
+    return folder;
+  }
+
+  private async validateFolderName(userId: string, name: unknown, folderId?: string): Promise<string> {
+    if (typeof name !== 'string' || !ReadingListFolder.validateName(name)) {
+      throw new Error('Invalid folder name: must be 1-100 characters');
+    }
+
+    const trimmed = name.trim();
+    const existing = await this.folders.findByName(userId, trimmed);
+    if (existing && existing.id !== folderId) {
+      throw new Error(`Folder "${existing.name}" already exists`);
+    }
+
+    return trimmed;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,187 @@
+import { Pool } from 'pg';
+import { Article, ArticleData } from '../models/Article';
+import {
+  RedirectRule,
+  RedirectRuleData,
+  CreateRedirectRuleData,
+  UpdateRedirectRuleData,
+  RedirectStatusCode
+} from '../models/RedirectRule';
+
+export interface ResolvedRedirect {
+  location: string;
+  status_code: RedirectStatusCode;
+  rule_id?: string;
+}
+
+export class RedirectService {
+  private rule: RedirectRule;
+  private article: Article;
+
+  constructor(pool: Pool) {
+    this.rule = new RedirectRule(pool);
+    this.article = new Article(pool);
+  }
+
+  async getRules(creatorId: string): Promise<RedirectRuleData[]> {
+    return this.rule.findByCreator(creatorId);
+  }
+
+  async createRule(ruleData: CreateRedirectRuleData): Promise<RedirectRuleData> {
+    const sourcePath = RedirectRule.normalizePath(ruleData.source_path);
+    await this.validateRule(ruleData.creator_id, { ...ruleData, source_path: sourcePath });
+
+    if (await this.rule.findBySource(ruleData.creator_id, sourcePath)) {
+      throw new Error(`Redirect already exists for "${sourcePath}"`);
+    }
+
+    return this.rule.create({ ...ruleData, source_path: sourcePath });
+  }
+
+  async updateRule(id: string, updateData: UpdateRedirectRuleData, creatorId?: string): Promise<RedirectRuleData> {
+    const existingRule = await this.verifyOwnership(id, creatorId);
+
+    // A rule has exactly one target, so setting one clears the other
+    const changes: UpdateRedirectRuleData = { ...updateData };
+    if (changes.target_url) {
+      changes.article_id = null;
+    } else if (changes.article_id) {
+      changes.target_url = null;
+    }
+
+    if (changes.source_path !== undefined) {
+      changes.source_path = RedirectRule.normalizePath(changes.source_path);
+    }
+
+    await this.validateRule(existingRule.creator_id, {
+      source_path: changes.source_path ?? existingRule.source_path,
+      target_url: changes.target_url !== undefined ? changes.target_url : existingRule.target_url,
+      article_id: changes.article_id !== undefined ? changes.article_id : existingRule.article_id,
+      status_code: changes.status_code
+    });
+
+    if (changes.source_path && changes.source_path !== existingRule.source_path) {
+      if (await this.rule.findBySource(existingRule.creator_id, changes.source_path)) {
+        throw new Error(`Redirect already exists for "${changes.source_path}"`);
+      }
+    }
+
+    const updatedRule = await this.rule.update(id, changes);
+    if (!updatedRule) {
+      throw new Error('Redirect not found');
+    }
+
+    return updatedRule;
+  }
+
+  async deleteRule(id: string, creatorId?: string): Promise<void> {
+    await this.verifyOwnership(id, creatorId);
+    await this.rule.delete(id);
+  }
+
+  /**
+   * Where a path on the creator's site should redirect to. Creator rules come first;
+   * article URLs with a previous slug fall back to the article's current URL.
+   */
+  async resolve(creatorId: string, path: string): Promise<ResolvedRedirect | null> {
+    const normalizedPath = RedirectRule.normalizePath(path);
+
+    const rule = await this.rule.findMatch(creatorId, normalizedPath);
+    if (rule) {
+      const location = await this.buildLocation(rule, normalizedPath);
+      if (location) {
+        await this.rule.recordHit(rule.id!);
+        return { location, status_code: rule.status_code, rule_id: rule.id };
+      }
+    }
+
+    // Article URLs are /articles/{creator}/{slug}. The older /articles/{slug} form still
+    // resolves, as the creator is known from the site.
+    const articlePath = normalizedPath.match(/^\/articles\/(?:([^/]+)\/)?([^/]+)$/);
+    if (articlePath && (!articlePath[1] || articlePath[1] === creatorId)) {
+      const article = await this.findArticleForPath(creatorId, articlePath[2], !articlePath[1]);
+      if (article) {
+        return { location: Article.buildPublicUrl(article), status_code: 301 };
+      }
+    }
+
+    return null;
+  }
+
+  private async findArticleForPath(creatorId: string, slug: string, legacyPath: boolean): Promise<ArticleData | null> {
+    if (legacyPath) {
+      const current = await this.article.findBySlug(creatorId, slug);
+      if (current) {
+        return current.status === 'published' ? current : null;
+      }
+    }
+
+    return this.article.findByPreviousSlug(creatorId, slug);
+  }
+
+  private async buildLocation(rule: RedirectRuleData, path: string): Promise<string | null> {
+    if (rule.article_id) {
+      const article = await this.article.findById(rule.article_id);
+      return article ? Article.buildPublicUrl(article) : null;
+    }
+
+    let target = rule.target_url!;
+    if (rule.source_path.endsWith('*')) {
+      target = target.replace('*', path.substring(rule.source_path.length - 1));
+    }
+
+    return target.startsWith('/') ? `${process.env.FRONTEND_URL || ''}${target}` : target;
+  }
+
+  private async validateRule(creatorId: string, rule: UpdateRedirectRuleData): Promise<void> {
+    if (!rule.source_path || !RedirectRule.validateSourcePath(rule.source_path)) {
+      throw new Error('Invalid source path: must start with / and may only end with a * wildcard');
+    }
+
+    if (Boolean(rule.target_url) === Boolean(rule.article_id)) {
+      throw new Error('Invalid redirect: provide either a target URL or an article');
+    }
+
+    if (rule.status_code !== undefined && !RedirectRule.validateStatusCode(rule.status_code)) {
+      throw new Error('Invalid status code: must be 301, 302, 307 or 308');
+    }
+
+    if (rule.target_url) {
+      if (!RedirectRule.validateTargetUrl(rule.target_url)) {
+        throw new Error('Invalid target URL: must be a path starting with / or an http(s) URL');
+      }
+
+      if (rule.target_url.includes('*') && !rule.source_path.endsWith('*')) {
+        throw new Error('Invalid target URL: a * needs a wildcard source path');
+      }
+
+      if (RedirectRule.normalizePath(rule.target_url) === rule.source_path) {
+        throw new Error('Invalid redirect: the target is the source path');
+      }
+    }
+
+    if (rule.article_id) {
+      const article = await this.article.findById(rule.article_id);
+      if (!article) {
+        throw new Error('Article not found');
+      }
+
+      if (article.author_id !== creatorId) {
+        throw new Error('Unauthorized: You can only redirect to your own articles');
+      }
+    }
+  }
+
+  private async verifyOwnership(ruleId: string, creatorId?: string): Promise<RedirectRuleData> {
+    const rule = await this.rule.findById(ruleId);
+    if (!rule) {
+      throw new Error('Redirect not found');
+    }
+
+    if (creatorId && rule.creator_id !== creatorId) {
+      throw new Error('Unauthorized: You can only manage your own redirects');
+    }
+
+    return rule;
+  }
+}
\ No newline at end of file
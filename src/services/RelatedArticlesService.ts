@@ -0,0 +1,167 @@
+import { Pool } from 'pg';
+import { Article, ArticleData } from '../models/Article';
+import { ArticleVector, RelatedArticleRow, SimilarityCandidate, WeightedTerm } from '../models/ArticleVector';
+import { CreatorSettings } from '../models/CreatorSettings';
+import { ContentRenderer } from './ContentRenderer';
+
+export type RelatedArticle = RelatedArticleRow;
+
+// Terms kept per vector; the long tail adds storage without changing rankings much
+const MAX_VECTOR_TERMS = 50;
+// Neighbours stored per article, more than any page shows so opt-outs can be filtered at read time
+const MAX_RELATED = 20;
+const CANDIDATE_LIMIT = 200;
+// Title words say more about the topic than body words
+const TITLE_BOOST = 3;
+// Share of the score from text similarity; the rest comes from tag overlap
+const TEXT_WEIGHT = 0.7;
+const TAG_WEIGHT = 0.3;
+const MIN_TERM_LENGTH = 3;
+const MAX_TERM_LENGTH = 64;
+
+const STOP_WORDS = new Set([
+  'about', 'above', 'after', 'again', 'against', 'all', 'also', 'and', 'any', 'are', 'because', 'been',
+  'before', 'being', 'below', 'between', 'both', 'but', 'can', 'could', 'did', 'does', 'doing', 'down',
+  'during', 'each', 'even', 'few', 'for', 'from', 'further', 'had', 'has', 'have', 'having', 'her', 'here',
+  'hers', 'him', 'his', 'how', 'however', 'into', 'its', 'itself', 'just', 'like', 'many', 'may', 'more',
+  'most', 'much', 'must', 'not', 'now', 'off', 'once', 'one', 'only', 'other', 'our', 'ours', 'out', 'over',
+  'own', 'same', 'she', 'should', 'some', 'such', 'than', 'that', 'the', 'their', 'theirs', 'them',
+  'then', 'there', 'these', 'they', 'this', 'those', 'through', 'too', 'under', 'until', 'use', 'used',
+  'using', 'very', 'was', 'way', 'were', 'what', 'when', 'where', 'which', 'while', 'who', 'whom', 'why',
+  'will', 'with', 'would', 'you', 'your', 'yours'
+]);
+
+/**
+ * Content-based related articles across all creators. Each published article is indexed
+ * as a TF-IDF vector of its title and body; neighbours are ranked by cosine similarity
+ * blended with tag overlap and stored at publish time, so reads are a single lookup.
+ */
+export class RelatedArticlesService {
+  private article: Article;
+  private vectors: ArticleVector;
+  private settings: CreatorSettings;
+
+  constructor(pool: Pool) {
+    this.article = new Article(pool);
+    this.vectors = new ArticleVector(pool);
+    this.settings = new CreatorSettings(pool);
+  }
+
+  /**
+   * (Re)computes an article's vector and its related list. Called when an article is
+   * published and when a published article's text or tags change.
+   */
+  async indexArticle(article: ArticleData): Promise<void> {
+    const counts = RelatedArticlesService.countTerms(article);
+    const distinctTerms = Array.from(counts.keys());
+    const previousTerms = await this.vectors.findDistinctTerms(article.id!);
+
+    // Count this article in the corpus statistics before weighting its own terms
+    const { total, counts: documentCounts } = await this.vectors.getDocumentFrequencies(distinctTerms);
+    const previous = new Set(previousTerms || []);
+    const corpusSize = total + (previousTerms ? 0 : 1);
+    for (const term of distinctTerms) {
+      documentCounts.set(term, (documentCounts.get(term) || 0) + (previous.has(term) ? 0 : 1));
+    }
+
+    const weights = RelatedArticlesService.weighTerms(counts, documentCounts, corpusSize);
+    await this.vectors.save(article.id!, distinctTerms, previousTerms || [], weights);
+
+    const candidates = await this.vectors.findCandidates(article.id!, weights, article.tags || [], CANDIDATE_LIMIT);
+    const related = candidates
+      .map(candidate => ({ id: candidate.id, score: RelatedArticlesService.score(candidate, article.tags || []) }))
+      .filter(entry => entry.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_RELATED);
+
+    await this.vectors.saveRelated(article.id!, related, MAX_RELATED);
+  }
+
+  async removeArticle(articleId: string): Promise<void> {
+    await this.vectors.remove(articleId);
+  }
+
+  async getRelatedArticles(articleId: string, limit = 5): Promise<RelatedArticle[]> {
+    const article = await this.article.findById(articleId);
+    if (!article || article.status !== 'published') {
+      return [];
+    }
+
+    // Articles published before the index existed are indexed on first request
+    if (!(await this.vectors.findDistinctTerms(articleId))) {
+      await this.indexArticle(article);
+    }
+
+    const { related_across_creators } = await this.settings.get(article.author_id);
+    return this.vectors.findRelated(articleId, article.author_id, related_across_creators, Math.min(Math.max(limit, 1), MAX_RELATED));
+  }
+
+  /**
+   * Term counts over the title (boosted) and the rendered body text
+   */
+  static countTerms(article: Pick<ArticleData, 'title' | 'content' | 'content_html'>): Map<string, number> {
+    const body = article.content_html ? ContentRenderer.toPlainText(article.content_html) : article.content;
+    const counts = new Map<string, number>();
+
+    for (const term of RelatedArticlesService.tokenize(article.title)) {
+      counts.set(term, (counts.get(term) || 0) + TITLE_BOOST);
+    }
+    for (const term of RelatedArticlesService.tokenize(body)) {
+      counts.set(term, (counts.get(term) || 0) + 1);
+    }
+
+    return counts;
+  }
+
+  static tokenize(text: string): string[] {
+    return text
+      .toLowerCase()
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(token => token.length >= MIN_TERM_LENGTH && !/^\d+$/.test(token) && !STOP_WORDS.has(token))
+      .map(token => RelatedArticlesService.stem(token))
+      .filter(token => token.length >= MIN_TERM_LENGTH && token.length <= MAX_TERM_LENGTH);
+  }
+
+  /**
+   * Light suffix stripping so "models", "modeling" and "modelled" share a term
+   */
+  static stem(token: string): string {
+    if (token.length <= 4) return token;
+
+    return token
+      .replace(/ies$/, 'y')
+      .replace(/(?:ings?|ed|es|s)$/, '')
+      .replace(/(.)\1$/, '$1');
+  }
+
+  /**
+   * Sublinear TF times smoothed IDF, keeping the strongest terms and normalising to unit
+   * length so the dot product of two vectors is their cosine similarity
+   */
+  static weighTerms(counts: Map<string, number>, documentCounts: Map<string, number>, corpusSize: number): WeightedTerm[] {
+    const weighted = Array.from(counts.entries())
+      .map(([term, count]) => ({
+        term,
+        weight: (1 + Math.log(count)) * (Math.log((1 + corpusSize) / (1 + (documentCounts.get(term) || 0))) + 1)
+      }))
+      .sort((a, b) => b.weight - a.weight || a.term.localeCompare(b.term))
+      .slice(0, MAX_VECTOR_TERMS);
+
+    const norm = Math.sqrt(weighted.reduce((sum, item) => sum + item.weight * item.weight, 0));
+    return norm === 0 ? [] : weighted.map(item => ({ term: item.term, weight: item.weight / norm }));
+  }
+
+  static tagSimilarity(a: string[], b: string[]): number {
+    const left = new Set(a.map(tag => tag.toLowerCase()));
+    const right = new Set(b.map(tag => tag.toLowerCase()));
+    const shared = Array.from(left).filter(tag => right.has(tag)).length;
+    const union = new Set([...left, ...right]).size;
+    return union === 0 ? 0 : shared / union;
+  }
+
+  static score(candidate: SimilarityCandidate, tags: string[]): number {
+    return TEXT_WEIGHT * candidate.text_score + TAG_WEIGHT * RelatedArticlesService.tagSimilarity(tags, candidate.tags || []);
+  }
+}
\ No newline at end of file
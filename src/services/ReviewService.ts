@@ -0,0 +1,209 @@
+import { Pool } from 'pg';
+import { Article, ArticleData } from '../models/Article';
+import { ArticleRevision } from '../models/ArticleRevision';
+import { ArticleReview, ArticleReviewData, ReviewDecision } from '../models/ArticleReview';
+import { ReviewComment, ReviewCommentData } from '../models/ReviewComment';
+import { CreatorSettings } from '../models/CreatorSettings';
+import { PublicationEditor } from '../models/PublicationEditor';
+import { ArticleService, ArticleWithSEO } from './ArticleService';
+
+export interface ReviewStatus {
+  required: boolean;
+  status: ArticleData['status'];
+  approved: boolean;
+  latest_revision: number | null;
+  latest_review: ArticleReviewData | null;
+}
+
+export interface CreateCommentData {
+  anchor_start: number;
+  anchor_end: number;
+  body: string;
+}
+
+export class ReviewService {
+  private article: Article;
+  private revision: ArticleRevision;
+  private reviews: ArticleReview;
+  private comments: ReviewComment;
+  private settings: CreatorSettings;
+  private editors: PublicationEditor;
+  private articleService: ArticleService;
+
+  constructor(pool: Pool) {
+    this.article = new Article(pool);
+    this.revision = new ArticleRevision(pool);
+    this.reviews = new ArticleReview(pool);
+    this.comments = new ReviewComment(pool);
+    this.settings = new CreatorSettings(pool);
+    this.editors = new PublicationEditor(pool);
+    this.articleService = new ArticleService(pool);
+  }
+
+  async submitForReview(articleId: string, userId: string): Promise<ArticleWithSEO> {
+    const article = await this.findArticle(articleId);
+
+    if (!(await this.articleService.isArticleAuthor(article, userId))) {
+      throw new Error('Unauthorized: Only the article\'s authors can submit it for review');
+    }
+
+    const submitted = await this.article.transitionStatus(articleId, 'in_review', ['draft', 'changes_requested']);
+    if (!submitted) {
+      throw new Error('Invalid status: only drafts or articles with requested changes can be submitted for review');
+    }
+
+    return (await this.articleService.getArticle(articleId))!;
+  }
+
+  /**
+   * Records an editor's decision on the current revision. Approval keeps the article
+   * in review until it is published; requesting changes sends it back to the authors.
+   */
+  async reviewArticle(
+    articleId: string,
+    reviewerId: string,
+    decision: ReviewDecision,
+    summary?: string
+  ): Promise<{ review: ArticleReviewData; article: ArticleWithSEO }> {
+    if (!ArticleReview.validateDecision(decision)) {
+      throw new Error('Invalid decision: must be approved or changes_requested');
+    }
+
+    const article = await this.findArticle(articleId);
+
+    if (!(await this.editors.isEditor(article.author_id, reviewerId))) {
+      throw new Error('Unauthorized: Only the publication\'s editors can review articles');
+    }
+
+    if (await this.articleService.isArticleAuthor(article, reviewerId)) {
+      throw new Error('Unauthorized: Authors cannot review their own articles');
+    }
+
+    if (article.status !== 'in_review') {
+      throw new Error('Invalid status: article is not in review');
+    }
+
+    const latestRevision = await this.revision.findLatest(articleId);
+    if (!latestRevision) {
+      throw new Error('Article revision not found');
+    }
+
+    if (decision === 'changes_requested') {
+      const updated = await this.article.transitionStatus(articleId, 'changes_requested', ['in_review']);
+      if (!updated) {
+        throw new Error('Invalid status: article is not in review');
+      }
+    }
+
+    const review = await this.reviews.create({
+      article_id: articleId,
+      reviewer_id: reviewerId,
+      decision,
+      summary,
+      revision_number: latestRevision.revision_number
+    });
+
+    return {
+      review,
+      article: (await this.articleService.getArticle(articleId))!
+    };
+  }
+
+  async getReviewStatus(articleId: string, userId: string): Promise<ReviewStatus & { reviews: ArticleReviewData[] }> {
+    const article = await this.findArticle(articleId);
+    await this.verifyParticipant(article, userId);
+
+    const [settings, reviews, latestRevision] = await Promise.all([
+      this.settings.get(article.author_id),
+      this.reviews.findByArticleId(articleId),
+      this.revision.findLatest(articleId)
+    ]);
+
+    const latestReview = reviews[0] || null;
+    const latestRevisionNumber = latestRevision ? latestRevision.revision_number : null;
+
+    return {
+      required: settings.require_review,
+      status: article.status,
+      approved: latestReview?.decision === 'approved' && latestReview.revision_number === latestRevisionNumber,
+      latest_revision: latestRevisionNumber,
+      latest_review: latestReview,
+      reviews
+    };
+  }
+
+  async getReviewQueue(editorId: string): Promise<ArticleData[]> {
+    return this.article.findInReviewForEditor(editorId);
+  }
+
+  async getComments(articleId: string, userId: string, includeResolved = false): Promise<ReviewCommentData[]> {
+    const article = await this.findArticle(articleId);
+    await this.verifyParticipant(article, userId);
+
+    return this.comments.findByArticleId(articleId, includeResolved);
+  }
+
+  /**
+   * Anchors a comment to a character range of the article source as it is now
+   */
+  async addComment(articleId: string, userId: string, commentData: CreateCommentData): Promise<ReviewCommentData> {
+    const article = await this.findArticle(articleId);
+    await this.verifyParticipant(article, userId);
+
+    if (!ReviewComment.validateBody(commentData.body)) {
+      throw new Error('Invalid comment: must be 1-5000 characters');
+    }
+
+    if (!ReviewComment.validateAnchor(commentData.anchor_start, commentData.anchor_end, article.content.length)) {
+      throw new Error('Invalid anchor: range must fall within the article content');
+    }
+
+    const latestRevision = await this.revision.findLatest(articleId);
+    if (!latestRevision) {
+      throw new Error('Article revision not found');
+    }
+
+    return this.comments.create({
+      article_id: articleId,
+      author_id: userId,
+      revision_number: latestRevision.revision_number,
+      anchor_start: commentData.anchor_start,
+      anchor_end: commentData.anchor_end,
+      quoted_text: article.content.slice(commentData.anchor_start, commentData.anchor_end),
+      body: commentData.body.trim()
+    });
+  }
+
+  async resolveComment(articleId: string, commentId: string, userId: string): Promise<ReviewCommentData> {
+    const article = await this.findArticle(articleId);
+    await this.verifyParticipant(article, userId);
+
+    const comment = await this.comments.findById(commentId);
+    if (!comment || comment.article_id !== articleId) {
+      throw new Error('Comment not found');
+    }
+
+    const resolved = await this.comments.resolve(commentId, userId);
+    if (!resolved) {
+      throw new Error('Comment is already resolved');
+    }
+
+    return resolved;
+  }
+
+  private async findArticle(articleId: string): Promise<ArticleData> {
+    const article = await this.article.findById(articleId);
+    if (!article) {
+      throw new Error('Article not found');
+    }
+
+    return article;
+  }
+
+  // Authors and the publication's editors take part in review discussions
+  private async verifyParticipant(article: ArticleData, userId: string): Promise<void> {
+    if (!(await this.articleService.canViewUnpublished(article, userId))) {
+      throw new Error('Unauthorized: Only authors and editors can access reviews');
+    }
+  }
+}
\ No newline at end of file
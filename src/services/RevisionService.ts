@@ -0,0 +1,284 @@
+import { Pool } from 'pg';
+import { Article } from '../models/Article';
+import { ArticleRevision, ArticleRevisionData, RevisionSummary } from '../models/ArticleRevision';
+import { ArticleService, ArticleWithSEO } from './ArticleService';
+
+export interface DiffSegment {
+  type: 'equal' | 'insert' | 'delete';
+  value: string;
+}
+
+export interface FieldDiff {
+  changed: boolean;
+  segments: DiffSegment[];
+}
+
+export interface RevisionDiff {
+  from: number;
+  to: number;
+  fields: Record<RevisionField, FieldDiff>;
+  stats: {
+    words_added: number;
+    words_removed: number;
+  };
+}
+
+type RevisionField = 'title' | 'excerpt' | 'content' | 'tags' | 'seo_title' | 'seo_description';
+
+const REVISION_FIELDS: RevisionField[] = ['title', 'excerpt', 'content', 'tags', 'seo_title', 'seo_description'];
+
+// Beyond this many edits between two stretches of text, they are shown as replaced
+const MAX_DIFF_DISTANCE = 2000;
+
+export class RevisionService {
+  private article: Article;
+  private revision: ArticleRevision;
+  private articleService: ArticleService;
+
+  constructor(pool: Pool) {
+    this.article = new Article(pool);
+    this.revision = new ArticleRevision(pool);
+    this.articleService = new ArticleService(pool);
+  }
+
+  async listRevisions(articleId: string, authorId?: string): Promise<RevisionSummary[]> {
+    await this.verifyAccess(articleId, authorId);
+    return this.revision.findByArticleId(articleId);
+  }
+
+  async getRevision(articleId: string, revisionNumber: number, authorId?: string): Promise<ArticleRevisionData> {
+    await this.verifyAccess(articleId, authorId);
+
+    const revision = await this.revision.findByNumber(articleId, revisionNumber);
+    if (!revision) {
+      throw new Error('Revision not found');
+    }
+
+    return revision;
+  }
+
+  async diffRevisions(articleId: string, fromNumber: number, toNumber: number, authorId?: string): Promise<RevisionDiff> {
+    await this.verifyAccess(articleId, authorId);
+
+    const [from, to] = await Promise.all([
+      this.revision.findByNumber(articleId, fromNumber),
+      this.revision.findByNumber(articleId, toNumber)
+    ]);
+
+    if (!from || !to) {
+      throw new Error('Revision not found');
+    }
+
+    return RevisionService.compareRevisions(from, to);
+  }
+
+  async restoreRevision(articleId: string, revisionNumber: number, authorId?: string): Promise<ArticleWithSEO> {
+    const revision = await this.getRevision(articleId, revisionNumber, authorId);
+
+    // Restoring goes through the regular update path so that it is itself recorded as a new revision
+    return this.articleService.updateArticle(
+      articleId,
+      {
+        title: revision.title,
+        content: revision.content,
+        content_format: revision.content_format,
+        excerpt: revision.excerpt || undefined,
+        tags: revision.tags || [],
+        seo_title: revision.seo_title || undefined,
+        seo_description: revision.seo_description || undefined
+      },
+      authorId,
+      { reason: 'restore', restored_from: revision.revision_number }
+    );
+  }
+
+  private async verifyAccess(articleId: string, authorId?: string): Promise<void> {
+    const article = await this.article.findById(articleId);
+    if (!article) {
+      throw new Error('Article not found');
+    }
+
+    if (authorId && !(await this.articleService.isArticleAuthor(article, authorId))) {
+      throw new Error('Unauthorized: You can only view revisions of your own articles');
+    }
+  }
+
+  // Diff utilities
+  static compareRevisions(from: ArticleRevisionData, to: ArticleRevisionData): RevisionDiff {
+    const fields = {} as Record<RevisionField, FieldDiff>;
+    let wordsAdded = 0;
+    let wordsRemoved = 0;
+
+    for (const field of REVISION_FIELDS) {
+      const oldValue = RevisionService.fieldText(from, field);
+      const newValue = RevisionService.fieldText(to, field);
+      const segments = RevisionService.diffWords(oldValue, newValue);
+
+      for (const segment of segments) {
+        const words = segment.value.split(/\s+/).filter(word => word.length > 0).length;
+        if (segment.type === 'insert') wordsAdded += words;
+        if (segment.type === 'delete') wordsRemoved += words;
+      }
+
+      fields[field] = {
+        changed: oldValue !== newValue,
+        segments
+      };
+    }
+
+    return {
+      from: from.revision_number,
+      to: to.revision_number,
+      fields,
+      stats: {
+        words_added: wordsAdded,
+        words_removed: wordsRemoved
+      }
+    };
+  }
+
+  /**
+   * Word-level diff using the linear-space variant of Myers' O(ND) algorithm. Whitespace
+   * runs are kept as their own tokens so that joining the segment values reproduces both
+   * inputs.
+   */
+  static diffWords(oldText: string, newText: string): DiffSegment[] {
+    const a = oldText.match(/\s+|[^\s]+/g) || [];
+    const b = newText.match(/\s+|[^\s]+/g) || [];
+    const operations: DiffSegment[] = [];
+
+    RevisionService.diffTokens(a, 0, a.length, b, 0, b.length, operations);
+
+    // Merge consecutive operations of the same type
+    const segments: DiffSegment[] = [];
+    for (const operation of operations) {
+      const last = segments[segments.length - 1];
+      if (last && last.type === operation.type) {
+        last.value += operation.value;
+      } else {
+        segments.push({ ...operation });
+      }
+    }
+
+    return segments;
+  }
+
+  /**
+   * Diffs a[aStart, aEnd) against b[bStart, bEnd) by splitting both at the middle snake
+   * and recursing, which keeps memory linear in the input size
+   */
+  private static diffTokens(
+    a: string[], aStart: number, aEnd: number,
+    b: string[], bStart: number, bEnd: number,
+    operations: DiffSegment[]
+  ): void {
+    // Strip the common prefix and suffix before running the diff proper
+    const prefixStart = aStart;
+    while (aStart < aEnd && bStart < bEnd && a[aStart] === b[bStart]) {
+      aStart++;
+      bStart++;
+    }
+    for (let i = prefixStart; i < aStart; i++) {
+      operations.push({ type: 'equal', value: a[i] });
+    }
+
+    let suffixLength = 0;
+    while (aEnd > aStart && bEnd > bStart && a[aEnd - 1] === b[bEnd - 1]) {
+      aEnd--;
+      bEnd--;
+      suffixLength++;
+    }
+
+    const snake = aStart < aEnd && bStart < bEnd
+      ? RevisionService.middleSnake(a, aStart, aEnd, b, bStart, bEnd)
+      : null;
+
+    if (snake) {
+      RevisionService.diffTokens(a, aStart, snake.x, b, bStart, snake.y, operations);
+      RevisionService.diffTokens(a, snake.x, aEnd, b, snake.y, bEnd, operations);
+    } else {
+      // One side is empty, or the texts differ too much to be worth aligning
+      for (let i = aStart; i < aEnd; i++) operations.push({ type: 'delete', value: a[i] });
+      for (let i = bStart; i < bEnd; i++) operations.push({ type: 'insert', value: b[i] });
+    }
+
+    for (let i = aEnd; i < aEnd + suffixLength; i++) {
+      operations.push({ type: 'equal', value: a[i] });
+    }
+  }
+
+  /**
+   * Runs the forward and reverse Myers searches towards each other and returns the point
+   * where they meet. Returns null when the edit distance exceeds MAX_DIFF_DISTANCE, so a
+   * wholesale rewrite costs a bounded amount of time and is shown as replaced.
+   */
+  private static middleSnake(
+    a: string[], aStart: number, aEnd: number,
+    b: string[], bStart: number, bEnd: number
+  ): { x: number; y: number } | null {
+    const n = aEnd - aStart;
+    const m = bEnd - bStart;
+    const maxD = Math.min(Math.ceil((n + m) / 2), MAX_DIFF_DISTANCE);
+    const offset = maxD + 1;
+    const forward = new Int32Array(2 * offset + 1).fill(-1);
+    const reverse = new Int32Array(2 * offset + 1).fill(-1);
+    const delta = n - m;
+    const odd = delta % 2 !== 0;
+
+    forward[offset + 1] = 0;
+    reverse[offset + 1] = 0;
+
+    for (let d = 0; d <= maxD; d++) {
+      for (let k = -d; k <= d; k += 2) {
+        let x = k === -d || (k !== d && forward[offset + k - 1] < forward[offset + k + 1])
+          ? forward[offset + k + 1]
+          : forward[offset + k - 1] + 1;
+        let y = x - k;
+        if (x > n || y > m || y < 0) continue;
+
+        while (x < n && y < m && a[aStart + x] === b[bStart + y]) {
+          x++;
+          y++;
+        }
+        forward[offset + k] = x;
+
+        // Reverse diagonal delta - k holds how far the reverse search got from the end
+        const reverseK = delta - k;
+        if (odd && reverseK >= -(d - 1) && reverseK <= d - 1 && reverse[offset + reverseK] !== -1
+          && x + reverse[offset + reverseK] >= n) {
+          return { x: aStart + x, y: bStart + y };
+        }
+      }
+
+      for (let k = -d; k <= d; k += 2) {
+        let x = k === -d || (k !== d && reverse[offset + k - 1] < reverse[offset + k + 1])
+          ? reverse[offset + k + 1]
+          : reverse[offset + k - 1] + 1;
+        let y = x - k;
+        if (x > n || y > m || y < 0) continue;
+
+        while (x < n && y < m && a[aEnd - x - 1] === b[bEnd - y - 1]) {
+          x++;
+          y++;
+        }
+        reverse[offset + k] = x;
+
+        const forwardK = delta - k;
+        if (!odd && forwardK >= -d && forwardK <= d && forward[offset + forwardK] !== -1
+          && x + forward[offset + forwardK] >= n) {
+          return { x: aEnd - x, y: bEnd - y };
+        }
+      }
+    }
+
+    return null;
+  }
+
+  private static fieldText(revision: ArticleRevisionData, field: RevisionField): string {
+    if (field === 'tags') {
+      return (revision.tags || []).join(' ');
+    }
+
+    return (revision[field] as string | undefined) || '';
+  }
+}
\ No newline at end of file
@@ -0,0 +1,287 @@
+import { Pool } from 'pg';
+import { Series, SeriesData, CreateSeriesData, UpdateSeriesData, SeriesArticleData } from '../models/Series';
+import { Article } from '../models/Article';
+import { SubscriptionPlan } from '../models/SubscriptionPlan';
+import { SEOData } from './ArticleService';
+import { PaywallService } from './PaywallService';
+
+export interface SeriesAccess {
+  has_access: boolean;
+  requires_subscription: boolean;
+  plan_id?: string;
+}
+
+export interface SeriesWithArticles extends SeriesData {
+  seo: SEOData;
+  url: string;
+  articles: SeriesArticleData[];
+  access: SeriesAccess;
+}
+
+export interface SeriesNavigationItem {
+  id: string;
+  title: string;
+  slug: string;
+}
+
+export interface SeriesNavigation {
+  id: string;
+  title: string;
+  slug: string;
+  position: number;
+  total: number;
+  previous: SeriesNavigationItem | null;
+  next: SeriesNavigationItem | null;
+  access: SeriesAccess;
+}
+
+export class SeriesService {
+  private series: Series;
+  private article: Article;
+  private subscriptionPlan: SubscriptionPlan;
+  private paywall: PaywallService;
+
+  constructor(pool: Pool) {
+    this.series = new Series(pool);
+    this.article = new Article(pool);
+    this.subscriptionPlan = new SubscriptionPlan(pool);
+    this.paywall = new PaywallService(pool);
+  }
+
+  async createSeries(seriesData: CreateSeriesData): Promise<SeriesWithArticles> {
+    if (!Series.validateTitle(seriesData.title)) {
+      throw new Error('Invalid title: must be 1-200 characters');
+    }
+
+    const slug = seriesData.slug || Series.generateSlug(seriesData.title);
+    if (!Series.validateSlug(slug)) {
+      throw new Error('Invalid slug: use lowercase letters, numbers and single hyphens');
+    }
+
+    if (seriesData.seo_description && !Series.validateSeoDescription(seriesData.seo_description)) {
+      throw new Error('Invalid SEO description: maximum 300 characters');
+    }
+
+    if (seriesData.plan_id) {
+      await this.verifyPlan(seriesData.plan_id, seriesData.creator_id);
+    }
+
+    if (await this.series.findBySlug(seriesData.creator_id, slug)) {
+      throw new Error('Series slug already exists');
+    }
+
+    const series = await this.series.create({ ...seriesData, slug });
+    return this.buildSeriesResponse(series, seriesData.creator_id);
+  }
+
+  async updateSeries(id: string, updateData: UpdateSeriesData, creatorId?: string): Promise<SeriesWithArticles> {
+    const existingSeries = await this.verifyOwnership(id, creatorId);
+
+    if (updateData.title !== undefined && !Series.validateTitle(updateData.title)) {
+      throw new Error('Invalid title: must be 1-200 characters');
+    }
+
+    if (updateData.slug !== undefined) {
+      if (!Series.validateSlug(updateData.slug)) {
+        throw new Error('Invalid slug: use lowercase letters, numbers and single hyphens');
+      }
+
+      const conflicting = await this.series.findBySlug(existingSeries.creator_id, updateData.slug);
+      if (conflicting && conflicting.id !== id) {
+        throw new Error('Series slug already exists');
+      }
+    }
+
+    if (updateData.seo_description && !Series.validateSeoDescription(updateData.seo_description)) {
+      throw new Error('Invalid SEO description: maximum 300 characters');
+    }
+
+    if (updateData.plan_id) {
+      await this.verifyPlan(updateData.plan_id, existingSeries.creator_id);
+    }
+
+    const updatedSeries = await this.series.update(id, updateData);
+    if (!updatedSeries) {
+      throw new Error('Series not found');
+    }
+
+    return this.buildSeriesResponse(updatedSeries, creatorId);
+  }
+
+  async deleteSeries(id: string, creatorId?: string): Promise<void> {
+    await this.verifyOwnership(id, creatorId);
+
+    // Articles stay in place; only their membership in the series is removed
+    await this.series.delete(id);
+  }
+
+  async getSeries(id: string, viewerId?: string): Promise<SeriesWithArticles | null> {
+    const series = await this.series.findById(id);
+    if (!series) {
+      return null;
+    }
+
+    return this.buildSeriesResponse(series, viewerId);
+  }
+
+  async getSeriesBySlug(creatorId: string, slug: string, viewerId?: string): Promise<SeriesWithArticles | null> {
+    const series = await this.series.findBySlug(creatorId, slug);
+    if (!series) {
+      return null;
+    }
+
+    return this.buildSeriesResponse(series, viewerId);
+  }
+
+  async getCreatorSeries(creatorId: string, viewerId?: string): Promise<SeriesData[]> {
+    // Creators see counts that include their unpublished articles
+    return this.series.findByCreator(creatorId, viewerId !== creatorId);
+  }
+
+  async addArticle(seriesId: string, articleId: string, creatorId?: string, position?: number): Promise<SeriesWithArticles> {
+    const series = await this.verifyOwnership(seriesId, creatorId);
+
+    const article = await this.article.findById(articleId);
+    if (!article) {
+      throw new Error('Article not found');
+    }
+
+    if (article.author_id !== series.creator_id) {
+      throw new Error('Unauthorized: You can only add your own articles to a series');
+    }
+
+    const currentSeries = await this.series.findByArticleId(articleId);
+    if (currentSeries) {
+      throw new Error(currentSeries.id === seriesId
+        ? 'Article is already in this series'
+        : 'Article already belongs to another series');
+    }
+
+    if (position !== undefined && (!Number.isInteger(position) || position < 1)) {
+      throw new Error('Invalid position: must be a positive integer');
+    }
+
+    await this.series.addArticle(seriesId, articleId, position);
+    return this.buildSeriesResponse(series, creatorId);
+  }
+
+  async removeArticle(seriesId: string, articleId: string, creatorId?: string): Promise<SeriesWithArticles> {
+    const series = await this.verifyOwnership(seriesId, creatorId);
+
+    const removed = await this.series.removeArticle(seriesId, articleId);
+    if (!removed) {
+      throw new Error('Article not found in series');
+    }
+
+    return this.buildSeriesResponse(series, creatorId);
+  }
+
+  async reorderArticles(seriesId: string, articleIds: string[], creatorId?: string): Promise<SeriesWithArticles> {
+    const series = await this.verifyOwnership(seriesId, creatorId);
+
+    // The new order must be a permutation of the current members
+    const currentIds = await this.series.getArticleIds(seriesId);
+    const sameMembers = articleIds.length === currentIds.length
+      && new Set(articleIds).size === articleIds.length
+      && articleIds.every(id => currentIds.includes(id));
+
+    if (!sameMembers) {
+      throw new Error('Invalid order: must list every article in the series exactly once');
+    }
+
+    await this.series.reorder(seriesId, articleIds);
+    return this.buildSeriesResponse(series, creatorId);
+  }
+
+  /**
+   * Previous/next navigation for an article within its series. Only published
+   * articles are linked unless the viewer is the series creator.
+   */
+  async getArticleNavigation(articleId: string, viewerId?: string): Promise<SeriesNavigation | null> {
+    const series = await this.series.findByArticleId(articleId);
+    if (!series) {
+      return null;
+    }
+
+    const isCreator = viewerId === series.creator_id;
+    const articles = await this.series.getArticles(series.id!, !isCreator);
+    const index = articles.findIndex(article => article.id === articleId);
+    if (index === -1) {
+      return null;
+    }
+
+    const toItem = (article?: SeriesArticleData): SeriesNavigationItem | null =>
+      article ? { id: article.id, title: article.title, slug: article.slug } : null;
+
+    return {
+      id: series.id!,
+      title: series.title,
+      slug: series.slug,
+      position: index + 1,
+      total: articles.length,
+      previous: toItem(articles[index - 1]),
+      next: toItem(articles[index + 1]),
+      access: await this.getAccess(series, viewerId)
+    };
+  }
+
+  /**
+   * Premium series require an active subscription to the series plan, or to any of the
+   * creator's plans when no specific plan is set. Creators always have access. The rule
+   * lives in PaywallService so article pages, listings and search apply the same one.
+   */
+  async getAccess(series: SeriesData, viewerId?: string): Promise<SeriesAccess> {
+    if (!series.is_premium) {
+      return { has_access: true, requires_subscription: false };
+    }
+
+    return {
+      has_access: await this.paywall.hasSeriesAccess(series, viewerId),
+      requires_subscription: true,
+      plan_id: series.plan_id || undefined
+    };
+  }
+
+  private async buildSeriesResponse(series: SeriesData, viewerId?: string): Promise<SeriesWithArticles> {
+    const articles = await this.series.getArticles(series.id!, viewerId !== series.creator_id);
+
+    return {
+      ...series,
+      seo: {
+        title: series.seo_title || series.title,
+        description: series.seo_description || series.description || '',
+        keywords: [],
+        ogTitle: series.seo_title || series.title,
+        ogDescription: series.seo_description || series.description || '',
+        ogImage: series.cover_image_url
+      },
+      url: SeriesService.buildPublicUrl(series),
+      articles,
+      access: await this.getAccess(series, viewerId)
+    };
+  }
+
+  private async verifyOwnership(seriesId: string, creatorId?: string): Promise<SeriesData> {
+    const series = await this.series.findById(seriesId);
+    if (!series) {
+      throw new Error('Series not found');
+    }
+
+    if (creatorId && series.creator_id !== creatorId) {
+      throw new Error('Unauthorized: You can only manage your own series');
+    }
+
+    return series;
+  }
+
+  private async verifyPlan(planId: string, creatorId: string): Promise<void> {
+    const plan = await this.subscriptionPlan.findById(planId);
+    if (!plan || plan.creator_id !== creatorId) {
+      throw new Error('Invalid plan: must be one of your subscription plans');
+    }
+  }
+
+  static buildPublicUrl(series: Pick<SeriesData, 'creator_id' | 'slug'>): string {
+    return `${process.env.FRONTEND_URL || ''}/series/${series.creator_id}/${series.slug}`;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,158 @@
+import { Pool } from 'pg';
+import { Article } from '../models/Article';
+import { Series } from '../models/Series';
+import { User } from '../models/User';
+import { SeriesService } from './SeriesService';
+
+export interface SitemapEntry {
+  loc: string;
+  lastmod?: Date;
+}
+
+// Protocol limit on URLs per sitemap file
+export const SITEMAP_URL_LIMIT = 50000;
+
+export class SitemapService {
+  private article: Article;
+  private series: Series;
+  private user: User;
+  private pool: Pool;
+  private urlLimit: number;
+
+  constructor(pool: Pool, urlLimit = SITEMAP_URL_LIMIT) {
+    this.pool = pool;
+    this.article = new Article(pool);
+    this.series = new Series(pool);
+    this.user = new User(pool);
+    this.urlLimit = urlLimit;
+  }
+
+  /**
+   * A creator's sitemap: a single urlset, or a sitemap index pointing at numbered
+   * pages once the creator has more URLs than one sitemap may hold.
+   */
+  async buildCreatorSitemap(creatorId: string): Promise<string> {
+    const fixedEntries = await this.getFixedEntries(creatorId);
+    const articleCount = await this.getPublishedCount(creatorId);
+    const totalUrls = fixedEntries.length + articleCount;
+
+    if (totalUrls <= this.urlLimit) {
+      const articles = await this.getArticleEntries(creatorId, articleCount, 0);
+      return SitemapService.renderUrlSet([...fixedEntries, ...articles]);
+    }
+
+    const pageCount = Math.ceil(totalUrls / this.urlLimit);
+    const lastmod = SitemapService.latest(fixedEntries);
+    const pages: SitemapEntry[] = [];
+    for (let page = 1; page <= pageCount; page++) {
+      pages.push({ loc: `${process.env.API_URL || ''}${SitemapService.buildPagePath(creatorId, page)}`, lastmod });
+    }
+
+    return SitemapService.renderIndex(pages);
+  }
+
+  async buildCreatorSitemapPage(creatorId: string, page: number): Promise<string> {
+    if (!Number.isInteger(page) || page < 1) {
+      throw new Error('Invalid sitemap page');
+    }
+
+    const fixedEntries = await this.getFixedEntries(creatorId);
+    const articleCount = await this.getPublishedCount(creatorId);
+    const start = (page - 1) * this.urlLimit;
+
+    if (start >= fixedEntries.length + articleCount) {
+      throw new Error('Sitemap page not found');
+    }
+
+    // The profile and series pages come first, followed by articles newest first
+    const fixedSlice = fixedEntries.slice(start, start + this.urlLimit);
+    const articleOffset = Math.max(0, start - fixedEntries.length);
+    const articles = await this.getArticleEntries(creatorId, this.urlLimit - fixedSlice.length, articleOffset);
+
+    return SitemapService.renderUrlSet([...fixedSlice, ...articles]);
+  }
+
+  private async getFixedEntries(creatorId: string): Promise<SitemapEntry[]> {
+    const creator = await this.user.findById(creatorId);
+    if (!creator) {
+      throw new Error('Creator not found');
+    }
+
+    // Series without published articles have nothing to index yet
+    const series = (await this.series.findByCreator(creatorId))
+      .filter(item => (item.article_count || 0) > 0)
+      .map(item => ({ loc: SeriesService.buildPublicUrl(item), lastmod: item.updated_at }));
+
+    return [
+      { loc: User.buildProfileUrl(creatorId), lastmod: await this.getLastPublishedUpdate(creatorId) },
+      ...series
+    ];
+  }
+
+  private async getArticleEntries(creatorId: string, limit: number, offset: number): Promise<SitemapEntry[]> {
+    if (limit <= 0) {
+      return [];
+    }
+
+    const rows = await this.article.findSitemapEntries(creatorId, limit, offset);
+    return rows.map(row => ({ loc: Article.buildPublicUrl(row), lastmod: row.updated_at }));
+  }
+
+  private async getPublishedCount(creatorId: string): Promise<number> {
+    const query = `SELECT COUNT(*) FROM articles WHERE author_id = $1 AND status = 'published' AND ${Article.notExpiredCondition()}`;
+    const result = await this.pool.query(query, [creatorId]);
+    return parseInt(result.rows[0].count);
+  }
+
+  private async getLastPublishedUpdate(creatorId: string): Promise<Date | undefined> {
+    const query = `SELECT MAX(updated_at) AS lastmod FROM articles WHERE author_id = $1 AND status = 'published' AND ${Article.notExpiredCondition()}`;
+    const result = await this.pool.query(query, [creatorId]);
+    return result.rows[0].lastmod || undefined;
+  }
+
+  static renderUrlSet(entries: SitemapEntry[]): string {
+    const urls = entries.map(entry =>
+      `<url><loc>${escapeXml(entry.loc)}</loc>${entry.lastmod ? `<lastmod>${new Date(entry.lastmod).toISOString()}</lastmod>` : ''}</url>`
+    );
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+      ...urls,
+      '</urlset>'
+    ].join('\n');
+  }
+
+  static renderIndex(sitemaps: SitemapEntry[]): string {
+    const items = sitemaps.map(sitemap =>
+      `<sitemap><loc>${escapeXml(sitemap.loc)}</loc>${sitemap.lastmod ? `<lastmod>${new Date(sitemap.lastmod).toISOString()}</lastmod>` : ''}</sitemap>`
+    );
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+      ...items,
+      '</sitemapindex>'
+    ].join('\n');
+  }
+
+  static buildPagePath(creatorId: string, page: number): string {
+    return `/sitemaps/${creatorId}/sitemap-${page}.xml`;
+  }
+
+  private static latest(entries: SitemapEntry[]): Date | undefined {
+    return entries.reduce<Date | undefined>(
+      (latest, entry) => (entry.lastmod && (!latest || entry.lastmod > latest) ? entry.lastmod : latest),
+      undefined
+    );
+  }
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
\ No newline at end of file
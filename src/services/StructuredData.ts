@@ -0,0 +1,92 @@
+import { Article, ArticleData } from '../models/Article';
+import { BylineAuthor } from '../models/ArticleAuthor';
+import { User } from '../models/User';
+
+export type JsonLd = Record<string, unknown>;
+
+export type ArticleSchemaType = 'ScholarlyArticle' | 'BlogPosting';
+
+export interface BreadcrumbItem {
+  name: string;
+  url: string;
+}
+
+// Search engines truncate longer headlines
+const MAX_HEADLINE_LENGTH = 110;
+
+/**
+ * Schema.org JSON-LD for article pages. The frontend embeds the returned graph as-is
+ * in a <script type="application/ld+json"> tag.
+ */
+export class StructuredData {
+  static forArticle(article: ArticleData, authors: BylineAuthor[], creatorName: string): JsonLd {
+    const url = Article.buildPublicUrl(article);
+    const creatorUrl = User.buildProfileUrl(article.author_id);
+    const headline = article.title.length <= MAX_HEADLINE_LENGTH
+      ? article.title
+      : article.title.substring(0, MAX_HEADLINE_LENGTH - 3) + '...';
+
+    const articleNode: JsonLd = {
+      '@type': StructuredData.articleType(article),
+      '@id': `${url}#article`,
+      headline,
+      description: article.seo_description || article.excerpt || undefined,
+      url,
+      mainEntityOfPage: url,
+      image: article.featured_image_url || undefined,
+      datePublished: article.published_at ? new Date(article.published_at).toISOString() : undefined,
+      dateModified: article.updated_at ? new Date(article.updated_at).toISOString() : undefined,
+      author: (authors.length > 0 ? authors : [{ user_id: article.author_id, name: creatorName, position: 1 }])
+        .map(author => StructuredData.person(author)),
+      keywords: article.tags && article.tags.length > 0 ? article.tags.join(', ') : undefined,
+      inLanguage: article.locale || undefined,
+      isAccessibleForFree: !article.is_premium
+    };
+
+    return {
+      '@context': 'https://schema.org',
+      '@graph': [
+        StructuredData.compact(articleNode),
+        StructuredData.breadcrumbs([
+          { name: creatorName, url: creatorUrl },
+          { name: article.title, url }
+        ])
+      ]
+    };
+  }
+
+  static person(author: Pick<BylineAuthor, 'user_id' | 'name' | 'avatar_url'>): JsonLd {
+    return StructuredData.compact({
+      '@type': 'Person',
+      name: author.name,
+      url: User.buildProfileUrl(author.user_id),
+      image: author.avatar_url || undefined
+    });
+  }
+
+  static breadcrumbs(items: BreadcrumbItem[]): JsonLd {
+    return {
+      '@type': 'BreadcrumbList',
+      itemListElement: items.map((item, index) => ({
+        '@type': 'ListItem',
+        position: index + 1,
+        name: item.name,
+        item: item.url
+      }))
+    };
+  }
+
+  /**
+   * Articles that cite references are scholarly; everything else is a blog post
+   */
+  static articleType(article: ArticleData): ArticleSchemaType {
+    return article.content_html && article.content_html.includes('class="bibliography"')
+      ? 'ScholarlyArticle'
+      : 'BlogPosting';
+  }
+
+  // Drop unset properties so the output only contains what we know
+  private static compact(node: JsonLd): JsonLd {
+    return Object.fromEntries(Object.entries(node).filter(([, value]) => value !== undefined));
+  }
+}
\ No newline at end of file
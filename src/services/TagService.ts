@@ -0,0 +1,317 @@
+import { Pool } from 'pg';
+import { Article, ArticleData } from '../models/Article';
+import { Tag, TagData, CreateTagData, UpdateTagData, TagSynonymData } from '../models/Tag';
+import { User } from '../models/User';
+import { ArticleService, ArticlePreview, SEOData } from './ArticleService';
+import { PaywallService } from './PaywallService';
+
+export interface TagWithSEO extends TagData {
+  seo: SEOData;
+  url: string;
+}
+
+export interface TagLanding {
+  tag: TagWithSEO;
+  // Landing pages are public, so premium articles and premium series are listed as previews
+  articles: (ArticleData | ArticlePreview<ArticleData>)[];
+  total: number;
+}
+
+export interface TagMergeResult {
+  tag: TagData;
+  merged: string[];
+  articles_updated: number;
+}
+
+export class TagService {
+  private tag: Tag;
+  private article: Article;
+  private user: User;
+  private paywall: PaywallService;
+
+  constructor(pool: Pool) {
+    this.tag = new Tag(pool);
+    this.article = new Article(pool);
+    this.user = new User(pool);
+    this.paywall = new PaywallService(pool);
+  }
+
+  /**
+   * Maps tags as typed by an author to the creator's canonical tag names, registering
+   * tags the creator has not used before. Spellings that share a slug or are registered
+   * synonyms collapse into one tag.
+   */
+  async resolveTags(creatorId: string, names: string[]): Promise<string[]> {
+    const invalid = names.find(name => !Tag.validateName(name));
+    if (invalid !== undefined) {
+      throw new Error(`Invalid tag "${invalid}": must be 1-50 characters and contain a letter or number`);
+    }
+
+    const slugs = names.map(name => Tag.generateSlug(name));
+    const known = new Map((await this.tag.resolveSlugs(creatorId, slugs)).map(tag => [tag.matched_slug, tag.name]));
+
+    const resolved: string[] = [];
+    for (let i = 0; i < names.length; i++) {
+      let canonical = known.get(slugs[i]);
+      if (!canonical) {
+        const created = await this.tag.findOrCreate({ creator_id: creatorId, name: TagService.cleanName(names[i]) });
+        canonical = created.name;
+        known.set(slugs[i], canonical);
+      }
+
+      if (!resolved.includes(canonical)) {
+        resolved.push(canonical);
+      }
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Canonical names for filtering. Unknown tags are passed through unchanged.
+   */
+  async canonicalNames(creatorId: string, names: string[]): Promise<string[]> {
+    const known = new Map(
+      (await this.tag.resolveSlugs(creatorId, names.map(name => Tag.generateSlug(name)))).map(tag => [tag.matched_slug, tag.name])
+    );
+
+    return Array.from(new Set(names.map(name => known.get(Tag.generateSlug(name)) || name)));
+  }
+
+  async getCreatorTags(creatorId: string, viewerId?: string): Promise<TagData[]> {
+    // Creators see counts that include their unpublished articles
+    return this.tag.findByCreator(creatorId, viewerId !== creatorId);
+  }
+
+  /**
+   * Tag landing page with the tag's published articles, newest first. A synonym or a
+   * merged tag's old slug returns the canonical slug to redirect to instead.
+   */
+  async getTagLanding(
+    creatorId: string,
+    slug: string,
+    limit = 20,
+    offset = 0
+  ): Promise<TagLanding | { redirect_slug: string } | null> {
+    const [match] = await this.tag.resolveSlugs(creatorId, [slug]);
+    if (!match) {
+      return null;
+    }
+
+    if (match.slug !== slug) {
+      return { redirect_slug: match.slug };
+    }
+
+    const creator = await this.user.findById(creatorId);
+    if (!creator) {
+      return null;
+    }
+
+    const [{ articles, total }, synonyms] = await Promise.all([
+      this.article.findMany({
+        author_id: creatorId,
+        status: 'published',
+        tags: [match.name],
+        exclude_expired: true,
+        limit: Math.min(limit, 100),
+        offset
+      }),
+      this.tag.findSynonyms(match.id!)
+    ]);
+
+    const { matched_slug: _matched, ...tag } = match;
+
+    return {
+      tag: this.withSEO({ ...tag, article_count: total, synonyms: synonyms.map(synonym => synonym.name) }, creator.name),
+      articles: await Promise.all(articles.map(async article =>
+        await this.paywall.hasFullAccess(article) ? article : ArticleService.buildPreview(article)
+      )),
+      total
+    };
+  }
+
+  async createTag(tagData: CreateTagData): Promise<TagData> {
+    this.validateDetails(tagData);
+
+    const name = TagService.cleanName(tagData.name);
+    await this.verifySlugAvailable(tagData.creator_id, Tag.generateSlug(name));
+
+    return this.tag.findOrCreate({ ...tagData, name });
+  }
+
+  /**
+   * Renaming rewrites every article using the tag. The old slug becomes a synonym so
+   * links to the old landing page keep working.
+   */
+  async updateTag(id: string, updateData: UpdateTagData, creatorId?: string): Promise<TagData> {
+    const existingTag = await this.verifyOwnership(id, creatorId);
+    this.validateDetails(updateData);
+
+    const name = updateData.name !== undefined ? TagService.cleanName(updateData.name) : undefined;
+    const slug = name !== undefined ? Tag.generateSlug(name) : existingTag.slug;
+
+    if (slug !== existingTag.slug) {
+      await this.verifySlugAvailable(existingTag.creator_id, slug, id);
+      // A synonym of this tag that becomes its name is no longer needed
+      await this.tag.removeSynonym(id, slug);
+    }
+
+    const updatedTag = await this.tag.update(id, { ...updateData, name });
+    if (!updatedTag) {
+      throw new Error('Tag not found');
+    }
+
+    if (updatedTag.name !== existingTag.name) {
+      await this.article.replaceTags(existingTag.creator_id, [existingTag.name], updatedTag.name);
+    }
+
+    if (slug !== existingTag.slug) {
+      await this.tag.addSynonym(existingTag.creator_id, id, existingTag.name);
+    }
+
+    return updatedTag;
+  }
+
+  /**
+   * Deletes the tag and removes it from the creator's articles
+   */
+  async deleteTag(id: string, creatorId?: string): Promise<void> {
+    const existingTag = await this.verifyOwnership(id, creatorId);
+
+    await this.article.replaceTags(existingTag.creator_id, [existingTag.name], null);
+    await this.tag.delete([id]);
+  }
+
+  async addSynonym(id: string, name: string, creatorId?: string): Promise<TagSynonymData[]> {
+    const existingTag = await this.verifyOwnership(id, creatorId);
+
+    if (!Tag.validateName(name)) {
+      throw new Error('Invalid synonym: must be 1-50 characters and contain a letter or number');
+    }
+
+    const slug = Tag.generateSlug(name);
+    const [match] = await this.tag.resolveSlugs(existingTag.creator_id, [slug]);
+
+    if (match && match.matched_slug === match.slug) {
+      throw new Error(match.id === id
+        ? 'Invalid synonym: it is the tag\'s own name'
+        : `Invalid synonym: "${match.name}" is a tag of its own; merge the tags instead`);
+    }
+
+    if (match) {
+      throw new Error(`Synonym already exists for "${match.name}"`);
+    }
+
+    await this.tag.addSynonym(existingTag.creator_id, id, TagService.cleanName(name));
+    return this.tag.findSynonyms(id);
+  }
+
+  async removeSynonym(id: string, synonym: string, creatorId?: string): Promise<TagSynonymData[]> {
+    await this.verifyOwnership(id, creatorId);
+
+    const removed = await this.tag.removeSynonym(id, Tag.generateSlug(synonym));
+    if (!removed) {
+      throw new Error('Synonym not found');
+    }
+
+    return this.tag.findSynonyms(id);
+  }
+
+  /**
+   * Folds the source tags into the target: articles are retagged, and the sources'
+   * names and synonyms become synonyms of the target before the sources are deleted
+   */
+  async mergeTags(targetId: string, sourceIds: string[], creatorId?: string): Promise<TagMergeResult> {
+    const target = await this.verifyOwnership(targetId, creatorId);
+
+    const uniqueSourceIds = Array.from(new Set(sourceIds));
+    if (uniqueSourceIds.length === 0 || uniqueSourceIds.includes(targetId)) {
+      throw new Error('Invalid merge: list one or more tags other than the target');
+    }
+
+    const sources = await this.tag.findByIds(uniqueSourceIds);
+    if (sources.length !== uniqueSourceIds.length) {
+      throw new Error('Tag not found');
+    }
+
+    if (sources.some(source => source.creator_id !== target.creator_id)) {
+      throw new Error('Unauthorized: You can only merge your own tags');
+    }
+
+    const sourceNames = sources.map(source => source.name);
+
+    await this.tag.moveSynonyms(uniqueSourceIds, targetId);
+    const articlesUpdated = await this.article.replaceTags(target.creator_id, sourceNames, target.name);
+    await this.tag.delete(uniqueSourceIds);
+
+    return {
+      tag: target,
+      merged: sourceNames,
+      articles_updated: articlesUpdated
+    };
+  }
+
+  private withSEO(tag: TagData, creatorName: string): TagWithSEO {
+    const title = tag.seo_title || `${tag.name} | ${creatorName}`;
+    const description = tag.seo_description || tag.description || `Articles by ${creatorName} about ${tag.name}`;
+
+    return {
+      ...tag,
+      seo: {
+        title,
+        description,
+        keywords: [tag.name, ...(tag.synonyms || [])],
+        ogTitle: title,
+        ogDescription: description
+      },
+      url: TagService.buildPublicUrl(tag)
+    };
+  }
+
+  private validateDetails(details: UpdateTagData): void {
+    if (details.name !== undefined && !Tag.validateName(details.name)) {
+      throw new Error('Invalid name: must be 1-50 characters and contain a letter or number');
+    }
+
+    if (details.seo_title && !Tag.validateSeoTitle(details.seo_title)) {
+      throw new Error('Invalid SEO title: maximum 200 characters');
+    }
+
+    if (details.seo_description && !Tag.validateSeoDescription(details.seo_description)) {
+      throw new Error('Invalid SEO description: maximum 300 characters');
+    }
+  }
+
+  // A slug may belong to one tag or synonym per creator
+  private async verifySlugAvailable(creatorId: string, slug: string, tagId?: string): Promise<void> {
+    const [match] = await this.tag.resolveSlugs(creatorId, [slug]);
+    if (!match || (match.id === tagId && match.matched_slug !== match.slug)) {
+      return;
+    }
+
+    throw new Error(match.matched_slug === match.slug
+      ? `Tag "${match.name}" already exists; merge the tags instead`
+      : `Tag name already exists as a synonym of "${match.name}"`);
+  }
+
+  private async verifyOwnership(tagId: string, creatorId?: string): Promise<TagData> {
+    const tag = await this.tag.findById(tagId);
+    if (!tag) {
+      throw new Error('Tag not found');
+    }
+
+    if (creatorId && tag.creator_id !== creatorId) {
+      throw new Error('Unauthorized: You can only manage your own tags');
+    }
+
+    return tag;
+  }
+
+  static cleanName(name: string): string {
+    return name.trim().replace(/\s+/g, ' ');
+  }
+
+  static buildPublicUrl(tag: Pick<TagData, 'creator_id' | 'slug'>): string {
+    return `${process.env.FRONTEND_URL || ''}/tags/${tag.creator_id}/${tag.slug}`;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,287 @@
+import { Pool } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import { Article, ArticleData, CreateArticleData, DEFAULT_LOCALE } from '../models/Article';
+import { ArticleService, ArticleWithSEO } from './ArticleService';
+
+export interface TranslationSummary {
+  id: string;
+  locale: string;
+  title: string;
+  slug: string;
+  status: string;
+}
+
+export interface LanguagePreference {
+  locale: string;
+  q: number;
+}
+
+export interface ReaderLocale {
+  // An explicit ?locale= choice, which wins over the Accept-Language header
+  locale?: string;
+  acceptLanguage?: string;
+}
+
+export type CreateTranslationData = Omit<CreateArticleData, 'author_id' | 'locale'> & { locale: string };
+
+export class TranslationService {
+  private article: Article;
+  private articleService: ArticleService;
+
+  constructor(pool: Pool) {
+    this.article = new Article(pool);
+    this.articleService = new ArticleService(pool);
+  }
+
+  /**
+   * The article's translation group, itself included. Readers only see published
+   * translations; the article's authors see drafts too.
+   */
+  async getTranslations(articleId: string, userId?: string): Promise<TranslationSummary[]> {
+    const article = await this.article.findById(articleId);
+    if (!article) {
+      throw new Error('Article not found');
+    }
+
+    if (Article.isPrivateStatus(article.status) && !(await this.articleService.canViewUnpublished(article, userId))) {
+      throw new Error('Article not found');
+    }
+
+    if (!article.translation_group_id) {
+      return [TranslationService.summarize(article)];
+    }
+
+    const isAuthor = !!userId && (await this.articleService.isArticleAuthor(article, userId));
+    const translations = await this.article.findTranslations([article.translation_group_id]);
+
+    return translations
+      .filter(translation => isAuthor || translation.id === article.id || translation.status === 'published')
+      .map(translation => TranslationService.summarize(translation));
+  }
+
+  /**
+   * Creates a draft translation of an article. Tags, the premium flag and the featured
+   * image are taken from the original unless given.
+   */
+  async createTranslation(articleId: string, data: CreateTranslationData, userId: string): Promise<ArticleWithSEO> {
+    const source = await this.requireAuthoredArticle(articleId, userId);
+
+    const locale = Article.normalizeLocale(data.locale);
+    if (!locale) {
+      throw new Error('Invalid locale: use a language tag such as en or th-TH');
+    }
+
+    const groupId = source.translation_group_id || uuidv4();
+    const translations = source.translation_group_id ? await this.article.findTranslations([groupId]) : [source];
+    if (translations.some(translation => (translation.locale || DEFAULT_LOCALE) === locale)) {
+      throw new Error(`A ${locale} translation already exists`);
+    }
+
+    const slug = TranslationService.translationSlug(
+      source.slug!,
+      data.title,
+      locale,
+      new Set(await this.article.findSlugsByAuthor(source.author_id))
+    );
+
+    const translation = await this.articleService.createArticle({
+      ...data,
+      author_id: source.author_id,
+      locale,
+      tags: data.tags ?? source.tags,
+      is_premium: data.is_premium ?? source.is_premium,
+      featured_image_id: data.featured_image_id ?? source.featured_image_id
+    }, { slug, translation_group_id: groupId });
+
+    // The original joins the group only once its first translation exists
+    if (!source.translation_group_id) {
+      await this.article.setTranslationGroup(source.id!, groupId);
+    }
+
+    return translation;
+  }
+
+  /**
+   * Adds an existing article to this article's translation group
+   */
+  async linkTranslation(articleId: string, translationId: string, userId: string): Promise<TranslationSummary[]> {
+    const article = await this.requireAuthoredArticle(articleId, userId);
+    const translation = await this.requireAuthoredArticle(translationId, userId);
+
+    if (article.id === translation.id) {
+      throw new Error('Invalid translation: an article cannot translate itself');
+    }
+
+    if (translation.author_id !== article.author_id) {
+      throw new Error('Invalid translation: translations must belong to the same creator');
+    }
+
+    if (translation.translation_group_id) {
+      if (translation.translation_group_id === article.translation_group_id) {
+        throw new Error('Article is already a translation of this article');
+      }
+      throw new Error('Article already belongs to another translation group; remove it from that group first');
+    }
+
+    const groupId = article.translation_group_id || uuidv4();
+    const translations = article.translation_group_id ? await this.article.findTranslations([groupId]) : [article];
+    const locale = translation.locale || DEFAULT_LOCALE;
+    if (translations.some(member => (member.locale || DEFAULT_LOCALE) === locale)) {
+      throw new Error(`A ${locale} translation already exists`);
+    }
+
+    await this.article.setTranslationGroup(translation.id!, groupId);
+    if (!article.translation_group_id) {
+      await this.article.setTranslationGroup(article.id!, groupId);
+    }
+
+    return this.getTranslations(article.id!, userId);
+  }
+
+  /**
+   * Removes the article from its translation group. A group left with one article is dissolved.
+   */
+  async unlinkTranslation(articleId: string, userId: string): Promise<void> {
+    const article = await this.requireAuthoredArticle(articleId, userId);
+    if (!article.translation_group_id) {
+      throw new Error('Invalid translation: article is not part of a translation group');
+    }
+
+    await this.article.setTranslationGroup(article.id!, null);
+
+    const remaining = (await this.article.findTranslations([article.translation_group_id]))
+      .filter(member => member.id !== article.id);
+    if (remaining.length === 1) {
+      await this.article.setTranslationGroup(remaining[0].id!, null);
+    }
+  }
+
+  /**
+   * Which translation to serve instead of the requested article, or null to serve it as
+   * is. An explicit locale picks that translation. Otherwise the Accept-Language header
+   * only switches articles when the reader does not accept the requested article's
+   * language, so a link to the Thai version still opens it for a reader who also reads Thai.
+   */
+  async selectForReader(article: ArticleData, reader: ReaderLocale): Promise<string | null> {
+    if (!article.translation_group_id || (!reader.locale && !reader.acceptLanguage)) {
+      return null;
+    }
+
+    const current = article.locale || DEFAULT_LOCALE;
+    let preferences: LanguagePreference[];
+
+    if (reader.locale) {
+      const locale = Article.normalizeLocale(reader.locale);
+      if (!locale || locale === current) {
+        return null;
+      }
+      preferences = [{ locale, q: 1 }];
+    } else {
+      preferences = TranslationService.parseAcceptLanguage(reader.acceptLanguage!);
+      if (preferences.length === 0 || TranslationService.negotiate([current], preferences)) {
+        return null;
+      }
+    }
+
+    const published = (await this.article.findTranslations([article.translation_group_id]))
+      .filter(translation => translation.id !== article.id && translation.status === 'published');
+
+    const locale = TranslationService.negotiate(published.map(translation => translation.locale || DEFAULT_LOCALE), preferences);
+    const selected = published.find(translation => translation.locale === locale);
+
+    return selected ? selected.id! : null;
+  }
+
+  private async requireAuthoredArticle(id: string, userId: string): Promise<ArticleData> {
+    const article = await this.article.findById(id);
+    if (!article) {
+      throw new Error('Article not found');
+    }
+
+    if (!(await this.articleService.isArticleAuthor(article, userId))) {
+      throw new Error('Unauthorized: You can only translate your own articles');
+    }
+
+    return article;
+  }
+
+  /**
+   * Languages the reader accepts, most preferred first. Entries with q=0 are refusals
+   * and are left out.
+   */
+  static parseAcceptLanguage(header: string): LanguagePreference[] {
+    return header
+      .split(',')
+      .map((part, index) => {
+        const [tag, ...params] = part.trim().split(';');
+        const qParam = params.map(param => param.trim()).find(param => param.startsWith('q='));
+        const q = qParam ? parseFloat(qParam.substring(2)) : 1;
+        const locale = tag.trim() === '*' ? '*' : Article.normalizeLocale(tag.trim());
+
+        return { locale, q: isNaN(q) ? 0 : Math.min(q, 1), index };
+      })
+      .filter((entry): entry is LanguagePreference & { index: number } => !!entry.locale && entry.q > 0)
+      .sort((a, b) => b.q - a.q || a.index - b.index)
+      .map(({ locale, q }) => ({ locale, q }));
+  }
+
+  /**
+   * The best available locale for the preferences. A preference matches an exact tag
+   * first, then by language: "th" matches "th-TH" and "en-US" matches "en".
+   */
+  static negotiate(available: string[], preferences: LanguagePreference[]): string | null {
+    const language = (locale: string) => locale.split('-')[0].toLowerCase();
+
+    for (const preference of preferences) {
+      if (preference.locale === '*') {
+        return available[0] || null;
+      }
+
+      const exact = available.find(locale => locale.toLowerCase() === preference.locale.toLowerCase());
+      if (exact) {
+        return exact;
+      }
+
+      const sameLanguage = available.find(locale => language(locale) === language(preference.locale));
+      if (sameLanguage) {
+        return sameLanguage;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * The title's slug when it has one that is free; otherwise the original's slug with
+   * the locale appended ("on-priors-th"), numbered if that is taken too.
+   */
+  static translationSlug(sourceSlug: string, title: string, locale: string, taken: Set<string>): string {
+    const fromTitle = ArticleService.generateSlugFromTitle(title).replace(/^-+|-+$/g, '');
+    if (fromTitle && !taken.has(fromTitle)) {
+      return fromTitle;
+    }
+
+    const suffix = `-${locale.toLowerCase()}`;
+    const base = `${sourceSlug.substring(0, 100 - suffix.length)}${suffix}`;
+    if (!taken.has(base)) {
+      return base;
+    }
+
+    for (let n = 2; ; n++) {
+      const candidate = `${base.substring(0, 100 - `-${n}`.length)}-${n}`;
+      if (!taken.has(candidate)) {
+        return candidate;
+      }
+    }
+  }
+
+  private static summarize(article: ArticleData): TranslationSummary {
+    return {
+      id: article.id!,
+      locale: article.locale || DEFAULT_LOCALE,
+      title: article.title,
+      slug: article.slug!,
+      status: article.status
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,234 @@
+import zlib from 'zlib';
+
+export interface ZipEntry {
+  name: string;
+  data: Buffer;
+}
+
+// What the central directory needs to know about a file already written to the archive
+export interface ZipDirectoryEntry {
+  name: string;
+  method: 0 | 8;
+  crc32: number;
+  compressed_size: number;
+  size: number;
+  offset: number;
+  dos_time: number;
+  dos_date: number;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// Largest total size an archive may unpack to, so a small upload cannot exhaust memory
+export const MAX_UNPACKED_BYTES = 512 * 1024 * 1024;
+
+// Without ZIP64, offsets and sizes are 32-bit and there are at most 65535 entries
+const MAX_ARCHIVE_BYTES = 0xffffffff;
+const MAX_ARCHIVE_ENTRIES = 0xffff;
+
+// Bit 11 of the general purpose flags: file names are UTF-8
+const UTF8_NAMES = 0x0800;
+
+/**
+ * Minimal ZIP support for archives exported by other platforms and for our own
+ * exports: stored and deflated entries, no encryption and no ZIP64.
+ */
+export class ZipArchive {
+  static isZip(buffer: Buffer): boolean {
+    return buffer.length >= 4 && buffer.readUInt32LE(0) === LOCAL_FILE_HEADER;
+  }
+
+  /**
+   * Reads every file in the archive. Directory entries are left out.
+   */
+  static read(buffer: Buffer, maxUnpackedBytes = MAX_UNPACKED_BYTES): ZipEntry[] {
+    const end = ZipArchive.findEndOfCentralDirectory(buffer);
+    const entryCount = buffer.readUInt16LE(end + 10);
+    let offset = buffer.readUInt32LE(end + 16);
+
+    const entries: ZipEntry[] = [];
+    let unpackedBytes = 0;
+
+    for (let i = 0; i < entryCount; i++) {
+      if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+        throw new Error('Invalid archive: corrupt central directory');
+      }
+
+      const flags = buffer.readUInt16LE(offset + 8);
+      const method = buffer.readUInt16LE(offset + 10);
+      const compressedSize = buffer.readUInt32LE(offset + 20);
+      const size = buffer.readUInt32LE(offset + 24);
+      const nameLength = buffer.readUInt16LE(offset + 28);
+      const extraLength = buffer.readUInt16LE(offset + 30);
+      const commentLength = buffer.readUInt16LE(offset + 32);
+      const localOffset = buffer.readUInt32LE(offset + 42);
+      const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+      offset += 46 + nameLength + extraLength + commentLength;
+
+      if (name.endsWith('/')) {
+        continue;
+      }
+
+      if (flags & 0x1) {
+        throw new Error('Invalid archive: encrypted files are not supported');
+      }
+
+      if (compressedSize === 0xffffffff || size === 0xffffffff) {
+        throw new Error('Invalid archive: ZIP64 archives are not supported');
+      }
+
+      unpackedBytes += size;
+      if (unpackedBytes > maxUnpackedBytes) {
+        throw new Error('Invalid archive: too large when unpacked');
+      }
+
+      if (localOffset + 30 > buffer.length || buffer.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+        throw new Error('Invalid archive: corrupt file header');
+      }
+
+      const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+      const compressed = buffer.subarray(dataStart, dataStart + compressedSize);
+
+      let data: Buffer;
+      if (method === 0) {
+        data = compressed;
+      } else if (method === 8) {
+        // The declared size caps the output, whatever the compressed stream claims
+        data = zlib.inflateRawSync(compressed, { maxOutputLength: Math.max(size, 1) });
+      } else {
+        throw new Error(`Invalid archive: unsupported compression method ${method}`);
+      }
+
+      entries.push({ name, data });
+    }
+
+    return entries;
+  }
+
+  /**
+   * Writes one file as it appears in the archive at the given offset. The archive can be
+   * built in pieces: keep the directory entries and finish with writeCentralDirectory.
+   */
+  static writeEntry(
+    entry: ZipEntry,
+    offset: number,
+    options: { compress?: boolean; modified?: Date } = {}
+  ): { data: Buffer; directoryEntry: ZipDirectoryEntry } {
+    const name = Buffer.from(entry.name, 'utf8');
+    const method = options.compress === false ? 0 : 8;
+    const compressed = method === 8 ? zlib.deflateRawSync(entry.data) : entry.data;
+    const { time, date } = ZipArchive.toDosDateTime(options.modified || new Date());
+
+    if (offset + 30 + name.length + compressed.length > MAX_ARCHIVE_BYTES) {
+      throw new Error('Invalid archive: larger than 4 GB');
+    }
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(LOCAL_FILE_HEADER, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(UTF8_NAMES, 6);
+    header.writeUInt16LE(method, 8);
+    header.writeUInt16LE(time, 10);
+    header.writeUInt16LE(date, 12);
+    header.writeUInt32LE(zlib.crc32(entry.data), 14);
+    header.writeUInt32LE(compressed.length, 18);
+    header.writeUInt32LE(entry.data.length, 22);
+    header.writeUInt16LE(name.length, 26);
+
+    return {
+      data: Buffer.concat([header, name, compressed]),
+      directoryEntry: {
+        name: entry.name,
+        method,
+        crc32: zlib.crc32(entry.data),
+        compressed_size: compressed.length,
+        size: entry.data.length,
+        offset,
+        dos_time: time,
+        dos_date: date
+      }
+    };
+  }
+
+  /**
+   * The central directory and end record that close an archive whose files end at offset
+   */
+  static writeCentralDirectory(entries: ZipDirectoryEntry[], offset: number): Buffer {
+    if (entries.length > MAX_ARCHIVE_ENTRIES) {
+      throw new Error('Invalid archive: more than 65535 files');
+    }
+
+    const records = entries.map(entry => {
+      const name = Buffer.from(entry.name, 'utf8');
+      const record = Buffer.alloc(46);
+      record.writeUInt32LE(CENTRAL_DIRECTORY_HEADER, 0);
+      record.writeUInt16LE(20, 4);
+      record.writeUInt16LE(20, 6);
+      record.writeUInt16LE(UTF8_NAMES, 8);
+      record.writeUInt16LE(entry.method, 10);
+      record.writeUInt16LE(entry.dos_time, 12);
+      record.writeUInt16LE(entry.dos_date, 14);
+      record.writeUInt32LE(entry.crc32, 16);
+      record.writeUInt32LE(entry.compressed_size, 20);
+      record.writeUInt32LE(entry.size, 24);
+      record.writeUInt16LE(name.length, 28);
+      record.writeUInt32LE(entry.offset, 42);
+      return Buffer.concat([record, name]);
+    });
+
+    const directory = Buffer.concat(records);
+    if (offset + directory.length + 22 > MAX_ARCHIVE_BYTES) {
+      throw new Error('Invalid archive: larger than 4 GB');
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(directory.length, 12);
+    end.writeUInt32LE(offset, 16);
+
+    return Buffer.concat([directory, end]);
+  }
+
+  static write(entries: ZipEntry[]): Buffer {
+    const parts: Buffer[] = [];
+    const directory: ZipDirectoryEntry[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+      const written = ZipArchive.writeEntry(entry, offset);
+      parts.push(written.data);
+      directory.push(written.directoryEntry);
+      offset += written.data.length;
+    }
+
+    return Buffer.concat([...parts, ZipArchive.writeCentralDirectory(directory, offset)]);
+  }
+
+  // MS-DOS timestamps have two-second resolution and start in 1980
+  private static toDosDateTime(value: Date): { time: number; date: number } {
+    const year = Math.max(value.getUTCFullYear(), 1980);
+
+    return {
+      time: (value.getUTCHours() << 11) | (value.getUTCMinutes() << 5) | Math.floor(value.getUTCSeconds() / 2),
+      date: ((year - 1980) << 9) | ((value.getUTCMonth() + 1) << 5) | value.getUTCDate()
+    };
+  }
+
+  private static findEndOfCentralDirectory(buffer: Buffer): number {
+    // The record is 22 bytes plus a comment of at most 65535 bytes, at the very end
+    const lowest = Math.max(0, buffer.length - 22 - 0xffff);
+
+    for (let offset = buffer.length - 22; offset >= lowest; offset--) {
+      if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+        return offset;
+      }
+    }
+
+    throw new Error('Invalid archive: not a ZIP file');
+  }
+}
\ No newline at end of file
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import express from 'express';
+import request from 'supertest';
+import { Pool } from 'pg';
+import { createArticlesRouter } from '../../../src/routes/articles';
+
+jest.mock('uuid', () => ({ v4: () => 'generated-uuid' }));
+
+const inPremiumSeries = {
+  id: 'article_1',
+  author_id: 'creator_123',
+  title: 'Gradient boosting, part 2',
+  slug: 'gradient-boosting-part-2',
+  content: 'Series text',
+  content_html: '<p>Series text</p>',
+  status: 'published',
+  is_premium: false,
+  tags: ['ml']
+};
+
+const standalone = {
+  ...inPremiumSeries,
+  id: 'article_2',
+  title: 'Gradient boosting basics',
+  slug: 'gradient-boosting-basics',
+  content: 'Free text',
+  content_html: '<p>Free text</p>'
+};
+
+const premiumSeries = {
+  id: 'series_123',
+  creator_id: 'creator_123',
+  title: 'Deep Dives',
+  slug: 'deep-dives',
+  is_premium: true,
+  plan_id: 'plan_123'
+};
+
+describe('articles routes', () => {
+  let mockPool: { query: jest.Mock<(...args: any[]) => Promise<any>> };
+  let app: express.Express;
+
+  beforeEach(() => {
+    mockPool = { query: jest.fn() };
+    mockPool.query.mockImplementation(async (sql: string, values?: any[]) => {
+      if (sql.includes('SELECT s.* FROM series s')) {
+        return { rows: values?.[0] === inPremiumSeries.id ? [premiumSeries] : [] };
+      }
+      if (sql.includes('COUNT(*)') && !sql.includes('GROUP BY')) return { rows: [{ count: '2' }] };
+      if (sql.includes('ts_headline')) {
+        return { rows: [inPremiumSeries, standalone].map(article => ({ ...article, rank: '0.5', title_highlight: article.title, snippet: '' })) };
+      }
+      if (sql.includes('SELECT *')) return { rows: [inPremiumSeries, standalone] };
+      return { rows: [] };
+    });
+
+    app = express();
+    app.use('/api/articles', createArticlesRouter(mockPool as unknown as Pool));
+  });
+
+  describe('GET /api/articles', () => {
+    it('should list free articles in a premium series as previews', async () => {
+      const response = await request(app).get('/api/articles').expect(200);
+
+      const [gated, open] = response.body.articles;
+      expect(gated).toEqual(expect.objectContaining({ id: 'article_1', is_preview: true }));
+      expect(gated.content_html).not.toContain('Series text');
+      expect(open.is_preview).toBeUndefined();
+      expect(open.content_html).toBe('<p>Free text</p>');
+    });
+  });
+
+  describe('GET /api/articles/search/:term', () => {
+    it('should return free articles in a premium series as previews', async () => {
+      const response = await request(app).get('/api/articles/search/boosting').expect(200);
+
+      const [gated, open] = response.body.articles;
+      expect(gated).toEqual(expect.objectContaining({ id: 'article_1', is_preview: true }));
+      expect(gated.content_html).not.toContain('Series text');
+      expect(open.content_html).toBe('<p>Free text</p>');
+    });
+
+    it('should return the full text to subscribers of the series plan', async () => {
+      const defaultQuery = mockPool.query.getMockImplementation()!;
+      mockPool.query.mockImplementation(async (sql: string, values?: any[]) =>
+        sql.includes('FROM subscriptions') ? { rows: [{ '?column?': 1 }] } : defaultQuery(sql, values)
+      );
+
+      const response = await request(app)
+        .get('/api/articles/search/boosting')
+        .set('Authorization', 'Bearer token')
+        .expect(200);
+
+      expect(response.body.articles[0].content_html).toBe('<p>Series text</p>');
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { Pool } from 'pg';
+import { ArticleScheduler } from '../../../src/jobs/ArticleScheduler';
+import { ArticleService } from '../../../src/services/ArticleService';
+import { Article } from '../../../src/models/Article';
+
+jest.mock('uuid', () => ({ v4: () => 'generated-uuid' }));
+
+const now = new Date('2025-10-08T12:00:00Z');
+
+const scheduledArticle = {
+  id: 'article_123',
+  author_id: 'creator_123',
+  title: 'On Priors',
+  slug: 'on-priors',
+  content: '<p>Hello brave new world</p>',
+  content_format: 'html',
+  status: 'scheduled',
+  scheduled_at: new Date('2025-10-08T11:00:00Z'),
+  notify_subscribers: true,
+  social_auto_post: false
+};
+
+const publishedArticle = { ...scheduledArticle, status: 'published', scheduled_at: null, published_at: scheduledArticle.scheduled_at };
+
+const callsMatching = (mockPool: { query: jest.Mock<(...args: any[]) => Promise<any>> }, text: string) =>
+  mockPool.query.mock.calls.filter(([sql]) => String(sql).includes(text));
+
+describe('Article scheduling', () => {
+  let mockPool: { query: jest.Mock<(...args: any[]) => Promise<any>> };
+
+  beforeEach(() => {
+    mockPool = { query: jest.fn() };
+  });
+
+  describe('Article.claimScheduled', () => {
+    it('should only move due scheduled articles, so a second claim gets nothing', async () => {
+      const article = new Article(mockPool as unknown as Pool);
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [publishedArticle] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      expect(await article.claimScheduled('article_123', now)).toEqual(publishedArticle);
+      expect(await article.claimScheduled('article_123', now)).toBeNull();
+
+      const [sql, values] = mockPool.query.mock.calls[0] as [string, any[]];
+      expect(sql).toContain("SET status = 'published', published_at = scheduled_at");
+      expect(sql).toContain("WHERE id = $2 AND status = 'scheduled' AND scheduled_at <= $1");
+      expect(values).toEqual([now, 'article_123']);
+    });
+  });
+
+  describe('ArticleService.publishDueArticles', () => {
+    let articleService: ArticleService;
+    let claimed: any;
+
+    beforeEach(() => {
+      articleService = new ArticleService(mockPool as unknown as Pool);
+      claimed = publishedArticle;
+      mockPool.query.mockImplementation(async (sql: string) => {
+        if (sql.includes("WHERE status = 'scheduled' AND scheduled_at <= $1")) return { rows: [{ id: 'article_123' }] };
+        if (sql.includes("SET status = 'published'")) return { rows: claimed ? [claimed] : [] };
+        if (sql.includes('FROM articles WHERE id')) return { rows: [claimed || scheduledArticle] };
+        if (sql.includes('UPDATE articles')) return { rows: [publishedArticle] };
+        if (sql.includes('INSERT INTO article_revisions')) return { rows: [{ revision_number: 1 }] };
+        if (sql.includes('FROM article_deliveries')) return { rows: [{ id: 'delivery_1', channel: 'newsletter' }] };
+        return { rows: [] };
+      });
+    });
+
+    it('should record a revision, index the article and queue its deliveries', async () => {
+      const published = await articleService.publishDueArticles(now);
+
+      expect(published.map(article => article.id)).toEqual(['article_123']);
+      expect(callsMatching(mockPool, 'INSERT INTO article_revisions')).toHaveLength(1);
+      expect(callsMatching(mockPool, 'INSERT INTO article_deliveries')).toHaveLength(1);
+      expect(callsMatching(mockPool, 'INSERT INTO article_deliveries')[0][1].slice(1, 4))
+        .toEqual(['article_123', 'newsletter', 'sendgrid']);
+    });
+
+    it('should skip an article rescheduled between listing and claiming', async () => {
+      claimed = null;
+
+      expect(await articleService.publishDueArticles(now)).toEqual([]);
+      expect(callsMatching(mockPool, "SET status = 'published'")).toHaveLength(1);
+      expect(callsMatching(mockPool, 'INSERT INTO article_revisions')).toHaveLength(0);
+      expect(callsMatching(mockPool, 'INSERT INTO article_deliveries')).toHaveLength(0);
+    });
+  });
+
+  describe('ArticleScheduler.tick', () => {
+    it('should keep publishing full batches and skip overlapping ticks', async () => {
+      const scheduler = new ArticleScheduler(mockPool as unknown as Pool, { batchSize: 2 });
+      const publishDueArticles = jest.spyOn(ArticleService.prototype, 'publishDueArticles');
+      const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+      let release: () => void = () => {};
+      publishDueArticles
+        .mockImplementationOnce(async () => {
+          await new Promise<void>(resolve => { release = resolve; });
+          return [publishedArticle, publishedArticle] as any;
+        })
+        .mockResolvedValueOnce([publishedArticle] as any);
+
+      const first = scheduler.tick(now);
+      expect(await scheduler.tick(now)).toBe(0);
+      release();
+
+      expect(await first).toBe(3);
+      expect(publishDueArticles).toHaveBeenCalledTimes(2);
+      expect(publishDueArticles).toHaveBeenCalledWith(now, 2);
+
+      publishDueArticles.mockRestore();
+      log.mockRestore();
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { Pool } from 'pg';
+import { ArticleService } from '../../../src/services/ArticleService';
+import { Article } from '../../../src/models/Article';
+
+jest.mock('uuid', () => ({ v4: () => 'generated-uuid' }));
+
+describe('Article search', () => {
+  describe('buildSearchQuery', () => {
+    it('should AND plain terms together', () => {
+      expect(Article.buildSearchQuery('bayesian inference')).toBe('bayesian & inference');
+    });
+
+    it('should translate quoted phrases into adjacency operators', () => {
+      expect(Article.buildSearchQuery('"neural network" pruning')).toBe('(neural <-> network) & pruning');
+    });
+
+    it('should support prefix matching and exclusion', () => {
+      expect(Article.buildSearchQuery('stat* -frequentist')).toBe('stat:* & !frequentist');
+    });
+
+    it('should group OR alternatives', () => {
+      expect(Article.buildSearchQuery('python OR julia notebooks')).toBe('(python | julia) & notebooks');
+    });
+
+    it('should strip tsquery operators from user input', () => {
+      expect(Article.buildSearchQuery("a&b | c:* !d (e)")).toBe('(a <-> b) & c:* & d & e');
+    });
+
+    it('should return null when no searchable words remain', () => {
+      expect(Article.buildSearchQuery('  "" - * ')).toBeNull();
+    });
+  });
+
+  describe('ArticleService.searchArticles', () => {
+    let mockPool: { query: jest.Mock<(...args: any[]) => Promise<any>> };
+    let articleService: ArticleService;
+
+    beforeEach(() => {
+      mockPool = { query: jest.fn() };
+      articleService = new ArticleService(mockPool as unknown as Pool);
+    });
+
+    it('should return ranked results with highlights and facets', async () => {
+      mockPool.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('SELECT COUNT(*) FROM articles a')) return { rows: [{ count: '1' }] };
+        if (sql.includes('unnest(a.tags)')) return { rows: [{ tag: 'statistics', count: '1' }] };
+        if (sql.includes('JOIN users u')) return { rows: [{ author_id: 'author_123', name: 'Ada', count: '1' }] };
+        return {
+          rows: [{
+            id: 'article_123',
+            author_id: 'author_123',
+            title: 'Bayesian Inference Primer',
+            content: '<p>Content</p>',
+            tags: ['statistics'],
+            status: 'published',
+            search_vector: "'bayesian':1A",
+            rank: '0.42',
+            title_highlight: '<mark>Bayesian</mark> Inference Primer',
+            snippet: 'A <mark>Bayesian</mark> approach'
+          }]
+        };
+      });
+
+      const result = await articleService.searchArticles('bayes*', { status: 'published' });
+
+      expect(result.total).toBe(1);
+      expect(result.articles[0].rank).toBe(0.42);
+      expect(result.articles[0].highlights.title).toBe('<mark>Bayesian</mark> Inference Primer');
+      expect(result.articles[0]).not.toHaveProperty('search_vector');
+      expect(result.articles[0]).not.toHaveProperty('title_highlight');
+      expect(result.facets).toEqual({
+        tags: [{ tag: 'statistics', count: 1 }],
+        authors: [{ author_id: 'author_123', name: 'Ada', count: 1 }]
+      });
+
+      const countCall = mockPool.query.mock.calls.find(([sql]) => String(sql).includes('SELECT COUNT(*)'));
+      expect(countCall![1]).toEqual(['bayes:*', 'published']);
+    });
+
+    it('should escape highlighted text and take premium snippets from the excerpt', async () => {
+      mockPool.query.mockImplementation(async (sql: string) => (
+        sql.includes('SELECT COUNT(*) FROM articles a') ? { rows: [{ count: '1' }] } : { rows: [] }
+      ));
+
+      await articleService.searchArticles('bayes', { status: 'published' });
+
+      const searchCall = mockPool.query.mock.calls.find(([sql]) => String(sql).includes('ts_headline'));
+      const sql = String(searchCall![0]);
+      expect(sql).toContain(`ts_headline('english', ${Article.escapeHtmlSql('ranked.title')}`);
+      expect(sql).toContain("CASE WHEN ranked.is_premium THEN COALESCE(ranked.excerpt, '')");
+      expect(Article.escapeHtmlSql('title')).toBe(
+        "replace(replace(replace(regexp_replace(title, '&(?!#?[0-9a-zA-Z]+;)', '&amp;', 'g'), '<', '&lt;'), '>', '&gt;'), '\"', '&quot;')"
+      );
+    });
+
+    it('should take snippets of markdown articles from their rendered HTML', async () => {
+      mockPool.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('SELECT COUNT(*) FROM articles a')) return { rows: [{ count: '1' }] };
+        if (sql.includes('ts_headline')) {
+          return {
+            rows: [{
+              id: 'article_123',
+              author_id: 'author_123',
+              title: 'Bayesian Inference Primer',
+              content: '## Priors\n\nA **Bayesian** approach',
+              content_format: 'markdown',
+              content_html: '<h2>Priors</h2><p>A <strong>Bayesian</strong> approach</p>',
+              status: 'published',
+              rank: '0.42',
+              title_highlight: '<mark>Bayesian</mark> Inference Primer',
+              snippet: 'Priors  A  <mark>Bayesian</mark>  approach'
+            }]
+          };
+        }
+        return { rows: [] };
+      });
+
+      await articleService.searchArticles('bayesian', { status: 'published' });
+
+      const searchCall = mockPool.query.mock.calls.find(([sql]) => String(sql).includes('ts_headline'));
+      expect(String(searchCall![0])).toContain(
+        "regexp_replace(COALESCE(ranked.content_html, ranked.content), '<[^>]*>', ' ', 'g')"
+      );
+      expect(String(searchCall![0])).not.toContain("regexp_replace(ranked.content,");
+    });
+
+    it('should reject queries without searchable words', async () => {
+      await expect(articleService.searchArticles('"" -')).rejects.toThrow('Search query must contain at least one word');
+      expect(mockPool.query).not.toHaveBeenCalled();
+    });
+  });
+});
\ No newline at end of file
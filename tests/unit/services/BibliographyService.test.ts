@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { Pool } from 'pg';
+import { BibliographyService } from '../../../src/services/BibliographyService';
+import { CitationFormatter } from '../../../src/services/CitationFormatter';
+
+jest.mock('uuid', () => ({ v4: () => 'generated-uuid' }));
+
+const BIBTEX = `
+@string{jstat = "Journal of Statistics"}
+
+@comment{exported from a reference manager}
+
+@article{smith2020,
+  author = {Smith, John A. and Kim Lee},
+  title = {Deep {Bayesian} Priors},
+  journal = jstat,
+  volume = 12,
+  number = {3},
+  pages = {1--10},
+  year = 2020,
+  month = mar,
+  doi = {10.1000/xyz}
+}
+
+@book{who2019,
+  author = {{World Health Organization}},
+  title = "Global Report on M{\\"u}ller Syndrome",
+  publisher = {WHO Press},
+  address = {Geneva},
+  year = {2019}
+}
+`;
+
+describe('BibliographyService', () => {
+  describe('parseBibTeX', () => {
+    it('should parse entries, macros, accents and skip comments', () => {
+      const { entries, errors } = BibliographyService.parseBibTeX(BIBTEX);
+
+      expect(errors).toEqual([]);
+      expect(entries).toHaveLength(2);
+      expect(entries[0]).toEqual({
+        citation_key: 'smith2020',
+        entry_type: 'article',
+        fields: {
+          author: 'Smith, John A. and Kim Lee',
+          title: 'Deep Bayesian Priors',
+          journal: 'Journal of Statistics',
+          volume: '12',
+          number: '3',
+          pages: '1–10',
+          year: '2020',
+          month: 'March',
+          doi: '10.1000/xyz'
+        }
+      });
+      expect(entries[1].fields.author).toBe('{World Health Organization}');
+      expect(entries[1].fields.title).toBe('Global Report on Müller Syndrome');
+    });
+
+    it('should report malformed entries without discarding valid ones', () => {
+      const { entries, errors } = BibliographyService.parseBibTeX('@article{bad key, title={X}}\n@misc{ok, title={Fine}}');
+
+      expect(entries.map(entry => entry.citation_key)).toEqual(['ok']);
+      expect(errors[0]).toContain('invalid citation key');
+    });
+  });
+
+  describe('importBibTeX', () => {
+    let mockPool: { query: jest.Mock<(...args: any[]) => Promise<any>> };
+    let service: BibliographyService;
+
+    beforeEach(() => {
+      mockPool = { query: jest.fn() };
+      service = new BibliographyService(mockPool as unknown as Pool);
+    });
+
+    it('should reject imports from users who do not own the article', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [{ id: 'article_123', author_id: 'someone_else' }] });
+
+      await expect(service.importBibTeX('article_123', BIBTEX, 'author_123')).rejects.toThrow('Unauthorized');
+    });
+
+    it('should reject input without any entries', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [{ id: 'article_123', author_id: 'author_123' }] });
+
+      await expect(service.importBibTeX('article_123', 'not bibtex', 'author_123')).rejects.toThrow('Invalid BibTeX: no entries found');
+    });
+  });
+
+  describe('CitationFormatter', () => {
+    const { entries } = BibliographyService.parseBibTeX(BIBTEX);
+
+    it('should number IEEE citations in order of first appearance', () => {
+      const formatter = new CitationFormatter('ieee', entries);
+
+      expect(formatter.cite([{ key: 'who2019' }])).toBe('[<a class="citation" href="#ref-who2019">1</a>]');
+      expect(formatter.cite([{ key: 'smith2020', locator: 'p. 4' }, { key: 'who2019' }])).toBe(
+        '[<a class="citation" href="#ref-smith2020">2, p. 4</a>], [<a class="citation" href="#ref-who2019">1</a>]'
+      );
+      expect(formatter.bibliographyHtml()).toContain('<li id="ref-smith2020">[2] J. A. Smith and K. Lee, “Deep Bayesian Priors,” <em>Journal of Statistics</em>, vol. 12, no. 3, pp. 1–10, 2020, doi: 10.1000/xyz.</li>');
+    });
+
+    it('should format APA author-date citations and references', () => {
+      const formatter = new CitationFormatter('apa', entries);
+
+      expect(formatter.cite([{ key: 'smith2020' }])).toContain('>Smith &amp; Lee, 2020</a>');
+      expect(CitationFormatter.formatReference(entries[0], 'apa')).toBe(
+        'Smith, J. A., &amp; Lee, K. (2020). Deep Bayesian Priors. <em>Journal of Statistics</em>, <em>12</em>(3), 1–10. <a href="https://doi.org/10.1000/xyz">https://doi.org/10.1000/xyz</a>'
+      );
+    });
+
+    it('should format Chicago author-date references with corporate authors', () => {
+      expect(CitationFormatter.formatReference(entries[1], 'chicago')).toBe(
+        'World Health Organization. 2019. <em>Global Report on Müller Syndrome</em>. Geneva: WHO Press.'
+      );
+    });
+
+    it('should collect unresolved citation keys', () => {
+      const formatter = new CitationFormatter('chicago', entries);
+
+      expect(formatter.cite([{ key: 'missing2021' }])).toBe('(<span class="citation-missing">missing2021?</span>)');
+      expect(formatter.unresolvedKeys).toEqual(['missing2021']);
+      expect(formatter.bibliographyHtml()).toBe('');
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { Pool } from 'pg';
+import { CommentService } from '../../../src/services/CommentService';
+import { EmailService } from '../../../src/services/EmailService';
+
+jest.mock('uuid', () => ({ v4: () => 'generated-uuid' }));
+
+const article = {
+  id: 'article_123',
+  author_id: 'creator_123',
+  title: 'On Priors',
+  slug: 'on-priors',
+  status: 'published'
+};
+
+const settings = {
+  creator_id: 'creator_123',
+  comments_access: 'everyone',
+  comment_flag_keywords: ['crypto giveaway']
+};
+
+const parent = {
+  id: 'comment_1',
+  article_id: 'article_123',
+  author_id: 'reader_1',
+  body: 'Why a flat prior?',
+  depth: 0,
+  status: 'published'
+};
+
+const insertedComment = async (_query: any, values: any) => ({
+  rows: [{ id: values[0], parent_id: values[2], author_id: values[3], body: values[4], depth: values[5], status: values[6], flag_reasons: values[7] }]
+});
+
+describe('CommentService', () => {
+  let mockPool: { query: jest.Mock<(...args: any[]) => Promise<any>> };
+  let mockEmailService: { sendSingleEmail: jest.Mock<(...args: any[]) => Promise<any>> };
+  let service: CommentService;
+
+  beforeEach(() => {
+    mockPool = { query: jest.fn() };
+    mockEmailService = { sendSingleEmail: jest.fn(async () => ({ message_id: 'msg_1', status: 'sent' })) };
+    service = new CommentService(mockPool as unknown as Pool, {
+      emailService: mockEmailService as unknown as EmailService
+    });
+  });
+
+  describe('addComment', () => {
+    it('should hold first-time commenters and flagged keywords for moderation', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [article] })
+        .mockResolvedValueOnce({ rows: [settings] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ count: '0' }] })
+        .mockResolvedValueOnce({ rows: [{ count: '0' }] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockImplementationOnce(insertedComment);
+
+      const comment = await service.addComment('article_123', 'reader_2', { body: 'Join my Crypto Giveaway!' });
+
+      expect(comment.status).toBe('pending');
+      expect(comment.flag_reasons).toEqual(['first_comment', 'keyword:crypto giveaway']);
+      expect(mockEmailService.sendSingleEmail).not.toHaveBeenCalled();
+    });
+
+    it('should publish replies from returning commenters and email the parent\'s author', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [article] })
+        .mockResolvedValueOnce({ rows: [settings] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [parent] })
+        .mockResolvedValueOnce({ rows: [{ count: '1' }] })
+        .mockResolvedValueOnce({ rows: [{ count: '3' }] })
+        .mockResolvedValueOnce({ rows: [{ '?column?': 1 }] })
+        .mockImplementationOnce(insertedComment)
+        .mockResolvedValueOnce({ rows: [{ id: 'reader_1', email: 'ada@example.com', name: 'Ada' }] })
+        .mockResolvedValueOnce({ rows: [{ id: 'reader_2', name: 'Grace <script>' }] });
+
+      const comment = await service.addComment('article_123', 'reader_2', { body: 'It keeps the example simple.', parent_id: 'comment_1' });
+
+      expect(comment.status).toBe('published');
+      expect(comment.depth).toBe(1);
+      expect(mockEmailService.sendSingleEmail).toHaveBeenCalledTimes(1);
+
+      const email = mockEmailService.sendSingleEmail.mock.calls[0][0] as any;
+      expect(email.to).toBe('ada@example.com');
+      expect(email.html_content).toContain('Grace &lt;script&gt;');
+      expect(email.custom_args).toEqual({ type: 'comment_reply', article_id: 'article_123', comment_id: 'generated-uuid' });
+    });
+
+    it('should only let paid subscribers comment when the creator requires it', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [article] })
+        .mockResolvedValueOnce({ rows: [{ ...settings, comments_access: 'subscribers' }] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      await expect(service.addComment('article_123', 'reader_2', { body: 'Hello' }))
+        .rejects.toThrow('Only paid subscribers can join the discussion');
+    });
+
+    it('should enforce the per-user rate limit', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [article] })
+        .mockResolvedValueOnce({ rows: [settings] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ count: '5' }] });
+
+      await expect(service.addComment('article_123', 'reader_2', { body: 'Hello again' }))
+        .rejects.toThrow('Rate limit exceeded: at most 5 comments per 10 minutes');
+    });
+  });
+
+  describe('matchKeywords', () => {
+    it('should match whole words and phrases regardless of case', () => {
+      expect(CommentService.matchKeywords('Buy CHEAP pills now', ['cheap pills', 'spam', 'pill'])).toEqual(['cheap pills']);
+    });
+  });
+
+  describe('buildThread', () => {
+    const rows: any[] = [
+      { id: 'c1', parent_id: null, author_id: 'reader_1', author_name: 'Ada', body: 'First', status: 'published', flag_reasons: [] },
+      { id: 'c2', parent_id: 'c1', author_id: 'reader_2', author_name: 'Grace', body: 'Rude', status: 'hidden', flag_reasons: [] },
+      { id: 'c3', parent_id: 'c2', author_id: 'reader_3', author_name: 'Alan', body: 'Calm down', status: 'published', flag_reasons: [] },
+      { id: 'c4', parent_id: null, author_id: 'reader_4', author_name: 'Edsger', body: 'Pinned', status: 'published', pinned_at: new Date('2025-10-01'), flag_reasons: [] },
+      { id: 'c5', parent_id: null, author_id: 'reader_5', author_name: 'Barbara', body: 'New here', status: 'pending', flag_reasons: ['first_comment'] }
+    ];
+
+    it('should list pinned comments first and keep removed comments with replies as placeholders', () => {
+      const thread = CommentService.buildThread(rows, { viewerId: 'reader_1', moderator: false });
+
+      expect(thread.map(node => node.id)).toEqual(['c4', 'c1']);
+      expect(thread[1].replies[0]).toMatchObject({ id: 'c2', body: null, author_id: null, author_name: null });
+      expect(thread[1].replies[0].replies[0].body).toBe('Calm down');
+    });
+
+    it('should show pending comments to their author and moderators', () => {
+      const forAuthor = CommentService.buildThread(rows, { viewerId: 'reader_5', moderator: false });
+      const forModerator = CommentService.buildThread(rows, { viewerId: 'creator_123', moderator: true });
+
+      expect(forAuthor.map(node => node.id)).toEqual(['c4', 'c1', 'c5']);
+      expect(forAuthor[2].flag_reasons).toEqual([]);
+      expect(forModerator[2].flag_reasons).toEqual(['first_comment']);
+      expect(forModerator[1].replies[0].body).toBe('Rude');
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { Pool } from 'pg';
+import { ContentAuditService } from '../../../src/services/ContentAuditService';
+import { ArticleService } from '../../../src/services/ArticleService';
+import { ArticleData } from '../../../src/models/Article';
+
+jest.mock('uuid', () => ({ v4: () => 'generated-uuid' }));
+
+const longParagraph = Array.from({ length: 160 }, (_, index) => (index % 10 === 9 ? 'pooling.' : 'pooling')).join(' ');
+
+const article = {
+  id: 'article_123',
+  author_id: 'creator_123',
+  title: 'Partial Pooling',
+  slug: 'partial-pooling',
+  content: '# Partial Pooling',
+  content_html: [
+    '<h1>Partial Pooling</h1>',
+    '<p>Sites borrow strength. <img src="/media/plot.png"> <img src="/media/divider.png" alt=""> <a href="#results">See results</a>.</p>',
+    '<h3 id="method">Method</h3>',
+    `<p>${longParagraph}</p>`,
+    '<p><a href="/articles/creator_123/priors">Priors</a>, <a href="/articles/old-slug">old</a> and <a href="/articles/creator_456/priors">theirs</a>.</p>'
+  ].join('\n'),
+  status: 'draft',
+  tags: ['pooling'],
+  excerpt: 'How hierarchical models let sparse survey sites borrow strength from the rest of the region.'
+} as ArticleData;
+
+describe('ContentAuditService', () => {
+  let mockPool: { query: jest.Mock<(...args: any[]) => Promise<any>> };
+  let service: ContentAuditService;
+
+  beforeEach(() => {
+    mockPool = { query: jest.fn() };
+    service = new ContentAuditService(mockPool as unknown as Pool);
+  });
+
+  describe('readability', () => {
+    it('should score plain prose as easier than dense prose', () => {
+      const plain = ContentAuditService.readability('The cat sat on the mat. It was a warm day. We went home.');
+      const dense = ContentAuditService.readability(
+        'Hierarchical Bayesian specifications facilitate regularization of heterogeneous observational estimates, ' +
+        'particularly considering institutional variability characterizing ecological monitoring initiatives.'
+      );
+
+      expect(plain.sentences).toBe(3);
+      expect(plain.flesch_reading_ease).toBeGreaterThan(90);
+      expect(dense.flesch_reading_ease).toBeLessThan(0);
+      expect(dense.flesch_kincaid_grade).toBeGreaterThan(plain.flesch_kincaid_grade);
+      expect(dense.gunning_fog).toBeGreaterThan(plain.gunning_fog);
+    });
+
+    it('should count syllables by vowel group without silent endings', () => {
+      expect(ContentAuditService.countSyllables('cat')).toBe(1);
+      expect(ContentAuditService.countSyllables('make')).toBe(1);
+      expect(ContentAuditService.countSyllables('pooling')).toBe(2);
+      expect(ContentAuditService.countSyllables('regularization')).toBe(6);
+    });
+  });
+
+  describe('keywordDensity', () => {
+    it('should match multi-word tags case- and accent-insensitively', () => {
+      expect(ContentAuditService.keywordDensity('Machine learning, and more MACHINE LEARNING. Café.', ['machine-learning', 'cafe', 'R']))
+        .toEqual([
+          { keyword: 'machine learning', occurrences: 2, density: 57.14 },
+          { keyword: 'cafe', occurrences: 1, density: 14.29 },
+          { keyword: 'r', occurrences: 0, density: 0 }
+        ]);
+    });
+  });
+
+  describe('audit', () => {
+    beforeEach(() => {
+      // Only creator_123 has a "priors" article; "old-slug" is a previous slug of theirs
+      const linked = (rows: any[], slugField: string, values: any[]) => ({
+        rows: rows.filter(row => values[0].some((authorId: string, index: number) =>
+          row.author_id === authorId && row[slugField] === values[1][index]))
+      });
+      mockPool.query.mockImplementation(async (sql: string, values: any[]) => {
+        if (sql.includes('JOIN articles a ON a.slug = l.slug')) {
+          return linked([{ id: 'article_456', author_id: 'creator_123', slug: 'priors', status: 'published', expires_at: null }], 'slug', values);
+        }
+        if (sql.includes('JOIN article_slugs s')) {
+          return linked([{ id: 'article_789', author_id: 'creator_123', slug: 'new-slug', previous_slug: 'old-slug' }], 'previous_slug', values);
+        }
+        return { rows: [] };
+      });
+    });
+
+    it('should report each problem with a severity, errors first', async () => {
+      const audit = await service.audit(article, 'errors');
+      const codes = audit.findings.map(finding => [finding.severity, finding.code]);
+
+      expect(codes).toEqual([
+        ['error', 'accessibility.missing_alt'],
+        ['error', 'links.broken'],
+        ['warning', 'seo.keyword_stuffing'],
+        ['warning', 'structure.heading_h1'],
+        ['warning', 'structure.heading_skipped'],
+        ['warning', 'structure.long_paragraph'],
+        ['warning', 'links.missing_anchor'],
+        ['info', 'readability.fairly_difficult'],
+        ['info', 'seo.title_too_short'],
+        ['info', 'accessibility.decorative_image'],
+        ['info', 'links.redirected']
+      ]);
+
+      expect(audit.findings.find(finding => finding.code === 'links.broken')!.context).toBe('/articles/creator_456/priors');
+      expect(audit.findings.find(finding => finding.code === 'links.redirected')!.message).toContain('/articles/creator_123/new-slug');
+      expect(audit.findings.find(finding => finding.code === 'accessibility.missing_alt')!.context).toBe('/media/plot.png');
+      expect(audit.summary).toEqual({ error: 2, warning: 5, info: 4 });
+      expect(audit.blocks_publish).toBe(true);
+    });
+
+    it('should skip readability for articles not in English and never block when off', async () => {
+      const audit = await service.audit({ ...article, locale: 'de', content_html: '<p>Kurz.</p>', tags: [] });
+
+      expect(audit.readability).toBeNull();
+      expect(audit.findings.map(finding => finding.code)).toEqual(['seo.title_too_short', 'seo.no_tags']);
+      expect(audit.blocks_publish).toBe(false);
+    });
+  });
+
+  describe('publish gating', () => {
+    it('should refuse to publish when the creator blocks on audit errors', async () => {
+      const articleService = new ArticleService(mockPool as unknown as Pool);
+      // None of the linked articles exist here
+      mockPool.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('FROM articles WHERE id')) return { rows: [article] };
+        if (sql.includes('FROM creator_settings')) {
+          return { rows: [{ creator_id: 'creator_123', require_review: false, audit_blocks_publish: 'errors' }] };
+        }
+        return { rows: [] };
+      });
+
+      await expect(articleService.publishArticle('article_123', {}, 'creator_123'))
+        .rejects.toThrow('Audit failed: fix 4 findings before publishing (accessibility.missing_alt, links.broken)');
+    });
+
+    it('should audit scheduled articles again when they fall due', async () => {
+      const articleService = new ArticleService(mockPool as unknown as Pool);
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      mockPool.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('SELECT id FROM articles')) return { rows: [{ id: 'article_123' }] };
+        if (sql.includes('FROM articles WHERE id')) return { rows: [{ ...article, status: 'scheduled' }] };
+        if (sql.includes('FROM creator_settings')) {
+          return { rows: [{ creator_id: 'creator_123', require_review: false, audit_blocks_publish: 'errors' }] };
+        }
+        return { rows: [] };
+      });
+
+      expect(await articleService.publishDueArticles(new Date('2025-11-05T12:00:00Z'))).toEqual([]);
+      expect(mockPool.query.mock.calls.some(([sql]) => String(sql).includes("SET status = 'draft', scheduled_at = NULL"))).toBe(true);
+      expect(mockPool.query.mock.calls.some(([sql]) => String(sql).includes("SET status = 'published'"))).toBe(false);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('Audit failed'));
+      warn.mockRestore();
+    });
+  });
+});
\ No newline at end of file
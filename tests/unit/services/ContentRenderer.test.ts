@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { ContentRenderer } from '../../../src/services/ContentRenderer';
+
+describe('ContentRenderer', () => {
+  let renderer: ContentRenderer;
+
+  beforeEach(() => {
+    renderer = new ContentRenderer();
+  });
+
+  describe('markdown', () => {
+    it('should add heading anchors and build a table of contents', () => {
+      const result = renderer.render('# Intro\n\nText\n\n## Results & Discussion\n\n## Intro');
+
+      expect(result.html).toContain('<h1 id="intro">');
+      expect(result.html).toContain('<h2 id="results-discussion">');
+      expect(result.html).toContain('<h2 id="intro-2">');
+      expect(result.toc).toEqual([
+        { level: 1, text: 'Intro', anchor: 'intro' },
+        { level: 2, text: 'Results & Discussion', anchor: 'results-discussion' },
+        { level: 2, text: 'Intro', anchor: 'intro-2' }
+      ]);
+    });
+
+    it('should render footnotes', () => {
+      const result = renderer.render('Claim[^1].\n\n[^1]: Source.');
+
+      expect(result.html).toContain('<sup class="footnote-ref"><a href="#fn1" id="fnref1">[1]</a></sup>');
+      expect(result.html).toContain('<section class="footnotes">');
+      expect(result.html).toContain('<li id="fn1" class="footnote-item">');
+    });
+
+    it('should strip scripts, event handlers and javascript URLs', () => {
+      const result = renderer.render('<script>alert(1)</script>\n\n<img src="x.png" onerror="alert(1)">\n\n<a href="javascript:alert(1)">link</a>');
+
+      expect(result.html).not.toContain('<script');
+      expect(result.html).not.toContain('onerror');
+      expect(result.html).not.toContain('javascript:');
+      expect(result.html).toContain('<img src="x.png" />');
+    });
+  });
+
+  describe('blocks', () => {
+    it('should render a block document', () => {
+      const content = JSON.stringify({
+        blocks: [
+          { type: 'heading', level: 2, text: 'Method' },
+          { type: 'paragraph', text: 'We use **Gibbs** sampling.' },
+          { type: 'list', style: 'ordered', items: ['Burn in', 'Sample'] },
+          { type: 'code', language: 'python', code: 'print("hi")' },
+          { type: 'image', url: 'https://example.com/plot.png', alt: 'Trace plot', caption: 'Trace <plot>' }
+        ]
+      });
+
+      const result = renderer.render(content, 'blocks');
+
+      expect(result.html).toContain('<h2 id="method">');
+      expect(result.html).toContain('<strong>Gibbs</strong>');
+      expect(result.html).toContain('<ol>');
+      expect(result.html).toContain('<code class="language-python">');
+      expect(result.html).toContain('<figcaption>Trace &lt;plot&gt;</figcaption>');
+    });
+
+    it('should reject malformed block documents', () => {
+      expect(() => renderer.render('{"blocks": 1}', 'blocks')).toThrow('Invalid block content');
+      expect(() => renderer.render('not json', 'blocks')).toThrow('Invalid block content: must be valid JSON');
+    });
+  });
+
+  describe('math and citations', () => {
+    it('should render inline and display math to MathML without touching prices', () => {
+      const result = renderer.render('Euler: $e^{i\\pi} + 1 = 0$ costs $5 and $10.\n\n$$\n\\int_0^1 x\\,dx\n$$');
+
+      expect(result.html).toContain('<math xmlns="http://www.w3.org/1998/Math/MathML">');
+      expect(result.html).toContain('<math xmlns="http://www.w3.org/1998/Math/MathML" display="block">');
+      expect(result.html).toContain('costs $5 and $10.');
+      expect(result.text).not.toContain('\\int');
+    });
+
+    it('should resolve citation keys and append the bibliography', () => {
+      const bibliography = [{
+        citation_key: 'smith2020',
+        entry_type: 'article',
+        fields: { author: 'Smith, John', title: 'Priors', journal: 'Stats', year: '2020' }
+      }];
+
+      const result = renderer.render('As shown [@smith2020, p. 4] and [@unknown].', 'markdown', { bibliography, citationStyle: 'ieee' });
+
+      expect(result.html).toContain('[<a class="citation" href="#ref-smith2020">1, p. 4</a>]');
+      expect(result.html).toContain('<section class="bibliography"><h2 id="references">References');
+      expect(result.toc).toEqual([{ level: 2, text: 'References', anchor: 'references' }]);
+      expect(result.unresolved_citations).toEqual(['unknown']);
+    });
+  });
+
+  describe('plain text', () => {
+    it('should compute text and reading time from rendered output, not markup', () => {
+      const result = renderer.render('## Heading\n\n**Bold** [link](https://example.com) &amp; more[^1]\n\n[^1]: Note.');
+
+      expect(result.text).toBe('Heading Bold link & more[1] Note.');
+      expect(result.word_count).toBe(6);
+      expect(result.reading_time).toBe(1);
+    });
+  });
+
+  describe('paywall break', () => {
+    it('should keep the first marker as a break and split the content there', () => {
+      const result = renderer.render('Free intro\n\n<!-- paywall -->\n\n## Details\n\nPaid part\n\n<!-- paywall -->');
+      const split = ContentRenderer.splitAtPaywall(result.html);
+
+      expect(result.html.match(/paywall-break/g)).toHaveLength(1);
+      expect(split?.free).toBe('<p>Free intro</p>');
+      expect(split?.gated).toContain('Paid part');
+    });
+
+    it('should split block content at the paywall block', () => {
+      const content = JSON.stringify({
+        blocks: [{ type: 'paragraph', text: 'Free' }, { type: 'paywall' }, { type: 'paragraph', text: 'Paid' }]
+      });
+
+      expect(ContentRenderer.splitAtPaywall(renderer.render(content, 'blocks').html)).not.toBeNull();
+      expect(ContentRenderer.sourceBeforePaywall(content, 'blocks')).toBe(JSON.stringify({ blocks: [{ type: 'paragraph', text: 'Free' }] }));
+      expect(ContentRenderer.sourceBeforePaywall('No break here')).toBeNull();
+    });
+
+    it('should preview content without a break from the opening of its rendered text', () => {
+      const content = JSON.stringify({
+        blocks: [
+          { type: 'heading', level: 2, text: 'Priors & posteriors' },
+          { type: 'paragraph', text: 'Bayesian inference updates a prior with the likelihood of the observed data to give a posterior.' }
+        ]
+      });
+
+      const preview = ContentRenderer.previewParagraph(renderer.render(content, 'blocks').html);
+
+      expect(preview).toBe('<p>Priors &amp; posteriors Bayesian inference...</p>');
+      expect(preview).not.toContain('blocks');
+      expect(ContentRenderer.previewParagraph('<p>One two three four five six</p>')).toBe('<p>One two...</p>');
+    });
+  });
+});
\ No newline at end of file
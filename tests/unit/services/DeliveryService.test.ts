@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { Pool } from 'pg';
+import { DeliveryService } from '../../../src/services/DeliveryService';
+import { SocialProviderRegistry, StubSocialProvider } from '../../../src/integrations/social';
+import { EmailService } from '../../../src/services/EmailService';
+
+jest.mock('uuid', () => ({ v4: () => 'generated-uuid' }));
+
+describe('DeliveryService', () => {
+  let mockPool: { query: jest.Mock<(...args: any[]) => Promise<any>> };
+  let stubProvider: StubSocialProvider;
+  let mockEmailService: { sendArticleNotification: jest.Mock<(...args: any[]) => Promise<void>> };
+  let deliveryService: DeliveryService;
+
+  const publishedArticle = {
+    id: 'article_123',
+    author_id: 'author_123',
+    title: 'Bayesian Inference Primer',
+    slug: 'bayesian-inference-primer',
+    content: '<p>Content</p>',
+    excerpt: 'A primer',
+    tags: ['statistics'],
+    status: 'published',
+    notify_subscribers: true,
+    social_auto_post: true
+  };
+
+  beforeEach(() => {
+    mockPool = { query: jest.fn() };
+    stubProvider = new StubSocialProvider();
+    mockEmailService = { sendArticleNotification: jest.fn() };
+    deliveryService = new DeliveryService(mockPool as unknown as Pool, {
+      socialProviders: new SocialProviderRegistry().register(stubProvider),
+      emailService: mockEmailService as unknown as EmailService,
+      maxAttempts: 3
+    });
+  });
+
+  describe('enqueueForArticle', () => {
+    it('should enqueue newsletter and one social delivery per provider', async () => {
+      mockPool.query.mockResolvedValue({ rows: [] });
+
+      await deliveryService.enqueueForArticle(publishedArticle as any);
+
+      const enqueueCalls = mockPool.query.mock.calls.filter(([sql]) => String(sql).includes('INSERT INTO article_deliveries'));
+      expect(enqueueCalls).toHaveLength(2);
+      expect(enqueueCalls[0][1]).toEqual(expect.arrayContaining(['article_123', 'newsletter', 'sendgrid']));
+      expect(enqueueCalls[1][1]).toEqual(expect.arrayContaining(['article_123', 'social', 'stub']));
+    });
+
+    it('should not enqueue anything for unpublished articles', async () => {
+      const result = await deliveryService.enqueueForArticle({ ...publishedArticle, status: 'scheduled' } as any);
+
+      expect(result).toEqual([]);
+      expect(mockPool.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('processPending', () => {
+    it('should post through the social provider and mark the delivery sent', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [{ id: 'delivery_1', article_id: 'article_123', channel: 'social', provider: 'stub', attempts: 1 }] })
+        .mockResolvedValueOnce({ rows: [publishedArticle] })
+        .mockResolvedValueOnce({ rows: [{ id: 'delivery_1', status: 'sent' }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      const result = await deliveryService.processPending(10);
+
+      expect(result).toEqual({ sent: 1, retried: 0, failed: 0 });
+      expect(stubProvider.posts).toHaveLength(1);
+      expect(stubProvider.posts[0].url).toContain('/articles/author_123/bayesian-inference-primer');
+      expect(mockPool.query.mock.calls[2][0]).toContain("SET status = 'sent'");
+    });
+
+    it('should send newsletter notifications through EmailService', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [{ id: 'delivery_2', article_id: 'article_123', channel: 'newsletter', provider: 'sendgrid', attempts: 1 }] })
+        .mockResolvedValueOnce({ rows: [publishedArticle] })
+        .mockResolvedValueOnce({ rows: [{ id: 'delivery_2', status: 'sent' }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      await deliveryService.processPending(10);
+
+      expect(mockEmailService.sendArticleNotification).toHaveBeenCalledWith(
+        'article_123',
+        'Bayesian Inference Primer',
+        expect.stringContaining('/articles/author_123/bayesian-inference-primer')
+      );
+    });
+
+    it('should schedule a retry when delivery fails below the attempt limit', async () => {
+      mockEmailService.sendArticleNotification.mockRejectedValueOnce(new Error('SendGrid unavailable'));
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [{ id: 'delivery_2', article_id: 'article_123', channel: 'newsletter', provider: 'sendgrid', attempts: 1 }] })
+        .mockResolvedValueOnce({ rows: [publishedArticle] })
+        .mockResolvedValueOnce({ rows: [{ id: 'delivery_2', status: 'pending' }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      const result = await deliveryService.processPending(10);
+
+      expect(result).toEqual({ sent: 0, retried: 1, failed: 0 });
+      expect(mockPool.query.mock.calls[2][0]).toContain("SET status = 'pending'");
+      expect(mockPool.query.mock.calls[2][1][0]).toBe('SendGrid unavailable');
+    });
+
+    it('should fail the delivery once attempts are exhausted', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [{ id: 'delivery_3', article_id: 'article_123', channel: 'social', provider: 'twitter', attempts: 3 }] })
+        .mockResolvedValueOnce({ rows: [publishedArticle] })
+        .mockResolvedValueOnce({ rows: [{ id: 'delivery_3', status: 'failed' }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      const result = await deliveryService.processPending(10);
+
+      expect(result).toEqual({ sent: 0, retried: 0, failed: 1 });
+      expect(mockPool.query.mock.calls[2][1][0]).toBe('Social provider "twitter" is not configured');
+    });
+  });
+
+  describe('recoverInterrupted', () => {
+    it('should requeue interrupted newsletters below the attempt limit and fail the rest', async () => {
+      const now = new Date('2026-03-01T12:00:00Z');
+      mockPool.query
+        .mockResolvedValueOnce({ rowCount: 1, rows: [] })
+        .mockResolvedValueOnce({ rowCount: 2, rows: [] });
+
+      const result = await deliveryService.recoverInterrupted(15 * 60 * 1000, now);
+
+      expect(result).toEqual({ retried: 1, failed: 2 });
+      expect(mockPool.query.mock.calls[0][0]).toContain("SET status = 'pending'");
+      expect(mockPool.query.mock.calls[0][1].slice(1)).toEqual(['newsletter', new Date('2026-03-01T11:45:00Z'), 3]);
+      expect(mockPool.query.mock.calls[1][0]).toContain("SET status = 'failed'");
+      expect(mockPool.query.mock.calls[1][1][1]).toEqual(new Date('2026-03-01T11:45:00Z'));
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { Pool } from 'pg';
+import { DuplicateContentService } from '../../../src/services/DuplicateContentService';
+import { ArticleData } from '../../../src/models/Article';
+
+jest.mock('uuid', () => ({ v4: () => 'generated-uuid' }));
+
+const original = `Hierarchical models let every site borrow strength from the others. When one survey
+plot has only a handful of counts, its estimate is pulled towards the regional mean instead
+of swinging wildly with each new observation. The amount of pooling is learned from the data
+itself, so sites that really differ keep their own character while noisy sites settle down.`;
+
+const article = {
+  id: 'article_123',
+  author_id: 'creator_123',
+  title: 'Partial pooling for ecologists',
+  content: original,
+  status: 'draft'
+} as ArticleData;
+
+const signatureOf = (text: string) => DuplicateContentService.signature(DuplicateContentService.shingle(text));
+
+describe('DuplicateContentService', () => {
+  let mockPool: { query: jest.Mock<(...args: any[]) => Promise<any>> };
+  let service: DuplicateContentService;
+
+  beforeEach(() => {
+    mockPool = { query: jest.fn() };
+    service = new DuplicateContentService(mockPool as unknown as Pool);
+  });
+
+  describe('similarity', () => {
+    it('should ignore formatting, case and accents but not different text', () => {
+      const reformatted = `<h2>Partial pooling</h2><p>${original.toUpperCase().replace(/\n/g, ' ')}</p>`;
+      const unrelated = `Sourdough needs a lively starter, a long cold proof and an oven that is hot enough
+        to set the crust before the loaf spreads. Most failed loaves come from an underfed starter.`;
+
+      expect(DuplicateContentService.similarity(signatureOf(original), signatureOf(reformatted.replace(/<[^>]+>/g, ' '))))
+        .toBeGreaterThan(0.85);
+      expect(DuplicateContentService.similarity(signatureOf(original), signatureOf(unrelated))).toBeLessThan(0.1);
+      expect(DuplicateContentService.shingle('Résumé writing RESUME writing tips').size).toBe(1);
+    });
+
+    it('should score a lightly edited copy between a copy and unrelated text', () => {
+      const edited = original.replace('handful of counts', 'few records').replace('settle down', 'calm down');
+      const similarity = DuplicateContentService.similarity(signatureOf(original), signatureOf(edited));
+
+      expect(similarity).toBeGreaterThan(0.5);
+      expect(similarity).toBeLessThan(1);
+    });
+  });
+
+  describe('indexArticle', () => {
+    it('should store the signature with one bucket per band', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [] });
+
+      const signature = await service.indexArticle(article);
+
+      const [, values] = mockPool.query.mock.calls[0] as [string, any[]];
+      expect(signature).toHaveLength(128);
+      expect(values[0]).toBe('article_123');
+      expect(values[1]).toEqual(signature);
+      expect(values[4]).toEqual(Array.from({ length: 32 }, (_, index) => index));
+      expect(values[5]).toEqual(DuplicateContentService.buckets(signature!));
+      expect(signature!.every(value => value >= -(2 ** 31) && value < 2 ** 31)).toBe(true);
+    });
+
+    it('should drop the fingerprint of an article too short to compare', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [] });
+
+      expect(await service.indexArticle({ ...article, content: 'Coming soon.' })).toBeNull();
+      expect(mockPool.query.mock.calls[0][0]).toContain('DELETE FROM article_fingerprints');
+    });
+  });
+
+  describe('getDuplicates', () => {
+    it('should rank candidates by similarity and drop those below the threshold', async () => {
+      const signature = signatureOf(original);
+      const copy = { id: 'article_456', author_id: 'guest_789', title: 'Pooling', slug: 'pooling', status: 'published', signature };
+      const unrelated = { ...copy, id: 'article_789', signature: signature.map(value => value + 1) };
+
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [article] })
+        .mockResolvedValueOnce({ rows: [{ article_id: 'article_123', signature, shingle_count: 50 }] })
+        .mockResolvedValueOnce({ rows: [unrelated, copy] });
+
+      const duplicates = await service.getDuplicates('article_123', 'creator_123');
+
+      expect(duplicates).toEqual([
+        expect.objectContaining({ id: 'article_456', similarity: 1, same_author: false })
+      ]);
+      expect(mockPool.query.mock.calls[2][1]).toEqual([
+        'article_123',
+        expect.any(Array),
+        DuplicateContentService.buckets(signature),
+        'creator_123',
+        200
+      ]);
+    });
+
+    it('should only let the author check an article and reject loose thresholds', async () => {
+      mockPool.query.mockResolvedValue({ rows: [article] });
+
+      await expect(service.getDuplicates('article_123', 'guest_789')).rejects.toThrow('Unauthorized');
+      await expect(service.getDuplicates('article_123', 'creator_123', { threshold: 0.2 }))
+        .rejects.toThrow('Invalid threshold');
+    });
+  });
+
+  describe('getReport', () => {
+    it('should list each pair of the creator\'s own articles once', async () => {
+      const signature = signatureOf(original);
+      const first = { id: 'article_123', author_id: 'creator_123', title: 'Pooling', slug: 'pooling', status: 'published', signature };
+      const second = { ...first, id: 'article_456', slug: 'pooling-2', status: 'draft' };
+
+      mockPool.query
+        .mockResolvedValueOnce({
+          rows: [
+            { article_id: 'article_123', duplicate_id: 'article_456' },
+            { article_id: 'article_456', duplicate_id: 'article_123' }
+          ]
+        })
+        .mockResolvedValueOnce({ rows: [first, second] });
+
+      const report = await service.getReport('creator_123');
+
+      expect(report).toHaveLength(1);
+      expect(report[0].article.id).toBe('article_123');
+      expect(report[0].duplicate).toEqual(expect.objectContaining({ id: 'article_456', same_author: true }));
+      expect(report[0].similarity).toBe(1);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { Pool } from 'pg';
+import sgMail from '@sendgrid/mail';
+import { EmailService } from '../../../src/services/EmailService';
+
+jest.mock('uuid', () => ({ v4: () => 'generated-uuid' }));
+jest.mock('@sendgrid/mail', () => ({ setApiKey: jest.fn(), send: jest.fn() }));
+
+const send = sgMail.send as unknown as jest.Mock<(...args: any[]) => Promise<any>>;
+
+const subscriber = (id: string) => ({ id, email: `${id}@example.com`, name: id, status: 'active' });
+
+describe('EmailService', () => {
+  let mockPool: { query: jest.Mock<(...args: any[]) => Promise<any>> };
+  let service: EmailService;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockPool = { query: jest.fn() };
+    mockPool.query.mockImplementation(async (sql: string) => {
+      if (sql.includes('COUNT(*)')) return { rows: [{ count: '3' }] };
+      if (sql.includes('FROM subscribers')) return { rows: ['sub_1', 'sub_2', 'sub_3'].map(subscriber) };
+      if (sql.includes('SELECT subscriber_id FROM article_newsletter_recipients')) return { rows: [{ subscriber_id: 'sub_1' }] };
+      return { rows: [] };
+    });
+    send.mockReset();
+    service = new EmailService(mockPool as unknown as Pool, 'test-key');
+  });
+
+  describe('sendArticleNotification', () => {
+    it('should skip subscribers who already received the article and record new sends', async () => {
+      send.mockResolvedValue([{ headers: { 'x-message-id': 'message_123' } }]);
+
+      await service.sendArticleNotification('article_123', 'On Priors', 'https://example.com/articles/on-priors');
+
+      expect(send.mock.calls.map(([mail]) => mail.to)).toEqual(['sub_2@example.com', 'sub_3@example.com']);
+      const recorded = mockPool.query.mock.calls.filter(([sql]) => String(sql).includes('INSERT INTO article_newsletter_recipients'));
+      expect(recorded.map(([, values]) => values.slice(0, 3))).toEqual([
+        ['article_123', 'sub_2', 'message_123'],
+        ['article_123', 'sub_3', 'message_123']
+      ]);
+    });
+
+    it('should fail when any send fails so the delivery is retried for the rest', async () => {
+      send
+        .mockResolvedValueOnce([{ headers: { 'x-message-id': 'message_123' } }])
+        .mockRejectedValueOnce(new Error('rate limited'));
+
+      await expect(service.sendArticleNotification('article_123', 'On Priors', 'https://example.com/articles/on-priors'))
+        .rejects.toThrow('Failed to send article notification to 1 of 2 subscribers');
+
+      const recorded = mockPool.query.mock.calls.filter(([sql]) => String(sql).includes('INSERT INTO article_newsletter_recipients'));
+      expect(recorded).toHaveLength(1);
+      expect(recorded[0][1][1]).toBe('sub_2');
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { Pool } from 'pg';
+import { ExpiryService, DEFAULT_EXPIRY_BANNER } from '../../../src/services/ExpiryService';
+import { EmailService } from '../../../src/services/EmailService';
+
+jest.mock('uuid', () => ({ v4: () => 'generated-uuid' }));
+
+const now = new Date('2025-11-01T12:00:00Z');
+
+const callForPapers = {
+  id: 'article_123',
+  author_id: 'creator_123',
+  title: 'Call for Papers: BayesConf 2025',
+  slug: 'call-for-papers-bayesconf-2025',
+  content: '<p>Submit by November 1st.</p>',
+  status: 'archived',
+  expires_at: new Date('2025-11-01T00:00:00Z'),
+  expiry_action: 'archive',
+  expired_at: now
+};
+
+describe('ExpiryService', () => {
+  let mockPool: { query: jest.Mock<(...args: any[]) => Promise<any>> };
+  let mockEmailService: { sendSingleEmail: jest.Mock<(...args: any[]) => Promise<any>> };
+  let service: ExpiryService;
+
+  beforeEach(() => {
+    mockPool = { query: jest.fn() };
+    mockEmailService = { sendSingleEmail: jest.fn() };
+    service = new ExpiryService(mockPool as unknown as Pool, {
+      emailService: mockEmailService as unknown as EmailService
+    });
+  });
+
+  describe('expireDueArticles', () => {
+    it('should run the expiry action, drop the article from related lists and log it', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [{ id: 'article_123' }, { id: 'article_456' }] })
+        .mockResolvedValueOnce({ rows: [callForPapers] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ id: 'generated-uuid' }] })
+        // Another worker expired the second article first
+        .mockResolvedValueOnce({ rows: [] });
+
+      const expired = await service.expireDueArticles(now, 50);
+
+      expect(expired.map(article => article.id)).toEqual(['article_123']);
+
+      const [claimSql, claimValues] = mockPool.query.mock.calls[1] as [string, any[]];
+      expect(claimSql).toContain("WHEN 'archive' THEN 'archived' WHEN 'unpublish' THEN 'draft' ELSE status END");
+      expect(claimSql).toContain("status = 'published' AND expires_at <= $1 AND expired_at IS NULL");
+      expect(claimValues).toEqual([now, 'article_123']);
+
+      expect(mockPool.query.mock.calls[2][0]).toContain('DELETE FROM article_vectors');
+
+      const [logSql, logValues] = mockPool.query.mock.calls[3] as [string, any[]];
+      expect(logSql).toContain('INSERT INTO article_expiries');
+      expect(logValues).toEqual(expect.arrayContaining(['article_123', 'creator_123', 'archive', now]));
+    });
+  });
+
+  describe('sendReports', () => {
+    const entry = (id: string, title: string, action: string) => ({
+      id, article_id: `article_${id}`, author_id: 'creator_123', title, action, expires_at: now, expired_at: now
+    });
+
+    it('should send one report per creator and mark its entries notified', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [entry('e1', 'Call for Papers', 'archive'), entry('e2', 'Black Friday <Sale>', 'banner')] })
+        .mockResolvedValueOnce({ rows: [{ id: 'creator_123', email: 'ada@frogtales.com', name: 'Ada' }] })
+        .mockResolvedValueOnce({ rows: [] });
+      mockEmailService.sendSingleEmail.mockResolvedValue({ message_id: 'msg_1', status: 'sent' });
+
+      const sent = await service.sendReports();
+
+      expect(sent).toBe(1);
+      const email = mockEmailService.sendSingleEmail.mock.calls[0][0] as any;
+      expect(email.to).toBe('ada@frogtales.com');
+      expect(email.subject).toBe('2 of your articles have expired');
+      expect(email.html_content).toContain('Black Friday &lt;Sale&gt;: still online with an expiry banner');
+      expect(email.text_content).toContain('- Call for Papers: archived');
+
+      const [markSql, markValues] = mockPool.query.mock.calls[2] as [string, any[]];
+      expect(markSql).toContain('UPDATE article_expiries SET notified_at');
+      expect(markValues[1]).toEqual(['e1', 'e2']);
+    });
+
+    it('should leave entries queued when the email fails', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [entry('e1', 'Call for Papers', 'archive')] })
+        .mockResolvedValueOnce({ rows: [{ id: 'creator_123', email: 'ada@frogtales.com', name: 'Ada' }] });
+      mockEmailService.sendSingleEmail.mockResolvedValue({ message_id: '', status: 'failed', error: 'SendGrid down' });
+
+      const sent = await service.sendReports();
+
+      expect(sent).toBe(0);
+      expect(mockPool.query).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('bannerFor', () => {
+    it('should only show a banner once a banner-action article has expired', () => {
+      const promo = { ...callForPapers, status: 'published', expiry_action: 'banner', expiry_banner: null } as any;
+
+      expect(ExpiryService.bannerFor(promo, now)).toBe(DEFAULT_EXPIRY_BANNER);
+      expect(ExpiryService.bannerFor({ ...promo, expiry_banner: 'This offer has ended.' }, now)).toBe('This offer has ended.');
+      expect(ExpiryService.bannerFor(promo, new Date('2025-10-31T00:00:00Z'))).toBeNull();
+      expect(ExpiryService.bannerFor({ ...promo, expiry_action: 'archive' }, now)).toBeNull();
+    });
+  });
+});
\ No newline at end of file
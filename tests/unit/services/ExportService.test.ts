@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { Pool } from 'pg';
+import { ExportService } from '../../../src/services/ExportService';
+import { ZipArchive } from '../../../src/services/ZipArchive';
+import { ContentExport } from '../../../src/models/ContentExport';
+import { MemoryStorageAdapter } from '../../../src/integrations/storage';
+
+jest.mock('uuid', () => ({ v4: () => 'generated-uuid' }));
+
+const creatorId = '11111111-1111-4111-8111-111111111111';
+const mediaId = '22222222-2222-4222-8222-222222222222';
+const mediaPrefix = `media/${creatorId}/${mediaId}`;
+
+const mediaRow = {
+  id: mediaId,
+  creator_id: creatorId,
+  storage_key: `${mediaPrefix}/original.jpg`,
+  url: `memory://${mediaPrefix}/original.jpg`,
+  filename: 'priors.jpg',
+  mime_type: 'image/jpeg',
+  alt_text: 'A prior distribution',
+  focal_x: '0.5',
+  focal_y: '0.5',
+  variants: [{ name: 'thumbnail', storage_key: `${mediaPrefix}/thumbnail.webp`, url: `memory://${mediaPrefix}/thumbnail.webp` }]
+};
+
+const article = {
+  id: 'article_1',
+  author_id: creatorId,
+  title: 'On "Priors"',
+  slug: 'on-priors',
+  content: `Intro\n\n![Prior](memory://${mediaPrefix}/thumbnail.webp)`,
+  content_format: 'markdown',
+  status: 'published',
+  is_premium: true,
+  tags: ['Bayes', 'Statistics'],
+  seo_description: 'Why priors matter',
+  featured_image_id: mediaId,
+  created_at: new Date('2025-01-01T09:00:00Z'),
+  updated_at: new Date('2025-01-02T09:00:00Z'),
+  published_at: new Date('2025-01-02T09:00:00Z')
+};
+
+function pendingExport(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'export_1',
+    creator_id: creatorId,
+    status: 'processing',
+    progress: ContentExport.emptyProgress(),
+    attempts: 1,
+    ...overrides
+  };
+}
+
+describe('ExportService', () => {
+  let mockPool: { query: jest.Mock<(...args: any[]) => Promise<any>> };
+  let storage: MemoryStorageAdapter;
+  let service: ExportService;
+
+  beforeEach(() => {
+    process.env.API_URL = 'https://api.frogtales.com';
+    mockPool = { query: jest.fn() };
+    storage = new MemoryStorageAdapter();
+    service = new ExportService(mockPool as unknown as Pool, storage);
+  });
+
+  describe('processPending', () => {
+    it('should write articles, media and a manifest into a readable ZIP', async () => {
+      await storage.put(`${mediaPrefix}/original.jpg`, Buffer.from('jpeg-bytes'), 'image/jpeg');
+      await storage.put(`${mediaPrefix}/thumbnail.webp`, Buffer.from('webp-bytes'), 'image/webp');
+
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [pendingExport()] })
+        .mockResolvedValueOnce({ rows: [article] })
+        .mockResolvedValueOnce({ rows: [mediaRow] })
+        .mockResolvedValueOnce({ rowCount: 1 })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ id: 'export_1' }] });
+
+      const result = await service.processPending(1, new Date('2025-02-01T00:00:00Z'));
+
+      expect(result).toEqual({ completed: 1, failed: 0 });
+
+      const completion = mockPool.query.mock.calls[5][1] as any[];
+      const progress = JSON.parse(completion[0]);
+      expect(progress.parts).toBe(2);
+      expect(completion[2]).toEqual(new Date('2025-02-08T00:00:00Z'));
+      expect(completion[3]).toBe(progress.bytes);
+
+      const archive = Buffer.concat([
+        (await storage.get('exports/11111111-1111-4111-8111-111111111111/export_1/part-0'))!,
+        (await storage.get('exports/11111111-1111-4111-8111-111111111111/export_1/part-1'))!
+      ]);
+      expect(archive.length).toBe(progress.bytes);
+
+      const files = new Map(ZipArchive.read(archive).map(entry => [entry.name, entry.data.toString('utf8')]));
+      expect(Array.from(files.keys())).toEqual([
+        `media/${mediaId}/original.jpg`,
+        `media/${mediaId}/thumbnail.webp`,
+        'articles/on-priors.md',
+        'manifest.json'
+      ]);
+      expect(files.get(`media/${mediaId}/original.jpg`)).toBe('jpeg-bytes');
+
+      const markdown = files.get('articles/on-priors.md')!;
+      expect(markdown).toContain('---\ntitle: "On \\"Priors\\""\nslug: "on-priors"\n');
+      expect(markdown).toContain('tags: ["Bayes","Statistics"]\nis_premium: true\n');
+      expect(markdown).toContain(`featured_image: "../media/${mediaId}/original.jpg"\n`);
+      expect(markdown).toContain('published_at: 2025-01-02T09:00:00.000Z\n---\n\n');
+      expect(markdown).toContain(`![Prior](../media/${mediaId}/thumbnail.webp)`);
+
+      const manifest = JSON.parse(files.get('manifest.json')!);
+      expect(manifest.articles).toEqual([
+        { id: 'article_1', slug: 'on-priors', title: 'On "Priors"', status: 'published', path: 'articles/on-priors.md', media: [mediaId] }
+      ]);
+      expect(manifest.media[0].files.map((file: { path: string }) => file.path)).toEqual([
+        `media/${mediaId}/original.jpg`,
+        `media/${mediaId}/thumbnail.webp`
+      ]);
+    });
+
+    it('should resume an interrupted export after its last saved batch', async () => {
+      const progress = { ...ContentExport.emptyProgress(), cursor: 'article_1', parts: 1, bytes: 500 };
+
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [pendingExport({ progress })] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ id: 'export_1' }] });
+
+      await service.processPending();
+
+      expect(mockPool.query.mock.calls[1][1]).toEqual([creatorId, 'article_1', 25]);
+      expect(storage.objects.has('exports/11111111-1111-4111-8111-111111111111/export_1/part-0')).toBe(false);
+      expect(storage.objects.has('exports/11111111-1111-4111-8111-111111111111/export_1/part-1')).toBe(true);
+
+      // The manifest entry starts where the saved parts end
+      const { files } = JSON.parse((mockPool.query.mock.calls[2][1] as any[])[0]);
+      expect(files).toEqual([expect.objectContaining({ name: 'manifest.json', offset: 500 })]);
+    });
+
+    it('should keep progress and queue the export again after an error', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [pendingExport()] })
+        .mockRejectedValueOnce(new Error('connection reset'))
+        .mockResolvedValueOnce({ rows: [{ id: 'export_1', status: 'pending' }] });
+
+      const result = await service.processPending();
+
+      expect(result).toEqual({ completed: 0, failed: 0 });
+      expect(mockPool.query.mock.calls[2][0]).toContain("SET status = 'pending'");
+      expect((mockPool.query.mock.calls[2][1] as any[])[0]).toBe('connection reset');
+    });
+  });
+
+  describe('getDownload', () => {
+    it('should refuse an expired link', async () => {
+      mockPool.query.mockResolvedValueOnce({
+        rows: [pendingExport({ status: 'completed', download_token: 'token', expires_at: new Date('2025-02-08T00:00:00Z') })]
+      });
+
+      await expect(service.getDownload('token', new Date('2025-02-09T00:00:00Z'))).rejects.toThrow('Export link has expired');
+    });
+  });
+
+  describe('toMarkdown', () => {
+    it('should convert block content and leave out empty fields', () => {
+      const markdown = ExportService.toMarkdown({
+        author_id: creatorId,
+        title: 'Blocks',
+        slug: 'blocks',
+        content: JSON.stringify({ blocks: [{ type: 'heading', level: 2, text: 'Setup' }, { type: 'paragraph', text: 'Text' }] }),
+        content_format: 'blocks',
+        status: 'draft',
+        excerpt: ''
+      }, []);
+
+      expect(markdown).toBe([
+        '---',
+        'title: "Blocks"',
+        'slug: "blocks"',
+        'status: "draft"',
+        'content_format: "blocks"',
+        'tags: []',
+        'is_premium: false',
+        '---',
+        '',
+        '## Setup\n\nText',
+        ''
+      ].join('\n'));
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { Pool } from 'pg';
+import { FeedService } from '../../../src/services/FeedService';
+
+jest.mock('uuid', () => ({ v4: () => 'generated-uuid' }));
+
+const creator = { id: 'creator_123', name: 'Dr. Jane Smith', bio: 'Statistics & ML', role: 'creator', updated_at: new Date('2026-01-01T00:00:00Z') };
+
+const freeArticle = {
+  id: 'article_1',
+  author_id: 'creator_123',
+  title: 'Priors <and> Posteriors',
+  slug: 'priors-and-posteriors',
+  content: 'Full text',
+  content_format: 'html',
+  content_html: '<p>Full text with ]]> inside</p>',
+  excerpt: 'Free excerpt',
+  status: 'published',
+  is_premium: false,
+  tags: ['bayes'],
+  published_at: new Date('2026-03-01T10:00:00Z'),
+  created_at: new Date('2026-02-01T10:00:00Z'),
+  updated_at: new Date('2026-03-02T10:00:00Z')
+};
+
+const premiumArticle = {
+  ...freeArticle,
+  id: 'article_2',
+  title: 'Members Only',
+  slug: 'members-only',
+  content_html: '<p>Secret premium body</p>',
+  excerpt: 'Premium excerpt',
+  is_premium: true,
+  published_at: new Date('2026-04-01T10:00:00Z'),
+  updated_at: new Date('2026-04-01T10:00:00Z')
+};
+
+describe('FeedService', () => {
+  let mockPool: { query: jest.Mock<(...args: any[]) => Promise<any>> };
+  let service: FeedService;
+
+  beforeEach(() => {
+    mockPool = { query: jest.fn() };
+    service = new FeedService(mockPool as unknown as Pool);
+  });
+
+  const mockFeedQueries = (articles: any[], tags?: any[]) => {
+    mockPool.query.mockResolvedValueOnce({ rows: [creator] });
+
+    if (tags) {
+      mockPool.query.mockResolvedValueOnce({ rows: tags });
+    }
+
+    mockPool.query
+      .mockResolvedValueOnce({ rows: [{ count: String(articles.length) }] })
+      .mockResolvedValueOnce({ rows: articles })
+      .mockResolvedValueOnce({ rows: [{ article_id: 'article_1', user_id: 'creator_123', name: 'Dr. Jane Smith', position: 1 }] })
+      .mockResolvedValueOnce({ rows: [creator] });
+  };
+
+  it('should build an RSS feed newest first with full content', async () => {
+    mockFeedQueries([freeArticle, premiumArticle]);
+
+    const feed = await service.buildFeed('creator_123', 'rss');
+
+    expect(feed.content_type).toBe('application/rss+xml; charset=utf-8');
+    expect(feed.body.indexOf('Members Only')).toBeLessThan(feed.body.indexOf('Priors &lt;and&gt; Posteriors'));
+    expect(feed.body).toContain('<content:encoded><![CDATA[<p>Full text with ]]]]><![CDATA[> inside</p>]]></content:encoded>');
+    expect(feed.body).toContain('<dc:creator>Dr. Jane Smith</dc:creator>');
+    expect(feed.last_modified).toEqual(new Date('2026-04-01T10:00:00Z'));
+    expect(feed.etag).toMatch(/^W\/"[0-9a-f]{40}"$/);
+  });
+
+  it('should truncate premium articles to their excerpt', async () => {
+    mockFeedQueries([premiumArticle]);
+
+    const feed = await service.buildFeed('creator_123', 'json');
+    const json = JSON.parse(feed.body);
+
+    expect(json.version).toBe('https://jsonfeed.org/version/1.1');
+    expect(json.items[0].content_html).toContain('Premium excerpt');
+    expect(feed.body).not.toContain('Secret premium body');
+  });
+
+  it('should omit content in excerpt mode and filter by the canonical tag', async () => {
+    mockFeedQueries([freeArticle], [{ id: 'tag_1', name: 'Bayes', slug: 'bayes', matched_slug: 'bayes' }]);
+
+    const feed = await service.buildFeed('creator_123', 'atom', { mode: 'excerpt', tag: 'bayes' });
+
+    expect(feed.body).toContain('<summary type="text">Free excerpt</summary>');
+    expect(feed.body).not.toContain('<content');
+    expect(feed.body).toContain('/feeds/creator_123/tags/bayes.atom');
+    expect((mockPool.query.mock.calls[2][1] as any[]).slice(0, 3)).toEqual(['creator_123', 'published', ['Bayes']]);
+  });
+
+  it('should exclude premium articles when premium mode is omit', async () => {
+    mockFeedQueries([]);
+
+    await service.buildFeed('creator_123', 'rss', { premium: 'omit' });
+
+    expect((mockPool.query.mock.calls[1][1] as any[]).slice(0, 3)).toEqual(['creator_123', 'published', false]);
+  });
+
+  it('should truncate free articles that belong to a premium series', async () => {
+    mockFeedQueries([{ ...freeArticle, in_premium_series: true }], [{ id: 'tag_1', name: 'Bayes', slug: 'bayes', matched_slug: 'bayes' }]);
+
+    const feed = await service.buildFeed('creator_123', 'json', { tag: 'bayes' });
+    const json = JSON.parse(feed.body);
+
+    expect(json.items[0].content_html).toContain('Free excerpt');
+    expect(feed.body).not.toContain('Full text with');
+    expect(mockPool.query.mock.calls[3][0]).toContain('AS in_premium_series');
+  });
+
+  it('should leave out articles in premium series when premium mode is omit', async () => {
+    mockFeedQueries([]);
+
+    await service.buildFeed('creator_123', 'rss', { premium: 'omit' });
+
+    expect(mockPool.query.mock.calls[1][0]).toContain('AND NOT EXISTS');
+    expect(mockPool.query.mock.calls[1][0]).toContain('s.is_premium');
+  });
+
+  it('should fail for unknown creators', async () => {
+    mockPool.query.mockResolvedValueOnce({ rows: [] });
+
+    await expect(service.buildFeed('missing', 'rss')).rejects.toThrow('Creator not found');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { Pool } from 'pg';
+import zlib from 'zlib';
+import { ImportService } from '../../../src/services/ImportService';
+import { ImportParsers } from '../../../src/services/ImportParsers';
+import { ZipArchive } from '../../../src/services/ZipArchive';
+import { ContentImportData } from '../../../src/models/ContentImport';
+import { MemoryStorageAdapter } from '../../../src/integrations/storage';
+
+jest.mock('uuid', () => ({ v4: () => 'generated-uuid' }));
+
+const wordPressExport = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:wp="http://wordpress.org/export/1.2/" xmlns:content="http://purl.org/rss/1.0/modules/content/">
+<channel>
+  <item>
+    <title>Priors &amp; Posteriors</title>
+    <content:encoded><![CDATA[First paragraph.
+
+Second paragraph.]]></content:encoded>
+    <excerpt:encoded><![CDATA[]]></excerpt:encoded>
+    <wp:post_id>12</wp:post_id>
+    <wp:post_date_gmt>2019-05-04 09:30:00</wp:post_date_gmt>
+    <wp:post_name>on-priors</wp:post_name>
+    <wp:status>publish</wp:status>
+    <wp:post_type>post</wp:post_type>
+    <category domain="category" nicename="uncategorized"><![CDATA[Uncategorized]]></category>
+    <category domain="post_tag" nicename="bayes"><![CDATA[Bayes]]></category>
+  </item>
+  <item>
+    <title>About</title>
+    <wp:post_id>2</wp:post_id>
+    <wp:post_name>about</wp:post_name>
+    <wp:status>publish</wp:status>
+    <wp:post_type>page</wp:post_type>
+  </item>
+  <item>
+    <title>Old draft</title>
+    <wp:post_id>7</wp:post_id>
+    <wp:post_name>old-draft</wp:post_name>
+    <wp:status>trash</wp:status>
+    <wp:post_type>post</wp:post_type>
+  </item>
+</channel>
+</rss>`;
+
+// Builds a one-file deflated archive the way export tools write them
+function zipOf(name: string, content: string): Buffer {
+  const data = Buffer.from(content);
+  const compressed = zlib.deflateRawSync(data);
+  const fileName = Buffer.from(name);
+
+  const local = Buffer.alloc(30);
+  local.writeUInt32LE(0x04034b50, 0);
+  local.writeUInt16LE(8, 8);
+  local.writeUInt32LE(compressed.length, 18);
+  local.writeUInt32LE(data.length, 22);
+  local.writeUInt16LE(fileName.length, 26);
+
+  const central = Buffer.alloc(46);
+  central.writeUInt32LE(0x02014b50, 0);
+  central.writeUInt16LE(8, 10);
+  central.writeUInt32LE(compressed.length, 20);
+  central.writeUInt32LE(data.length, 24);
+  central.writeUInt16LE(fileName.length, 28);
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(1, 8);
+  end.writeUInt16LE(1, 10);
+  end.writeUInt32LE(46 + fileName.length, 12);
+  end.writeUInt32LE(30 + fileName.length + compressed.length, 16);
+
+  return Buffer.concat([local, fileName, compressed, central, fileName, end]);
+}
+
+describe('ImportParsers', () => {
+  it('should read quoted CSV fields with commas, quotes and newlines', () => {
+    const rows = ImportParsers.parseCsv('\uFEFFpost_id,title\r\n1.on-priors,"Priors, ""briefly""\nexplained"\r\n');
+
+    expect(rows).toEqual([{ post_id: '1.on-priors', title: 'Priors, "briefly"\nexplained' }]);
+  });
+
+  it('should import WordPress posts and report pages and trashed posts', () => {
+    const archive = ImportParsers.parseWordPress(wordPressExport);
+
+    expect(archive.posts).toHaveLength(1);
+    expect(archive.posts[0]).toMatchObject({
+      title: 'Priors & Posteriors',
+      slug: 'on-priors',
+      content_html: '<p>First paragraph.</p>\n<p>Second paragraph.</p>',
+      status: 'published',
+      published_at: new Date('2019-05-04T09:30:00Z'),
+      tags: ['Bayes']
+    });
+    expect(archive.skipped.map(issue => [issue.ref, issue.reason])).toEqual([
+      ['about', 'Pages are not imported'],
+      ['old-draft', 'Post is in the trash']
+    ]);
+  });
+
+  it('should order Ghost tags and leave out internal tags, pages and unsubscribed members', () => {
+    const archive = ImportParsers.parseGhost(JSON.stringify({
+      db: [{
+        data: {
+          posts: [
+            { id: 'p1', title: 'On Priors', slug: 'on-priors', html: '<p>Text</p>', status: 'published', visibility: 'paid', published_at: '2021-01-02T00:00:00.000Z' },
+            { id: 'p2', title: 'About', slug: 'about', html: '<p>Me</p>', type: 'page', status: 'published' }
+          ],
+          tags: [{ id: 't1', name: 'Bayes' }, { id: 't2', name: 'Statistics' }, { id: 't3', name: '#hidden' }],
+          posts_tags: [
+            { post_id: 'p1', tag_id: 't2', sort_order: 1 },
+            { post_id: 'p1', tag_id: 't3', sort_order: 2 },
+            { post_id: 'p1', tag_id: 't1', sort_order: 0 }
+          ],
+          members: [{ email: 'ada@example.com', name: 'Ada' }, { email: 'gone@example.com', subscribed: false }]
+        }
+      }]
+    }));
+
+    expect(archive.posts).toHaveLength(1);
+    expect(archive.posts[0]).toMatchObject({ tags: ['Bayes', 'Statistics'], is_premium: true, status: 'published' });
+    expect(archive.subscribers).toEqual([{ email: 'ada@example.com', name: 'Ada' }]);
+    expect(archive.skipped.map(issue => issue.ref)).toEqual(['about', 'gone@example.com']);
+  });
+
+  it('should read a Substack export from its ZIP archive', () => {
+    const archive = zipOf('posts.csv', 'post_id,title\n1.on-priors,On Priors\n');
+
+    expect(ZipArchive.isZip(archive)).toBe(true);
+    expect(ZipArchive.read(archive)).toEqual([{ name: 'posts.csv', data: Buffer.from('post_id,title\n1.on-priors,On Priors\n') }]);
+    expect(ImportParsers.parseSubstack(ZipArchive.read(archive)).skipped).toEqual([
+      { type: 'article', ref: 'on-priors', title: 'On Priors', reason: 'Post body missing from the export' }
+    ]);
+  });
+});
+
+describe('ImportService', () => {
+  let mockPool: { query: jest.Mock<(...args: any[]) => Promise<any>> };
+  let storage: MemoryStorageAdapter;
+  let service: ImportService;
+
+  const dryRun: ContentImportData = {
+    id: 'import_1',
+    creator_id: 'creator_123',
+    source: 'ghost',
+    status: 'processing',
+    dry_run: true,
+    on_conflict: 'rename',
+    file_name: 'ghost.json',
+    storage_key: 'imports/creator_123/generated-uuid/ghost-export'
+  };
+
+  beforeEach(() => {
+    mockPool = { query: jest.fn() };
+    storage = new MemoryStorageAdapter();
+    service = new ImportService(mockPool as unknown as Pool, storage);
+  });
+
+  describe('runImport', () => {
+    it('should rename conflicting slugs and skip existing subscribers without writing in a dry run', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [{ slug: 'on-priors' }, { slug: 'on-priors-2' }] })
+        .mockResolvedValueOnce({ rows: [{ id: 'sub_1', email: 'ada@example.com' }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      const report = await service.runImport(dryRun, {
+        posts: [
+          { source_id: 'p1', title: 'On Priors', slug: 'on-priors', content_html: '<p>Text</p>', status: 'published', tags: ['Bayes', 'x'.repeat(60)], is_premium: false },
+          { source_id: 'p2', title: 'Café Statistics', slug: '', content_html: '<p>Text</p>', status: 'draft', tags: [], is_premium: false }
+        ],
+        subscribers: [{ email: 'Ada@Example.com' }, { email: 'grace@example.com' }, { email: 'grace@example.com' }],
+        skipped: [{ type: 'article', ref: 'about', reason: 'Pages are not imported' }]
+      });
+
+      expect(report.articles).toEqual({ total: 3, imported: 2, renamed: 1, skipped: 1 });
+      expect(report.subscribers).toEqual({ total: 3, imported: 1, skipped: 2 });
+      expect(report.tags).toEqual(['Bayes']);
+      expect(report.conflicts).toEqual([
+        { type: 'article', ref: 'on-priors', title: 'On Priors', reason: 'Slug already in use', resolution: 'renamed', new_slug: 'on-priors-3' },
+        { type: 'subscriber', ref: 'ada@example.com', reason: 'Already subscribed', resolution: 'skipped' },
+        { type: 'subscriber', ref: 'grace@example.com', reason: 'Already subscribed', resolution: 'skipped' }
+      ]);
+      // Slug lookup plus one email lookup per distinct new address, and no inserts
+      expect(mockPool.query).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('createImport', () => {
+    it('should reject a file that does not match the source', async () => {
+      await expect(service.createImport('creator_123', { originalname: 'export.json', buffer: Buffer.from('{}'), size: 2 }, { source: 'substack' }))
+        .rejects.toThrow('Invalid import file: a Substack export is a ZIP archive');
+
+      expect(storage.objects.size).toBe(0);
+      expect(mockPool.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('normalizeSlug', () => {
+    it('should fold accents and percent-encoding into our slug format', () => {
+      expect(ImportService.normalizeSlug('caf%C3%A9-au-lait')).toBe('cafe-au-lait');
+      expect(ImportService.normalizeSlug('  Café Statistics!  ')).toBe('cafe-statistics');
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { Pool } from 'pg';
+import sharp from 'sharp';
+import { MediaService } from '../../../src/services/MediaService';
+import { MemoryStorageAdapter } from '../../../src/integrations/storage';
+import { Media, MediaData } from '../../../src/models/Media';
+
+jest.mock('uuid', () => ({ v4: () => 'media_123' }));
+
+async function createImage(width: number, height: number): Promise<Buffer> {
+  return sharp({ create: { width, height, channels: 3, background: { r: 20, g: 120, b: 200 } } }).png().toBuffer();
+}
+
+describe('MediaService', () => {
+  let mockPool: { query: jest.Mock<(...args: any[]) => Promise<any>> };
+  let storage: MemoryStorageAdapter;
+  let service: MediaService;
+
+  beforeEach(() => {
+    mockPool = { query: jest.fn() };
+    storage = new MemoryStorageAdapter();
+    service = new MediaService(mockPool as unknown as Pool, storage);
+  });
+
+  describe('upload', () => {
+    it('should store the original and WebP variants that never enlarge the image', async () => {
+      const buffer = await createImage(1000, 500);
+      mockPool.query.mockImplementationOnce(async (_query: string, values: any[]) => ({
+        rows: [{ id: values[0], variants: JSON.parse(values[13]), focal_x: String(values[11]), focal_y: String(values[12]) }]
+      }));
+
+      const media = await service.upload('creator_123', {
+        buffer,
+        originalname: '../Beach photo.png',
+        mimetype: 'image/png',
+        size: buffer.length
+      }, { alt_text: ' Waves ', focal_x: 0.25 });
+
+      expect(Array.from(storage.objects.keys())).toEqual([
+        'media/creator_123/media_123/original.png',
+        'media/creator_123/media_123/thumbnail.webp',
+        'media/creator_123/media_123/medium.webp',
+        'media/creator_123/media_123/large.webp'
+      ]);
+      expect(media.variants.map(variant => [variant.name, variant.width, variant.height])).toEqual([
+        ['thumbnail', 320, 160],
+        ['medium', 768, 384],
+        ['large', 1000, 500]
+      ]);
+      expect(media.focal_x).toBe(0.25);
+      expect(media.focal_y).toBe(0.5);
+
+      const values = mockPool.query.mock.calls[0][1];
+      expect(values.slice(4, 9)).toEqual(['Beach photo.png', 'image/png', expect.any(Number), 1000, 500]);
+      expect(values[9]).toBe('Waves');
+    });
+
+    it('should reject files that are not images whatever their declared type', async () => {
+      const buffer = Buffer.from('<svg onload="alert(1)"></svg>');
+
+      await expect(service.upload('creator_123', {
+        buffer,
+        originalname: 'photo.png',
+        mimetype: 'image/png',
+        size: buffer.length
+      })).rejects.toThrow('Invalid image');
+      expect(storage.objects.size).toBe(0);
+    });
+
+    it('should reject focal points outside the image', async () => {
+      const buffer = await createImage(10, 10);
+
+      await expect(service.upload('creator_123', {
+        buffer,
+        originalname: 'photo.png',
+        mimetype: 'image/png',
+        size: buffer.length
+      }, { focal_y: 1.5 })).rejects.toThrow('Invalid focal point');
+    });
+
+    it('should remove stored files when saving the record fails', async () => {
+      const buffer = await createImage(100, 100);
+      mockPool.query.mockRejectedValueOnce(new Error('connection lost'));
+
+      await expect(service.upload('creator_123', {
+        buffer,
+        originalname: 'photo.png',
+        mimetype: 'image/png',
+        size: buffer.length
+      })).rejects.toThrow('connection lost');
+      expect(storage.objects.size).toBe(0);
+    });
+  });
+
+  describe('getImageForCreator', () => {
+    it('should only accept images from the creator\'s own library', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [{ id: 'media_123', creator_id: 'someone_else', variants: [] }] });
+
+      await expect(service.getImageForCreator('media_123', 'creator_123'))
+        .rejects.toThrow('Invalid image: must be from your media library');
+    });
+  });
+
+  describe('getFile', () => {
+    it('should serve media but nothing that resolves outside it', async () => {
+      await storage.put('media/creator_123/media_123/original.png', Buffer.from('image'), 'image/png');
+      await storage.put('exports/creator_123/export_123/part-1', Buffer.from('private'), 'application/zip');
+      const get = jest.spyOn(storage, 'get');
+
+      expect(await service.getFile('media/creator_123/./media_123/original.png')).toEqual(Buffer.from('image'));
+      expect(get).toHaveBeenLastCalledWith('media/creator_123/media_123/original.png');
+
+      get.mockClear();
+      expect(await service.getFile('media/../exports/creator_123/export_123/part-1')).toBeNull();
+      expect(await service.getFile('media/creator_123/../../exports/creator_123/export_123/part-1')).toBeNull();
+      expect(await service.getFile('/media/../exports/creator_123/export_123/part-1')).toBeNull();
+      expect(await service.getFile('media\\..\\exports\\creator_123\\export_123\\part-1')).toBeNull();
+      expect(await service.getFile('exports/creator_123/export_123/part-1')).toBeNull();
+      expect(get).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('displayUrl', () => {
+    it('should prefer the large variant and fall back to the biggest one', () => {
+      const variant = (name: string) => ({ name, url: `https://cdn.example.com/${name}.webp` });
+      const media = { url: 'https://cdn.example.com/original.png', variants: [variant('thumbnail'), variant('medium')] } as MediaData;
+
+      expect(Media.displayUrl(media)).toBe('https://cdn.example.com/medium.webp');
+      expect(Media.displayUrl({ ...media, variants: [...media.variants, variant('large'), variant('xlarge')] } as MediaData))
+        .toBe('https://cdn.example.com/large.webp');
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { Pool } from 'pg';
+import { Article } from '../../../src/models/Article';
+import { Subscriber } from '../../../src/models/Subscriber';
+import { Pagination } from '../../../src/services/Pagination';
+
+jest.mock('uuid', () => ({ v4: () => 'generated-uuid' }));
+
+const row = (id: string, title: string) => ({ id, title, sort_key: title, author_id: 'user_123', status: 'published' });
+
+describe('Pagination', () => {
+  let mockPool: { query: jest.Mock<(...args: any[]) => Promise<any>> };
+  let article: Article;
+
+  beforeEach(() => {
+    mockPool = { query: jest.fn() };
+    article = new Article(mockPool as unknown as Pool);
+  });
+
+  describe('Article.findMany', () => {
+    it('should order by the requested sort field with id as tie-breaker', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [{ count: '0' }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      await article.findMany({ status: 'published', sortBy: 'title', sortOrder: 'asc', limit: 10 });
+
+      const [query, values] = mockPool.query.mock.calls[1] as [string, any[]];
+      expect(query).toContain('ORDER BY title ASC, id ASC LIMIT $2');
+      expect(values).toEqual(['published', 11]);
+    });
+
+    it('should keep offset pagination when no cursor is given', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [{ count: '0' }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      await article.findMany({ limit: 20, offset: 40 });
+
+      const [query, values] = mockPool.query.mock.calls[1] as [string, any[]];
+      expect(query).toContain('ORDER BY created_at DESC, id DESC LIMIT $1 OFFSET $2');
+      expect(values).toEqual([21, 40]);
+    });
+
+    it('should hand out a cursor that resumes after the last row', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [{ count: '3' }] })
+        .mockResolvedValueOnce({ rows: [row('a1', 'Alpha'), row('a2', 'Beta'), row('a3', 'Gamma')] });
+
+      const first = await article.findMany({ sortBy: 'title', sortOrder: 'asc', limit: 2, cursor: '' });
+
+      expect(first.articles.map(a => a.id)).toEqual(['a1', 'a2']);
+      expect(first.articles[0]).not.toHaveProperty('sort_key');
+      expect(first.total).toBe(3);
+      expect(first.next_cursor).toEqual(expect.any(String));
+
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [{ count: '3' }] })
+        .mockResolvedValueOnce({ rows: [row('a3', 'Gamma')] });
+
+      const second = await article.findMany({ sortBy: 'title', sortOrder: 'asc', limit: 2, cursor: first.next_cursor! });
+
+      const [query, values] = mockPool.query.mock.calls[3] as [string, any[]];
+      expect(query).toContain('AND (title > $2 OR (title = $2 AND id > $1))');
+      expect(query).not.toContain('OFFSET');
+      expect(values).toEqual(['a2', 'Beta', 3]);
+      expect(second.next_cursor).toBeNull();
+    });
+
+    it('should page through NULLs of nullable columns last', async () => {
+      const cursor = Pagination.encodeCursor({ s: 'published_at', o: 'desc', v: null, id: 'a7' });
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [{ count: '9' }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      await article.findMany({ sortBy: 'published_at', limit: 5, cursor });
+
+      const [query, values] = mockPool.query.mock.calls[1] as [string, any[]];
+      expect(query).toContain('AND (published_at IS NULL AND id < $1)');
+      expect(query).toContain('ORDER BY published_at DESC NULLS LAST, id DESC');
+      expect(values).toEqual(['a7', 6]);
+    });
+
+    it('should reject unknown sort fields and foreign cursors', async () => {
+      mockPool.query.mockResolvedValue({ rows: [{ count: '0' }] });
+
+      await expect(article.findMany({ sortBy: 'views' as any })).rejects.toThrow('Invalid sortBy');
+
+      const cursor = Pagination.encodeCursor({ s: 'title', o: 'asc', v: 'Beta', id: 'a2' });
+      await expect(article.findMany({ sortBy: 'title', sortOrder: 'desc', cursor })).rejects.toThrow('different sort order');
+      await expect(article.findMany({ cursor: 'not-a-cursor' })).rejects.toThrow('Invalid cursor');
+    });
+  });
+
+  describe('Subscriber.findMany', () => {
+    it('should default to the newest subscribers first', async () => {
+      const subscriber = new Subscriber(mockPool as unknown as Pool);
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [{ count: '0' }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      await subscriber.findMany({ status: 'active', limit: 50 });
+
+      expect(mockPool.query.mock.calls[1][0]).toContain('ORDER BY subscribed_at DESC, id DESC LIMIT $2');
+    });
+  });
+
+  describe('fromQuery', () => {
+    it('should switch to cursor mode when a cursor parameter is present', () => {
+      expect(Pagination.fromQuery({ limit: '500', offset: '20', cursor: '' }, 20, 100)).toEqual({ limit: 100, cursor: '' });
+      expect(Pagination.fromQuery({ offset: '20', sortOrder: 'ASC' }, 20, 100)).toEqual({ limit: 20, offset: 20, sortOrder: 'asc' });
+    });
+  });
+});
\ No newline at end of file
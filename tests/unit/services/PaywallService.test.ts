@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { Pool } from 'pg';
+import { PaywallService } from '../../../src/services/PaywallService';
+import { ArticleData } from '../../../src/models/Article';
+
+jest.mock('uuid', () => ({ v4: () => 'generated-uuid' }));
+
+const article = {
+  id: 'article_123',
+  author_id: 'creator_123',
+  title: 'Premium Article',
+  slug: 'premium-article',
+  content: 'Content',
+  status: 'published',
+  is_premium: true
+} as ArticleData;
+
+const premiumSeries = {
+  id: 'series_123',
+  creator_id: 'creator_123',
+  title: 'Deep Dives',
+  slug: 'deep-dives',
+  is_premium: true,
+  plan_id: 'plan_123'
+};
+
+const now = new Date('2025-10-23T12:00:00Z');
+
+describe('PaywallService', () => {
+  let mockPool: { query: jest.Mock<(...args: any[]) => Promise<any>> };
+  let service: PaywallService;
+
+  beforeEach(() => {
+    mockPool = { query: jest.fn() };
+    service = new PaywallService(mockPool as unknown as Pool);
+  });
+
+  describe('checkAccess', () => {
+    it('should open free articles outside a premium series', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [] }); // not in a series
+
+      const access = await service.checkAccess({ ...article, is_premium: false }, {});
+
+      expect(access).toEqual({ has_access: true, reason: 'free' });
+      expect(mockPool.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should let the creator read their own premium articles', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [] });
+
+      const access = await service.checkAccess(article, { user_id: 'creator_123' });
+
+      expect(access).toEqual({ has_access: true, reason: 'author' });
+      expect(mockPool.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should check for an active subscription to the article creator', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [] }) // not in a series
+        .mockResolvedValueOnce({ rows: [] }) // byline
+        .mockResolvedValueOnce({ rows: [] }) // editors
+        .mockResolvedValueOnce({ rows: [{ '?column?': 1 }] });
+
+      const access = await service.checkAccess(article, { user_id: 'reader_123' });
+
+      expect(access).toEqual({ has_access: true, reason: 'subscriber' });
+      expect(mockPool.query.mock.calls[3][1]).toEqual(['reader_123', 'creator_123']);
+    });
+
+    it('should gate signed-in readers without a subscription when there is no meter', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [] }); // no saved settings
+
+      const access = await service.checkAccess(article, { user_id: 'reader_123' });
+
+      expect(access).toEqual({ has_access: false, reason: 'paywall' });
+    });
+
+    it('should use a metered read for anonymous readers with a device id', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ creator_id: 'creator_123', metered_reads_per_month: 3 }] })
+        .mockResolvedValueOnce({ rows: [{ already_read: false, inserted: true, used: 1 }] });
+
+      const access = await service.checkAccess(article, { device_id: 'device-abc-123' }, now);
+
+      expect(access).toEqual({
+        has_access: true,
+        reason: 'metered',
+        meter: { limit: 3, used: 2, remaining: 1, resets_at: '2025-11-01T00:00:00.000Z' }
+      });
+      expect(mockPool.query.mock.calls[2][1].slice(0, 4)).toEqual(['creator_123', 'device:device-abc-123', '2025-10-01', 'article_123']);
+    });
+
+    it('should gate readers who have used up their metered reads', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ creator_id: 'creator_123', metered_reads_per_month: 3 }] })
+        .mockResolvedValueOnce({ rows: [{ already_read: false, inserted: false, used: 3 }] });
+
+      const access = await service.checkAccess(article, { device_id: 'device-abc-123' }, now);
+
+      expect(access.has_access).toBe(false);
+      expect(access.reason).toBe('paywall');
+      expect(access.meter?.remaining).toBe(0);
+    });
+
+    it('should not meter readers it cannot identify', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ creator_id: 'creator_123', metered_reads_per_month: 3 }] });
+
+      const access = await service.checkAccess(article, { device_id: 'bad id' }, now);
+
+      expect(access).toEqual({ has_access: false, reason: 'paywall' });
+      expect(mockPool.query).toHaveBeenCalledTimes(2);
+    });
+
+    it('should gate free articles in a premium series without metering them', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [premiumSeries] })
+        .mockResolvedValueOnce({ rows: [] }) // byline
+        .mockResolvedValueOnce({ rows: [] }) // editors
+        .mockResolvedValueOnce({ rows: [] }); // no subscription to the series plan
+
+      const access = await service.checkAccess({ ...article, is_premium: false }, { user_id: 'reader_123' }, now);
+
+      expect(access).toEqual({ has_access: false, reason: 'series' });
+      expect(mockPool.query.mock.calls[3][1]).toEqual(['reader_123', 'plan_123']);
+      expect(mockPool.query.mock.calls.some(([sql]) => String(sql).includes('metered_reads'))).toBe(false);
+    });
+
+    it('should open premium series to subscribers of the series plan', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [premiumSeries] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ '?column?': 1 }] });
+
+      const access = await service.checkAccess({ ...article, is_premium: false }, { user_id: 'reader_123' }, now);
+
+      expect(access).toEqual({ has_access: true, reason: 'subscriber' });
+    });
+  });
+
+  describe('hasFullAccess', () => {
+    it('should never spend a metered read', async () => {
+      mockPool.query.mockResolvedValue({ rows: [] });
+
+      expect(await service.hasFullAccess(article)).toBe(false);
+      expect(await service.hasFullAccess({ ...article, is_premium: false })).toBe(true);
+      expect(await service.hasFullAccess(article, 'reader_123')).toBe(false);
+      expect(mockPool.query).toHaveBeenCalledTimes(6);
+      expect(mockPool.query.mock.calls.some(([sql]) => String(sql).includes('metered_reads'))).toBe(false);
+    });
+
+    it('should preview free articles in a premium series', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [premiumSeries] });
+
+      expect(await service.hasFullAccess({ ...article, is_premium: false })).toBe(false);
+    });
+  });
+});
\ No newline at end of file
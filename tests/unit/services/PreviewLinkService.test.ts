@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { Pool } from 'pg';
+import { PreviewLinkService, PREVIEW_ROBOTS } from '../../../src/services/PreviewLinkService';
+
+jest.mock('uuid', () => ({ v4: () => 'generated-uuid' }));
+
+const secret = 'test-preview-secret';
+const linkId = '6f1c2a52-8a3e-4c7e-9d0b-2f8c1e0a9b71';
+const expiresAt = new Date('2099-01-01T00:00:00Z');
+
+const draft = {
+  id: 'article_123',
+  author_id: 'creator_123',
+  title: 'Priors, Revisited',
+  slug: 'priors-revisited',
+  content: '<p>The current draft.</p>',
+  content_format: 'html',
+  content_html: '<p>The current draft.</p>',
+  status: 'draft',
+  tags: ['bayesian'],
+  created_at: new Date('2025-10-01T00:00:00Z'),
+  updated_at: new Date('2025-10-02T00:00:00Z')
+};
+
+const link = {
+  id: linkId,
+  article_id: 'article_123',
+  created_by: 'creator_123',
+  label: 'For the sponsor',
+  revision_number: 2,
+  expires_at: expiresAt,
+  revoked_at: null
+};
+
+describe('PreviewLinkService', () => {
+  let mockPool: { query: jest.Mock<(...args: any[]) => Promise<any>> };
+  let service: PreviewLinkService;
+
+  beforeEach(() => {
+    mockPool = { query: jest.fn() };
+    service = new PreviewLinkService(mockPool as unknown as Pool, { secret });
+  });
+
+  describe('tokens', () => {
+    it('should only accept tokens signed with the same secret and unchanged', () => {
+      const token = PreviewLinkService.signToken(linkId, expiresAt, secret);
+
+      expect(PreviewLinkService.verifyToken(token, secret)).toEqual({ id: linkId, expires_at: expiresAt });
+      expect(PreviewLinkService.verifyToken(token, 'another-secret')).toBeNull();
+
+      // Extending the expiry invalidates the signature
+      const [id, , signature] = token.split('.');
+      expect(PreviewLinkService.verifyToken(`${id}.4102444800.${signature}`, secret)).toBeNull();
+      expect(PreviewLinkService.verifyToken('not-a-token', secret)).toBeNull();
+    });
+  });
+
+  describe('createLink', () => {
+    it('should create an expiring link pinned to an existing revision', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [draft] })
+        .mockResolvedValueOnce({ rows: [{ article_id: 'article_123', revision_number: 2 }] })
+        .mockResolvedValueOnce({ rows: [{ ...link, id: 'generated-uuid' }] });
+
+      const preview = await service.createLink('article_123', 'creator_123', {
+        label: ' For the sponsor ',
+        revision_number: 2,
+        expires_in_hours: 48
+      });
+
+      const values = mockPool.query.mock.calls[2][1] as any[];
+      expect(values.slice(0, 5)).toEqual(['generated-uuid', 'article_123', 'creator_123', 'For the sponsor', 2]);
+      expect(values[5].getTime() - Date.now()).toBeGreaterThan(47 * 60 * 60 * 1000);
+      expect(values[5].getMilliseconds()).toBe(0);
+
+      expect(preview.status).toBe('active');
+      expect(preview.preview_url).toContain(`/preview/${preview.token}`);
+      expect(PreviewLinkService.verifyToken(preview.token, secret)!.id).toBe('generated-uuid');
+    });
+
+    it('should not let other users share the article', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [draft] })
+        // Not a co-author
+        .mockResolvedValueOnce({ rows: [] })
+        // Not an editor
+        .mockResolvedValueOnce({ rows: [] });
+
+      await expect(service.createLink('article_123', 'reader_456')).rejects.toThrow('Unauthorized');
+    });
+
+    it('should cap how long a link stays valid', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [draft] });
+
+      await expect(service.createLink('article_123', 'creator_123', { expires_in_hours: 24 * 365 }))
+        .rejects.toThrow('Invalid expires_in_hours');
+    });
+  });
+
+  describe('openPreview', () => {
+    const token = PreviewLinkService.signToken(linkId, expiresAt, secret);
+
+    it('should show the pinned revision, marked noindex, and log the view', async () => {
+      mockPool.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('FROM article_preview_links')) return { rows: [link] };
+        if (sql.includes('FROM articles WHERE id')) return { rows: [draft] };
+        if (sql.includes('FROM article_revisions')) {
+          return { rows: [{ article_id: 'article_123', revision_number: 2, title: 'Priors', content: '<p>Revision two.</p>', content_format: 'html', tags: [] }] };
+        }
+        if (sql.includes('INSERT INTO article_preview_views')) return { rows: [{ id: 'generated-uuid' }] };
+        return { rows: [] };
+      });
+
+      const { article, preview } = await service.openPreview(token, { ip_address: '203.0.113.7', user_agent: 'Mozilla/5.0' });
+
+      expect(article.title).toBe('Priors');
+      expect(article.content_html).toContain('Revision two.');
+      expect(article.seo.robots).toBe(PREVIEW_ROBOTS);
+      expect(preview).toEqual({ label: 'For the sponsor', revision_number: 2, expires_at: expiresAt });
+
+      const logCall = mockPool.query.mock.calls.find(([sql]) => (sql as string).includes('INSERT INTO article_preview_views'))!;
+      expect(logCall[1]).toEqual(['generated-uuid', linkId, '203.0.113.7', 'Mozilla/5.0', expect.any(Date)]);
+    });
+
+    it('should refuse revoked, expired and forged links', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [{ ...link, revoked_at: new Date() }] });
+      await expect(service.openPreview(token)).rejects.toThrow('Preview link has been revoked');
+
+      mockPool.query.mockResolvedValueOnce({ rows: [link] });
+      await expect(service.openPreview(token, {}, new Date('2099-01-02T00:00:00Z'))).rejects.toThrow('Preview link has expired');
+
+      await expect(service.openPreview(`${linkId}.4102444800.forged`)).rejects.toThrow('Preview link not found');
+      expect(mockPool.query).toHaveBeenCalledTimes(2);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { Pool } from 'pg';
+import { ReadingService } from '../../../src/services/ReadingService';
+
+jest.mock('uuid', () => ({ v4: () => 'generated-uuid' }));
+
+const article = {
+  id: 'article_123',
+  author_id: 'creator_123',
+  title: 'Bayesian Optimization for Everyone',
+  slug: 'bayesian-optimization-for-everyone',
+  status: 'published'
+};
+
+const folder = { id: 'folder_123', user_id: 'reader_123', name: 'Statistics', position: 0 };
+
+describe('ReadingService', () => {
+  let mockPool: { query: jest.Mock<(...args: any[]) => Promise<any>> };
+  let service: ReadingService;
+
+  beforeEach(() => {
+    mockPool = { query: jest.fn() };
+    service = new ReadingService(mockPool as unknown as Pool);
+  });
+
+  describe('syncProgress', () => {
+    it('should store the position without letting a late device move the reader back', async () => {
+      const readAt = new Date('2025-11-02T11:58:00Z');
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [article] })
+        .mockResolvedValueOnce({
+          rows: [{
+            user_id: 'reader_123',
+            article_id: 'article_123',
+            scroll_percentage: '42.50',
+            last_paragraph_index: 17,
+            max_scroll_percentage: '61.00',
+            completed_at: null,
+            updated_at: readAt
+          }]
+        });
+
+      const progress = await service.syncProgress('article_123', 'reader_123', {
+        scroll_percentage: 42.5,
+        last_paragraph_index: 17,
+        updated_at: readAt.toISOString()
+      });
+
+      expect(progress.scroll_percentage).toBe(42.5);
+      expect(progress.max_scroll_percentage).toBe(61);
+
+      const [sql, values] = mockPool.query.mock.calls[1] as [string, any[]];
+      expect(sql).toContain('ON CONFLICT (user_id, article_id) DO UPDATE');
+      expect(sql).toContain('WHEN reading_progress.updated_at > EXCLUDED.updated_at');
+      expect(sql).toContain('GREATEST(reading_progress.max_scroll_percentage, EXCLUDED.max_scroll_percentage)');
+      expect(values).toEqual(['reader_123', 'article_123', 42.5, 17, null, readAt]);
+    });
+
+    it('should mark the article completed near the end and treat future times as now', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [article] })
+        .mockResolvedValueOnce({ rows: [{ scroll_percentage: '95.00', max_scroll_percentage: '95.00' }] });
+
+      await service.syncProgress('article_123', 'reader_123', {
+        scroll_percentage: 95,
+        last_paragraph_index: 40,
+        updated_at: '2099-01-01T00:00:00Z'
+      });
+
+      const values = mockPool.query.mock.calls[1][1] as any[];
+      expect(values[5].getTime()).toBeLessThanOrEqual(Date.now());
+      expect(values[4]).toBe(values[5]);
+    });
+
+    it('should reject positions outside the article', async () => {
+      await expect(service.syncProgress('article_123', 'reader_123', { scroll_percentage: 120, last_paragraph_index: 3 }))
+        .rejects.toThrow('Invalid scroll_percentage');
+      await expect(service.syncProgress('article_123', 'reader_123', { scroll_percentage: 50, last_paragraph_index: 2.5 }))
+        .rejects.toThrow('Invalid last_paragraph_index');
+      await expect(service.syncProgress('article_123', 'reader_123', { scroll_percentage: 50, last_paragraph_index: 3, updated_at: 'yesterday' }))
+        .rejects.toThrow('Invalid updated_at');
+
+      expect(mockPool.query).not.toHaveBeenCalled();
+    });
+
+    it('should not track progress on unpublished articles', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [{ ...article, status: 'draft' }] });
+
+      await expect(service.syncProgress('article_123', 'reader_123', { scroll_percentage: 10, last_paragraph_index: 1 }))
+        .rejects.toThrow('Article not found');
+    });
+  });
+
+  describe('bookmark', () => {
+    it('should keep an existing bookmark in its folder when no folder is given', async () => {
+      const existing = { id: 'bookmark_123', user_id: 'reader_123', article_id: 'article_123', folder_id: 'folder_123' };
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [article] })
+        .mockResolvedValueOnce({ rows: [existing] });
+
+      const bookmark = await service.bookmark('article_123', 'reader_123');
+
+      expect(bookmark).toBe(existing);
+      expect(mockPool.query).toHaveBeenCalledTimes(2);
+    });
+
+    it('should only file bookmarks into the reader\'s own folders', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [article] })
+        .mockResolvedValueOnce({ rows: [{ ...folder, user_id: 'reader_456' }] });
+
+      await expect(service.bookmark('article_123', 'reader_123', 'folder_123')).rejects.toThrow('Folder not found');
+    });
+  });
+
+  describe('createFolder', () => {
+    it('should reject a name the reader already uses, ignoring case', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [folder] });
+
+      await expect(service.createFolder('reader_123', '  statistics ')).rejects.toThrow('Folder "Statistics" already exists');
+
+      expect(mockPool.query.mock.calls[0][1]).toEqual(['reader_123', 'statistics']);
+    });
+  });
+
+  describe('getContinueReading', () => {
+    it('should list unfinished articles that are still up, capped at 50', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [] });
+
+      await service.getContinueReading('reader_123', 500);
+
+      const [sql, values] = mockPool.query.mock.calls[0] as [string, any[]];
+      expect(sql).toContain('rp.completed_at IS NULL');
+      expect(sql).toContain('(a.expires_at IS NULL OR a.expires_at > CURRENT_TIMESTAMP)');
+      expect(sql).toContain('ORDER BY rp.updated_at DESC');
+      expect(values).toEqual(['reader_123', 50]);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { Pool } from 'pg';
+import { RedirectService } from '../../../src/services/RedirectService';
+
+jest.mock('uuid', () => ({ v4: () => 'generated-uuid' }));
+
+const wildcardRule = {
+  id: 'rule_1',
+  creator_id: 'creator_123',
+  source_path: '/2019/*',
+  target_url: '/articles/*',
+  article_id: null,
+  status_code: 301
+};
+
+describe('RedirectService', () => {
+  let mockPool: { query: jest.Mock<(...args: any[]) => Promise<any>> };
+  let service: RedirectService;
+
+  beforeEach(() => {
+    process.env.FRONTEND_URL = 'https://frogtales.com';
+    mockPool = { query: jest.fn() };
+    service = new RedirectService(mockPool as unknown as Pool);
+  });
+
+  describe('resolve', () => {
+    it('should substitute the wildcard and count the hit', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [wildcardRule] })
+        .mockResolvedValueOnce({ rowCount: 1 });
+
+      const redirect = await service.resolve('creator_123', '/2019/on-priors/');
+
+      expect(redirect).toEqual({ location: 'https://frogtales.com/articles/on-priors', status_code: 301, rule_id: 'rule_1' });
+      expect(mockPool.query.mock.calls[0][1]).toEqual(['creator_123', '/2019/on-priors']);
+      expect((mockPool.query.mock.calls[1][0] as string)).toContain('hit_count = hit_count + 1');
+    });
+
+    it('should redirect a previous article slug to the current one', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ id: 'article_123', author_id: 'creator_123', slug: 'on-flat-priors' }] });
+
+      const redirect = await service.resolve('creator_123', '/articles/creator_123/on-priors');
+
+      expect(redirect).toEqual({ location: 'https://frogtales.com/articles/creator_123/on-flat-priors', status_code: 301 });
+      expect(mockPool.query.mock.calls[1][0]).toContain('FROM article_slugs');
+      expect(mockPool.query.mock.calls[1][1]).toEqual(['creator_123', 'on-priors']);
+    });
+
+    it('should move article URLs without the creator to the current URL', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ id: 'article_123', author_id: 'creator_123', slug: 'on-priors', status: 'published' }] });
+
+      const redirect = await service.resolve('creator_123', '/articles/on-priors');
+
+      expect(redirect).toEqual({ location: 'https://frogtales.com/articles/creator_123/on-priors', status_code: 301 });
+    });
+
+    it('should not resolve article URLs of another creator', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [] });
+
+      expect(await service.resolve('creator_123', '/articles/creator_456/on-priors')).toBeNull();
+      expect(mockPool.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return null for unknown paths', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [] });
+
+      expect(await service.resolve('creator_123', '/about-me')).toBeNull();
+      expect(mockPool.query).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('createRule', () => {
+    it('should normalize the source path and reject duplicates', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [{ ...wildcardRule, source_path: '/old-post' }] });
+
+      await expect(service.createRule({ creator_id: 'creator_123', source_path: '/old-post/', target_url: '/articles/new-post' }))
+        .rejects.toThrow('Redirect already exists for "/old-post"');
+    });
+
+    it('should only allow a wildcard target for a wildcard source', async () => {
+      await expect(service.createRule({ creator_id: 'creator_123', source_path: '/blog', target_url: '/articles/*' }))
+        .rejects.toThrow('Invalid target URL: a * needs a wildcard source path');
+      expect(mockPool.query).not.toHaveBeenCalled();
+    });
+
+    it('should only redirect to the creator\'s own articles', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [{ id: 'article_9', author_id: 'creator_999', slug: 'theirs' }] });
+
+      await expect(service.createRule({ creator_id: 'creator_123', source_path: '/p/42', article_id: 'article_9' }))
+        .rejects.toThrow('Unauthorized: You can only redirect to your own articles');
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { Pool } from 'pg';
+import { RelatedArticlesService } from '../../../src/services/RelatedArticlesService';
+import { ArticleData } from '../../../src/models/Article';
+
+jest.mock('uuid', () => ({ v4: () => 'generated-uuid' }));
+
+const article = {
+  id: 'article_123',
+  author_id: 'creator_123',
+  title: 'Bayesian models for ecology',
+  content: 'Modelling species counts with Bayesian hierarchical models.',
+  content_html: '<p>Modelling species counts with Bayesian hierarchical models.</p>',
+  status: 'published',
+  tags: ['statistics', 'ecology']
+} as ArticleData;
+
+describe('RelatedArticlesService', () => {
+  let mockPool: { query: jest.Mock<(...args: any[]) => Promise<any>> };
+  let service: RelatedArticlesService;
+
+  beforeEach(() => {
+    mockPool = { query: jest.fn() };
+    service = new RelatedArticlesService(mockPool as unknown as Pool);
+  });
+
+  describe('tokenize', () => {
+    it('should drop stop words and numbers and fold word forms together', () => {
+      expect(RelatedArticlesService.tokenize('The models, modelling and a Modelled model in 2024'))
+        .toEqual(['model', 'model', 'model', 'model']);
+      expect(RelatedArticlesService.tokenize('Café théories')).toEqual(['cafe', 'theory']);
+    });
+  });
+
+  describe('weighTerms', () => {
+    it('should favour rare terms and return a unit-length vector', () => {
+      const counts = new Map([['bayesian', 2], ['model', 2]]);
+      const documentCounts = new Map([['bayesian', 1], ['model', 50]]);
+
+      const weights = RelatedArticlesService.weighTerms(counts, documentCounts, 100);
+
+      expect(weights[0].term).toBe('bayesian');
+      expect(weights[0].weight).toBeGreaterThan(weights[1].weight);
+      expect(weights.reduce((sum, item) => sum + item.weight ** 2, 0)).toBeCloseTo(1);
+    });
+  });
+
+  describe('tagSimilarity', () => {
+    it('should compare tags case-insensitively', () => {
+      expect(RelatedArticlesService.tagSimilarity(['Statistics', 'ecology'], ['statistics', 'R'])).toBeCloseTo(1 / 3);
+      expect(RelatedArticlesService.tagSimilarity([], [])).toBe(0);
+    });
+  });
+
+  describe('indexArticle', () => {
+    it('should store the vector and rank candidates by text and tag similarity', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [] }) // not indexed yet
+        .mockResolvedValueOnce({ rows: [{ total: 9, counts: { model: 4 } }] })
+        .mockResolvedValueOnce({ rows: [] }) // save vector
+        .mockResolvedValueOnce({
+          rows: [
+            { id: 'text_match', author_id: 'other_creator', tags: [], text_score: 0.6 },
+            { id: 'tag_match', author_id: 'creator_123', tags: ['ecology', 'statistics'], text_score: 0.3 },
+            { id: 'no_match', author_id: 'other_creator', tags: ['cooking'], text_score: 0 }
+          ]
+        })
+        .mockResolvedValueOnce({ rows: [] }) // save related
+        .mockResolvedValueOnce({ rows: [] }); // trim neighbour lists
+
+      await service.indexArticle(article);
+
+      const [, removed, added] = mockPool.query.mock.calls[2][1];
+      expect(removed).toEqual([]);
+      expect(added).toEqual(expect.arrayContaining(['bayesian', 'model', 'ecology', 'specy', 'count', 'hierarchical']));
+
+      const [articleId, ids, scores] = mockPool.query.mock.calls[4][1];
+      expect(articleId).toBe('article_123');
+      expect(ids).toEqual(['tag_match', 'text_match']);
+      expect(scores[0]).toBeCloseTo(0.7 * 0.3 + 0.3);
+      expect(scores[1]).toBeCloseTo(0.7 * 0.6);
+    });
+  });
+
+  describe('getRelatedArticles', () => {
+    it('should return nothing for unpublished articles', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [{ ...article, status: 'draft' }] });
+
+      await expect(service.getRelatedArticles('article_123')).resolves.toEqual([]);
+      expect(mockPool.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should apply the creator\'s cross-creator setting', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [article] })
+        .mockResolvedValueOnce({ rows: [{ distinct_terms: ['bayesian'] }] })
+        .mockResolvedValueOnce({ rows: [{ creator_id: 'creator_123', related_across_creators: false }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      await service.getRelatedArticles('article_123', 3);
+
+      expect(mockPool.query.mock.calls[3][1]).toEqual(['article_123', 'creator_123', false, 3]);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { Pool } from 'pg';
+import { ReviewService } from '../../../src/services/ReviewService';
+import { ArticleService } from '../../../src/services/ArticleService';
+
+jest.mock('uuid', () => ({ v4: () => 'generated-uuid' }));
+
+const article = {
+  id: 'article_123',
+  author_id: 'creator_123',
+  title: 'On Priors',
+  content: 'Hello brave new world',
+  status: 'in_review'
+};
+
+describe('ReviewService', () => {
+  let mockPool: { query: jest.Mock<(...args: any[]) => Promise<any>> };
+  let service: ReviewService;
+
+  beforeEach(() => {
+    mockPool = { query: jest.fn() };
+    service = new ReviewService(mockPool as unknown as Pool);
+  });
+
+  describe('reviewArticle', () => {
+    it('should only allow the publication\'s editors to review', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [article] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      await expect(service.reviewArticle('article_123', 'reader_123', 'approved'))
+        .rejects.toThrow('Only the publication\'s editors can review articles');
+    });
+
+    it('should not let co-authors approve their own article', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [article] })
+        .mockResolvedValueOnce({ rows: [{ '?column?': 1 }] })
+        .mockResolvedValueOnce({ rows: [{ '?column?': 1 }] });
+
+      await expect(service.reviewArticle('article_123', 'coauthor_123', 'approved'))
+        .rejects.toThrow('Authors cannot review their own articles');
+    });
+
+    it('should reject unknown decisions', async () => {
+      await expect(service.reviewArticle('article_123', 'editor_123', 'maybe' as any))
+        .rejects.toThrow('Invalid decision');
+      expect(mockPool.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('addComment', () => {
+    it('should anchor the comment to the quoted range of the current revision', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [article] })
+        .mockResolvedValueOnce({ rows: [{ revision_number: 3 }] })
+        .mockImplementationOnce(async (_query: any, values: any) => ({ rows: [{ id: values[0] }] }));
+
+      await service.addComment('article_123', 'creator_123', { anchor_start: 6, anchor_end: 11, body: ' Too strong? ' });
+
+      const insertValues = mockPool.query.mock.calls[2][1] as any[];
+      expect(insertValues.slice(3, 8)).toEqual([3, 6, 11, 'brave', 'Too strong?']);
+    });
+
+    it('should reject ranges outside the content', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [article] });
+
+      await expect(service.addComment('article_123', 'creator_123', { anchor_start: 6, anchor_end: 99, body: 'Hmm' }))
+        .rejects.toThrow('Invalid anchor');
+    });
+  });
+
+  describe('publish gating', () => {
+    it('should refuse to publish when the approval predates the latest revision', async () => {
+      const articleService = new ArticleService(mockPool as unknown as Pool);
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [article] })
+        .mockResolvedValueOnce({ rows: [{ creator_id: 'creator_123', require_review: true }] })
+        .mockResolvedValueOnce({ rows: [{ decision: 'approved', revision_number: 2 }] })
+        .mockResolvedValueOnce({ rows: [{ revision_number: 3 }] });
+
+      await expect(articleService.publishArticle('article_123', {}, 'creator_123'))
+        .rejects.toThrow('Review required');
+    });
+
+    it('should publish without review when the publication does not require it', async () => {
+      const articleService = new ArticleService(mockPool as unknown as Pool);
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [{ ...article, status: 'draft' }] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockRejectedValueOnce(new Error('stop after review check'));
+
+      await expect(articleService.publishArticle('article_123', {}, 'creator_123'))
+        .rejects.toThrow('stop after review check');
+      expect(mockPool.query.mock.calls[2][0]).toContain('notify_subscribers');
+    });
+
+    it('should return scheduled articles edited after approval to draft instead of publishing them', async () => {
+      const articleService = new ArticleService(mockPool as unknown as Pool);
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [{ id: 'article_123' }] })
+        .mockResolvedValueOnce({ rows: [{ ...article, status: 'scheduled' }] })
+        .mockResolvedValueOnce({ rows: [{ creator_id: 'creator_123', require_review: true }] })
+        .mockResolvedValueOnce({ rows: [{ decision: 'approved', revision_number: 2 }] })
+        .mockResolvedValueOnce({ rows: [{ revision_number: 3 }] })
+        .mockResolvedValueOnce({ rows: [{ ...article, status: 'draft' }] });
+
+      const published = await articleService.publishDueArticles(new Date('2025-10-23T12:00:00Z'));
+
+      expect(published).toEqual([]);
+      expect(mockPool.query).toHaveBeenCalledTimes(6);
+      expect(mockPool.query.mock.calls[5][0]).toContain("SET status = 'draft', scheduled_at = NULL");
+      expect(mockPool.query.mock.calls.some(([sql]) => String(sql).includes("SET status = 'published'"))).toBe(false);
+      warn.mockRestore();
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { Pool } from 'pg';
+import { RevisionService } from '../../../src/services/RevisionService';
+import { ArticleRevision, ArticleRevisionData } from '../../../src/models/ArticleRevision';
+import { ArticleData } from '../../../src/models/Article';
+
+jest.mock('uuid', () => ({ v4: () => 'generated-uuid' }));
+
+describe('RevisionService', () => {
+  describe('diffWords', () => {
+    it('should return a single equal segment for identical text', () => {
+      const result = RevisionService.diffWords('the quick brown fox', 'the quick brown fox');
+
+      expect(result).toEqual([{ type: 'equal', value: 'the quick brown fox' }]);
+    });
+
+    it('should mark replaced words as delete and insert', () => {
+      const result = RevisionService.diffWords('the quick brown fox', 'the slow brown fox');
+
+      expect(result).toEqual([
+        { type: 'equal', value: 'the ' },
+        { type: 'delete', value: 'quick' },
+        { type: 'insert', value: 'slow' },
+        { type: 'equal', value: ' brown fox' }
+      ]);
+    });
+
+    it('should reproduce both inputs from the segments', () => {
+      const oldText = 'Gradient descent converges slowly on ill-conditioned problems.';
+      const newText = 'Stochastic gradient descent converges quickly on most well-conditioned problems today.';
+
+      const result = RevisionService.diffWords(oldText, newText);
+
+      const rebuiltOld = result.filter(s => s.type !== 'insert').map(s => s.value).join('');
+      const rebuiltNew = result.filter(s => s.type !== 'delete').map(s => s.value).join('');
+
+      expect(rebuiltOld).toBe(oldText);
+      expect(rebuiltNew).toBe(newText);
+    });
+
+    it('should handle empty inputs', () => {
+      expect(RevisionService.diffWords('', '')).toEqual([]);
+      expect(RevisionService.diffWords('', 'new text')).toEqual([{ type: 'insert', value: 'new text' }]);
+      expect(RevisionService.diffWords('old text', '')).toEqual([{ type: 'delete', value: 'old text' }]);
+    });
+
+    it('should diff large rewrites within a time bound', () => {
+      const oldText = Array.from({ length: 6000 }, (_, i) => `old${i}`).join(' ');
+      const newText = Array.from({ length: 6000 }, (_, i) => `new${i}`).join(' ');
+
+      const startedAt = Date.now();
+      const result = RevisionService.diffWords(oldText, newText);
+
+      expect(Date.now() - startedAt).toBeLessThan(2000);
+      expect(result).toEqual([
+        { type: 'delete', value: oldText },
+        { type: 'insert', value: newText }
+      ]);
+    });
+
+    it('should align small edits inside large texts', () => {
+      const words = Array.from({ length: 6000 }, (_, i) => `word${i}`);
+      const oldText = words.join(' ');
+      const newText = words.map((word, i) => (i % 500 === 0 ? `edited${i}` : word)).join(' ');
+
+      const result = RevisionService.diffWords(oldText, newText);
+
+      expect(result.filter(s => s.type === 'delete')).toHaveLength(12);
+      expect(result.filter(s => s.type !== 'insert').map(s => s.value).join('')).toBe(oldText);
+      expect(result.filter(s => s.type !== 'delete').map(s => s.value).join('')).toBe(newText);
+    });
+  });
+
+  describe('compareRevisions', () => {
+    const baseRevision: ArticleRevisionData = {
+      article_id: 'article_123',
+      revision_number: 1,
+      title: 'Original Title',
+      content: '<p>First paragraph.</p>',
+      excerpt: 'Excerpt',
+      tags: ['ml'],
+      reason: 'create'
+    };
+
+    it('should report changed fields and word counts', () => {
+      const updated: ArticleRevisionData = {
+        ...baseRevision,
+        revision_number: 2,
+        content: '<p>First paragraph, revised with more words.</p>',
+        tags: ['ml', 'statistics'],
+        reason: 'update'
+      };
+
+      const diff = RevisionService.compareRevisions(baseRevision, updated);
+
+      expect(diff.from).toBe(1);
+      expect(diff.to).toBe(2);
+      expect(diff.fields.title.changed).toBe(false);
+      expect(diff.fields.content.changed).toBe(true);
+      expect(diff.fields.tags.changed).toBe(true);
+      expect(diff.stats.words_added).toBeGreaterThan(0);
+    });
+  });
+
+  describe('listRevisions', () => {
+    let mockPool: { query: jest.Mock<(...args: any[]) => Promise<any>> };
+    let revisionService: RevisionService;
+
+    beforeEach(() => {
+      mockPool = { query: jest.fn() };
+      revisionService = new RevisionService(mockPool as unknown as Pool);
+    });
+
+    it('should reject users who do not own the article', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [{ id: 'article_123', author_id: 'author_123' }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      await expect(revisionService.listRevisions('article_123', 'someone_else')).rejects.toThrow('Unauthorized');
+    });
+
+    it('should allow co-authors to list revisions', async () => {
+      const revisions = [{ id: 'rev_1', revision_number: 1, title: 'Title', reason: 'create' }];
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [{ id: 'article_123', author_id: 'author_123' }] })
+        .mockResolvedValueOnce({ rows: [{ '?column?': 1 }] })
+        .mockResolvedValueOnce({ rows: revisions });
+
+      const result = await revisionService.listRevisions('article_123', 'coauthor_456');
+
+      expect(mockPool.query).toHaveBeenCalledWith(
+        expect.stringContaining('FROM article_authors'),
+        ['article_123', 'coauthor_456']
+      );
+      expect(result).toEqual(revisions);
+    });
+
+    it('should throw for non-existent articles', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [] });
+
+      await expect(revisionService.listRevisions('missing', 'author_123')).rejects.toThrow('Article not found');
+    });
+
+    it('should return revisions newest first', async () => {
+      const revisions = [
+        { id: 'rev_2', revision_number: 2, title: 'Title', reason: 'update' },
+        { id: 'rev_1', revision_number: 1, title: 'Title', reason: 'create' }
+      ];
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [{ id: 'article_123', author_id: 'author_123' }] })
+        .mockResolvedValueOnce({ rows: revisions });
+
+      const result = await revisionService.listRevisions('article_123', 'author_123');
+
+      expect(mockPool.query).toHaveBeenLastCalledWith(
+        expect.stringContaining('ORDER BY revision_number DESC'),
+        ['article_123']
+      );
+      expect(result).toEqual(revisions);
+    });
+  });
+
+  describe('ArticleRevision.create', () => {
+    const article = {
+      id: 'article_123',
+      author_id: 'author_123',
+      title: 'Title',
+      content: 'Content',
+      status: 'draft'
+    } as ArticleData;
+
+    it('should retry when a concurrent save took the same revision number', async () => {
+      const mockPool = { query: jest.fn<(...args: any[]) => Promise<any>>() };
+      mockPool.query
+        .mockRejectedValueOnce(Object.assign(new Error('duplicate key value'), { code: '23505' }))
+        .mockResolvedValueOnce({ rows: [{ id: 'generated-uuid', article_id: 'article_123', revision_number: 3 }] });
+
+      const revision = await new ArticleRevision(mockPool as unknown as Pool).create(article, { reason: 'update' });
+
+      expect(revision.revision_number).toBe(3);
+      expect(mockPool.query).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry other errors', async () => {
+      const mockPool = { query: jest.fn<(...args: any[]) => Promise<any>>() };
+      mockPool.query.mockRejectedValueOnce(Object.assign(new Error('connection reset'), { code: '08006' }));
+
+      await expect(new ArticleRevision(mockPool as unknown as Pool).create(article, { reason: 'update' }))
+        .rejects.toThrow('connection reset');
+      expect(mockPool.query).toHaveBeenCalledTimes(1);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { Pool } from 'pg';
+import { SeriesService } from '../../../src/services/SeriesService';
+
+jest.mock('uuid', () => ({ v4: () => 'generated-uuid' }));
+
+const series = {
+  id: 'series_123',
+  creator_id: 'creator_123',
+  title: 'Learning Rust',
+  slug: 'learning-rust',
+  is_premium: false
+};
+
+const articles = [
+  { id: 'article_1', title: 'Ownership', slug: 'ownership', status: 'published', is_premium: false, position: 1 },
+  { id: 'article_2', title: 'Borrowing', slug: 'borrowing', status: 'published', is_premium: false, position: 2 },
+  { id: 'article_3', title: 'Lifetimes', slug: 'lifetimes', status: 'published', is_premium: false, position: 3 }
+];
+
+describe('SeriesService', () => {
+  let mockPool: { query: jest.Mock<(...args: any[]) => Promise<any>> };
+  let service: SeriesService;
+
+  beforeEach(() => {
+    mockPool = { query: jest.fn() };
+    service = new SeriesService(mockPool as unknown as Pool);
+  });
+
+  describe('createSeries', () => {
+    it('should reject a slug already used by the creator', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [series] });
+
+      await expect(service.createSeries({ creator_id: 'creator_123', title: 'Learning Rust' }))
+        .rejects.toThrow('Series slug already exists');
+      expect(mockPool.query.mock.calls[0][1]).toEqual(['creator_123', 'learning-rust']);
+    });
+
+    it('should reject plans that belong to another creator', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [{ id: 'plan_123', creator_id: 'someone_else' }] });
+
+      await expect(service.createSeries({
+        creator_id: 'creator_123',
+        title: 'Learning Rust',
+        is_premium: true,
+        plan_id: 'plan_123'
+      })).rejects.toThrow('Invalid plan');
+    });
+  });
+
+  describe('reorderArticles', () => {
+    it('should require every article in the series exactly once', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [series] })
+        .mockResolvedValueOnce({ rows: articles.map(article => ({ article_id: article.id })) });
+
+      await expect(service.reorderArticles('series_123', ['article_3', 'article_1', 'article_1'], 'creator_123'))
+        .rejects.toThrow('Invalid order');
+    });
+
+    it('should not allow reordering another creator\'s series', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [series] });
+
+      await expect(service.reorderArticles('series_123', [], 'creator_456')).rejects.toThrow('Unauthorized');
+    });
+  });
+
+  describe('addArticle', () => {
+    it('should reject articles that already belong to another series', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [series] })
+        .mockResolvedValueOnce({ rows: [{ id: 'article_4', author_id: 'creator_123' }] })
+        .mockResolvedValueOnce({ rows: [{ ...series, id: 'series_456' }] });
+
+      await expect(service.addArticle('series_123', 'article_4', 'creator_123'))
+        .rejects.toThrow('Article already belongs to another series');
+    });
+  });
+
+  describe('getArticleNavigation', () => {
+    it('should link the previous and next published articles', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [series] })
+        .mockResolvedValueOnce({ rows: articles });
+
+      const navigation = await service.getArticleNavigation('article_2');
+
+      expect(navigation).toMatchObject({
+        id: 'series_123',
+        position: 2,
+        total: 3,
+        previous: { id: 'article_1', title: 'Ownership', slug: 'ownership' },
+        next: { id: 'article_3', title: 'Lifetimes', slug: 'lifetimes' },
+        access: { has_access: true, requires_subscription: false }
+      });
+    });
+
+    it('should return null for articles outside a series', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [] });
+
+      expect(await service.getArticleNavigation('article_9')).toBeNull();
+    });
+  });
+
+  describe('getAccess', () => {
+    const premiumSeries = { ...series, is_premium: true, plan_id: 'plan_123' };
+
+    it('should deny anonymous readers of a premium series', async () => {
+      expect(await service.getAccess(premiumSeries)).toEqual({
+        has_access: false,
+        requires_subscription: true,
+        plan_id: 'plan_123'
+      });
+      expect(mockPool.query).not.toHaveBeenCalled();
+    });
+
+    it('should check the series plan for subscribers', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [{ '?column?': 1 }] });
+
+      const access = await service.getAccess(premiumSeries, 'reader_123');
+
+      expect(access.has_access).toBe(true);
+      expect(mockPool.query.mock.calls[0][1]).toEqual(['reader_123', 'plan_123']);
+    });
+
+    it('should always grant the creator access', async () => {
+      const access = await service.getAccess(premiumSeries, 'creator_123');
+
+      expect(access.has_access).toBe(true);
+      expect(mockPool.query).not.toHaveBeenCalled();
+    });
+  });
+});
\ No newline at end of file
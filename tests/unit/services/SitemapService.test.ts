@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { Pool } from 'pg';
+import { SitemapService } from '../../../src/services/SitemapService';
+import { StructuredData } from '../../../src/services/StructuredData';
+
+jest.mock('uuid', () => ({ v4: () => 'generated-uuid' }));
+
+const creator = { id: 'creator_123', name: 'Dr. Jane Smith', role: 'creator' };
+const lastmod = new Date('2026-05-01T12:00:00Z');
+
+describe('SitemapService', () => {
+  let mockPool: { query: jest.Mock<(...args: any[]) => Promise<any>> };
+
+  beforeEach(() => {
+    process.env.FRONTEND_URL = 'https://frogtales.com';
+    process.env.API_URL = 'https://api.frogtales.com';
+    mockPool = { query: jest.fn() };
+  });
+
+  const mockFixedEntries = (articleCount: number) => {
+    mockPool.query
+      .mockResolvedValueOnce({ rows: [creator] })
+      .mockResolvedValueOnce({ rows: [
+        { creator_id: 'creator_123', slug: 'learning-rust', article_count: 2, updated_at: lastmod },
+        { creator_id: 'creator_123', slug: 'empty-series', article_count: 0, updated_at: lastmod }
+      ] })
+      .mockResolvedValueOnce({ rows: [{ lastmod }] })
+      .mockResolvedValueOnce({ rows: [{ count: String(articleCount) }] });
+  };
+
+  it('should list the profile, non-empty series and articles with lastmod', async () => {
+    const service = new SitemapService(mockPool as unknown as Pool);
+    mockFixedEntries(1);
+    mockPool.query.mockResolvedValueOnce({ rows: [{ author_id: 'creator_123', slug: 'priors', updated_at: lastmod }] });
+
+    const xml = await service.buildCreatorSitemap('creator_123');
+
+    expect(xml).toContain('<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">');
+    expect(xml).toContain('<url><loc>https://frogtales.com/creators/creator_123</loc><lastmod>2026-05-01T12:00:00.000Z</lastmod></url>');
+    expect(xml).toContain('<loc>https://frogtales.com/series/creator_123/learning-rust</loc>');
+    expect(xml).not.toContain('empty-series');
+    expect(xml).toContain('<loc>https://frogtales.com/articles/creator_123/priors</loc>');
+  });
+
+  it('should switch to a sitemap index past the URL limit', async () => {
+    const service = new SitemapService(mockPool as unknown as Pool, 3);
+    mockFixedEntries(5);
+
+    const xml = await service.buildCreatorSitemap('creator_123');
+
+    expect(xml).toContain('<sitemapindex');
+    expect(xml).toContain('<loc>https://api.frogtales.com/sitemaps/creator_123/sitemap-1.xml</loc>');
+    expect(xml).toContain('<loc>https://api.frogtales.com/sitemaps/creator_123/sitemap-3.xml</loc>');
+    expect(xml).not.toContain('sitemap-4.xml');
+  });
+
+  it('should offset article pages past the fixed entries', async () => {
+    const service = new SitemapService(mockPool as unknown as Pool, 3);
+    mockFixedEntries(5);
+    mockPool.query.mockResolvedValueOnce({ rows: [] });
+
+    await service.buildCreatorSitemapPage('creator_123', 2);
+
+    // Page 2 starts at URL 3; the profile and one series page come first
+    expect(mockPool.query.mock.calls[4][1]).toEqual(['creator_123', 3, 1]);
+  });
+
+  it('should reject pages past the end', async () => {
+    const service = new SitemapService(mockPool as unknown as Pool, 3);
+    mockFixedEntries(1);
+
+    await expect(service.buildCreatorSitemapPage('creator_123', 2)).rejects.toThrow('Sitemap page not found');
+  });
+});
+
+describe('StructuredData', () => {
+  const article = {
+    id: 'article_123',
+    author_id: 'creator_123',
+    title: 'Deep Priors',
+    slug: 'deep-priors',
+    content: 'Text',
+    content_html: '<p>Text</p><section class="bibliography"></section>',
+    status: 'published' as const,
+    is_premium: true,
+    tags: ['bayes', 'ml'],
+    published_at: new Date('2026-03-01T10:00:00Z'),
+    updated_at: new Date('2026-03-02T10:00:00Z')
+  };
+
+  beforeEach(() => {
+    process.env.FRONTEND_URL = 'https://frogtales.com';
+  });
+
+  it('should describe cited articles as scholarly with a byline and breadcrumbs', () => {
+    const jsonLd = StructuredData.forArticle(article, [
+      { user_id: 'creator_123', name: 'Dr. Jane Smith', position: 1 },
+      { user_id: 'user_456', name: 'Sam Lee', avatar_url: 'https://cdn/sam.png', position: 2 }
+    ], 'Dr. Jane Smith');
+    const [articleNode, breadcrumbs] = jsonLd['@graph'] as any[];
+
+    expect(articleNode).toMatchObject({
+      '@type': 'ScholarlyArticle',
+      headline: 'Deep Priors',
+      url: 'https://frogtales.com/articles/creator_123/deep-priors',
+      datePublished: '2026-03-01T10:00:00.000Z',
+      keywords: 'bayes, ml',
+      isAccessibleForFree: false
+    });
+    expect(articleNode.author[1]).toEqual({
+      '@type': 'Person',
+      name: 'Sam Lee',
+      url: 'https://frogtales.com/creators/user_456',
+      image: 'https://cdn/sam.png'
+    });
+    expect(breadcrumbs.itemListElement.map((item: any) => item.name)).toEqual(['Dr. Jane Smith', 'Deep Priors']);
+  });
+
+  it('should fall back to BlogPosting credited to the creator', () => {
+    const jsonLd = StructuredData.forArticle({ ...article, content_html: '<p>Text</p>' }, [], 'Dr. Jane Smith');
+    const [articleNode] = jsonLd['@graph'] as any[];
+
+    expect(articleNode['@type']).toBe('BlogPosting');
+    expect(articleNode.author).toEqual([{ '@type': 'Person', name: 'Dr. Jane Smith', url: 'https://frogtales.com/creators/creator_123' }]);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { Pool } from 'pg';
+import { TagService } from '../../../src/services/TagService';
+import { Tag } from '../../../src/models/Tag';
+
+jest.mock('uuid', () => ({ v4: () => 'generated-uuid' }));
+
+const machineLearning = {
+  id: 'tag_1',
+  creator_id: 'creator_123',
+  name: 'Machine Learning',
+  slug: 'machine-learning'
+};
+
+describe('TagService', () => {
+  let mockPool: { query: jest.Mock<(...args: any[]) => Promise<any>> };
+  let service: TagService;
+
+  beforeEach(() => {
+    mockPool = { query: jest.fn() };
+    service = new TagService(mockPool as unknown as Pool);
+  });
+
+  describe('resolveTags', () => {
+    it('should collapse spellings and synonyms into canonical names and register new tags', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [
+          { ...machineLearning, matched_slug: 'ml' },
+          { ...machineLearning, matched_slug: 'machine-learning' }
+        ] })
+        .mockResolvedValueOnce({ rows: [{ id: 'tag_2', creator_id: 'creator_123', name: 'Rust', slug: 'rust' }] });
+
+      const tags = await service.resolveTags('creator_123', ['ML', 'machine_learning', 'Machine  Learning', ' Rust ']);
+
+      expect(tags).toEqual(['Machine Learning', 'Rust']);
+      expect(mockPool.query.mock.calls[0][1]).toEqual(['creator_123', ['ml', 'machine-learning', 'machine-learning', 'rust']]);
+      expect((mockPool.query.mock.calls[1][1] as any[]).slice(1, 4)).toEqual(['creator_123', 'Rust', 'rust']);
+    });
+
+    it('should reject tags without letters or numbers', async () => {
+      await expect(service.resolveTags('creator_123', ['Rust', '???']))
+        .rejects.toThrow('Invalid tag "???"');
+      expect(mockPool.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateTag', () => {
+    it('should retag articles on rename and keep the old name as a synonym', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [{ ...machineLearning, name: 'ML', slug: 'ml' }] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rowCount: 0 })
+        .mockResolvedValueOnce({ rows: [machineLearning] })
+        .mockResolvedValueOnce({ rowCount: 4 })
+        .mockResolvedValueOnce({ rows: [{ slug: 'ml', name: 'ML', tag_id: 'tag_1' }] });
+
+      const tag = await service.updateTag('tag_1', { name: 'Machine Learning' }, 'creator_123');
+
+      expect(tag.slug).toBe('machine-learning');
+      expect((mockPool.query.mock.calls[4][1] as any[]).slice(0, 3)).toEqual(['creator_123', ['ML'], 'Machine Learning']);
+      expect((mockPool.query.mock.calls[5][1] as any[]).slice(0, 4)).toEqual(['creator_123', 'ml', 'ML', 'tag_1']);
+    });
+  });
+
+  describe('mergeTags', () => {
+    it('should move synonyms, retag articles and delete the source tags', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [machineLearning] })
+        .mockResolvedValueOnce({ rows: [
+          { id: 'tag_2', creator_id: 'creator_123', name: 'ML', slug: 'ml' },
+          { id: 'tag_3', creator_id: 'creator_123', name: 'Deep Learning', slug: 'deep-learning' }
+        ] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rowCount: 7 })
+        .mockResolvedValueOnce({ rowCount: 2 });
+
+      const result = await service.mergeTags('tag_1', ['tag_2', 'tag_3', 'tag_2'], 'creator_123');
+
+      expect(result).toEqual({ tag: machineLearning, merged: ['ML', 'Deep Learning'], articles_updated: 7 });
+      expect((mockPool.query.mock.calls[2][1] as any[]).slice(0, 2)).toEqual([['tag_2', 'tag_3'], 'tag_1']);
+      expect(mockPool.query.mock.calls[4][1]).toEqual([['tag_2', 'tag_3']]);
+    });
+
+    it('should not merge a tag into itself', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [machineLearning] });
+
+      await expect(service.mergeTags('tag_1', ['tag_1'], 'creator_123'))
+        .rejects.toThrow('Invalid merge: list one or more tags other than the target');
+    });
+  });
+
+  describe('getTagLanding', () => {
+    it('should redirect synonyms to the canonical slug', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [{ ...machineLearning, matched_slug: 'ml' }] });
+
+      const landing = await service.getTagLanding('creator_123', 'ml');
+
+      expect(landing).toEqual({ redirect_slug: 'machine-learning' });
+    });
+
+    it('should list premium articles as previews', async () => {
+      const premium = {
+        id: 'article_1',
+        author_id: 'creator_123',
+        title: 'Gradient boosting',
+        content: 'Full premium text',
+        content_html: '<p>Full premium text</p>',
+        is_premium: true
+      };
+      mockPool.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('FROM tags')) return { rows: [{ ...machineLearning, matched_slug: 'machine-learning' }] };
+        if (sql.includes('FROM users')) return { rows: [{ id: 'creator_123', name: 'Ada' }] };
+        if (sql.includes('COUNT(*)')) return { rows: [{ count: '2' }] };
+        if (sql.includes('FROM articles')) return { rows: [premium, { ...premium, id: 'article_2', is_premium: false }] };
+        return { rows: [] };
+      });
+
+      const landing = await service.getTagLanding('creator_123', 'machine-learning');
+
+      if (!landing || 'redirect_slug' in landing) throw new Error('Expected a landing page');
+      expect(landing.articles[0]).toEqual(expect.objectContaining({ id: 'article_1', is_preview: true }));
+      expect(landing.articles[0].content).toBeUndefined();
+      expect(landing.articles[0].content_html).not.toContain('Full premium text');
+      expect(landing.articles[1].content_html).toBe('<p>Full premium text</p>');
+    });
+
+    it('should list free articles in a premium series as previews', async () => {
+      const inSeries = {
+        id: 'article_1',
+        author_id: 'creator_123',
+        title: 'Gradient boosting, part 2',
+        content: 'Series text',
+        content_html: '<p>Series text</p>',
+        is_premium: false
+      };
+      mockPool.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('FROM tags')) return { rows: [{ ...machineLearning, matched_slug: 'machine-learning' }] };
+        if (sql.includes('FROM users')) return { rows: [{ id: 'creator_123', name: 'Ada' }] };
+        if (sql.includes('SELECT s.* FROM series s')) return { rows: [{ id: 'series_1', creator_id: 'creator_123', is_premium: true }] };
+        if (sql.includes('COUNT(*)')) return { rows: [{ count: '1' }] };
+        if (sql.includes('FROM articles')) return { rows: [inSeries] };
+        return { rows: [] };
+      });
+
+      const landing = await service.getTagLanding('creator_123', 'machine-learning');
+
+      if (!landing || 'redirect_slug' in landing) throw new Error('Expected a landing page');
+      expect(landing.articles[0]).toEqual(expect.objectContaining({ id: 'article_1', is_preview: true }));
+      expect(landing.articles[0].content_html).not.toContain('Series text');
+    });
+  });
+
+  describe('generateSlug', () => {
+    it('should give case, spacing and punctuation variants the same slug', () => {
+      expect(Tag.generateSlug('Machine Learning')).toBe('machine-learning');
+      expect(Tag.generateSlug(' machine_learning! ')).toBe('machine-learning');
+      expect(Tag.generateSlug('C++')).toBe('c');
+    });
+
+    it('should keep letters from any script and fold Latin accents', () => {
+      expect(Tag.generateSlug('การเมือง')).toBe('การเมือง');
+      expect(Tag.generateSlug('Машинное обучение')).toBe('машинное-обучение');
+      expect(Tag.generateSlug('機械学習!')).toBe('機械学習');
+      expect(Tag.generateSlug('Café Culture')).toBe('cafe-culture');
+      expect(Tag.validateName('การเมือง')).toBe(true);
+    });
+  });
+});
\ No newline at end of file
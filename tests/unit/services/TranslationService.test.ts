@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { Pool } from 'pg';
+import { TranslationService } from '../../../src/services/TranslationService';
+import { ArticleService } from '../../../src/services/ArticleService';
+
+jest.mock('uuid', () => ({ v4: () => 'generated-uuid' }));
+
+const english = {
+  id: 'article_en',
+  author_id: 'creator_123',
+  title: 'On Priors',
+  slug: 'on-priors',
+  locale: 'en',
+  status: 'published',
+  translation_group_id: 'group_1',
+  created_at: new Date('2025-01-01T00:00:00Z')
+};
+
+const thai = {
+  id: 'article_th',
+  author_id: 'creator_123',
+  title: 'ว่าด้วย Prior',
+  slug: 'on-priors-th',
+  locale: 'th',
+  status: 'published',
+  translation_group_id: 'group_1',
+  created_at: new Date('2025-02-01T00:00:00Z')
+};
+
+describe('TranslationService', () => {
+  let mockPool: { query: jest.Mock<(...args: any[]) => Promise<any>> };
+  let service: TranslationService;
+
+  beforeEach(() => {
+    process.env.FRONTEND_URL = 'https://frogtales.com';
+    mockPool = { query: jest.fn() };
+    service = new TranslationService(mockPool as unknown as Pool);
+  });
+
+  describe('parseAcceptLanguage', () => {
+    it('should order languages by quality and drop refused ones', () => {
+      expect(TranslationService.parseAcceptLanguage('en;q=0.5, th-th, fr;q=0, *;q=0.1')).toEqual([
+        { locale: 'th-TH', q: 1 },
+        { locale: 'en', q: 0.5 },
+        { locale: '*', q: 0.1 }
+      ]);
+    });
+  });
+
+  describe('negotiate', () => {
+    it('should prefer an exact tag and fall back to the same language', () => {
+      expect(TranslationService.negotiate(['en', 'th'], [{ locale: 'th-TH', q: 1 }])).toBe('th');
+      expect(TranslationService.negotiate(['en-GB', 'en'], [{ locale: 'en', q: 1 }])).toBe('en');
+      expect(TranslationService.negotiate(['en'], [{ locale: 'de', q: 1 }])).toBeNull();
+    });
+  });
+
+  describe('selectForReader', () => {
+    it('should switch to a translation only when the reader does not accept the language', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [english, thai] });
+
+      expect(await service.selectForReader(thai as any, { acceptLanguage: 'en-US,en;q=0.9' })).toBe('article_en');
+      expect(await service.selectForReader(thai as any, { acceptLanguage: 'en-US,th;q=0.5' })).toBeNull();
+      expect(mockPool.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should honour an explicit locale over the header', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [english, thai] });
+
+      expect(await service.selectForReader(english as any, { locale: 'th', acceptLanguage: 'en' })).toBe('article_th');
+    });
+
+    it('should not serve an unpublished translation', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [english, { ...thai, status: 'draft' }] });
+
+      expect(await service.selectForReader(english as any, { locale: 'th' })).toBeNull();
+    });
+  });
+
+  describe('linkTranslation', () => {
+    it('should refuse a second article in a locale the group already has', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [english] })
+        .mockResolvedValueOnce({ rows: [{ ...thai, id: 'article_th_2', translation_group_id: null }] })
+        .mockResolvedValueOnce({ rows: [english, thai] });
+
+      await expect(service.linkTranslation('article_en', 'article_th_2', 'creator_123'))
+        .rejects.toThrow('A th translation already exists');
+      expect(mockPool.query).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('translationSlug', () => {
+    it('should fall back to the original slug with the locale when the title gives none', () => {
+      const taken = new Set(['on-priors', 'on-priors-th']);
+
+      expect(TranslationService.translationSlug('on-priors', thai.title, 'th', taken)).toBe('prior');
+      expect(TranslationService.translationSlug('on-priors', 'ว่าด้วย', 'th', taken)).toBe('on-priors-th-2');
+      expect(TranslationService.translationSlug('on-priors', 'On Priors', 'en-GB', taken)).toBe('on-priors-en-gb');
+    });
+  });
+
+  describe('hreflang alternates', () => {
+    it('should list published translations with the original as x-default', () => {
+      const alternates = ArticleService.buildAlternates(thai as any, [english, thai, { ...english, id: 'article_de', locale: 'de', status: 'draft' }] as any);
+
+      expect(alternates).toEqual([
+        { hreflang: 'en', href: 'https://frogtales.com/articles/creator_123/on-priors' },
+        { hreflang: 'th', href: 'https://frogtales.com/articles/creator_123/on-priors-th' },
+        { hreflang: 'x-default', href: 'https://frogtales.com/articles/creator_123/on-priors' }
+      ]);
+    });
+  });
+});
\ No newline at end of file